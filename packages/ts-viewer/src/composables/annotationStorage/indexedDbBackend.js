@@ -0,0 +1,75 @@
+// composables/annotationStorage/indexedDbBackend.js
+// IndexedDB backend for local annotation storage.
+// Wraps the raw IndexedDB API in promise-based helpers; one object store per table,
+// keyed by record id, with an index on each field records are listed by.
+
+const DB_VERSION = 1
+
+const TABLE_INDEXES = {
+    layers: ['scope'],
+    annotations: ['scope', 'layerId']
+}
+
+function openDatabase(dbName) {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+            const db = request.result
+            for (const [table, indexes] of Object.entries(TABLE_INDEXES)) {
+                if (!db.objectStoreNames.contains(table)) {
+                    const store = db.createObjectStore(table, { keyPath: 'id' })
+                    for (const field of indexes) {
+                        store.createIndex(field, field)
+                    }
+                }
+            }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function requestResult(request) {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+/**
+ * Opens the database on first use, so creating the backend costs nothing until an
+ * annotation is actually read or written.
+ *
+ * @param {string} [dbName]
+ * @returns {import('./localAnnotationStorage').LocalAnnotationBackend}
+ */
+export function createIndexedDbBackend(dbName = 'tsviewer-annotations') {
+    let dbPromise = null
+    const database = () => {
+        if (!dbPromise) {
+            dbPromise = openDatabase(dbName).catch((error) => {
+                // Let a later call retry, e.g. after the user leaves private browsing
+                dbPromise = null
+                throw error
+            })
+        }
+        return dbPromise
+    }
+
+    const objectStore = async (table, mode) => (await database()).transaction(table, mode).objectStore(table)
+
+    return {
+        list: async (table, field, value) =>
+            requestResult((await objectStore(table, 'readonly')).index(field).getAll(value)),
+        get: async (table, id) =>
+            (await requestResult((await objectStore(table, 'readonly')).get(id))) ?? null,
+        put: async (table, record) => {
+            await requestResult((await objectStore(table, 'readwrite')).put(record))
+        },
+        remove: async (table, id) => {
+            await requestResult((await objectStore(table, 'readwrite')).delete(id))
+        }
+    }
+}
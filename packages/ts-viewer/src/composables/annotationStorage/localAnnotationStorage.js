@@ -0,0 +1,214 @@
+// composables/annotationStorage/localAnnotationStorage.js
+//
+// Annotation storage kept in the browser, for bundles opened without the Pennsieve API.
+// Records live in two tables of a small key-value backend:
+//
+//   layers:      { id, scope, name, color, description, createdAt }
+//   annotations: { id, scope, layerId, label, description, start, end, channelIds, userId, createdAt }
+//
+// `scope` is the key of the recording (see scopeOf); `layerId` and `scope` are the two
+// fields the backend must be able to list by.
+
+let idCounter = 0
+
+/**
+ * A new record id. Prefixed so a local id is never mistaken for a server one when the
+ * work is later synced.
+ */
+const newId = () => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return `local-${crypto.randomUUID()}`
+    }
+    idCounter += 1
+    return `local-${Date.now().toString(36)}-${idCounter.toString(36)}`
+}
+
+const byStart = (a, b) => a.start - b.start
+
+const layerOut = ({ id, name, color, description }) => ({ id, name, color, description })
+
+const annotationOut = ({ id, layerId, label, description, start, end, channelIds, userId }) => ({
+    id, layerId, label, name: label, description, start, end, channelIds, userId
+})
+
+/**
+ * Key-value backend held in memory. Used when IndexedDB is unavailable and by tests;
+ * nothing survives a reload.
+ *
+ * @returns {LocalAnnotationBackend}
+ */
+export function createMemoryBackend() {
+    const tables = { layers: new Map(), annotations: new Map() }
+    return {
+        list: async (table, field, value) => [...tables[table].values()]
+            .filter(record => record[field] === value)
+            .map(record => ({ ...record })),
+        get: async (table, id) => {
+            const record = tables[table].get(id)
+            return record ? { ...record } : null
+        },
+        put: async (table, record) => {
+            tables[table].set(record.id, { ...record })
+        },
+        remove: async (table, id) => {
+            tables[table].delete(id)
+        }
+    }
+}
+
+/**
+ * @typedef {object} LocalAnnotationBackend
+ * @property {(table: 'layers'|'annotations', field: 'scope'|'layerId', value: string) => Promise<object[]>} list
+ * @property {(table: 'layers'|'annotations', id: string) => Promise<?object>} get
+ * @property {(table: 'layers'|'annotations', record: object) => Promise<void>} put
+ * @property {(table: 'layers'|'annotations', id: string) => Promise<void>} remove
+ */
+
+/**
+ * Annotation storage over a {@link LocalAnnotationBackend}. Answers in the same JSON shapes
+ * as the Pennsieve API, so the composables map local and remote results with the same code.
+ *
+ * A recording is keyed by its package id when it has one, and otherwise by its bundle url
+ * without the signature, so a public bundle keeps its annotations across signed-url renewals.
+ *
+ * @param {LocalAnnotationBackend} backend
+ * @returns {import('./storageRegistry').AnnotationStorage}
+ */
+export function createLocalAnnotationStorage(backend) {
+    const requireLayer = async (scope, layerId) => {
+        const layer = await backend.get('layers', layerId)
+        if (!layer || layer.scope !== scope) {
+            throw new Error(`Annotation layer ${layerId} does not exist`)
+        }
+        return layer
+    }
+
+    const requireAnnotation = async (scope, layerId, annotationId) => {
+        const annotation = await backend.get('annotations', annotationId)
+        if (!annotation || annotation.scope !== scope || annotation.layerId !== layerId) {
+            throw new Error(`Annotation ${annotationId} does not exist`)
+        }
+        return annotation
+    }
+
+    const overlapping = async (layerId, start, end) =>
+        (await backend.list('annotations', 'layerId', layerId))
+            .filter(annotation => annotation.end >= start && annotation.start <= end)
+            .sort(byStart)
+
+    return {
+        kind: 'local',
+
+        scopeOf: (content) => {
+            if (content?.id) return content.id
+            if (!content?.url) return null
+            const mark = content.url.indexOf('?')
+            return (mark === -1 ? content.url : content.url.slice(0, mark)).replace(/\/$/, '')
+        },
+
+        listLayers: async (scope) => {
+            const layers = await backend.list('layers', 'scope', scope)
+            return { results: layers.sort((a, b) => a.createdAt - b.createdAt).map(layerOut) }
+        },
+
+        createLayer: async (scope, layer) => {
+            const record = {
+                id: newId(),
+                scope,
+                name: layer.name,
+                color: layer.color,
+                description: layer.description || '',
+                createdAt: Date.now()
+            }
+            await backend.put('layers', record)
+            return layerOut(record)
+        },
+
+        updateLayer: async (scope, layerId, changes) => {
+            const record = { ...(await requireLayer(scope, layerId)), ...changes, id: layerId, scope }
+            await backend.put('layers', record)
+            return layerOut(record)
+        },
+
+        deleteLayer: async (scope, layerId) => {
+            await requireLayer(scope, layerId)
+            for (const annotation of await backend.list('annotations', 'layerId', layerId)) {
+                await backend.remove('annotations', annotation.id)
+            }
+            await backend.remove('layers', layerId)
+        },
+
+        listAnnotations: async (scope, layerId, { start, end, limit = Infinity }) => {
+            const annotations = (await overlapping(layerId, start, end)).slice(0, limit)
+            return { annotations: { results: annotations.map(annotationOut) }, linkedPackages: {} }
+        },
+
+        // Mirrors the API's count window with mergePeriods: runs of non-empty periods merge
+        countAnnotations: async (scope, layerIds, { start, end, period }) => {
+            const counts = {}
+            const bins = Math.max(1, Math.ceil((end - start) / period))
+            for (const layerId of layerIds) {
+                const values = new Array(bins).fill(0)
+                for (const annotation of await overlapping(layerId, start, end)) {
+                    const first = Math.min(bins - 1, Math.max(0, Math.floor((annotation.start - start) / period)))
+                    // Periods are half-open, so a span ending on a boundary stays out of the next one
+                    const last = annotation.end > annotation.start
+                        ? Math.min(bins - 1, Math.ceil((annotation.end - start) / period) - 1)
+                        : first
+                    for (let bin = first; bin <= last; bin++) values[bin] += 1
+                }
+                const runs = []
+                values.forEach((value, bin) => {
+                    if (value === 0) return
+                    const binStart = start + bin * period
+                    const previous = runs[runs.length - 1]
+                    if (previous && previous.end === binStart) {
+                        previous.end = binStart + period
+                        previous.value += value
+                    } else {
+                        runs.push({ start: binStart, end: binStart + period, value })
+                    }
+                })
+                counts[layerId] = runs
+            }
+            return counts
+        },
+
+        createAnnotation: async (scope, layerId, annotation) => {
+            await requireLayer(scope, layerId)
+            const record = {
+                id: newId(),
+                scope,
+                layerId,
+                label: annotation.label,
+                description: annotation.description || '',
+                start: annotation.start,
+                end: annotation.end,
+                channelIds: annotation.channelIds || [],
+                userId: null,
+                createdAt: Date.now()
+            }
+            await backend.put('annotations', record)
+            return annotationOut(record)
+        },
+
+        updateAnnotation: async (scope, layerId, annotationId, annotation) => {
+            const existing = await requireAnnotation(scope, layerId, annotationId)
+            const record = {
+                ...existing,
+                label: annotation.label,
+                description: annotation.description || '',
+                start: annotation.start,
+                end: annotation.end,
+                channelIds: annotation.channelIds || []
+            }
+            await backend.put('annotations', record)
+            return annotationOut(record)
+        },
+
+        deleteAnnotation: async (scope, layerId, annotationId) => {
+            await requireAnnotation(scope, layerId, annotationId)
+            await backend.remove('annotations', annotationId)
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createLocalAnnotationStorage, createMemoryBackend } from './localAnnotationStorage'
+
+const SCOPE = 'N:package:1'
+
+describe('createLocalAnnotationStorage', () => {
+    let storage
+
+    beforeEach(() => {
+        storage = createLocalAnnotationStorage(createMemoryBackend())
+    })
+
+    it('keys recordings by package id, or by the unsigned bundle url', () => {
+        expect(storage.scopeOf({ id: SCOPE, url: 'https://x/b.zarr' })).toBe(SCOPE)
+        expect(storage.scopeOf({ id: null, url: 'https://x/b.zarr/?Policy=abc&Signature=def' })).toBe('https://x/b.zarr')
+        expect(storage.scopeOf({})).toBeNull()
+        expect(storage.scopeOf(undefined)).toBeNull()
+    })
+
+    it('lists layers of one recording in creation order', async () => {
+        const first = await storage.createLayer(SCOPE, { name: 'Seizures', color: '#E94B4B', description: '' })
+        await storage.createLayer(SCOPE, { name: 'Artifacts', color: '#18BA62' })
+        await storage.createLayer('other', { name: 'Elsewhere', color: '#000000' })
+
+        expect(first.id).toMatch(/^local-/)
+        const { results } = await storage.listLayers(SCOPE)
+        expect(results.map((layer) => layer.name)).toEqual(['Seizures', 'Artifacts'])
+        expect(results[1]).toEqual({ id: expect.any(String), name: 'Artifacts', color: '#18BA62', description: '' })
+    })
+
+    it('answers annotation reads in the API shape, by overlap, sorted and limited', async () => {
+        const layer = await storage.createLayer(SCOPE, { name: 'L', color: '#000000' })
+        for (const [start, end] of [[500, 600], [100, 200], [900, 1000], [150, 160]]) {
+            await storage.createAnnotation(SCOPE, layer.id, { label: `A${start}`, start, end, channelIds: ['c1'] })
+        }
+
+        const response = await storage.listAnnotations(SCOPE, layer.id, { start: 180, end: 950 })
+        expect(response.linkedPackages).toEqual({})
+        expect(response.annotations.results.map((a) => a.label)).toEqual(['A100', 'A500', 'A900'])
+        expect(response.annotations.results[0]).toEqual({
+            id: expect.any(String), layerId: layer.id, label: 'A100', name: 'A100', description: '',
+            start: 100, end: 200, channelIds: ['c1'], userId: null
+        })
+
+        const limited = await storage.listAnnotations(SCOPE, layer.id, { start: 0, end: 2000, limit: 2 })
+        expect(limited.annotations.results.map((a) => a.label)).toEqual(['A100', 'A150'])
+    })
+
+    it('updates and deletes annotations, and refuses ones from another layer', async () => {
+        const layer = await storage.createLayer(SCOPE, { name: 'L', color: '#000000' })
+        const other = await storage.createLayer(SCOPE, { name: 'M', color: '#000000' })
+        const created = await storage.createAnnotation(SCOPE, layer.id, { label: 'A', start: 0, end: 10 })
+
+        const updated = await storage.updateAnnotation(SCOPE, layer.id, created.id, { label: 'B', description: 'd', start: 5, end: 15, channelIds: [] })
+        expect(updated).toMatchObject({ id: created.id, label: 'B', description: 'd', start: 5, end: 15 })
+
+        await expect(storage.deleteAnnotation(SCOPE, other.id, created.id)).rejects.toThrow(/does not exist/)
+        await storage.deleteAnnotation(SCOPE, layer.id, created.id)
+        const { annotations } = await storage.listAnnotations(SCOPE, layer.id, { start: 0, end: 100 })
+        expect(annotations.results).toEqual([])
+    })
+
+    it('deletes a layer with its annotations and rejects writes to missing layers', async () => {
+        const layer = await storage.createLayer(SCOPE, { name: 'L', color: '#000000' })
+        await storage.createAnnotation(SCOPE, layer.id, { label: 'A', start: 0, end: 10 })
+        await storage.deleteLayer(SCOPE, layer.id)
+
+        expect((await storage.listLayers(SCOPE)).results).toEqual([])
+        expect((await storage.listAnnotations(SCOPE, layer.id, { start: 0, end: 100 })).annotations.results).toEqual([])
+        await expect(storage.createAnnotation(SCOPE, layer.id, { label: 'A', start: 0, end: 1 })).rejects.toThrow(/does not exist/)
+        await expect(storage.updateLayer('other', layer.id, { color: '#ffffff' })).rejects.toThrow(/does not exist/)
+    })
+
+    it('counts annotations per period and merges adjacent non-empty periods', async () => {
+        const layer = await storage.createLayer(SCOPE, { name: 'L', color: '#000000' })
+        await storage.createAnnotation(SCOPE, layer.id, { label: 'A', start: 10, end: 30 })
+        await storage.createAnnotation(SCOPE, layer.id, { label: 'B', start: 15, end: 15 })
+        await storage.createAnnotation(SCOPE, layer.id, { label: 'C', start: 75, end: 80 })
+
+        const counts = await storage.countAnnotations(SCOPE, [layer.id], { start: 0, end: 100, period: 10 })
+        expect(counts).toEqual({
+            [layer.id]: [
+                { start: 10, end: 30, value: 3 },
+                { start: 70, end: 80, value: 1 }
+            ]
+        })
+    })
+})
@@ -0,0 +1,56 @@
+// composables/annotationStorage/pagedAnnotations.js
+//
+// Reading a whole layer from storages that answer a page of annotations at a time.
+
+/** Annotations asked for per page by {@link listLayerAnnotations}. */
+const ANNOTATION_PAGE_SIZE = 500
+
+/**
+ * Every annotation of one layer over `[start, end]`, read a page at a time for storages
+ * that cap a reply at `limit`. A full page is followed by one starting just after the
+ * latest start in it. Storages answer the annotations overlapping a range, so the next page
+ * repeats those spanning its start: repeats are dropped by id, and the reading ends on a page
+ * with nothing new, as when more than a page of annotations span one time.
+ *
+ * @param {import('./storageRegistry').AnnotationStorage} storage
+ * @param {string} scope
+ * @param {string} layerId
+ * @param {{start: number, end: number}} range
+ * @param {{until?: (annotations: object[]) => boolean}} [options] `until` stops the reading
+ *   early once it holds for the annotations read so far.
+ * @returns {Promise<object[]>}
+ */
+export async function listLayerAnnotations(storage, scope, layerId, { start, end }, { until = () => false } = {}) {
+    const annotations = []
+    const seen = new Set()
+    let from = start
+    for (;;) {
+        const response = await storage.listAnnotations(scope, layerId, { start: from, end, limit: ANNOTATION_PAGE_SIZE })
+        const page = response?.annotations?.results ?? []
+        const added = page.filter((annotation) => !seen.has(annotation.id))
+        added.forEach((annotation) => seen.add(annotation.id))
+        annotations.push(...added)
+        if (page.length < ANNOTATION_PAGE_SIZE || added.length === 0 || until(annotations)) {
+            return annotations
+        }
+        from = Math.max(...page.map((annotation) => annotation.start)) + 1
+    }
+}
+
+/**
+ * Viewer layers with every annotation storage holds for them over `[start, end]`, rather
+ * than those the viewer has loaded around the viewport; for exporting whole layers.
+ *
+ * @param {import('./storageRegistry').AnnotationStorage} storage
+ * @param {string} scope
+ * @param {Array<{id: string}>} layers `viewerAnnotations` entries.
+ * @param {{start: number, end: number}} range
+ * @returns {Promise<object[]>} Copies of `layers`, each with its stored annotations.
+ */
+export async function readWholeLayers(storage, scope, layers, range) {
+    const whole = []
+    for (const layer of layers) {
+        whole.push({ ...layer, annotations: await listLayerAnnotations(storage, scope, layer.id, range) })
+    }
+    return whole
+}
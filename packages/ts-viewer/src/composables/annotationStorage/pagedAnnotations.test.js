@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { createLocalAnnotationStorage, createMemoryBackend } from './localAnnotationStorage'
+import { listLayerAnnotations, readWholeLayers } from './pagedAnnotations'
+import { collectLayers } from '@/utils/annotationFormats'
+
+// Storage holding `count` annotations one microsecond apart and `duration` long, answering
+// those overlapping a range, at most `limit` at a time
+const pagedStorage = (count, duration = 0) => {
+    const annotations = Array.from({ length: count }, (_, i) => ({ id: `a${i}`, start: i, end: i + duration }))
+    const requests = []
+    return {
+        requests,
+        listAnnotations: async (scope, layerId, { start, end, limit }) => {
+            requests.push({ start, end, limit })
+            const results = annotations.filter((annotation) => annotation.end >= start && annotation.start <= end)
+            return { annotations: { results: results.slice(0, limit) } }
+        }
+    }
+}
+
+describe('listLayerAnnotations', () => {
+    it('reads every page of a layer', async () => {
+        const storage = pagedStorage(1200)
+        const annotations = await listLayerAnnotations(storage, 'scope', 'layer', { start: 0, end: 5000 })
+        expect(annotations.map((annotation) => annotation.start)).toEqual(Array.from({ length: 1200 }, (_, i) => i))
+        expect(storage.requests.map((request) => request.start)).toEqual([0, 500, 1000])
+    })
+
+    it('stops once `until` holds', async () => {
+        const storage = pagedStorage(1200)
+        const annotations = await listLayerAnnotations(storage, 'scope', 'layer', { start: 0, end: 5000 }, {
+            until: (read) => read.length > 400
+        })
+        expect(annotations).toHaveLength(500)
+        expect(storage.requests).toHaveLength(1)
+    })
+
+    it('reads annotations spanning a page boundary once', async () => {
+        const storage = pagedStorage(960, 10)
+        const annotations = await listLayerAnnotations(storage, 'scope', 'layer', { start: 0, end: 5000 })
+        expect(annotations).toHaveLength(960)
+        expect(new Set(annotations.map((annotation) => annotation.id)).size).toBe(960)
+    })
+
+    it('ends when more than a page of annotations span the next start', async () => {
+        const storage = pagedStorage(600, 10000)
+        const annotations = await listLayerAnnotations(storage, 'scope', 'layer', { start: 0, end: 5000 })
+        expect(annotations).toHaveLength(500)
+        expect(storage.requests).toHaveLength(2)
+    })
+})
+
+describe('readWholeLayers', () => {
+    it('exports a layer with annotations before the viewport', async () => {
+        const storage = createLocalAnnotationStorage(createMemoryBackend())
+        const stored = await storage.createLayer('scope', { name: 'Seizures', color: '#E94B4B' })
+        for (const [start, end] of [[100, 200], [5000, 5400], [9000, 9000]]) {
+            await storage.createAnnotation('scope', stored.id, { label: `A${start}`, start, end, channelIds: ['c1'] })
+        }
+        // The viewer has loaded only what lies from its viewport onward
+        const viewerLayer = { id: stored.id, name: 'Seizures', hexColor: '#E94B4B', annotations: [{ label: 'A9000', start: 9000, duration: 0 }] }
+
+        const [layer] = await readWholeLayers(storage, 'scope', [viewerLayer], { start: 0, end: 10000 })
+        expect(layer).toMatchObject({ id: stored.id, name: 'Seizures', hexColor: '#E94B4B' })
+        const [exported] = collectLayers([layer], new Map([['c1', 'Fp1']]))
+        expect(exported.annotations.map((a) => [a.label, a.startUs, a.durationUs, a.channels])).toEqual([
+            ['A100', 100, 100, ['Fp1']],
+            ['A5000', 5000, 400, ['Fp1']],
+            ['A9000', 9000, 0, ['Fp1']]
+        ])
+    })
+})
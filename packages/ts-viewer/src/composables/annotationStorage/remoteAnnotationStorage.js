@@ -0,0 +1,109 @@
+// composables/annotationStorage/remoteAnnotationStorage.js
+import { useToken } from '@/composables/useToken'
+import { useSendXhr } from '@/mixins/request/request_composable'
+
+/**
+ * Annotation storage backed by the Pennsieve API's `/timeseries/{id}/layers` endpoints.
+ *
+ * This is the viewer's original behaviour, moved behind the storage interface unchanged:
+ * layer requests go through `useSendXhr`, annotation requests through `fetch`, and both
+ * throw on failure for the calling composable to report.
+ *
+ * @param {() => string} getApiUrl Reads the API base url; called per request, since the
+ *   host may set it after the viewer mounts.
+ * @returns {import('./storageRegistry').AnnotationStorage}
+ */
+export function createRemoteAnnotationStorage(getApiUrl) {
+    const layersUrl = async (scope, layerId = null) => {
+        const token = await useToken()
+        const layer = layerId === null ? '' : `/${layerId}`
+        return `${getApiUrl()}/timeseries/${scope}/layers${layer}?api_key=${token}`
+    }
+
+    const annotationsUrl = (scope, layerId, annotationId = null) => {
+        const annotation = annotationId === null ? '' : `/${annotationId}`
+        return `${getApiUrl()}/timeseries/${scope}/layers/${layerId}/annotations${annotation}`
+    }
+
+    // fetch does not reject on HTTP errors, so turn them into exceptions here
+    const send = async (url, init) => {
+        const token = await useToken()
+        const response = await fetch(`${url}?api_key=${token}`, init)
+        if (!response.ok) {
+            const errorText = await response.text()
+            throw new Error(`HTTP ${response.status}: ${errorText}`)
+        }
+        return response
+    }
+
+    const jsonBody = (method, body) => ({
+        method,
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json'
+        },
+        body: JSON.stringify(body)
+    })
+
+    return {
+        kind: 'remote',
+
+        scopeOf: (content) => content?.id || null,
+
+        listLayers: async (scope) => useSendXhr(await layersUrl(scope)),
+
+        createLayer: async (scope, layer) => useSendXhr(await layersUrl(scope), {
+            method: 'POST',
+            body: layer
+        }),
+
+        updateLayer: async (scope, layerId, changes) => useSendXhr(await layersUrl(scope, layerId), {
+            method: 'PUT',
+            body: changes
+        }),
+
+        deleteLayer: async (scope, layerId) => {
+            await useSendXhr(await layersUrl(scope, layerId), { method: 'DELETE' })
+        },
+
+        listAnnotations: async (scope, layerId, { start, end, limit }) => {
+            const token = await useToken()
+            const params = { id: scope, start, end, layerId, limit }
+            const urlParams = Object.keys(params).map(k => `&${k}=${params[k]}`).join('')
+            const response = await fetch(`${annotationsUrl(scope, layerId)}?api_key=${token}${urlParams}`, {
+                method: 'GET',
+                headers: { 'Content-type': 'application/json' }
+            })
+            if (response.status >= 400) {
+                throw new Error(response.status)
+            }
+            return response.json()
+        },
+
+        countAnnotations: async (scope, layerIds, { start, end, period }) => {
+            const token = await useToken()
+            let url = `${getApiUrl()}/timeseries/${scope}/annotations/window?api_key=${token}&aggregation=count&start=${start}&end=${end}&period=${period}&mergePeriods=true`
+            for (const layerId of layerIds) {
+                url = url + `&layerIds=${layerId}`
+            }
+            return useSendXhr(url)
+        },
+
+        createAnnotation: async (scope, layerId, annotation) => {
+            const response = await send(annotationsUrl(scope, layerId), jsonBody('POST', annotation))
+            return response.json()
+        },
+
+        updateAnnotation: async (scope, layerId, annotationId, annotation) => {
+            const response = await send(annotationsUrl(scope, layerId, annotationId), jsonBody('PUT', annotation))
+            return response.json()
+        },
+
+        deleteAnnotation: async (scope, layerId, annotationId) => {
+            await send(annotationsUrl(scope, layerId, annotationId), {
+                method: 'DELETE',
+                headers: { 'Accept': 'application/json' }
+            })
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { isZarrAssetType } from '@/composables/streaming/assetTypes'
+import { createRemoteAnnotationStorage } from './remoteAnnotationStorage'
+import { createLocalAnnotationStorage, createMemoryBackend } from './localAnnotationStorage'
+import { createIndexedDbBackend } from './indexedDbBackend'
+
+/**
+ * Where a viewer's annotation layers and annotations are read and written.
+ *
+ * Every method takes the recording's `scope`, from `scopeOf`, and answers in the JSON
+ * shapes of the Pennsieve API's `/timeseries/{id}/layers` endpoints; `useAnnotationData`,
+ * `useAnnotationLayers` and `useTsAnnotation` map those into store state whichever
+ * storage answered. Methods reject on failure.
+ *
+ * @typedef {object} AnnotationStorage
+ * @property {'remote'|'local'|string} kind
+ * @property {(content: object) => ?string} scopeOf Key of the recording in `activeViewer.content`,
+ *   or null when this storage cannot hold its annotations.
+ * @property {(scope: string) => Promise<{results: object[]}>} listLayers
+ * @property {(scope: string, layer: {name: string, color: string, description: string}) => Promise<object>} createLayer
+ * @property {(scope: string, layerId: string, changes: object) => Promise<object>} updateLayer
+ * @property {(scope: string, layerId: string) => Promise<void>} deleteLayer Also deletes the layer's annotations.
+ * @property {(scope: string, layerId: string, range: {start: number, end: number, limit?: number}) => Promise<{annotations: {results: object[]}, linkedPackages?: object}>} listAnnotations
+ * @property {(scope: string, layerIds: string[], window: {start: number, end: number, period: number}) => Promise<Object<string, Array<{start: number, end: number, value: number}>>>} countAnnotations
+ * @property {(scope: string, layerId: string, annotation: object) => Promise<object>} createAnnotation
+ * @property {(scope: string, layerId: string, annotationId: string, annotation: object) => Promise<object>} updateAnnotation
+ * @property {(scope: string, layerId: string, annotationId: string) => Promise<void>} deleteAnnotation
+ */
+
+/**
+ * Storage set by the host, keyed by the viewer store's id. Module-level rather than store
+ * state for the same reason as the streaming client registry: a host's storage may hold
+ * objects (database handles, classes with private fields) that break behind Pinia's proxy.
+ *
+ * @type {Map<string, AnnotationStorage>}
+ */
+const overrides = new Map()
+
+let sharedLocalStorage = null
+
+/**
+ * The browser-local storage, shared by every viewer on the page. Kept in IndexedDB, or in
+ * memory where IndexedDB does not exist.
+ *
+ * @returns {AnnotationStorage}
+ */
+export function localAnnotationStorage() {
+    if (!sharedLocalStorage) {
+        const backend = typeof indexedDB === 'undefined' ? createMemoryBackend() : createIndexedDbBackend()
+        sharedLocalStorage = createLocalAnnotationStorage(backend)
+    }
+    return sharedLocalStorage
+}
+
+/**
+ * Replaces the storage of one viewer instance, or restores the default with null. The
+ * override outlives `clearViewerStore`; a host that sets one clears it when it is done.
+ *
+ * @param {string} storeId The viewer store's id (`viewerStore.$id`, `tsviewer-<instanceId>`).
+ * @param {?AnnotationStorage} storage
+ */
+export function setAnnotationStorage(storeId, storage) {
+    if (storage) {
+        overrides.set(storeId, storage)
+    } else {
+        overrides.delete(storeId)
+    }
+}
+
+/**
+ * The storage a viewer uses: the host's override if one is set, otherwise what
+ * `config.annotationStorage` names (`'remote'` or `'local'`), otherwise local for a
+ * `timeseries-zarr` bundle -- opened without an API token -- and remote for everything else.
+ *
+ * @param {object} viewerStore
+ * @returns {AnnotationStorage}
+ */
+export function annotationStorageFor(viewerStore) {
+    const override = overrides.get(viewerStore.$id)
+    if (override) return override
+
+    const mode = viewerStore.config?.annotationStorage
+    const local = mode === 'local' ||
+        (mode !== 'remote' && isZarrAssetType(viewerStore.activeViewer?.content?.assetType))
+    return local
+        ? localAnnotationStorage()
+        : createRemoteAnnotationStorage(() => viewerStore.config.apiUrl)
+}
+
+/**
+ * Copies every layer of one recording into another storage, as new layers: for instance
+ * from local storage to the API once a bundle has been uploaded as a package.
+ *
+ * Reads the source one layer at a time over `[start, end]` in a single request, so the
+ * source should be one that does not page its results, such as local storage.
+ *
+ * @param {AnnotationStorage} source
+ * @param {AnnotationStorage} target
+ * @param {{fromScope: string, toScope: string, start: number, end: number}} range
+ * @returns {Promise<{layers: number, annotations: number}>}
+ */
+export async function copyAnnotations(source, target, { fromScope, toScope, start, end }) {
+    const copied = { layers: 0, annotations: 0 }
+    const { results: layers } = await source.listLayers(fromScope)
+    for (const layer of layers) {
+        const created = await target.createLayer(toScope, {
+            name: layer.name,
+            color: layer.color,
+            description: layer.description
+        })
+        copied.layers += 1
+
+        const response = await source.listAnnotations(fromScope, layer.id, { start, end })
+        for (const annotation of response?.annotations?.results ?? []) {
+            await target.createAnnotation(toScope, created.id, {
+                label: annotation.label,
+                name: annotation.label,
+                description: annotation.description || '',
+                start: annotation.start,
+                end: annotation.end,
+                channelIds: annotation.channelIds || []
+            })
+            copied.annotations += 1
+        }
+    }
+    return copied
+}
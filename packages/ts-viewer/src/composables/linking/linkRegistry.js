@@ -0,0 +1,181 @@
+// composables/linking/linkRegistry.js
+import { effectScope, watch } from 'vue'
+import { createViewerStore } from '@/stores/tsviewer'
+import { LINK_ALIGNMENTS, linkAnchor, mapViewport, matchAnnotation, viewportDiffers } from '@/utils/viewerLinks'
+
+/**
+ * Link groups, keyed by group id. Module-level, like the streaming client registry, because a
+ * group spans several viewer stores and belongs to none of them.
+ *
+ * @type {Map<string, {alignment: 'absolute'|'recording', syncAnnotations: boolean, members: Map<string, {instanceId: string, store: object, offsetUs: number, scope: import('vue').EffectScope}>}>}
+ */
+const groups = new Map()
+
+/** Group id of each linked viewer, by instance id. */
+const memberships = new Map()
+
+// Set while one viewer's move is written to the others, so their stores' watchers do not
+// send it straight back. Watchers run with flush 'sync' for this to hold.
+let propagating = false
+
+const isReady = (store) => store.viewport.duration > 0
+
+function publish(groupId) {
+    const group = groups.get(groupId)
+    if (!group) return
+    const instanceIds = [...group.members.keys()]
+    for (const member of group.members.values()) {
+        member.store.setLinkGroup({
+            id: groupId,
+            alignment: group.alignment,
+            syncAnnotations: group.syncAnnotations,
+            offsetUs: member.offsetUs,
+            members: instanceIds
+        })
+    }
+}
+
+function moveTo(group, source, target) {
+    const next = mapViewport(source.store.viewport, source, target.store.viewport, target, group.alignment)
+    if (viewportDiffers(target.store.viewport, next)) {
+        target.store.setViewport(next)
+    }
+}
+
+function propagate(run) {
+    if (propagating) return
+    propagating = true
+    try {
+        run()
+    } finally {
+        propagating = false
+    }
+}
+
+// A viewer moved: move every other ready viewer in its group to match
+function follow(group, source) {
+    if (!isReady(source.store)) return
+    propagate(() => {
+        for (const member of group.members.values()) {
+            if (member !== source && isReady(member.store)) {
+                moveTo(group, source, member)
+            }
+        }
+    })
+}
+
+// A viewer joined or opened another recording: it takes the group's position rather than
+// dragging the group to its own opening page
+function adopt(group, target) {
+    const source = [...group.members.values()].find(member => member !== target && isReady(member.store))
+    if (!source || !isReady(target.store)) return
+    propagate(() => moveTo(group, source, target))
+}
+
+function followAnnotation(group, source, annotation) {
+    if (!group.syncAnnotations || !annotation?.id) return
+    propagate(() => {
+        const sourceAnchor = linkAnchor(source.store.viewport, source, group.alignment)
+        for (const member of group.members.values()) {
+            if (member === source) continue
+            const shift = linkAnchor(member.store.viewport, member, group.alignment) - sourceAnchor
+            const match = matchAnnotation(annotation, member.store.viewerAnnotations, shift)
+            if (match && member.store.activeAnnotation?.id !== match.id) {
+                member.store.setActiveAnnotation(match)
+                member.store.triggerRerender('linked-annotation')
+            }
+        }
+    })
+}
+
+/**
+ * Adds a viewer to a link group, creating the group on first use, and moves it to the
+ * group's current position. A viewer is in at most one group; joining another leaves the
+ * first. `alignment` and `syncAnnotations` apply to the whole group, `offsetUs` to this
+ * viewer alone.
+ *
+ * @param {string} instanceId
+ * @param {string} groupId
+ * @param {{alignment?: 'absolute'|'recording', syncAnnotations?: boolean, offsetUs?: number}} [options]
+ */
+export function joinLinkGroup(instanceId, groupId, { alignment, syncAnnotations, offsetUs = 0 } = {}) {
+    if (alignment !== undefined && !LINK_ALIGNMENTS.includes(alignment)) {
+        throw new Error(`Unknown link alignment: ${alignment}`)
+    }
+    if (memberships.has(instanceId)) {
+        leaveLinkGroup(instanceId)
+    }
+
+    let group = groups.get(groupId)
+    if (!group) {
+        group = { alignment: 'absolute', syncAnnotations: false, members: new Map() }
+        groups.set(groupId, group)
+    }
+    if (alignment !== undefined) group.alignment = alignment
+    if (syncAnnotations !== undefined) group.syncAnnotations = Boolean(syncAnnotations)
+
+    const store = createViewerStore(instanceId)
+    const member = { instanceId, store, offsetUs, scope: effectScope(true) }
+    member.scope.run(() => {
+        watch(() => store.viewport, (viewport, previous) => {
+            if (viewport.recordingStart !== previous?.recordingStart) {
+                adopt(group, member)
+            } else {
+                follow(group, member)
+            }
+        }, { flush: 'sync' })
+        watch(() => store.activeAnnotation, (annotation) => followAnnotation(group, member, annotation), { flush: 'sync' })
+    })
+
+    group.members.set(instanceId, member)
+    memberships.set(instanceId, groupId)
+    publish(groupId)
+    adopt(group, member)
+}
+
+/**
+ * Removes a viewer from its link group, if it is in one. TSViewer calls this on unmount.
+ *
+ * @param {string} instanceId
+ */
+export function leaveLinkGroup(instanceId) {
+    const groupId = memberships.get(instanceId)
+    if (groupId === undefined) return
+    const group = groups.get(groupId)
+    const member = group.members.get(instanceId)
+
+    member.scope.stop()
+    member.store.setLinkGroup(null)
+    group.members.delete(instanceId)
+    memberships.delete(instanceId)
+    if (group.members.size === 0) {
+        groups.delete(groupId)
+    } else {
+        publish(groupId)
+    }
+}
+
+/**
+ * Changes a linked viewer's settings without leaving its group. Alignment and annotation
+ * syncing change for the whole group.
+ *
+ * @param {string} instanceId
+ * @param {{alignment?: 'absolute'|'recording', syncAnnotations?: boolean, offsetUs?: number}} options
+ */
+export function updateLinkGroup(instanceId, { alignment, syncAnnotations, offsetUs } = {}) {
+    const groupId = memberships.get(instanceId)
+    if (groupId === undefined) {
+        throw new Error(`Viewer ${instanceId} is not in a link group`)
+    }
+    if (alignment !== undefined && !LINK_ALIGNMENTS.includes(alignment)) {
+        throw new Error(`Unknown link alignment: ${alignment}`)
+    }
+    const group = groups.get(groupId)
+    const member = group.members.get(instanceId)
+    if (alignment !== undefined) group.alignment = alignment
+    if (syncAnnotations !== undefined) group.syncAnnotations = Boolean(syncAnnotations)
+    if (offsetUs !== undefined) member.offsetUs = offsetUs
+    publish(groupId)
+    // The viewer that changed keeps its place; the rest re-align to it
+    follow(group, member)
+}
@@ -0,0 +1,234 @@
+// @/composables/rendering/traceGeometry.js
+//
+// What a channel's trace looks like, independent of how it is painted. The Canvas 2D renderer
+// turns these rules into path calls; the WebGL renderer into triangles and line segments built
+// here from the same screen-space cData blocks, the segments stroked as quads as wide as the
+// Canvas 2D line. Both read the colours and the fill decision from this module, so a montage,
+// a selection or a filter change looks the same either way.
+
+/** Trace colours as [r, g, b, a], with r, g, b in 0..255 and a in 0..1. */
+export const TRACE_COLORS = Object.freeze({
+    hoverSelected: [39, 96, 255, 0.7],
+    hover: [39, 96, 255, 0.6],
+    selected: [249, 162, 58, 1],
+    neural: [249, 162, 58, 1],
+    default: [0, 0, 0, 1]
+})
+
+/**
+ * CSS colour string for a TRACE_COLORS entry.
+ *
+ * @param {number[]} rgba
+ * @returns {string}
+ */
+export function cssColor([r, g, b, a]) {
+    return `rgba(${r},${g},${b},${a})`
+}
+
+/** Width the Canvas 2D renderer strokes traces at (its default line width), in CSS pixels. */
+export const TRACE_LINE_WIDTH = 1
+
+/**
+ * Stroke and fill colours for a channel. Hover and selection show over the channel's own
+ * colour, which in turn replaces the default and the unit colour.
+ *
+ * @param {{hover?: boolean, selected?: boolean}} channelView
+ * @param {string} channelType Type of the channel's first block, e.g. 'Continuous' or 'Neural'.
+ * @param {?number[]} [channelColor] The channel's colour from its layout, if it has one.
+ * @returns {{stroke: number[], fill: number[]}}
+ */
+export function traceStyle(channelView, channelType, channelColor = null) {
+    let color = TRACE_COLORS.default
+    if (channelView.hover) {
+        color = channelView.selected ? TRACE_COLORS.hoverSelected : TRACE_COLORS.hover
+    } else if (channelView.selected) {
+        color = TRACE_COLORS.selected
+    } else if (channelColor) {
+        color = channelColor
+    } else if (channelType === 'Neural') {
+        color = TRACE_COLORS.neural
+    }
+    return { stroke: color, fill: color }
+}
+
+/**
+ * Whether a channel's min/max blocks draw as a filled envelope. Bins under 3 samples wide do
+ * not read as a band, so the channel draws ticks instead. The decision is made for the whole
+ * channel, which keeps every block of it in one shape.
+ *
+ * @param {{sf: number}} channelView
+ * @param {Array<object>} blocks
+ * @returns {boolean}
+ */
+export function usesBandFill(channelView, blocks) {
+    const realSamplePeriod = 1000000 * (1 / channelView.sf)
+    return !blocks.some((block) => block.nrPoints > 0 && block.isMinMax &&
+        (block.samplePeriod / realSamplePeriod) < 3)
+}
+
+/**
+ * Whether a block starting at `x` continues the trace of the previous block, which ended at
+ * `lastEnd`. Wider separations are data gaps and stay open.
+ *
+ * @param {?{x: number}} lastEnd
+ * @param {number} x
+ * @param {number} joinPx
+ * @returns {boolean}
+ */
+export function joinsPrevious(lastEnd, x, joinPx) {
+    return lastEnd !== null && x < (lastEnd.x + joinPx)
+}
+
+const isContinuousBlock = (block) => block.type === 'Continuous' || block.type === 'realtime'
+
+const blockEnd = (block) => {
+    const last = block.nrPoints - 1
+    return { x: block.cData[0][last], y: block.cData[1][last], y2: block.cData[2][last] }
+}
+
+// Grows a Float32Array-backed list of x, y pairs
+function vertexList() {
+    let data = new Float32Array(1024)
+    let length = 0
+    return {
+        push(x, y) {
+            if (length + 2 > data.length) {
+                const grown = new Float32Array(data.length * 2)
+                grown.set(data)
+                data = grown
+            }
+            data[length++] = x
+            data[length++] = y
+        },
+        segment(x1, y1, x2, y2) {
+            this.push(x1, y1)
+            this.push(x2, y2)
+        },
+        done: () => data.subarray(0, length)
+    }
+}
+
+/**
+ * Screen-space geometry for one channel, from blocks whose cData and render indices are set.
+ *
+ * - `band`: triangles (x, y pairs, three per triangle) filling between each bin's min and max,
+ *   continued from the previous block's last bin where the blocks join.
+ * - `ticks`: line segments, one per bin from min to max, when the band is too narrow to fill.
+ * - `trace`: line segments along the max values, and the spikes of Neural blocks.
+ *
+ * @param {{blocks: Array<object>}} channelData
+ * @param {boolean} bandFill Result of {@link usesBandFill} for the channel.
+ * @returns {{band: Float32Array, ticks: Float32Array, trace: Float32Array}}
+ */
+export function buildTraceGeometry(channelData, bandFill) {
+    const band = vertexList()
+    const ticks = vertexList()
+    const trace = vertexList()
+
+    // Envelope
+    let lastBlockEnd = null
+    for (const block of channelData.blocks) {
+        if (block.nrPoints === 0) {
+            continue
+        }
+        const [xVec, yVec, y2Vec] = block.cData
+        const startIndex = block.renderStartIndex
+        const endIndex = block.renderEndIndex
+
+        if (isContinuousBlock(block) && block.isMinMax) {
+            if (bandFill) {
+                let previous = joinsPrevious(lastBlockEnd, xVec[startIndex], 3) ? lastBlockEnd : null
+                for (let i = startIndex; i <= endIndex; i++) {
+                    const x = xVec[i]
+                    if (previous) {
+                        band.push(previous.x, previous.y)
+                        band.push(x, yVec[i])
+                        band.push(previous.x, previous.y2)
+                        band.push(x, yVec[i])
+                        band.push(x, y2Vec[i])
+                        band.push(previous.x, previous.y2)
+                    }
+                    previous = { x, y: yVec[i], y2: y2Vec[i] }
+                }
+            } else {
+                for (let i = startIndex; i <= endIndex; i++) {
+                    ticks.segment(xVec[i], yVec[i], xVec[i], y2Vec[i])
+                }
+            }
+        }
+        lastBlockEnd = blockEnd(block)
+    }
+
+    // Max trace
+    lastBlockEnd = null
+    let pen = null
+    for (const block of channelData.blocks) {
+        if (block.nrPoints === 0) {
+            continue
+        }
+        const [xVec, yVec, y2Vec] = block.cData
+        const startIndex = block.renderStartIndex
+        const endIndex = block.renderEndIndex
+
+        if (isContinuousBlock(block)) {
+            if (!joinsPrevious(lastBlockEnd, xVec[startIndex], block.isMinMax ? 3 : 2)) {
+                pen = null
+            }
+            for (let i = startIndex; i <= endIndex; i++) {
+                if (pen) {
+                    trace.segment(pen.x, pen.y, xVec[i], yVec[i])
+                }
+                pen = { x: xVec[i], y: yVec[i] }
+            }
+        } else if (block.type === 'Neural') {
+            for (let i = 0; i < block.nrPoints; i++) {
+                trace.segment(xVec[i], yVec[i], xVec[i], y2Vec[i])
+            }
+            pen = { x: xVec[block.nrPoints - 1], y: y2Vec[block.nrPoints - 1] }
+        }
+        lastBlockEnd = blockEnd(block)
+    }
+
+    return { band: band.done(), ticks: ticks.done(), trace: trace.done() }
+}
+
+/**
+ * Line segments (x, y pairs, two per segment) as triangles: each segment becomes a quad
+ * `width` CSS pixels across, centred on it and cut square at its ends, which is how Canvas 2D
+ * strokes it. WebGL lines are one device pixel wide whatever the pixel ratio and are not
+ * antialiased, so the WebGL renderer strokes with these quads instead; they scale with the
+ * pixel ratio like the Canvas 2D stroke and take the context's antialiasing.
+ *
+ * Quads meet at a polyline's corners without Canvas 2D's mitre, which leaves a notch of under
+ * half the width on the outside of a sharp bend, and overlap there, which a translucent
+ * colour (a hovered channel) shows as a slightly darker dot. Zero-length segments draw
+ * nothing, as in Canvas 2D.
+ *
+ * @param {Float32Array} segments
+ * @param {number} [width]
+ * @returns {Float32Array} Triangles, x, y pairs, six vertices per segment.
+ */
+export function strokeTriangles(segments, width = TRACE_LINE_WIDTH) {
+    const half = width / 2
+    const triangles = new Float32Array(segments.length * 3)
+    let length = 0
+    for (let i = 0; i + 3 < segments.length; i += 4) {
+        const x1 = segments[i]
+        const y1 = segments[i + 1]
+        const x2 = segments[i + 2]
+        const y2 = segments[i + 3]
+        const segmentLength = Math.hypot(x2 - x1, y2 - y1)
+        if (segmentLength === 0) {
+            continue
+        }
+        // Half the width along the segment's normal
+        const nx = -(y2 - y1) / segmentLength * half
+        const ny = (x2 - x1) / segmentLength * half
+        triangles.set([
+            x1 + nx, y1 + ny, x2 + nx, y2 + ny, x1 - nx, y1 - ny,
+            x2 + nx, y2 + ny, x2 - nx, y2 - ny, x1 - nx, y1 - ny
+        ], length)
+        length += 12
+    }
+    return triangles.subarray(0, length)
+}
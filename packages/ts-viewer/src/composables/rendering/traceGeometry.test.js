@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { TRACE_COLORS, buildTraceGeometry, cssColor, strokeTriangles, traceStyle, usesBandFill } from './traceGeometry.js'
+
+// A block already in screen space: bins at x0, x0 + 1, ... with max y and min y2
+const block = (x0, ys, y2s, overrides = {}) => ({
+    type: 'Continuous',
+    isMinMax: true,
+    nrPoints: ys.length,
+    samplePeriod: 4000,
+    renderStartIndex: 0,
+    renderEndIndex: ys.length - 1,
+    cData: [Float32Array.from(ys, (_, i) => x0 + i), Float32Array.from(ys), Float32Array.from(y2s)],
+    ...overrides
+})
+
+// Splits a flat x, y list into [x, y] pairs
+const points = (vertices) => Array.from({ length: vertices.length / 2 }, (_, i) => [vertices[2 * i], vertices[2 * i + 1]])
+
+describe('traceStyle', () => {
+    it('picks hover over selection over channel type', () => {
+        expect(traceStyle({ hover: true, selected: true }, 'Continuous').stroke).toBe(TRACE_COLORS.hoverSelected)
+        expect(traceStyle({ hover: true }, 'Continuous').stroke).toBe(TRACE_COLORS.hover)
+        expect(traceStyle({ selected: true }, 'Neural').stroke).toBe(TRACE_COLORS.selected)
+        expect(traceStyle({}, 'Neural').stroke).toBe(TRACE_COLORS.neural)
+        expect(traceStyle({}, 'Continuous').fill).toBe(TRACE_COLORS.default)
+    })
+
+    it('draws a channel colour under hover and selection', () => {
+        const teal = [0, 128, 128, 1]
+        expect(traceStyle({}, 'Neural', teal).stroke).toBe(teal)
+        expect(traceStyle({ selected: true }, 'Continuous', teal).stroke).toBe(TRACE_COLORS.selected)
+    })
+
+    it('writes CSS colours', () => {
+        expect(cssColor(TRACE_COLORS.hover)).toBe('rgba(39,96,255,0.6)')
+    })
+})
+
+describe('usesBandFill', () => {
+    it('fills unless a min/max bin is under 3 samples wide', () => {
+        expect(usesBandFill({ sf: 1000 }, [block(0, [1], [2])])).toBe(true)
+        expect(usesBandFill({ sf: 500 }, [block(0, [1], [2])])).toBe(false)
+        expect(usesBandFill({ sf: 500 }, [block(0, [1], [2], { isMinMax: false })])).toBe(true)
+    })
+})
+
+describe('buildTraceGeometry', () => {
+    it('fills between min and max with two triangles per bin step', () => {
+        const { band, ticks, trace } = buildTraceGeometry({ blocks: [block(0, [10, 12, 11], [20, 22, 21])] }, true)
+        expect(band).toHaveLength(2 * 2 * 3 * 2)
+        expect(points(band).slice(0, 3)).toEqual([[0, 10], [1, 12], [0, 20]])
+        expect(ticks).toHaveLength(0)
+        expect(points(trace)).toEqual([[0, 10], [1, 12], [1, 12], [2, 11]])
+    })
+
+    it('joins adjacent blocks and leaves gaps open', () => {
+        const adjacent = buildTraceGeometry({ blocks: [block(0, [10, 10], [20, 20]), block(2, [10, 10], [20, 20])] }, true)
+        expect(points(adjacent.trace)).toContainEqual([2, 10])
+        expect(adjacent.band).toHaveLength(3 * 12)
+
+        const apart = buildTraceGeometry({ blocks: [block(0, [10, 10], [20, 20]), block(5, [10, 10], [20, 20])] }, true)
+        expect(points(apart.trace)).toEqual([[0, 10], [1, 10], [5, 10], [6, 10]])
+        expect(apart.band).toHaveLength(2 * 12)
+    })
+
+    it('draws ticks instead of a band when asked', () => {
+        const { band, ticks } = buildTraceGeometry({ blocks: [block(0, [10, 12], [20, 22])] }, false)
+        expect(band).toHaveLength(0)
+        expect(points(ticks)).toEqual([[0, 10], [0, 20], [1, 12], [1, 22]])
+    })
+
+    it('draws Neural spikes as vertical segments', () => {
+        const spikes = block(0, [5, 5], [15, 15], { type: 'Neural', isMinMax: false })
+        expect(points(buildTraceGeometry({ blocks: [spikes] }, true).trace)).toEqual([[0, 5], [0, 15], [1, 5], [1, 15]])
+    })
+
+    it('skips empty blocks', () => {
+        const empty = { ...block(0, [1], [2]), nrPoints: 0 }
+        const { band, ticks, trace } = buildTraceGeometry({ blocks: [empty] }, true)
+        expect(band.length + ticks.length + trace.length).toBe(0)
+    })
+})
+
+describe('strokeTriangles', () => {
+    it('strokes each segment as a quad one CSS pixel across, like Canvas 2D', () => {
+        const quad = strokeTriangles(Float32Array.from([0, 10, 4, 10]))
+        expect(quad).toHaveLength(12)
+        const ys = [...quad].filter((_, i) => i % 2 === 1)
+        expect(Math.min(...ys)).toBe(9.5)
+        expect(Math.max(...ys)).toBe(10.5)
+
+        // Vertical ticks widen sideways
+        const xs = [...strokeTriangles(Float32Array.from([3, 0, 3, 8]))].filter((_, i) => i % 2 === 0)
+        expect(Math.max(...xs) - Math.min(...xs)).toBe(1)
+    })
+
+    it('leaves out zero-length segments', () => {
+        expect(strokeTriangles(Float32Array.from([1, 1, 1, 1, 0, 0, 2, 0]))).toHaveLength(12)
+    })
+})
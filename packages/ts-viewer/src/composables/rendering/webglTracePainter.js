@@ -0,0 +1,110 @@
+// @/composables/rendering/webglTracePainter.js
+import { strokeTriangles } from './traceGeometry'
+
+// Vertices arrive in CSS pixels with y down, as the Canvas 2D renderer draws them after its
+// pixel-ratio transform; the shader maps them to clip space.
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform vec2 u_size;
+void main() {
+    vec2 clip = a_position / u_size * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform vec4 u_color;
+void main() {
+    gl_FragColor = u_color;
+}
+`
+
+function compile(gl, type, source) {
+    const shader = gl.createShader(type)
+    gl.shaderSource(shader, source)
+    gl.compileShader(shader)
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader)
+        gl.deleteShader(shader)
+        throw new Error(`Trace shader failed to compile: ${log}`)
+    }
+    return shader
+}
+
+/**
+ * Paints trace geometry from traceGeometry.js onto a canvas with WebGL.
+ *
+ * `stroke` takes line segments, as traceGeometry.js builds them, and draws each as a quad
+ * one CSS pixel across, the width Canvas 2D strokes at (see `strokeTriangles`).
+ *
+ * Returns null when the browser has no WebGL or the canvas already holds another kind of
+ * context, so the caller can fall back to Canvas 2D. Nothing is read back or kept between
+ * frames; each `begin` clears the canvas and every draw uploads its vertices.
+ *
+ * @param {HTMLCanvasElement} canvas
+ * @returns {?{begin: (width: number, height: number) => void, fill: (vertices: Float32Array, rgba: number[]) => void, stroke: (vertices: Float32Array, rgba: number[]) => void, dispose: () => void}}
+ */
+export function createWebglTracePainter(canvas) {
+    const gl = canvas.getContext('webgl', { antialias: true, premultipliedAlpha: true })
+    if (!gl) {
+        return null
+    }
+
+    const program = gl.createProgram()
+    const vertexShader = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER)
+    const fragmentShader = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER)
+    gl.attachShader(program, vertexShader)
+    gl.attachShader(program, fragmentShader)
+    gl.linkProgram(program)
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        throw new Error(`Trace shader failed to link: ${gl.getProgramInfoLog(program)}`)
+    }
+
+    const positionLocation = gl.getAttribLocation(program, 'a_position')
+    const sizeLocation = gl.getUniformLocation(program, 'u_size')
+    const colorLocation = gl.getUniformLocation(program, 'u_color')
+    const buffer = gl.createBuffer()
+
+    const draw = (mode, vertices, [r, g, b, a]) => {
+        if (vertices.length === 0 || gl.isContextLost()) {
+            return
+        }
+        gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STREAM_DRAW)
+        gl.uniform4f(colorLocation, r / 255, g / 255, b / 255, a)
+        gl.drawArrays(mode, 0, vertices.length / 2)
+    }
+
+    return {
+        /**
+         * Clears the canvas and sets the drawing area, in CSS pixels.
+         */
+        begin(width, height) {
+            if (gl.isContextLost()) {
+                return
+            }
+            gl.viewport(0, 0, canvas.width, canvas.height)
+            gl.clearColor(0, 0, 0, 0)
+            gl.clear(gl.COLOR_BUFFER_BIT)
+
+            gl.useProgram(program)
+            gl.uniform2f(sizeLocation, width, height)
+            gl.bindBuffer(gl.ARRAY_BUFFER, buffer)
+            gl.enableVertexAttribArray(positionLocation)
+            gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0)
+
+            // Colours are written premultiplied, which is what the page composites
+            gl.enable(gl.BLEND)
+            gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+        },
+        fill: (vertices, rgba) => draw(gl.TRIANGLES, vertices, rgba),
+        // Strokes are quads rather than gl.LINES, which are one device pixel wide and jagged
+        stroke: (vertices, rgba) => draw(gl.TRIANGLES, strokeTriangles(vertices), rgba),
+        dispose() {
+            gl.deleteBuffer(buffer)
+            gl.deleteProgram(program)
+            gl.deleteShader(vertexShader)
+            gl.deleteShader(fragmentShader)
+        }
+    }
+}
@@ -123,6 +123,22 @@ export function uvPerMmToZoomMult(uvPerMm, dpi, devicePixelRatio) {
     return (dpi * devicePixelRatio) / (uvPerMm * MM_PER_INCH)
 }
 
+/**
+ * Channel ids an amplitude survey should read: the continuous channels not marked bad.
+ *
+ * Unit channels carry events rather than microvolts, and a bad channel is usually the flat
+ * or railed one the others should not be scaled to.
+ *
+ * @param {Array<{id: string, serverId?: string, type?: string}>} channels Viewer channels.
+ * @param {(channel: object) => boolean} [isBad]
+ * @returns {string[]} Catalog ids, in the order given.
+ */
+export function surveyChannels(channels, isBad = () => false) {
+    return channels
+        .filter((channel) => channel.type !== 'UNIT' && !isBad(channel))
+        .map((channel) => channel.serverId || channel.id)
+}
+
 /** Columns the amplitude pass asks for across the whole recording. */
 const SURVEY_COLUMNS = 2000
 
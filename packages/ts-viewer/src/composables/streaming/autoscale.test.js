@@ -4,7 +4,8 @@ import {
     zoomMultForAmplitudes,
     zoomMultToUvPerMm,
     uvPerMmToZoomMult,
-    measureAmplitudes
+    measureAmplitudes,
+    surveyChannels
 } from './autoscale'
 
 const envelope = (channel, values) => ({
@@ -153,3 +154,15 @@ describe('measureAmplitudes', () => {
         expect(client.calls).toHaveLength(0)
     })
 })
+
+describe('surveyChannels', () => {
+    it('reads continuous channels that are not bad, by catalog id', () => {
+        const channels = [
+            { id: 'a_A<->B', serverId: 'a', type: 'CONTINUOUS' },
+            { id: 'b', type: 'CONTINUOUS' },
+            { id: 'u', type: 'UNIT' }
+        ]
+        expect(surveyChannels(channels)).toEqual(['a', 'b'])
+        expect(surveyChannels(channels, (channel) => channel.id === 'b')).toEqual(['a'])
+    })
+})
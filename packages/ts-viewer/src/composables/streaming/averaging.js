@@ -0,0 +1,350 @@
+// @/composables/streaming/averaging.js
+//
+// Event-locked averaging over raw window reads (see windowReader.js). Each event of a
+// trigger layer cuts one trial per channel, from `preUs` before the event to `postUs`
+// after it, on the channel's native grid. Trials are read processed, so an average shows
+// the montage and filters the viewer draws.
+//
+// A trial is one event across every channel: a trial rejected for a gap, for its
+// amplitude or by hand is left out of every channel's average, so all channels average
+// the same events.
+
+import { csvField } from './exporters'
+import { readRawWindow, windowAddressFor } from './windowReader'
+
+/** Most events one average reads. Later events are left out and the result says so. */
+export const MAX_AVERAGING_TRIALS = 1000
+
+/** Longest span one read covers; events closer together than this share a read. */
+export const AVERAGING_READ_US = 60 * 1e6
+
+/**
+ * Settings an average starts with. Times are relative to the event, in microseconds.
+ *
+ * `baselineUs` null skips baseline correction; `rejectPeakToPeak` null keeps trials of any
+ * amplitude.
+ *
+ * @returns {{layerId: ?(string|number), channelIds: Array<string>, preUs: number, postUs: number, baselineUs: ?[number, number], rejectPeakToPeak: ?number, excludedTrials: Array<number>}}
+ */
+export function defaultAveragingSettings() {
+    return {
+        layerId: null,
+        channelIds: [],
+        preUs: 200e3,
+        postUs: 800e3,
+        baselineUs: [-200e3, 0],
+        rejectPeakToPeak: null,
+        excludedTrials: []
+    }
+}
+
+/**
+ * @param {number} samplePeriodUs
+ * @param {number} preUs
+ * @param {number} postUs
+ * @returns {number} Samples in one trial on this grid.
+ */
+export function trialLength(samplePeriodUs, preUs, postUs) {
+    return Math.max(0, Math.round((preUs + postUs) / samplePeriodUs))
+}
+
+/**
+ * One trial cut from a raw segment, starting at the sample nearest `eventUs - preUs`.
+ *
+ * @param {{startUs: number, samplePeriodUs: number, data: Float64Array}} segment
+ * @param {number} eventUs
+ * @param {number} preUs
+ * @param {number} postUs
+ * @returns {?Float64Array} Null when the trial runs off the segment or touches a gap.
+ */
+export function cutTrial(segment, eventUs, preUs, postUs) {
+    const period = segment.samplePeriodUs
+    const length = trialLength(period, preUs, postUs)
+    const first = Math.round((eventUs - preUs - segment.startUs) / period)
+    if (length === 0 || first < 0 || first + length > segment.data.length) {
+        return null
+    }
+    const trial = segment.data.slice(first, first + length)
+    return trial.some(Number.isNaN) ? null : trial
+}
+
+/**
+ * A trial less its mean over a baseline span. A span with no samples in the trial leaves
+ * it as it is.
+ *
+ * @param {Float64Array} trial
+ * @param {number} samplePeriodUs
+ * @param {number} preUs Where the event falls in the trial.
+ * @param {[number, number]} baselineUs From and to, relative to the event.
+ * @returns {Float64Array}
+ */
+export function baselineCorrect(trial, samplePeriodUs, preUs, [fromUs, toUs]) {
+    const first = Math.max(0, Math.round((fromUs + preUs) / samplePeriodUs))
+    const end = Math.min(trial.length, Math.round((toUs + preUs) / samplePeriodUs))
+    if (end <= first) {
+        return trial
+    }
+    let sum = 0
+    for (let i = first; i < end; i++) {
+        sum += trial[i]
+    }
+    const mean = sum / (end - first)
+    return trial.map((value) => value - mean)
+}
+
+/**
+ * @param {Float64Array} trial
+ * @returns {number} Largest value less smallest.
+ */
+export function peakToPeak(trial) {
+    let min = Infinity
+    let max = -Infinity
+    for (const value of trial) {
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+    }
+    return trial.length > 0 ? max - min : 0
+}
+
+/**
+ * Mean and standard error of the mean, sample by sample, over equal-length trials.
+ *
+ * @param {Array<Float64Array>} trials
+ * @returns {{mean: Float64Array, sem: Float64Array, n: number}} `sem` is NaN below two trials.
+ */
+export function averageTrials(trials) {
+    const n = trials.length
+    const length = n > 0 ? trials[0].length : 0
+    const mean = new Float64Array(length)
+    const sem = new Float64Array(length)
+    for (let i = 0; i < length; i++) {
+        let sum = 0
+        for (const trial of trials) {
+            sum += trial[i]
+        }
+        mean[i] = sum / n
+        if (n < 2) {
+            sem[i] = NaN
+            continue
+        }
+        let squares = 0
+        for (const trial of trials) {
+            squares += (trial[i] - mean[i]) ** 2
+        }
+        sem[i] = Math.sqrt(squares / (n - 1) / n)
+    }
+    return { mean, sem, n }
+}
+
+/**
+ * Splits sorted events into runs whose trials fit one read of at most `readUs`.
+ *
+ * @param {Array<number>} eventsUs Sorted.
+ * @param {number} preUs
+ * @param {number} postUs
+ * @param {number} [readUs]
+ * @returns {Array<Array<number>>} Runs of indices into `eventsUs`.
+ */
+export function groupEvents(eventsUs, preUs, postUs, readUs = AVERAGING_READ_US) {
+    const groups = []
+    let group = []
+    eventsUs.forEach((eventUs, index) => {
+        if (group.length > 0 && eventUs + postUs - (eventsUs[group[0]] - preUs) > readUs) {
+            groups.push(group)
+            group = []
+        }
+        group.push(index)
+    })
+    if (group.length > 0) {
+        groups.push(group)
+    }
+    return groups
+}
+
+/**
+ * @typedef {object} TrialSet
+ * @property {Array<number>} eventsUs Sorted, each once.
+ * @property {number} preUs
+ * @property {number} postUs
+ * @property {boolean} truncated Whether events past `MAX_AVERAGING_TRIALS` were left out.
+ * @property {Array<{channelId: string, label: string, unit: string, samplePeriodUs: number, trials: Array<?Float64Array>, reason: ?string}>} channels
+ *   `trials` is parallel to `eventsUs`, null where a trial could not be cut; `reason` says
+ *   why a channel could not be read at all.
+ */
+
+/**
+ * Reads a trial around every event for a set of viewer channels.
+ *
+ * Events close enough together share a read. A read the reader refuses as too large is
+ * split in two; a single trial refused fails the whole set. Cancelling `signal` rejects
+ * with an AbortError.
+ *
+ * @param {import('./clientRegistry').StreamingClientEntry} entry
+ * @param {Array<object>} channels `viewerChannels` entries.
+ * @param {Array<number>} eventsUs Event times, in any order.
+ * @param {object} options
+ * @param {number} options.preUs
+ * @param {number} options.postUs
+ * @param {AbortSignal} [options.signal]
+ * @param {(fraction: number) => void} [options.onProgress] Called after each read.
+ * @param {number} [options.readUs]
+ * @param {number} [options.maxTrials]
+ * @returns {Promise<TrialSet>}
+ */
+export async function readTrials(entry, channels, eventsUs, options) {
+    const { preUs, postUs, signal, onProgress, readUs = AVERAGING_READ_US, maxTrials = MAX_AVERAGING_TRIALS } = options
+    if (!(preUs >= 0 && postUs >= 0 && preUs + postUs > 0)) {
+        throw new Error('Averaging needs a trial window longer than 0')
+    }
+    const sorted = [...new Set(eventsUs)].sort((a, b) => a - b)
+    const events = sorted.slice(0, maxTrials)
+    const addresses = channels.map(windowAddressFor)
+    const results = channels.map((channel) => ({
+        channelId: channel.id,
+        label: channel.displayName ?? channel.label ?? channel.name,
+        unit: channel.unit ?? '',
+        samplePeriodUs: 0,
+        trials: new Array(events.length).fill(null),
+        reason: null
+    }))
+
+    const queue = groupEvents(events, preUs, postUs, readUs)
+    let done = 0
+    while (queue.length > 0) {
+        signal?.throwIfAborted()
+        const group = queue.shift()
+        let windows
+        try {
+            windows = await readRawWindow(entry, addresses, events[group[0]] - preUs, events[group[group.length - 1]] + postUs, { signal })
+        } catch (error) {
+            if (error?.name === 'RawReadTooLargeError' && group.length > 1) {
+                const half = Math.ceil(group.length / 2)
+                queue.unshift(group.slice(0, half), group.slice(half))
+                continue
+            }
+            throw error
+        }
+
+        windows.forEach((trace, i) => {
+            const result = results[i]
+            if (!trace.segment) {
+                result.reason = result.reason ?? trace.reason
+                return
+            }
+            result.samplePeriodUs = trace.segment.samplePeriodUs
+            for (const index of group) {
+                result.trials[index] = cutTrial(trace.segment, events[index], preUs, postUs)
+            }
+        })
+        done += group.length
+        onProgress?.(done / events.length)
+    }
+
+    // A channel read for some events but not others is still read
+    results.forEach((result) => {
+        if (result.samplePeriodUs > 0) {
+            result.reason = null
+        }
+    })
+    return { eventsUs: events, preUs, postUs, truncated: sorted.length > events.length, channels: results }
+}
+
+/**
+ * @typedef {object} EventAverage
+ * @property {Array<{eventUs: number, status: 'accepted'|'gap'|'amplitude'|'excluded', peakToPeak: number}>} trials
+ *   `peakToPeak` is the largest over the channels, NaN for a trial with a gap.
+ * @property {Array<{channelId: string, label: string, unit: string, samplePeriodUs: number, startUs: number, mean: ?Float64Array, sem: ?Float64Array, n: number, reason: ?string}>} channels
+ *   `startUs` is the first sample's time relative to the event; `mean` and `sem` are null
+ *   for a channel with no data or no accepted trial.
+ * @property {number} accepted Trials in the average.
+ * @property {number} preUs
+ * @property {number} postUs
+ */
+
+/**
+ * Averages a trial set, after baseline correction and rejection.
+ *
+ * A trial is rejected when it is excluded by hand, when any channel read has a gap in it,
+ * or when its peak-to-peak amplitude on any channel exceeds `rejectPeakToPeak`.
+ *
+ * @param {TrialSet} trialSet
+ * @param {object} [options]
+ * @param {?[number, number]} [options.baselineUs] From and to, relative to the event; null for none.
+ * @param {?number} [options.rejectPeakToPeak] In the channels' units; null for none.
+ * @param {Iterable<number>} [options.excludedTrials] Trial indices.
+ * @returns {EventAverage}
+ */
+export function computeAverage(trialSet, { baselineUs = null, rejectPeakToPeak = null, excludedTrials = [] } = {}) {
+    const { eventsUs, preUs, postUs } = trialSet
+    const excluded = new Set(excludedTrials)
+    const read = trialSet.channels.filter((channel) => channel.reason === null)
+
+    const corrected = read.map((channel) => channel.trials.map((trial) => (
+        trial && baselineUs ? baselineCorrect(trial, channel.samplePeriodUs, preUs, baselineUs) : trial
+    )))
+
+    const trials = eventsUs.map((eventUs, index) => {
+        const cut = corrected.map((channelTrials) => channelTrials[index])
+        const peakToPeakValue = cut.some((trial) => trial === null)
+            ? NaN
+            : Math.max(0, ...cut.map(peakToPeak))
+        let status = 'accepted'
+        if (excluded.has(index)) {
+            status = 'excluded'
+        } else if (Number.isNaN(peakToPeakValue)) {
+            status = 'gap'
+        } else if (rejectPeakToPeak !== null && peakToPeakValue > rejectPeakToPeak) {
+            status = 'amplitude'
+        }
+        return { eventUs, status, peakToPeak: peakToPeakValue }
+    })
+
+    const channels = trialSet.channels.map((channel) => {
+        const base = {
+            channelId: channel.channelId,
+            label: channel.label,
+            unit: channel.unit,
+            samplePeriodUs: channel.samplePeriodUs,
+            startUs: channel.samplePeriodUs > 0 ? -preUs : 0,
+            mean: null,
+            sem: null,
+            n: 0,
+            reason: channel.reason
+        }
+        const position = read.indexOf(channel)
+        if (position < 0) {
+            return base
+        }
+        const accepted = corrected[position].filter((trial, index) => trials[index].status === 'accepted')
+        if (accepted.length === 0) {
+            return { ...base, reason: 'No accepted trials' }
+        }
+        return { ...base, ...averageTrials(accepted) }
+    })
+
+    const accepted = trials.filter((trial) => trial.status === 'accepted').length
+    return { trials, channels, accepted, preUs, postUs }
+}
+
+const csvNumber = (value) => (Number.isFinite(value) ? String(value) : '')
+
+/**
+ * Serializes an average as CSV, one row per channel and sample, times in milliseconds from
+ * the event. Missing values are empty.
+ *
+ * @param {EventAverage} average
+ * @returns {string}
+ */
+export function averageToCsv(average) {
+    const lines = ['channel,time_ms,mean,sem,trials']
+    for (const channel of average.channels) {
+        if (!channel.mean) {
+            continue
+        }
+        for (let i = 0; i < channel.mean.length; i++) {
+            const timeMs = (channel.startUs + i * channel.samplePeriodUs) / 1000
+            lines.push([csvField(channel.label), timeMs, csvNumber(channel.mean[i]), csvNumber(channel.sem[i]), channel.n].join(','))
+        }
+    }
+    return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import {
+    averageToCsv,
+    averageTrials,
+    baselineCorrect,
+    computeAverage,
+    cutTrial,
+    groupEvents,
+    readTrials
+} from './averaging'
+import { START_US, fakeEntry } from './fakeEntry.testkit'
+
+const channelA = { id: 'a', serverId: 'a', label: 'A', unit: 'uV' }
+const spikes = { id: 'spikes', serverId: 'spikes', label: 'Spikes', type: 'UNIT' }
+
+describe('trials', () => {
+    const segment = { startUs: 0, samplePeriodUs: 1000, data: Float64Array.from({ length: 20 }, (_, i) => i) }
+
+    it('cuts from the sample nearest the trial start', () => {
+        expect(Array.from(cutTrial(segment, 5400, 2000, 3000))).toEqual([3, 4, 5, 6, 7])
+        expect(cutTrial(segment, 1000, 2000, 3000)).toBeNull()
+        expect(cutTrial(segment, 18000, 2000, 3000)).toBeNull()
+    })
+
+    it('drops a trial with a gap', () => {
+        const gappy = { ...segment, data: segment.data.map((value, i) => (i === 6 ? NaN : value)) }
+        expect(cutTrial(gappy, 5000, 2000, 3000)).toBeNull()
+    })
+
+    it('subtracts the baseline mean', () => {
+        const trial = Float64Array.from([1, 3, 10, 10])
+        expect(Array.from(baselineCorrect(trial, 1000, 2000, [-2000, 0]))).toEqual([-1, 1, 8, 8])
+        expect(baselineCorrect(trial, 1000, 2000, [5000, 6000])).toBe(trial)
+    })
+
+    it('averages with the standard error of the mean', () => {
+        const { mean, sem, n } = averageTrials([Float64Array.from([1, 0]), Float64Array.from([3, 0])])
+        expect(n).toBe(2)
+        expect(Array.from(mean)).toEqual([2, 0])
+        expect(Array.from(sem)).toEqual([1, 0])
+        expect(Number.isNaN(averageTrials([Float64Array.from([1])]).sem[0])).toBe(true)
+    })
+})
+
+describe('groupEvents', () => {
+    it('shares a read between events whose trials fit it', () => {
+        expect(groupEvents([0, 10e6, 50e6, 200e6], 1e6, 1e6, 60e6)).toEqual([[0, 1, 2], [3]])
+    })
+})
+
+describe('readTrials', () => {
+    // 10 at and after each whole second, 0 otherwise, so every event at a second steps up
+    const step = (t) => ((t - START_US) % 1e6 < 100e3 ? 10 : 0)
+
+    it('reads each group once and cuts every event', async () => {
+        const entry = fakeEntry({ signal: step })
+        const events = [START_US + 3e6, START_US + 1e6, START_US + 2e6, START_US + 1e6]
+        const progress = []
+        const set = await readTrials(entry, [channelA], events, {
+            preUs: 50e3,
+            postUs: 50e3,
+            onProgress: (fraction) => progress.push(fraction)
+        })
+        expect(entry.queries).toHaveLength(1)
+        expect(set.eventsUs).toEqual([START_US + 1e6, START_US + 2e6, START_US + 3e6])
+        expect(progress).toEqual([1])
+        expect(set.channels[0].trials.map((trial) => trial.length)).toEqual([100, 100, 100])
+        expect(set.channels[0].trials[0][49]).toBe(0)
+        expect(set.channels[0].trials[0][50]).toBe(10)
+    })
+
+    it('splits a read refused as too large', async () => {
+        const entry = fakeEntry({ signal: step, limitUs: 1.5e6 })
+        const set = await readTrials(entry, [channelA], [START_US + 1e6, START_US + 2e6, START_US + 3e6], { preUs: 50e3, postUs: 50e3 })
+        expect(entry.queries.map((q) => Math.round((q.endUs - q.startUs) / 1e3))).toEqual([2100, 1100, 100])
+        expect(set.channels[0].trials.every((trial) => trial !== null)).toBe(true)
+    })
+
+    it('fails when one trial is too large', async () => {
+        const entry = fakeEntry({ limitUs: 50e3 })
+        await expect(readTrials(entry, [channelA], [START_US + 1e6], { preUs: 50e3, postUs: 50e3 })).rejects.toThrow('Too large')
+    })
+
+    it('reports unreadable channels and caps the events', async () => {
+        const entry = fakeEntry()
+        const set = await readTrials(entry, [channelA, spikes], [START_US + 1e6, START_US + 2e6], { preUs: 50e3, postUs: 50e3, maxTrials: 1 })
+        expect(set.truncated).toBe(true)
+        expect(set.eventsUs).toEqual([START_US + 1e6])
+        expect(set.channels[1].reason).toMatch(/Unit channels/)
+    })
+})
+
+describe('computeAverage', () => {
+    const trialSet = {
+        eventsUs: [1e6, 2e6, 3e6, 4e6],
+        preUs: 1000,
+        postUs: 2000,
+        truncated: false,
+        channels: [{
+            channelId: 'a',
+            label: 'A',
+            unit: 'uV',
+            samplePeriodUs: 1000,
+            reason: null,
+            trials: [
+                Float64Array.from([5, 7, 5]),
+                Float64Array.from([1, 5, 1]),
+                null,
+                Float64Array.from([0, 100, 0])
+            ]
+        }, {
+            channelId: 'spikes',
+            label: 'Spikes',
+            unit: '',
+            samplePeriodUs: 0,
+            reason: 'Unit channels carry events, not samples',
+            trials: [null, null, null, null]
+        }]
+    }
+
+    it('rejects gaps, large trials and excluded trials from every channel', () => {
+        const average = computeAverage(trialSet, { baselineUs: [-1000, 0], rejectPeakToPeak: 50, excludedTrials: [1] })
+        expect(average.trials.map((trial) => trial.status)).toEqual(['accepted', 'excluded', 'gap', 'amplitude'])
+        expect(average.accepted).toBe(1)
+        expect(Array.from(average.channels[0].mean)).toEqual([0, 2, 0])
+        expect(average.channels[0].startUs).toBe(-1000)
+        expect(average.channels[1]).toMatchObject({ mean: null, n: 0, reason: 'Unit channels carry events, not samples' })
+    })
+
+    it('averages baseline-corrected trials and writes them as CSV', () => {
+        const average = computeAverage({ ...trialSet, eventsUs: trialSet.eventsUs.slice(0, 2), channels: [{
+            ...trialSet.channels[0],
+            trials: trialSet.channels[0].trials.slice(0, 2)
+        }] }, { baselineUs: [-1000, 0] })
+        expect(Array.from(average.channels[0].mean)).toEqual([0, 3, 0])
+        expect(Array.from(average.channels[0].sem)).toEqual([0, 1, 0])
+        expect(averageToCsv(average)).toBe([
+            'channel,time_ms,mean,sem,trials',
+            'A,-1,0,0,2',
+            'A,0,3,1,2',
+            'A,1,0,0,2',
+            ''
+        ].join('\n'))
+    })
+
+    it('says when no trial is left', () => {
+        const average = computeAverage(trialSet, { excludedTrials: [0, 1, 3] })
+        expect(average.channels[0]).toMatchObject({ mean: null, reason: 'No accepted trials' })
+    })
+})
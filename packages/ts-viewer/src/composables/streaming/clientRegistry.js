@@ -1,6 +1,7 @@
 import { createStoreForUrl, splitSignedUrl } from './createStore'
 import { buildCatalogIndex } from './channelDetails'
 import { loadReader } from './loadReader'
+import { createPageDecoder } from './decoder'
 
 /**
  * Per-viewer-instance streaming clients, keyed by the viewer store's id.
@@ -25,10 +26,16 @@ let nextGeneration = 1
  * @property {string} url Bundle URL base this client was built for.
  * @property {?Function} onUrlExpired The renewal callback baked into this client's store.
  * @property {import('@pennsieve/timeseries-zarr-reader').StreamingClient} client
+ * @property {import('./decoder').PageDecoder} decoder Reads, decodes and shapes page requests
+ *   and amplitude surveys off the main thread; see decoder.js.
  * @property {number} generation Bumped whenever a client is replaced; late async work
  *   compares against it to detect that it is stale.
  * @property {Map<string, object>} filterRegistry Active FilterSpec per client channel id.
+ * @property {?Map<string, object>} derivations Active derived montage by trace label, or null;
+ *   see derivations.js.
  * @property {Set<AbortController>} inflight One controller per in-flight page request.
+ * @property {Set<AbortController>} jobs One controller per running analysis job, such as a
+ *   detection run. Kept apart from `inflight`, which a buffer dump empties on every move.
  * @property {?Promise<{catalogIndex: object}>} catalogPromise Memoized catalog load.
  * @property {?object} catalogIndex Resolved catalog index, once loaded.
  */
@@ -46,7 +53,8 @@ let nextGeneration = 1
  *
  * @param {string} storeId
  * @param {string} url Bundle root, signed or not.
- * @param {object} [options] Forwarded to store construction; notably `onUrlExpired`.
+ * @param {object} [options] Forwarded to store construction; notably `onUrlExpired`. Also
+ *   `pageCache`, the viewer config's page cache setting, for the decoder.
  * @returns {Promise<StreamingClientEntry>}
  */
 export async function acquireClient(storeId, url, options = {}) {
@@ -76,14 +84,18 @@ export async function acquireClient(storeId, url, options = {}) {
         return raced
     }
 
+    const client = new StreamingClient({ store })
     const entry = {
         storeId,
         url: base,
         onUrlExpired: options.onUrlExpired ?? null,
-        client: new StreamingClient({ store }),
+        client,
+        decoder: createPageDecoder({ client, url, onUrlExpired: options.onUrlExpired ?? null, pageCache: options.pageCache }),
         generation: nextGeneration++,
         filterRegistry: new Map(),
+        derivations: null,
         inflight: new Set(),
+        jobs: new Set(),
         catalogPromise: null,
         catalogIndex: null,
     }
@@ -144,8 +156,27 @@ export function abortInflight(entry) {
 }
 
 /**
- * Tears down an entry: aborts in-flight reads and drops the client, which releases the
- * reader's cached catalog, its cache of store responses, and its per-channel filter state.
+ * Aborts every running analysis job on an entry and empties the set.
+ *
+ * @param {StreamingClientEntry|undefined} entry
+ * @returns {number} How many controllers were aborted.
+ */
+export function abortJobs(entry) {
+    if (!entry) {
+        return 0
+    }
+    const count = entry.jobs.size
+    for (const controller of entry.jobs) {
+        controller.abort()
+    }
+    entry.jobs.clear()
+    return count
+}
+
+/**
+ * Tears down an entry: aborts in-flight reads and running jobs, stops its decoder, and drops
+ * the client, which releases the reader's cached catalog, its cache of store responses, and
+ * its per-channel filter state.
  *
  * @param {string} storeId
  * @returns {boolean} Whether an entry was removed.
@@ -156,7 +187,10 @@ export function disposeClient(storeId) {
         return false
     }
     abortInflight(entry)
+    abortJobs(entry)
+    entry.decoder.dispose()
     entry.filterRegistry.clear()
+    entry.derivations = null
     entry.catalogPromise = null
     entry.catalogIndex = null
     registry.delete(storeId)
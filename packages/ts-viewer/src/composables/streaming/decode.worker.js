@@ -0,0 +1,119 @@
+// @/composables/streaming/decode.worker.js
+//
+// The page decoder's worker: its own reader for one bundle, the bundle's persistent page
+// cache, the chain filter state of its traces, and the page and survey reads. See decoder.js
+// for the main-thread side and workerProtocol.js for the messages.
+
+import { createStoreForUrl } from './createStore'
+import { loadReader } from './loadReader'
+import { measureAmplitudes } from './autoscale'
+import { openPageCache } from './pageCache'
+import { createTraceFilters, readGroup } from './pageReader'
+import { reviveError, serializeError, transferablesOf } from './workerProtocol'
+
+/** @type {?Promise<object>} The worker's StreamingClient. */
+let clientPromise = null
+
+/** @type {?Promise<?object>} The bundle's PageCache, or null where nothing persists. */
+let cachePromise = null
+
+const traceFilters = createTraceFilters()
+
+/** One controller per running read or survey, by request id. */
+const controllers = new Map()
+
+/** Pending URL renewals, by renewal id. */
+const renewals = new Map()
+let nextRenewal = 1
+
+/**
+ * Asks the main thread for a fresh bundle URL. The host's `onUrlExpired` is a function and
+ * cannot cross into the worker, so the store signs with whatever the main thread answers.
+ */
+const renewUrl = () => new Promise((resolve, reject) => {
+    const id = nextRenewal++
+    renewals.set(id, { resolve, reject })
+    self.postMessage({ type: 'renew', id })
+})
+
+function open({ url, renewable, cacheBytes }) {
+    clientPromise = Promise.all([
+        loadReader(),
+        createStoreForUrl(url, { onUrlExpired: renewable ? renewUrl : null }),
+    ]).then(([{ StreamingClient }, store]) => new StreamingClient({ store }))
+    // Read and survey callers see the failure; this keeps it from also surfacing as unhandled.
+    clientPromise.catch(() => {})
+    cachePromise = cacheBytes === null ? Promise.resolve(null) : openPageCache(url, { maxBytes: cacheBytes })
+}
+
+async function read({ id, task }) {
+    const controller = new AbortController()
+    controllers.set(id, controller)
+    try {
+        await readGroup(clientPromise, task, {
+            signal: controller.signal,
+            traceFilters,
+            cache: cachePromise,
+            emit: (block, kind) => {
+                self.postMessage({ type: 'block', id, block, kind }, transferablesOf(block))
+            },
+            fail: (error) => {
+                self.postMessage({ type: 'error', id, error: serializeError(error) })
+            }
+        })
+    } finally {
+        controllers.delete(id)
+        self.postMessage({ type: 'done', id })
+    }
+}
+
+async function survey({ id, channels, startUs, endUs }) {
+    const controller = new AbortController()
+    controllers.set(id, controller)
+    try {
+        const result = await measureAmplitudes(await clientPromise, channels, startUs, endUs, controller.signal)
+        self.postMessage({ type: 'done', id, result })
+    } catch (error) {
+        self.postMessage({ type: 'done', id, error: serializeError(error) })
+    } finally {
+        controllers.delete(id)
+    }
+}
+
+function renewed({ id, url, error }) {
+    const renewal = renewals.get(id)
+    if (!renewal) {
+        return
+    }
+    renewals.delete(id)
+    if (error) {
+        renewal.reject(reviveError(error))
+    } else {
+        renewal.resolve(url)
+    }
+}
+
+self.onmessage = ({ data: message }) => {
+    switch (message.type) {
+        case 'open':
+            open(message)
+            break
+        case 'read':
+            void read(message)
+            break
+        case 'survey':
+            void survey(message)
+            break
+        case 'abort':
+            controllers.get(message.id)?.abort()
+            break
+        case 'reset':
+            traceFilters.clear()
+            break
+        case 'renewed':
+            renewed(message)
+            break
+        default:
+            console.warn('decode.worker: ignoring unrecognized message', message)
+    }
+}
@@ -0,0 +1,225 @@
+// @/composables/streaming/decoder.js
+import { measureAmplitudes } from './autoscale'
+import { openPageCache, pageCacheBudget } from './pageCache'
+import { createTraceFilters, readGroup } from './pageReader'
+import { reviveError, serializeError } from './workerProtocol'
+
+/**
+ * @typedef {object} PageDecoder
+ * @property {function(import('./pageReader').PageTask, AbortSignal, {emit: function(object, string): void, fail: function(Error): void}): Promise<void>} read
+ *   Runs one page group; see pageReader.js readGroup. Resolves once the read has ended,
+ *   whether it finished or `signal` aborted it.
+ * @property {function(string[], number, number, ?AbortSignal=): Promise<Map<string, number>>} survey
+ *   Peak-to-peak amplitude per channel; see autoscale.js measureAmplitudes.
+ * @property {function(): void} reset Drops chain filter state, so every trace restarts its filters.
+ * @property {function(): void} dispose
+ * @property {boolean} inWorker
+ */
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+
+/**
+ * Decodes pages for one bundle on the main thread, with the main thread's client.
+ *
+ * @param {object} client A reader `StreamingClient`.
+ * @param {string} url Bundle URL, for the page cache.
+ * @param {?number} cacheBytes Page cache budget, null with the cache off.
+ * @returns {PageDecoder}
+ */
+function createInlineDecoder(client, url, cacheBytes) {
+    const traceFilters = createTraceFilters()
+    const cache = cacheBytes === null ? Promise.resolve(null) : openPageCache(url, { maxBytes: cacheBytes })
+    return {
+        inWorker: false,
+        read: (task, signal, { emit, fail }) => readGroup(client, task, { signal, traceFilters, cache, emit, fail }),
+        survey: (channels, startUs, endUs, signal = null) => measureAmplitudes(client, channels, startUs, endUs, signal),
+        reset: () => traceFilters.clear(),
+        dispose: () => {
+            traceFilters.clear()
+            void cache.then((opened) => opened?.close())
+        }
+    }
+}
+
+/**
+ * Decodes pages for one bundle in a dedicated worker.
+ *
+ * The worker keeps its own reader, so the bundle's catalog and chunk cache exist twice: the
+ * main thread's client still serves the scrubber, the spectrogram and export. Blocks come
+ * back with their typed arrays transferred rather than copied.
+ *
+ * A worker that fails outright (a blocked script, a module worker the browser cannot load)
+ * ends every pending request with an error, and the decoder hands later requests to
+ * `fallback` instead.
+ *
+ * @param {Worker} worker
+ * @param {{url: string, onUrlExpired: ?Function, cacheBytes: ?number}} bundle
+ * @param {function(): PageDecoder} fallback
+ * @returns {PageDecoder}
+ */
+function createWorkerDecoder(worker, { url, onUrlExpired, cacheBytes }, fallback) {
+    /** @type {Map<number, {onMessage: function(object): void, abort: function(Error): void}>} */
+    const pending = new Map()
+    let nextId = 1
+    let failed = null
+
+    const renew = async (id) => {
+        try {
+            const result = await onUrlExpired()
+            // Only the URL crosses: a richer result may hold values structured clone rejects.
+            worker.postMessage({ type: 'renewed', id, url: typeof result === 'string' ? result : result?.url })
+        } catch (error) {
+            worker.postMessage({ type: 'renewed', id, error: serializeError(error) })
+        }
+    }
+
+    worker.onmessage = ({ data: message }) => {
+        if (message.type === 'renew') {
+            void renew(message.id)
+            return
+        }
+        pending.get(message.id)?.onMessage(message)
+    }
+
+    worker.onerror = (event) => {
+        event.preventDefault?.()
+        failed = fallback()
+        worker.terminate()
+        const error = new Error(`Page decoder worker failed: ${event.message ?? 'could not start'}`)
+        for (const request of [...pending.values()]) {
+            request.abort(error)
+        }
+        pending.clear()
+    }
+
+    worker.postMessage({ type: 'open', url, renewable: typeof onUrlExpired === 'function', cacheBytes })
+
+    return {
+        get inWorker() {
+            return failed === null
+        },
+
+        read(task, signal, handlers) {
+            if (failed) {
+                return failed.read(task, signal, handlers)
+            }
+            if (signal.aborted) {
+                return Promise.resolve()
+            }
+            const id = nextId++
+            return new Promise((resolve) => {
+                const finish = () => {
+                    signal.removeEventListener('abort', onAbort)
+                    pending.delete(id)
+                    resolve()
+                }
+                // Still settled by the worker's `done`, so a filtered group's next read cannot
+                // start while the worker is still advancing the same filters
+                const onAbort = () => {
+                    worker.postMessage({ type: 'abort', id })
+                }
+                pending.set(id, {
+                    onMessage(message) {
+                        if (message.type === 'block') {
+                            handlers.emit(message.block, message.kind)
+                        } else if (message.type === 'error') {
+                            handlers.fail(reviveError(message.error))
+                        } else if (message.type === 'done') {
+                            finish()
+                        }
+                    },
+                    abort(error) {
+                        if (error.name !== 'AbortError') {
+                            handlers.fail(error)
+                        }
+                        finish()
+                    }
+                })
+                signal.addEventListener('abort', onAbort)
+                worker.postMessage({ type: 'read', id, task })
+            })
+        },
+
+        survey(channels, startUs, endUs, signal = null) {
+            if (failed) {
+                return failed.survey(channels, startUs, endUs, signal)
+            }
+            if (signal?.aborted) {
+                return Promise.reject(abortError())
+            }
+            const id = nextId++
+            return new Promise((resolve, reject) => {
+                const onAbort = () => {
+                    worker.postMessage({ type: 'abort', id })
+                    pending.delete(id)
+                    reject(abortError())
+                }
+                const finish = () => {
+                    signal?.removeEventListener('abort', onAbort)
+                    pending.delete(id)
+                }
+                pending.set(id, {
+                    onMessage(message) {
+                        finish()
+                        if (message.error) {
+                            reject(reviveError(message.error))
+                        } else {
+                            resolve(message.result)
+                        }
+                    },
+                    abort(error) {
+                        finish()
+                        reject(error)
+                    }
+                })
+                signal?.addEventListener('abort', onAbort)
+                worker.postMessage({ type: 'survey', id, channels, startUs, endUs })
+            })
+        },
+
+        reset() {
+            if (failed) {
+                failed.reset()
+                return
+            }
+            worker.postMessage({ type: 'reset' })
+        },
+
+        dispose() {
+            worker.terminate()
+            for (const request of [...pending.values()]) {
+                request.abort(abortError())
+            }
+            pending.clear()
+            failed?.dispose()
+        }
+    }
+}
+
+/**
+ * Builds the page decoder for a bundle: the reader, decoding, client-side filtering and
+ * min/max decimation of every page request, in a worker so scrolling stays responsive while
+ * pages load.
+ *
+ * Falls back to decoding on the main thread, with `client`, where workers are unavailable.
+ *
+ * @param {{client: object, url: string, onUrlExpired: ?Function, pageCache?: *}} bundle `client` is the
+ *   main thread's reader for `url`, used only by the fallback. `pageCache` is the viewer
+ *   config's setting; see pageCache.js pageCacheBudget.
+ * @returns {PageDecoder}
+ */
+export function createPageDecoder({ client, url, onUrlExpired = null, pageCache }) {
+    const cacheBytes = pageCacheBudget(pageCache)
+    const inline = () => createInlineDecoder(client, url, cacheBytes)
+    if (typeof Worker === 'undefined') {
+        return inline()
+    }
+    let worker
+    try {
+        worker = new Worker(new URL('./decode.worker.js', import.meta.url), { type: 'module' })
+    } catch (error) {
+        console.warn(`Page decoder worker unavailable, decoding on the main thread: ${error?.message ?? error}`)
+        return inline()
+    }
+    return createWorkerDecoder(worker, { url, onUrlExpired, cacheBytes }, inline)
+}
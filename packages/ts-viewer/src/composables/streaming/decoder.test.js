@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createPageDecoder } from './decoder'
+import { PAGE_CACHE_MAX_BYTES } from './pageCache'
+
+const identity = { chId: 'srv-1', label: 'Ch 1', clientId: 'ch1', unit: 'uV' }
+const req = { startTime: 0, endTime: 1000, pixelWidth: 100, raw: true }
+const task = {
+    kind: 'continuous',
+    group: { key: 'k', filterSpec: null, filterChain: null, isMontage: false, channels: ['srv-1'], traces: [identity] },
+    req,
+    useMedian: false
+}
+
+const client = {
+    async *query() {
+        yield { channel: 'srv-1', startUs: 0, samplePeriodUs: 100, isMinMax: false, data: Float64Array.from([-2, 3]) }
+    }
+}
+
+// Records what the decoder posts; tests answer through `reply`
+class FakeWorker {
+    static last = null
+
+    constructor(url, options) {
+        this.url = url
+        this.options = options
+        this.posted = []
+        this.terminated = false
+        FakeWorker.last = this
+    }
+
+    postMessage(message) {
+        this.posted.push(message)
+    }
+
+    terminate() {
+        this.terminated = true
+    }
+
+    reply(message) {
+        this.onmessage({ data: message })
+    }
+}
+
+const handlers = () => {
+    const emitted = []
+    const failures = []
+    return { emitted, failures, emit: (block, kind) => emitted.push({ block, kind }), fail: (error) => failures.push(error) }
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('createPageDecoder without workers', () => {
+    it('decodes on the main thread with the given client', async () => {
+        const decoder = createPageDecoder({ client, url: 'https://example.org/bundle' })
+        expect(decoder.inWorker).toBe(false)
+
+        const h = handlers()
+        await decoder.read(task, new AbortController().signal, h)
+        expect(h.emitted.map(({ block }) => block.nrPoints)).toEqual([2])
+
+        const amplitudes = await decoder.survey(['srv-1'], 0, 1000)
+        expect(amplitudes.get('srv-1')).toBe(5)
+    })
+})
+
+describe('createPageDecoder with a worker', () => {
+    const open = (onUrlExpired = null) => {
+        vi.stubGlobal('Worker', FakeWorker)
+        const decoder = createPageDecoder({ client, url: 'https://example.org/bundle?Signature=a', onUrlExpired })
+        return { decoder, worker: FakeWorker.last }
+    }
+
+    it('opens the bundle in a module worker', () => {
+        const { decoder, worker } = open()
+        expect(decoder.inWorker).toBe(true)
+        expect(worker.options).toEqual({ type: 'module' })
+        expect(worker.posted[0]).toEqual({
+            type: 'open',
+            url: 'https://example.org/bundle?Signature=a',
+            renewable: false,
+            cacheBytes: PAGE_CACHE_MAX_BYTES
+        })
+    })
+
+    it('tells the worker when the page cache is off', () => {
+        vi.stubGlobal('Worker', FakeWorker)
+        createPageDecoder({ client, url: 'https://example.org/bundle', pageCache: false })
+        expect(FakeWorker.last.posted[0].cacheBytes).toBeNull()
+    })
+
+    it('forwards blocks and errors until the read is done', async () => {
+        const { decoder, worker } = open()
+        const h = handlers()
+        const reading = decoder.read(task, new AbortController().signal, h)
+        const { id } = worker.posted.find((message) => message.type === 'read')
+
+        worker.reply({ type: 'block', id, block: { nrPoints: 1 }, kind: 'segment' })
+        worker.reply({ type: 'error', id, error: { name: 'RawReadTooLargeError', message: 'too large', maxBytes: 10 } })
+        worker.reply({ type: 'done', id })
+        await reading
+
+        expect(h.emitted).toEqual([{ block: { nrPoints: 1 }, kind: 'segment' }])
+        expect(h.failures[0].name).toBe('RawReadTooLargeError')
+        expect(h.failures[0].maxBytes).toBe(10)
+    })
+
+    it('passes an abort on and waits for the worker to finish', async () => {
+        const { decoder, worker } = open()
+        const controller = new AbortController()
+        let settled = false
+        const reading = decoder.read(task, controller.signal, handlers()).then(() => { settled = true })
+        const { id } = worker.posted.find((message) => message.type === 'read')
+
+        controller.abort()
+        expect(worker.posted.at(-1)).toEqual({ type: 'abort', id })
+        await Promise.resolve()
+        expect(settled).toBe(false)
+
+        worker.reply({ type: 'done', id })
+        await reading
+        expect(settled).toBe(true)
+    })
+
+    it('answers renewal requests with the host callback', async () => {
+        const { worker } = open(async () => ({ url: 'https://example.org/bundle?Signature=b', expires: () => 0 }))
+        worker.reply({ type: 'renew', id: 7 })
+        await vi.waitFor(() => expect(worker.posted.at(-1)).toEqual({
+            type: 'renewed', id: 7, url: 'https://example.org/bundle?Signature=b'
+        }))
+    })
+
+    it('falls back to the main thread when the worker fails', async () => {
+        const { decoder, worker } = open()
+        const h = handlers()
+        const reading = decoder.read(task, new AbortController().signal, h)
+
+        worker.onerror({ message: 'script blocked' })
+        await reading
+        expect(worker.terminated).toBe(true)
+        expect(h.failures[0].message).toContain('script blocked')
+        expect(decoder.inWorker).toBe(false)
+
+        const after = handlers()
+        await decoder.read(task, new AbortController().signal, after)
+        expect(after.emitted).toHaveLength(1)
+    })
+})
@@ -0,0 +1,122 @@
+// @/composables/streaming/derivations.js
+//
+// Derived montages on the Zarr path. The reader only montages `lead - secondary`
+// pairs, so any other derivation (common average, Laplacian, arbitrary weights)
+// is computed here from raw reads of its member channels.
+
+/**
+ * @typedef {object} ResolvedDerivation
+ * @property {string} label Trace label, as the viewer will request it.
+ * @property {string} leadId Bundle id the trace is addressed by: its first term's channel.
+ * @property {string} unit Unit of the lead channel.
+ * @property {number} rateHz Shared native rate of every term.
+ * @property {Array<{id: string, weight: number}>} terms
+ */
+
+/**
+ * Resolves montage derivations against the bundle catalog.
+ *
+ * Each derivation becomes one trace addressed by its first term's channel id and its own
+ * label, which is the `{id, name}` pair synthesized into the channel details reply and
+ * echoed back on every data request. A derivation is dropped, with its reason, when a
+ * channel is unknown or a unit channel, or when its terms do not share one sample rate --
+ * there is no sample grid to sum them on.
+ *
+ * @param {Array<{label: string, terms: Array<{channel: string, weight: number}>}>} derivations
+ * @param {{byName: Map<string, object>}} catalogIndex
+ * @returns {{byLabel: Map<string, ResolvedDerivation>, details: Array<{id: string, name: string}>, dropped: Array<{label: string, message: string}>}}
+ */
+export function resolveDerivations(derivations, catalogIndex) {
+    const byLabel = new Map()
+    const details = []
+    const dropped = []
+
+    for (const derivation of Array.isArray(derivations) ? derivations : []) {
+        const label = derivation?.label
+        const terms = Array.isArray(derivation?.terms) ? derivation.terms : []
+        if (typeof label !== 'string' || label === '' || terms.length === 0) {
+            dropped.push({ label: String(label), message: 'Derivation needs a label and at least one channel' })
+            continue
+        }
+        if (byLabel.has(label)) {
+            dropped.push({ label, message: `Derivation label "${label}" is used twice` })
+            continue
+        }
+
+        const infos = terms.map((term) => catalogIndex.byName.get(term.channel))
+        const missing = terms.filter((term, i) => !infos[i]).map((term) => term.channel)
+        if (missing.length > 0) {
+            dropped.push({ label, message: `Unknown channel name(s): ${missing.join(', ')}` })
+            continue
+        }
+        const units = infos.filter((info) => info.kind === 'unit').map((info) => info.name)
+        if (units.length > 0) {
+            dropped.push({ label, message: `Cannot derive from unit channel(s): ${units.join(', ')}` })
+            continue
+        }
+        const rates = new Set(infos.map((info) => info.rateHz))
+        if (rates.size > 1) {
+            dropped.push({ label, message: `Sample rates differ: ${infos.map((info) => `${info.name} at ${info.rateHz} Hz`).join(', ')}` })
+            continue
+        }
+
+        const resolved = {
+            label,
+            leadId: infos[0].id,
+            unit: infos[0].unit,
+            rateHz: infos[0].rateHz,
+            terms: terms.map((term, i) => ({ id: infos[i].id, weight: term.weight }))
+        }
+        byLabel.set(label, resolved)
+        details.push({ id: resolved.leadId, name: label })
+    }
+
+    return { byLabel, details, dropped }
+}
+
+/**
+ * Sums raw reader segments into one derived raw segment.
+ *
+ * Terms are aligned on time rather than on index, since channels of one bundle may start
+ * at different times. The result spans every term's samples; where any term has no sample
+ * (or a NaN) the derivation is undefined and the output is NaN, so a gap in one member
+ * shows as a gap rather than as a jump to the remaining members' sum.
+ *
+ * @param {Map<string, {startUs: number, samplePeriodUs: number, data: ArrayLike<number>}>} segmentsById Raw segments by bundle channel id.
+ * @param {Array<{id: string, weight: number}>} terms
+ * @returns {?{startUs: number, samplePeriodUs: number, isMinMax: false, data: Float64Array}} Null when a term's segment is missing.
+ */
+export function combineDerivation(segmentsById, terms) {
+    const segments = terms.map((term) => segmentsById.get(term.id))
+    if (segments.length === 0 || segments.some((segment) => !segment)) {
+        return null
+    }
+
+    const period = segments[0].samplePeriodUs
+    const startUs = Math.min(...segments.map((segment) => segment.startUs))
+    const endUs = Math.max(...segments.map((segment) => segment.startUs + segment.data.length * period))
+    const length = Math.max(0, Math.round((endUs - startUs) / period))
+    const out = new Float64Array(length)
+    const covered = new Uint32Array(length)
+
+    segments.forEach((segment, k) => {
+        const weight = terms[k].weight
+        const offset = Math.round((segment.startUs - startUs) / period)
+        for (let i = 0; i < segment.data.length; i++) {
+            const j = offset + i
+            if (j < 0 || j >= length) {
+                continue
+            }
+            out[j] += weight * segment.data[i]
+            covered[j]++
+        }
+    })
+
+    for (let j = 0; j < length; j++) {
+        if (covered[j] !== segments.length) {
+            out[j] = NaN
+        }
+    }
+
+    return { startUs, samplePeriodUs: period, isMinMax: false, data: out }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { buildCatalogIndex } from './channelDetails'
+import { combineDerivation, resolveDerivations } from './derivations'
+
+const START_US = 1704067200000000
+
+const chan = (id, name, over = {}) => ({
+    id,
+    name,
+    unit: 'uV',
+    rateHz: 1000,
+    startUs: START_US,
+    endUs: START_US + 30000000,
+    kind: 'continuous',
+    ...over
+})
+
+const catalog = buildCatalogIndex([
+    chan('N:channel:a', 'A'),
+    chan('N:channel:b', 'B', { unit: 'mV' }),
+    chan('N:channel:c', 'C'),
+    chan('N:channel:slow', 'Slow', { rateHz: 500 }),
+    chan('N:channel:spikes', 'Spikes', { kind: 'unit' })
+])
+
+const term = (channel, weight) => ({ channel, weight })
+
+describe('resolveDerivations', () => {
+    it('addresses each derivation by its first channel and keeps its label', () => {
+        const { byLabel, details, dropped } = resolveDerivations([
+            { label: 'A-AVG', terms: [term('A', 0.5), term('B', -0.5)] },
+            { label: 'B-AVG', terms: [term('B', 0.5), term('A', -0.5)] }
+        ], catalog)
+
+        expect(dropped).toEqual([])
+        expect(details).toEqual([
+            { id: 'N:channel:a', name: 'A-AVG' },
+            { id: 'N:channel:b', name: 'B-AVG' }
+        ])
+        expect(byLabel.get('B-AVG')).toEqual({
+            label: 'B-AVG',
+            leadId: 'N:channel:b',
+            unit: 'mV',
+            rateHz: 1000,
+            terms: [{ id: 'N:channel:b', weight: 0.5 }, { id: 'N:channel:a', weight: -0.5 }]
+        })
+    })
+
+    it('drops unknown, unit and mixed-rate derivations with a reason', () => {
+        const { details, dropped } = resolveDerivations([
+            { label: 'x', terms: [term('A', 1), term('Nope', -1)] },
+            { label: 'y', terms: [term('Spikes', 1)] },
+            { label: 'z', terms: [term('A', 1), term('Slow', -1)] },
+            { label: 'ok', terms: [term('C', 1)] },
+            { label: 'ok', terms: [term('A', 1)] }
+        ], catalog)
+
+        expect(details.map((detail) => detail.name)).toEqual(['ok'])
+        expect(dropped.map((drop) => drop.label)).toEqual(['x', 'y', 'z', 'ok'])
+        expect(dropped[0].message).toMatch(/Nope/)
+        expect(dropped[1].message).toMatch(/unit channel/)
+        expect(dropped[2].message).toMatch(/Sample rates differ/)
+        expect(dropped[3].message).toMatch(/used twice/)
+    })
+
+    it('tolerates a missing derivation list', () => {
+        expect(resolveDerivations(undefined, catalog).details).toEqual([])
+    })
+})
+
+describe('combineDerivation', () => {
+    const raw = (startUs, data) => ({ startUs, samplePeriodUs: 1000, isMinMax: false, data: Float64Array.from(data) })
+
+    it('sums weighted terms sample by sample', () => {
+        const segments = new Map([['a', raw(0, [1, 2, 3])], ['b', raw(0, [10, 20, 30])]])
+        const out = combineDerivation(segments, [{ id: 'a', weight: 1 }, { id: 'b', weight: -0.5 }])
+        expect(out.startUs).toBe(0)
+        expect(out.isMinMax).toBe(false)
+        expect(Array.from(out.data)).toEqual([-4, -8, -12])
+    })
+
+    it('aligns terms on time and marks uncovered samples as NaN', () => {
+        const segments = new Map([['a', raw(0, [1, 2, 3])], ['b', raw(1000, [10, 20, 30])]])
+        const out = combineDerivation(segments, [{ id: 'a', weight: 1 }, { id: 'b', weight: 1 }])
+        expect(out.startUs).toBe(0)
+        const data = Array.from(out.data)
+        expect(data).toHaveLength(4)
+        expect(data[0]).toBeNaN()
+        expect(data.slice(1, 3)).toEqual([12, 23])
+        expect(data[3]).toBeNaN()
+    })
+
+    it('propagates a NaN in any term', () => {
+        const segments = new Map([['a', raw(0, [1, NaN])], ['b', raw(0, [1, 1])]])
+        const out = combineDerivation(segments, [{ id: 'a', weight: 1 }, { id: 'b', weight: 1 }])
+        expect(out.data[0]).toBe(2)
+        expect(out.data[1]).toBeNaN()
+    })
+
+    it('returns null when a term was not read', () => {
+        expect(combineDerivation(new Map([['a', raw(0, [1])]]), [{ id: 'a', weight: 1 }, { id: 'b', weight: 1 }])).toBeNull()
+    })
+})
@@ -0,0 +1,114 @@
+// @/composables/streaming/detection.js
+//
+// Runs a detector (see detectors.js) over a span of a recording. The span is read in
+// chunks, each a raw window read (windowReader.js) of every channel that is scanned and
+// dropped before the next is read, so a span of days never becomes one read and memory
+// stays at one chunk. A chunk the reader refuses as too large is retried at half the
+// length.
+//
+// Traces are read processed: a detector sees the montage and filters the viewer draws.
+
+import { getDetector, mergeHits, resolveDetectorParams } from './detectors'
+import { readRawWindow, windowAddressFor } from './windowReader'
+
+/** Span read per chunk, before any halving. */
+export const DETECTION_CHUNK_US = 60 * 1e6
+
+/** Shortest chunk halving goes down to; a chunk refused at this length fails the run. */
+export const MIN_DETECTION_CHUNK_US = 1e6
+
+/** Most hits one run reports. A run that finds more stops early and says so. */
+export const MAX_DETECTION_HITS = 5000
+
+/**
+ * @typedef {object} DetectionResult
+ * @property {Array<{channelId: string, startUs: number, endUs: number, value: number}>} hits
+ *   Sorted by start; hits that meet across a chunk boundary are merged.
+ * @property {number} scannedToUs How far `hits` is complete: the span's end unless truncated.
+ * @property {boolean} truncated Whether the run stopped at `maxHits`.
+ * @property {Array<{channelId: string, label: string, reason: string}>} skipped Channels no
+ *   chunk could be read for.
+ */
+
+/**
+ * Runs a detector over `[startUs, endUs)` on a set of viewer channels.
+ *
+ * Cancelling `signal` rejects with an AbortError, between chunks or inside a read.
+ *
+ * @param {import('./clientRegistry').StreamingClientEntry} entry
+ * @param {Array<object>} channels `viewerChannels` entries; hits carry their ids.
+ * @param {object} options
+ * @param {number} options.startUs
+ * @param {number} options.endUs
+ * @param {string} options.detector A registered detector name.
+ * @param {object} [options.params] Overrides of the detector's defaults.
+ * @param {AbortSignal} [options.signal]
+ * @param {(progress: {fraction: number, hits: number}) => void} [options.onProgress] Called
+ *   after each chunk.
+ * @param {number} [options.chunkUs]
+ * @param {number} [options.maxHits]
+ * @returns {Promise<DetectionResult>}
+ */
+export async function runDetection(entry, channels, options) {
+    const { startUs, endUs, signal, onProgress, chunkUs = DETECTION_CHUNK_US, maxHits = MAX_DETECTION_HITS } = options
+    const detector = getDetector(options.detector)
+    const params = resolveDetectorParams(options.detector, options.params)
+    if (!(endUs > startUs)) {
+        throw new Error('Detection needs a span with its end after its start')
+    }
+
+    const addresses = channels.map(windowAddressFor)
+    const reasons = new Map()
+    const read = new Set()
+    let hits = []
+    let longestPeriodUs = 0
+    let size = chunkUs
+    let at = startUs
+
+    while (at < endUs && hits.length <= maxHits) {
+        signal?.throwIfAborted()
+        const to = Math.min(endUs, at + size)
+        let windows
+        try {
+            windows = await readRawWindow(entry, addresses, at, to, { signal })
+        } catch (error) {
+            if (error?.name === 'RawReadTooLargeError' && (to - at) / 2 >= MIN_DETECTION_CHUNK_US) {
+                size = (to - at) / 2
+                continue
+            }
+            throw error
+        }
+
+        windows.forEach((trace, i) => {
+            const channelId = channels[i].id
+            if (!trace.segment) {
+                reasons.set(channelId, trace.reason)
+                return
+            }
+            read.add(channelId)
+            longestPeriodUs = Math.max(longestPeriodUs, trace.segment.samplePeriodUs)
+            for (const hit of detector.detect(trace.segment, params)) {
+                hits.push({ channelId, ...hit })
+            }
+        })
+        // Merging as we go keeps a hit split by a chunk boundary from counting twice
+        hits = mergeHits(hits, longestPeriodUs)
+        at = to
+        onProgress?.({ fraction: (at - startUs) / (endUs - startUs), hits: Math.min(hits.length, maxHits) })
+    }
+
+    hits.sort((a, b) => a.startUs - b.startUs)
+    const truncated = hits.length > maxHits
+    return {
+        hits: hits.slice(0, maxHits),
+        scannedToUs: truncated ? hits[maxHits].startUs : at,
+        truncated,
+        skipped: channels
+            .filter((channel) => !read.has(channel.id))
+            .map((channel) => ({
+                channelId: channel.id,
+                label: channel.label ?? channel.name,
+                reason: reasons.get(channel.id) ?? 'No data returned'
+            }))
+    }
+}
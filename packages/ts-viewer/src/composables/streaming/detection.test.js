@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { runDetection } from './detection'
+import { START_US, fakeEntry as fakeSignalEntry } from './fakeEntry.testkit'
+
+/** The fake channel is 0 except for `high` spans, where it is 100. */
+const fakeEntry = ({ high = [], limitUs } = {}) => fakeSignalEntry({
+    signal: (t) => (high.some(([from, to]) => t >= from && t < to) ? 100 : 0),
+    limitUs
+})
+
+const channelA = { id: 'a', serverId: 'a', label: 'A' }
+
+describe('runDetection', () => {
+    it('reads the span in chunks and reports progress after each', async () => {
+        const entry = fakeEntry({ high: [[START_US + 5e6, START_US + 6e6]] })
+        const progress = []
+        const result = await runDetection(entry, [channelA], {
+            startUs: START_US,
+            endUs: START_US + 25e6,
+            detector: 'threshold',
+            params: { threshold: 50 },
+            chunkUs: 10e6,
+            onProgress: (p) => progress.push(p)
+        })
+        expect(entry.queries.map((q) => (q.endUs - q.startUs) / 1e6)).toEqual([10, 10, 5])
+        expect(progress).toEqual([{ fraction: 0.4, hits: 1 }, { fraction: 0.8, hits: 1 }, { fraction: 1, hits: 1 }])
+        expect(result).toEqual({
+            hits: [{ channelId: 'a', startUs: START_US + 5e6, endUs: START_US + 6e6, value: 100 }],
+            scannedToUs: START_US + 25e6,
+            truncated: false,
+            skipped: []
+        })
+    })
+
+    it('joins a hit that a chunk boundary splits', async () => {
+        const entry = fakeEntry({ high: [[START_US + 9e6, START_US + 11e6]] })
+        const { hits } = await runDetection(entry, [channelA], {
+            startUs: START_US, endUs: START_US + 20e6, detector: 'threshold', params: { threshold: 50 }, chunkUs: 10e6
+        })
+        expect(hits).toEqual([{ channelId: 'a', startUs: START_US + 9e6, endUs: START_US + 11e6, value: 100 }])
+    })
+
+    it('halves chunks the reader refuses', async () => {
+        const entry = fakeEntry({ limitUs: 3e6 })
+        await runDetection(entry, [channelA], { startUs: START_US, endUs: START_US + 5e6, detector: 'threshold', chunkUs: 10e6 })
+        expect(entry.queries.map((q) => (q.endUs - q.startUs) / 1e6)).toEqual([5, 2.5, 2.5])
+    })
+
+    it('fails once a chunk cannot shrink further', async () => {
+        const entry = fakeEntry({ limitUs: 0.5e6 })
+        await expect(runDetection(entry, [channelA], {
+            startUs: START_US, endUs: START_US + 5e6, detector: 'threshold', chunkUs: 2e6
+        })).rejects.toThrow('Too large')
+    })
+
+    it('stops at the hit limit and says how far the hits are complete', async () => {
+        const high = [1, 3, 5, 7].map((s) => [START_US + s * 1e6, START_US + s * 1e6 + 1e5])
+        const entry = fakeEntry({ high })
+        const result = await runDetection(entry, [channelA], {
+            startUs: START_US, endUs: START_US + 20e6, detector: 'threshold', params: { threshold: 50 }, chunkUs: 4e6, maxHits: 2
+        })
+        expect(entry.queries).toHaveLength(2)
+        expect(result.hits.map((hit) => hit.startUs)).toEqual([START_US + 1e6, START_US + 3e6])
+        expect(result.truncated).toBe(true)
+        expect(result.scannedToUs).toBe(START_US + 5e6)
+    })
+
+    it('reports channels that could not be read', async () => {
+        const result = await runDetection(fakeEntry(), [channelA, { id: 'spikes', label: 'Spikes' }], {
+            startUs: START_US, endUs: START_US + 1e6, detector: 'spike'
+        })
+        expect(result.skipped).toEqual([{ channelId: 'spikes', label: 'Spikes', reason: 'Unit channels carry events, not samples' }])
+    })
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController()
+        const entry = fakeEntry()
+        const run = runDetection(entry, [channelA], {
+            startUs: START_US,
+            endUs: START_US + 30e6,
+            detector: 'threshold',
+            chunkUs: 10e6,
+            signal: controller.signal,
+            onProgress: () => controller.abort()
+        })
+        await expect(run).rejects.toMatchObject({ name: 'AbortError' })
+        expect(entry.queries).toHaveLength(1)
+    })
+
+    it('rejects an empty span and unknown detectors', async () => {
+        await expect(runDetection(fakeEntry(), [channelA], { startUs: 5, endUs: 5, detector: 'threshold' })).rejects.toThrow('end after its start')
+        await expect(runDetection(fakeEntry(), [channelA], { startUs: 0, endUs: 5, detector: 'nope' })).rejects.toThrow('Unknown detector')
+    })
+})
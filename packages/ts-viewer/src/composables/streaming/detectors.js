@@ -0,0 +1,341 @@
+// @/composables/streaming/detectors.js
+//
+// Event detectors over raw window reads (see windowReader.js). A detector scans one
+// trace's samples on its native grid, in the trace's physical unit, and reports hits:
+//
+//   Hit = { startUs, endUs, value }
+//
+// `value` is what the detector measured at the hit: the extreme sample for amplitude
+// detectors, the ratio to background for line-length. NaN samples are gaps; no hit spans
+// one. Detectors that compare against a background (spike, line-length) take it from the
+// samples they are given, so a caller scanning a long span in chunks gets a background
+// per chunk.
+//
+// Detectors are registered by name; the four here are built in, and an embedding app can
+// add its own with registerDetector.
+
+/**
+ * @typedef {object} DetectorParam
+ * @property {string} key
+ * @property {string} label
+ * @property {number|string} default
+ * @property {number} [min]
+ * @property {number} [max]
+ * @property {number} [step]
+ * @property {string} [unit] 'ms', or 'signal' for the trace's own unit.
+ * @property {string[]} [options] Allowed values, for a choice rather than a number.
+ */
+
+/**
+ * @typedef {object} Detector
+ * @property {string} name
+ * @property {string} label Also the label of the annotations its hits become.
+ * @property {string} description
+ * @property {DetectorParam[]} params
+ * @property {(segment: {startUs: number, samplePeriodUs: number, data: ArrayLike<number>}, params: object) => Array<{startUs: number, endUs: number, value: number}>} detect
+ * @property {(value: number, unit: string) => string} [describe] A hit's value in words;
+ *   the default reads it as a peak amplitude.
+ */
+
+/** @type {Map<string, Detector>} */
+const registry = new Map()
+
+/**
+ * Adds a detector, or replaces the one registered under `name`.
+ *
+ * @param {string} name
+ * @param {Omit<Detector, 'name'>} detector
+ */
+export function registerDetector(name, detector) {
+    if (typeof detector?.detect !== 'function' || !Array.isArray(detector.params)) {
+        throw new Error(`Detector ${name} needs a params list and a detect function`)
+    }
+    registry.set(name, {
+        name,
+        label: detector.label ?? name,
+        description: detector.description ?? '',
+        params: detector.params,
+        detect: detector.detect,
+        describe: detector.describe ?? ((value, unit) => `peak ${value.toFixed(Math.abs(value) >= 100 ? 0 : 1)} ${unit}`.trim())
+    })
+}
+
+/**
+ * @param {string} name
+ * @returns {Detector}
+ */
+export function getDetector(name) {
+    const detector = registry.get(name)
+    if (!detector) {
+        throw new Error(`Unknown detector: ${name}`)
+    }
+    return detector
+}
+
+/**
+ * Registered detectors, built-in ones first.
+ *
+ * @returns {Detector[]}
+ */
+export function listDetectors() {
+    return [...registry.values()]
+}
+
+/**
+ * Annotation description for a hit on a channel.
+ *
+ * @param {string} name
+ * @param {{value: number}} hit
+ * @param {{label?: string, name?: string, unit?: string}} channel
+ * @returns {string}
+ */
+export function describeHit(name, hit, channel) {
+    const detector = getDetector(name)
+    return `${channel.label ?? channel.name}: ${detector.label}, ${detector.describe(hit.value, channel.unit ?? '')}`
+}
+
+/**
+ * A detector's parameters: its defaults with `overrides` applied, each checked against its
+ * spec. Unknown keys are dropped.
+ *
+ * @param {string} name
+ * @param {object} [overrides]
+ * @returns {object}
+ */
+export function resolveDetectorParams(name, overrides = {}) {
+    const detector = getDetector(name)
+    const params = {}
+    for (const param of detector.params) {
+        const value = overrides[param.key] ?? param.default
+        if (param.options) {
+            if (!param.options.includes(value)) {
+                throw new Error(`${detector.label}: ${param.label} must be one of ${param.options.join(', ')}`)
+            }
+        } else if (!Number.isFinite(value) ||
+            (param.min !== undefined && value < param.min) ||
+            (param.max !== undefined && value > param.max)) {
+            const bounds = [param.min !== undefined && `>= ${param.min}`, param.max !== undefined && `<= ${param.max}`].filter(Boolean)
+            throw new Error(`${detector.label}: ${param.label} must be a number${bounds.length > 0 ? ` ${bounds.join(' and ')}` : ''}`)
+        }
+        params[param.key] = value
+    }
+    return params
+}
+
+/**
+ * Merges hits on the same channel that overlap or lie within `toleranceUs` of each other,
+ * keeping the larger value. Hits come back sorted by channel, then start.
+ *
+ * @param {Array<{channelId: string, startUs: number, endUs: number, value: number}>} hits
+ * @param {number} [toleranceUs]
+ * @returns {Array<object>}
+ */
+export function mergeHits(hits, toleranceUs = 0) {
+    const sorted = [...hits].sort((a, b) =>
+        a.channelId === b.channelId ? a.startUs - b.startUs : (a.channelId < b.channelId ? -1 : 1))
+    const out = []
+    for (const hit of sorted) {
+        const last = out[out.length - 1]
+        if (last && last.channelId === hit.channelId && hit.startUs <= last.endUs + toleranceUs) {
+            last.endUs = Math.max(last.endUs, hit.endUs)
+            if (Math.abs(hit.value) > Math.abs(last.value)) {
+                last.value = hit.value
+            }
+        } else {
+            out.push({ ...hit })
+        }
+    }
+    return out
+}
+
+/**
+ * Index ranges `[first, last]` of consecutive samples that pass `test`. NaN samples end a
+ * run, whatever `test` makes of them.
+ *
+ * @param {ArrayLike<number>} data
+ * @param {(value: number, index: number) => boolean} test
+ * @returns {Array<[number, number]>}
+ */
+function runsWhere(data, test) {
+    const runs = []
+    let first = -1
+    for (let i = 0; i <= data.length; i++) {
+        const pass = i < data.length && !Number.isNaN(data[i]) && test(data[i], i)
+        if (pass && first < 0) {
+            first = i
+        } else if (!pass && first >= 0) {
+            runs.push([first, i - 1])
+            first = -1
+        }
+    }
+    return runs
+}
+
+/**
+ * Index of the sample in `[first, last]` furthest from `center`.
+ */
+function peakIndex(data, first, last, center = 0) {
+    let peak = first
+    for (let i = first + 1; i <= last; i++) {
+        if (Math.abs(data[i] - center) > Math.abs(data[peak] - center)) {
+            peak = i
+        }
+    }
+    return peak
+}
+
+function median(values) {
+    const sorted = Float64Array.from(values).sort()
+    const mid = sorted.length >> 1
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Median and robust standard deviation (1.4826 x median absolute deviation) of the finite
+ * samples, or null when there are none.
+ *
+ * @param {ArrayLike<number>} data
+ * @returns {?{median: number, sd: number}}
+ */
+export function robustStats(data) {
+    const finite = Array.prototype.filter.call(data, Number.isFinite)
+    if (finite.length === 0) {
+        return null
+    }
+    const center = median(finite)
+    return { median: center, sd: 1.4826 * median(finite.map((value) => Math.abs(value - center))) }
+}
+
+const msToUs = (ms) => ms * 1000
+
+/**
+ * Hits spanning runs of samples, from the first sample's time to the end of the last one.
+ */
+const hitsForRuns = (segment, runs, valueOf) => runs.map(([first, last]) => ({
+    startUs: segment.startUs + first * segment.samplePeriodUs,
+    endUs: segment.startUs + (last + 1) * segment.samplePeriodUs,
+    value: valueOf(first, last)
+}))
+
+registerDetector('threshold', {
+    label: 'Threshold crossing',
+    description: 'Marks where the signal is above or below a level for at least a minimum time.',
+    params: [
+        { key: 'threshold', label: 'Level', default: 100, unit: 'signal' },
+        { key: 'direction', label: 'Direction', default: 'above', options: ['above', 'below', 'either'] },
+        { key: 'minDurationMs', label: 'Minimum duration', default: 0, min: 0, step: 10, unit: 'ms' }
+    ],
+    detect(segment, { threshold, direction, minDurationMs }) {
+        const crosses = {
+            above: (value) => value >= threshold,
+            below: (value) => value <= threshold,
+            either: (value) => Math.abs(value) >= Math.abs(threshold)
+        }[direction]
+        const minSamples = Math.max(1, Math.ceil(msToUs(minDurationMs) / segment.samplePeriodUs))
+        const runs = runsWhere(segment.data, crosses).filter(([first, last]) => last - first + 1 >= minSamples)
+        return hitsForRuns(segment, runs, (first, last) => segment.data[peakIndex(segment.data, first, last)])
+    }
+})
+
+registerDetector('lineLength', {
+    label: 'Line length',
+    description: 'Marks windows whose line length (summed sample-to-sample change) is a multiple of the median window, ' +
+        'a common screen for seizure onsets.',
+    params: [
+        { key: 'windowMs', label: 'Window', default: 1000, min: 10, step: 100, unit: 'ms' },
+        { key: 'factor', label: 'Times the median', default: 3, min: 1, step: 0.5 }
+    ],
+    describe: (value) => `${value.toFixed(1)}x the median line length`,
+    detect(segment, { windowMs, factor }) {
+        const { data, samplePeriodUs } = segment
+        const size = Math.max(2, Math.round(msToUs(windowMs) / samplePeriodUs))
+        const lengths = []
+        for (let first = 0; first + size <= data.length; first += size) {
+            let length = 0
+            for (let i = first + 1; i < first + size; i++) {
+                length += Math.abs(data[i] - data[i - 1])
+            }
+            // A window that touches a gap sums to NaN, and is neither background nor a hit
+            lengths.push(length)
+        }
+        const background = lengths.some(Number.isFinite) ? median(lengths.filter(Number.isFinite)) : 0
+        if (!(background > 0)) {
+            return []
+        }
+        const runs = runsWhere(lengths, (length) => length >= factor * background)
+        return runs.map(([first, last]) => ({
+            startUs: segment.startUs + first * size * samplePeriodUs,
+            endUs: segment.startUs + (last + 1) * size * samplePeriodUs,
+            value: Math.max(...lengths.slice(first, last + 1)) / background
+        }))
+    }
+})
+
+registerDetector('spike', {
+    label: 'Spike',
+    description: 'Marks brief deflections beyond a multiple of the robust standard deviation, ' +
+        'narrower than a maximum width and no closer together than a refractory period.',
+    params: [
+        { key: 'thresholdSd', label: 'Threshold (SD)', default: 5, min: 1, step: 0.5 },
+        { key: 'polarity', label: 'Polarity', default: 'either', options: ['negative', 'positive', 'either'] },
+        { key: 'maxWidthMs', label: 'Maximum width', default: 70, min: 1, step: 10, unit: 'ms' },
+        { key: 'refractoryMs', label: 'Refractory period', default: 100, min: 0, step: 10, unit: 'ms' }
+    ],
+    detect(segment, { thresholdSd, polarity, maxWidthMs, refractoryMs }) {
+        const stats = robustStats(segment.data)
+        if (!stats || stats.sd === 0) {
+            return []
+        }
+        const limit = thresholdSd * stats.sd
+        const crosses = {
+            negative: (value) => value - stats.median <= -limit,
+            positive: (value) => value - stats.median >= limit,
+            either: (value) => Math.abs(value - stats.median) >= limit
+        }[polarity]
+        const period = segment.samplePeriodUs
+        const hits = []
+        let lastPeakUs = -Infinity
+        for (const [first, last] of runsWhere(segment.data, crosses)) {
+            if ((last - first + 1) * period > msToUs(maxWidthMs)) {
+                continue
+            }
+            const peak = peakIndex(segment.data, first, last, stats.median)
+            const peakUs = segment.startUs + peak * period
+            if (peakUs - lastPeakUs < msToUs(refractoryMs)) {
+                continue
+            }
+            lastPeakUs = peakUs
+            hits.push(...hitsForRuns(segment, [[first, last]], () => segment.data[peak]))
+        }
+        return hits
+    }
+})
+
+registerDetector('artifact', {
+    label: 'Amplitude artifact',
+    description: 'Marks samples beyond an absolute amplitude or jumps larger than a step between samples, ' +
+        'padded on both sides.',
+    params: [
+        { key: 'maxAmplitude', label: 'Amplitude limit', default: 1000, min: 0, unit: 'signal' },
+        { key: 'maxStep', label: 'Step limit (0 for none)', default: 0, min: 0, unit: 'signal' },
+        { key: 'padMs', label: 'Padding', default: 250, min: 0, step: 50, unit: 'ms' }
+    ],
+    detect(segment, { maxAmplitude, maxStep, padMs }) {
+        const { data, samplePeriodUs } = segment
+        const flagged = (value, i) => Math.abs(value) >= maxAmplitude ||
+            (maxStep > 0 && i > 0 && Math.abs(value - data[i - 1]) >= maxStep)
+        const endUs = segment.startUs + data.length * samplePeriodUs
+        const hits = []
+        for (const hit of hitsForRuns(segment, runsWhere(data, flagged), (first, last) => data[peakIndex(data, first, last)])) {
+            const startUs = Math.max(segment.startUs, hit.startUs - msToUs(padMs))
+            const last = hits[hits.length - 1]
+            if (last && startUs <= last.endUs) {
+                last.endUs = Math.min(endUs, hit.endUs + msToUs(padMs))
+                last.value = Math.abs(hit.value) > Math.abs(last.value) ? hit.value : last.value
+            } else {
+                hits.push({ startUs, endUs: Math.min(endUs, hit.endUs + msToUs(padMs)), value: hit.value })
+            }
+        }
+        return hits
+    }
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { describeHit, getDetector, listDetectors, mergeHits, registerDetector, resolveDetectorParams, robustStats } from './detectors'
+
+// 1 kHz: one sample per millisecond, so indexes read as milliseconds
+const segment = (values, startUs = 0) => ({ startUs, samplePeriodUs: 1000, data: Float64Array.from(values) })
+
+const detect = (name, values, params = {}) => getDetector(name).detect(segment(values), resolveDetectorParams(name, params))
+
+describe('registry', () => {
+    it('lists the built-in detectors', () => {
+        expect(listDetectors().map((detector) => detector.name).slice(0, 4))
+            .toEqual(['threshold', 'lineLength', 'spike', 'artifact'])
+    })
+
+    it('takes custom detectors and rejects unknown names', () => {
+        registerDetector('test-nonzero', {
+            label: 'Non-zero',
+            params: [],
+            detect: (seg) => Array.from(seg.data).flatMap((v, i) => (v ? [{ startUs: i, endUs: i + 1, value: v }] : []))
+        })
+        expect(detect('test-nonzero', [0, 2, 0])).toEqual([{ startUs: 1, endUs: 2, value: 2 }])
+        expect(() => getDetector('nope')).toThrow('Unknown detector: nope')
+        expect(() => registerDetector('broken', { params: [] })).toThrow('detect function')
+    })
+})
+
+describe('resolveDetectorParams', () => {
+    it('fills defaults and drops unknown keys', () => {
+        expect(resolveDetectorParams('lineLength', { factor: 4, other: 1 })).toEqual({ windowMs: 1000, factor: 4 })
+    })
+
+    it('checks numbers against their bounds and choices against their options', () => {
+        expect(() => resolveDetectorParams('spike', { thresholdSd: 0 })).toThrow('Threshold (SD) must be a number >= 1')
+        expect(() => resolveDetectorParams('spike', { polarity: 'up' })).toThrow('Polarity must be one of')
+        expect(() => resolveDetectorParams('threshold', { threshold: NaN })).toThrow('Level must be a number')
+    })
+})
+
+describe('threshold', () => {
+    it('marks runs over the level, with their peak', () => {
+        expect(detect('threshold', [0, 5, 9, 5, 0, 6], { threshold: 5 })).toEqual([
+            { startUs: 1000, endUs: 4000, value: 9 },
+            { startUs: 5000, endUs: 6000, value: 6 }
+        ])
+    })
+
+    it('drops runs shorter than the minimum and breaks at gaps', () => {
+        expect(detect('threshold', [9, 9, NaN, 9, 9, 9], { threshold: 5, minDurationMs: 3 })).toEqual([
+            { startUs: 3000, endUs: 6000, value: 9 }
+        ])
+    })
+
+    it('crosses either way on the absolute value', () => {
+        expect(detect('threshold', [0, -7, 0], { threshold: 5, direction: 'either' })).toEqual([
+            { startUs: 1000, endUs: 2000, value: -7 }
+        ])
+        expect(detect('threshold', [0, -7, 0], { threshold: -5, direction: 'below' })).toHaveLength(1)
+    })
+})
+
+describe('lineLength', () => {
+    it('marks windows busier than a multiple of the median window', () => {
+        const quiet = Array.from({ length: 10 }, (_, i) => i % 2)
+        const busy = quiet.map((v) => v * 10)
+        const hits = detect('lineLength', [...quiet, ...quiet, ...busy, ...busy, ...quiet], { windowMs: 10, factor: 3 })
+        expect(hits).toEqual([{ startUs: 20000, endUs: 40000, value: 10 }])
+    })
+
+    it('finds nothing in a flat signal', () => {
+        expect(detect('lineLength', new Array(40).fill(3), { windowMs: 10 })).toEqual([])
+    })
+})
+
+describe('spike', () => {
+    // Noise of +-1 around 0: robust SD of about 1.48
+    const noise = (n) => Array.from({ length: n }, (_, i) => (i % 2 ? 1 : -1))
+
+    it('marks narrow deflections beyond the threshold at their peak value', () => {
+        const values = noise(200)
+        values[50] = -20
+        values[51] = -30
+        values[170] = 25
+        const hits = detect('spike', values, { thresholdSd: 5 })
+        expect(hits).toEqual([
+            { startUs: 50000, endUs: 52000, value: -30 },
+            { startUs: 170000, endUs: 171000, value: 25 }
+        ])
+        expect(detect('spike', values, { thresholdSd: 5, polarity: 'positive' })).toHaveLength(1)
+    })
+
+    it('skips deflections wider than the maximum and within the refractory period', () => {
+        const values = noise(300)
+        values.fill(40, 20, 120)
+        values[200] = 30
+        values[250] = 30
+        expect(detect('spike', values, { maxWidthMs: 70, refractoryMs: 100 }).map((hit) => hit.startUs)).toEqual([200000])
+    })
+
+    it('finds nothing without variation', () => {
+        expect(detect('spike', [1, 1, 1, 1])).toEqual([])
+    })
+})
+
+describe('artifact', () => {
+    it('pads samples over the limit and joins what the padding overlaps', () => {
+        const values = new Array(100).fill(0)
+        values[10] = 2000
+        values[14] = -3000
+        values[80] = 1500
+        expect(detect('artifact', values, { maxAmplitude: 1000, padMs: 3 })).toEqual([
+            { startUs: 7000, endUs: 18000, value: -3000 },
+            { startUs: 77000, endUs: 84000, value: 1500 }
+        ])
+    })
+
+    it('flags large steps when asked, clipped to the segment', () => {
+        const values = [0, 0, 300, 300, 300]
+        expect(detect('artifact', values, { padMs: 10 })).toEqual([])
+        expect(detect('artifact', values, { maxStep: 200, padMs: 10 })).toEqual([{ startUs: 0, endUs: 5000, value: 300 }])
+    })
+})
+
+describe('helpers', () => {
+    it('merges touching hits per channel, keeping the larger value', () => {
+        const hits = [
+            { channelId: 'b', startUs: 0, endUs: 10, value: 1 },
+            { channelId: 'a', startUs: 12, endUs: 20, value: -9 },
+            { channelId: 'a', startUs: 0, endUs: 10, value: 5 },
+            { channelId: 'a', startUs: 40, endUs: 50, value: 1 }
+        ]
+        expect(mergeHits(hits, 2)).toEqual([
+            { channelId: 'a', startUs: 0, endUs: 20, value: -9 },
+            { channelId: 'a', startUs: 40, endUs: 50, value: 1 },
+            { channelId: 'b', startUs: 0, endUs: 10, value: 1 }
+        ])
+    })
+
+    it('describes hits for their annotations', () => {
+        expect(describeHit('spike', { value: -31.25 }, { label: 'C3', unit: 'uV' })).toBe('C3: Spike, peak -31.3 uV')
+        expect(describeHit('lineLength', { value: 4.23 }, { label: 'C3' })).toBe('C3: Line length, 4.2x the median line length')
+    })
+
+    it('takes median and robust SD over finite samples', () => {
+        expect(robustStats([1, 2, NaN, 3, 100])).toEqual({ median: 2.5, sd: 1.4826 })
+        expect(robustStats([NaN])).toBeNull()
+    })
+})
@@ -0,0 +1,383 @@
+// @/composables/streaming/dsp.js
+//
+// Client-side filtering for FilterChains the reader cannot run itself (see
+// filters.js). Chains are applied to raw samples, stage after stage, and the
+// result is min/max decimated to the page's pixel width afterwards -- filtering
+// a min/max envelope instead would be meaningless.
+//
+// Stage designs:
+//   lowpass / highpass  Butterworth, bilinear transform with pre-warping,
+//                       cascaded second-order sections plus one first-order
+//                       section for odd orders.
+//   bandpass            highpass at lowHz followed by lowpass at highHz.
+//   bandstop            ceil(order / 2) RBJ band-reject sections centred on the
+//                       geometric mean of the band edges. An approximation of a
+//                       Butterworth band-stop; a one-stage bandstop never gets
+//                       here, the reader runs it.
+//   notch               one RBJ notch per harmonic below Nyquist.
+//   fir                 direct-form convolution with the given taps.
+
+/** How far before a window a read starts when a chain's filters have to restart, in microseconds. */
+export const CHAIN_LEAD_IN_US = 2000000
+
+/**
+ * @typedef {object} Section
+ * @property {number} b0
+ * @property {number} b1
+ * @property {number} b2
+ * @property {number} a1
+ * @property {number} a2
+ */
+
+/**
+ * Second-order sections of a Butterworth lowpass or highpass.
+ *
+ * The analog poles of an order-N Butterworth sit at angles `pi * (N - 2k - 1) / (2N)` from
+ * the negative real axis; each conjugate pair becomes one section with
+ * `Q = 1 / (2 cos(angle))`. An odd order leaves one real pole, designed as a first-order
+ * section.
+ *
+ * @param {'lowpass'|'highpass'} type
+ * @param {number} order
+ * @param {number} cutoffHz
+ * @param {number} rateHz
+ * @returns {Section[]}
+ */
+function butterworthSections(type, order, cutoffHz, rateHz) {
+    const K = Math.tan(Math.PI * cutoffHz / rateHz)
+    const K2 = K * K
+    const sections = []
+
+    for (let k = 0; k < Math.floor(order / 2); k++) {
+        const angle = Math.PI * (order - 2 * k - 1) / (2 * order)
+        const Q = 1 / (2 * Math.cos(angle))
+        const norm = 1 / (1 + K / Q + K2)
+        const a1 = 2 * (K2 - 1) * norm
+        const a2 = (1 - K / Q + K2) * norm
+        if (type === 'lowpass') {
+            sections.push({ b0: K2 * norm, b1: 2 * K2 * norm, b2: K2 * norm, a1, a2 })
+        } else {
+            sections.push({ b0: norm, b1: -2 * norm, b2: norm, a1, a2 })
+        }
+    }
+
+    if (order % 2 === 1) {
+        const norm = 1 / (1 + K)
+        const a1 = (K - 1) * norm
+        if (type === 'lowpass') {
+            sections.push({ b0: K * norm, b1: K * norm, b2: 0, a1, a2: 0 })
+        } else {
+            sections.push({ b0: norm, b1: -norm, b2: 0, a1, a2: 0 })
+        }
+    }
+    return sections
+}
+
+/**
+ * RBJ cookbook band-reject section.
+ *
+ * @param {number} centerHz
+ * @param {number} q
+ * @param {number} rateHz
+ * @returns {Section}
+ */
+function notchSection(centerHz, q, rateHz) {
+    const w0 = 2 * Math.PI * centerHz / rateHz
+    const cos = Math.cos(w0)
+    const alpha = Math.sin(w0) / (2 * q)
+    const a0 = 1 + alpha
+    return {
+        b0: 1 / a0,
+        b1: -2 * cos / a0,
+        b2: 1 / a0,
+        a1: -2 * cos / a0,
+        a2: (1 - alpha) / a0
+    }
+}
+
+/**
+ * The second-order sections for one IIR chain stage, or null for a stage that is not IIR.
+ *
+ * @param {object} stage
+ * @param {number} rateHz
+ * @returns {?Section[]}
+ */
+export function designSections(stage, rateHz) {
+    switch (stage.type) {
+        case 'lowpass':
+        case 'highpass':
+            return butterworthSections(stage.type, stage.order, stage.cutoffHz, rateHz)
+        case 'bandpass':
+            return [
+                ...butterworthSections('highpass', stage.order, stage.lowHz, rateHz),
+                ...butterworthSections('lowpass', stage.order, stage.highHz, rateHz)
+            ]
+        case 'bandstop': {
+            const center = Math.sqrt(stage.lowHz * stage.highHz)
+            const q = center / (stage.highHz - stage.lowHz)
+            return Array.from({ length: Math.ceil(stage.order / 2) }, () => notchSection(center, q, rateHz))
+        }
+        case 'notch': {
+            const sections = []
+            const nyquistHz = rateHz / 2
+            for (let h = 1; h <= stage.harmonics; h++) {
+                const freqHz = stage.freqHz * h
+                if (freqHz >= nyquistHz) {
+                    break
+                }
+                sections.push(notchSection(freqHz, stage.q, rateHz))
+            }
+            return sections
+        }
+        default:
+            return null
+    }
+}
+
+/**
+ * Stateful runner for a cascade of second-order sections, in transposed direct form II.
+ *
+ * @param {Section[]} sections
+ * @returns {{step: function(number): number, reset: function(): void}}
+ */
+function createSectionRunner(sections) {
+    const z1 = new Float64Array(sections.length)
+    const z2 = new Float64Array(sections.length)
+    let primed = false
+
+    return {
+        step(x) {
+            // Start from steady state for the first sample rather than from rest, so a DC
+            // offset does not ring through a highpass at the start of every read.
+            if (!primed) {
+                primed = true
+                let level = x
+                for (let s = 0; s < sections.length; s++) {
+                    const { b0, b1, b2, a1, a2 } = sections[s]
+                    const gain = (b0 + b1 + b2) / (1 + a1 + a2)
+                    const out = Number.isFinite(gain) ? level * gain : 0
+                    z2[s] = b2 * level - a2 * out
+                    z1[s] = b1 * level - a1 * out + z2[s]
+                    level = out
+                }
+            }
+            let y = x
+            for (let s = 0; s < sections.length; s++) {
+                const { b0, b1, b2, a1, a2 } = sections[s]
+                const out = b0 * y + z1[s]
+                z1[s] = b1 * y - a1 * out + z2[s]
+                z2[s] = b2 * y - a2 * out
+                y = out
+            }
+            return y
+        },
+        reset() {
+            z1.fill(0)
+            z2.fill(0)
+            primed = false
+        }
+    }
+}
+
+/**
+ * Stateful direct-form FIR runner.
+ *
+ * @param {number[]} taps
+ * @returns {{step: function(number): number, reset: function(): void}}
+ */
+function createFirRunner(taps) {
+    const n = taps.length
+    const history = new Float64Array(n)
+    let head = 0
+    let filled = false
+
+    return {
+        step(x) {
+            // Like the IIR runner, start as if the signal had been constant at its first
+            // value, so the kernel's length does not show up as a ramp from zero.
+            if (!filled) {
+                history.fill(x)
+                filled = true
+            }
+            history[head] = x
+            let y = 0
+            let idx = head
+            for (let k = 0; k < n; k++) {
+                y += taps[k] * history[idx]
+                idx = idx === 0 ? n - 1 : idx - 1
+            }
+            head = head === n - 1 ? 0 : head + 1
+            return y
+        },
+        reset() {
+            history.fill(0)
+            head = 0
+            filled = false
+        }
+    }
+}
+
+/**
+ * Stateful processor for a whole FilterChain at one sample rate.
+ *
+ * State carries across `process` calls, so consecutive pages of one trace filter as one
+ * continuous signal. A NaN sample (a recording gap) passes through as NaN and restarts
+ * every stage, because an IIR state that has seen NaN stays NaN for good.
+ *
+ * @param {object[]} chain Validated stages.
+ * @param {number} rateHz
+ * @returns {{process: function(ArrayLike<number>): Float64Array, reset: function(): void}}
+ */
+export function createChainProcessor(chain, rateHz) {
+    const runners = chain.map((stage) => {
+        if (stage.type === 'fir') {
+            return createFirRunner(stage.taps)
+        }
+        const sections = designSections(stage, rateHz)
+        if (sections === null) {
+            throw new Error(`Unsupported filter stage "${stage.type}"`)
+        }
+        return createSectionRunner(sections)
+    })
+
+    const reset = () => {
+        for (const runner of runners) {
+            runner.reset()
+        }
+    }
+
+    return {
+        process(input) {
+            const out = new Float64Array(input.length)
+            for (let i = 0; i < input.length; i++) {
+                let y = input[i]
+                if (Number.isNaN(y)) {
+                    reset()
+                    out[i] = NaN
+                    continue
+                }
+                for (const runner of runners) {
+                    y = runner.step(y)
+                }
+                out[i] = y
+            }
+            return out
+        },
+        reset
+    }
+}
+
+/**
+ * Min/max decimation of raw samples into pixel-wide bins.
+ *
+ * Bins are anchored at `anchorUs` (the page start), so the first bin starts exactly on the
+ * page boundary and the result tiles with neighbouring pages the same way the reader's own
+ * bins do. Samples before the anchor are ignored. A bin with no finite sample is NaN/NaN,
+ * which the renderer draws as a break.
+ *
+ * @param {ArrayLike<number>} samples
+ * @param {number} startUs Time of `samples[0]`.
+ * @param {number} samplePeriodUs
+ * @param {number} anchorUs
+ * @param {number} pixelWidthUs
+ * @returns {{startUs: number, samplePeriodUs: number, isMinMax: true, data: Float64Array}}
+ */
+export function decimateMinMax(samples, startUs, samplePeriodUs, anchorUs, pixelWidthUs) {
+    const lastUs = startUs + (samples.length - 1) * samplePeriodUs
+    const binCount = samples.length === 0 || lastUs < anchorUs
+        ? 0
+        : Math.floor((lastUs - anchorUs) / pixelWidthUs) + 1
+    const data = new Float64Array(binCount * 2).fill(NaN)
+
+    for (let i = 0; i < samples.length; i++) {
+        const t = startUs + i * samplePeriodUs
+        const v = samples[i]
+        if (t < anchorUs || !Number.isFinite(v)) {
+            continue
+        }
+        const bin = Math.floor((t - anchorUs) / pixelWidthUs)
+        const lo = bin * 2
+        if (!(data[lo] <= v)) data[lo] = v
+        if (!(data[lo + 1] >= v)) data[lo + 1] = v
+    }
+
+    return { startUs: anchorUs, samplePeriodUs: pixelWidthUs, isMinMax: true, data }
+}
+
+/**
+ * Shapes raw samples computed client-side like the reader segment a page request would
+ * have produced: raw when the request asked for raw samples or the samples are already
+ * coarser than a pixel, min/max bins anchored on the page start otherwise.
+ *
+ * @param {{startUs: number, samplePeriodUs: number, data: ArrayLike<number>}} segment Raw samples.
+ * @param {{startTime: number, pixelWidth: number, raw: boolean}} req
+ * @returns {{startUs: number, samplePeriodUs: number, isMinMax: boolean, data: ArrayLike<number>}}
+ */
+export function shapeForPage(segment, req) {
+    if (req.raw || req.pixelWidth <= segment.samplePeriodUs) {
+        return { startUs: segment.startUs, samplePeriodUs: segment.samplePeriodUs, isMinMax: false, data: segment.data }
+    }
+    return decimateMinMax(segment.data, segment.startUs, segment.samplePeriodUs, req.startTime, req.pixelWidth)
+}
+
+/**
+ * Per-trace chain filter that carries state from page to page.
+ *
+ * Pages of a trace are filtered as one signal when they arrive in order: each page consumes
+ * only samples at or after the point the previous page stopped, and state carries over. Any
+ * other page (a jump, a backward step, a first read) restarts the chain, and the caller is
+ * expected to have read a lead-in before the page so the restart transient settles outside
+ * the visible window -- {@link needsLeadIn} says when.
+ *
+ * @param {object[]} chain Validated stages.
+ * @returns {{needsLeadIn: function(number): boolean, apply: function(object, object): object}}
+ */
+export function createTraceFilter(chain) {
+    let processor = null
+    let processorPeriodUs = null
+    let nextUs = null
+
+    const needsLeadIn = (pageStartUs) => nextUs !== pageStartUs
+
+    /**
+     * Filters one raw reader segment for a page and shapes the result with {@link shapeForPage}.
+     *
+     * @param {{startUs: number, samplePeriodUs: number, data: ArrayLike<number>}} segment Raw segment, possibly starting before the page.
+     * @param {{startTime: number, endTime: number, pixelWidth: number, raw: boolean}} req
+     */
+    const apply = (segment, req) => {
+        const period = segment.samplePeriodUs
+        if (processor === null || processorPeriodUs !== period) {
+            processor = createChainProcessor(chain, 1e6 / period)
+            processorPeriodUs = period
+            nextUs = null
+        }
+
+        const contiguous = nextUs === req.startTime
+        if (!contiguous) {
+            processor.reset()
+        }
+
+        // Consume [from, req.endTime): from the page start when continuing, from the first
+        // sample otherwise so the lead-in primes the filter.
+        const fromUs = contiguous ? req.startTime : -Infinity
+        let first = 0
+        while (first < segment.data.length && segment.startUs + first * period < fromUs) {
+            first++
+        }
+        let end = first
+        while (end < segment.data.length && segment.startUs + end * period < req.endTime) {
+            end++
+        }
+
+        const filtered = processor.process(segment.data.subarray
+            ? segment.data.subarray(first, end)
+            : Array.prototype.slice.call(segment.data, first, end))
+        const filteredStartUs = segment.startUs + first * period
+        nextUs = req.endTime
+
+        return shapeForPage({ startUs: filteredStartUs, samplePeriodUs: period, data: filtered }, req)
+    }
+
+    return { needsLeadIn, apply }
+}
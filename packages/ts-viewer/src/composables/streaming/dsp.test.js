@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import { createChainProcessor, createTraceFilter, decimateMinMax, designSections } from './dsp'
+
+const RATE = 1000
+
+const sine = (freqHz, n, rateHz = RATE, amplitude = 1) =>
+    Float64Array.from({ length: n }, (_, i) => amplitude * Math.sin(2 * Math.PI * freqHz * i / rateHz))
+
+/** Root-mean-square over the second half, once the filter has settled. */
+const tailRms = (data) => {
+    const tail = data.subarray(Math.floor(data.length / 2))
+    return Math.sqrt(tail.reduce((sum, v) => sum + v * v, 0) / tail.length)
+}
+
+describe('designSections', () => {
+    it('cascades order / 2 sections for an even Butterworth and adds one for an odd one', () => {
+        expect(designSections({ type: 'lowpass', order: 4, cutoffHz: 40 }, RATE)).toHaveLength(2)
+        expect(designSections({ type: 'highpass', order: 3, cutoffHz: 1 }, RATE)).toHaveLength(2)
+    })
+
+    it('designs one notch per harmonic below Nyquist', () => {
+        const sections = designSections({ type: 'notch', freqHz: 60, harmonics: 10, q: 30 }, 250)
+        // 60 and 120 Hz fit under the 125 Hz Nyquist; 180 Hz does not.
+        expect(sections).toHaveLength(2)
+    })
+
+    it('returns null for a stage that is not IIR', () => {
+        expect(designSections({ type: 'fir', taps: [1] }, RATE)).toBeNull()
+    })
+})
+
+describe('createChainProcessor', () => {
+    it('passes the passband and attenuates the stopband of a lowpass', () => {
+        const lowpass = [{ type: 'lowpass', order: 4, cutoffHz: 40 }]
+        const pass = createChainProcessor(lowpass, RATE).process(sine(5, 4000))
+        const stop = createChainProcessor(lowpass, RATE).process(sine(200, 4000))
+        expect(tailRms(pass)).toBeGreaterThan(0.69)
+        expect(tailRms(stop)).toBeLessThan(0.01)
+    })
+
+    it('removes mains and its harmonics with a harmonic notch', () => {
+        const notch = [{ type: 'notch', freqHz: 60, harmonics: 3, q: 30 }]
+        for (const freqHz of [60, 120, 180]) {
+            const out = createChainProcessor(notch, RATE).process(sine(freqHz, 8000))
+            expect(tailRms(out)).toBeLessThan(0.02)
+        }
+        const kept = createChainProcessor(notch, RATE).process(sine(10, 8000))
+        expect(tailRms(kept)).toBeGreaterThan(0.69)
+    })
+
+    it('applies stages in order, each to the previous output', () => {
+        const chain = [
+            { type: 'highpass', order: 2, cutoffHz: 0.5 },
+            { type: 'fir', taps: [2] }
+        ]
+        const offset = Float64Array.from(sine(10, 4000), (v) => v + 5)
+        const out = createChainProcessor(chain, RATE).process(offset)
+        // The highpass strips the offset, then the one-tap FIR doubles what is left.
+        expect(tailRms(out)).toBeCloseTo(2 / Math.SQRT2, 1)
+    })
+
+    it('starts from steady state, so a constant input does not ring', () => {
+        const out = createChainProcessor([{ type: 'lowpass', order: 4, cutoffHz: 40 }], RATE)
+            .process(new Float64Array(100).fill(3))
+        for (const v of out) {
+            expect(v).toBeCloseTo(3, 9)
+        }
+    })
+
+    it('passes a gap through as NaN and recovers after it', () => {
+        const input = new Float64Array(200).fill(1)
+        input[50] = NaN
+        const out = createChainProcessor([{ type: 'highpass', order: 2, cutoffHz: 1 }], RATE).process(input)
+        expect(Number.isNaN(out[50])).toBe(true)
+        expect(Number.isFinite(out[51])).toBe(true)
+        expect(Number.isFinite(out[199])).toBe(true)
+    })
+
+    it('carries state across calls', () => {
+        const chain = [{ type: 'lowpass', order: 4, cutoffHz: 40 }]
+        const whole = createChainProcessor(chain, RATE).process(sine(30, 400))
+        const split = createChainProcessor(chain, RATE)
+        const a = split.process(sine(30, 400).subarray(0, 150))
+        const b = split.process(sine(30, 400).subarray(150))
+        expect(Array.from(a).concat(Array.from(b))).toEqual(Array.from(whole))
+    })
+})
+
+describe('decimateMinMax', () => {
+    it('bins on the anchor and drops samples before it', () => {
+        const samples = Float64Array.from([9, 1, 5, 2, 7, 3])
+        const out = decimateMinMax(samples, 0, 1000, 1000, 2000)
+        expect(out.startUs).toBe(1000)
+        expect(out.samplePeriodUs).toBe(2000)
+        expect(out.isMinMax).toBe(true)
+        expect(Array.from(out.data)).toEqual([1, 5, 2, 7, 3, 3])
+    })
+
+    it('leaves a bin with no finite sample as NaN', () => {
+        const out = decimateMinMax(Float64Array.from([1, NaN, NaN, 4]), 0, 1000, 0, 1000)
+        expect(out.data[2]).toBeNaN()
+        expect(out.data[3]).toBeNaN()
+        expect(out.data[6]).toBe(4)
+    })
+})
+
+describe('createTraceFilter', () => {
+    const chain = [{ type: 'lowpass', order: 4, cutoffHz: 40 }]
+    const page = (startTime, endTime, over = {}) => ({ startTime, endTime, pixelWidth: 1000, raw: true, ...over })
+    const segment = (startUs, data) => ({ startUs, samplePeriodUs: 1000, isMinMax: false, data })
+
+    it('needs a lead-in until it has filtered the page before', () => {
+        const filter = createTraceFilter(chain)
+        expect(filter.needsLeadIn(0)).toBe(true)
+        filter.apply(segment(0, sine(5, 100)), page(0, 100000))
+        expect(filter.needsLeadIn(100000)).toBe(false)
+        expect(filter.needsLeadIn(500000)).toBe(true)
+    })
+
+    it('filters consecutive pages as one signal', () => {
+        const signal = sine(30, 200)
+        const whole = createChainProcessor(chain, RATE).process(signal)
+
+        const filter = createTraceFilter(chain)
+        // The reader may run one bin past the page; the overlap must not be filtered twice.
+        const first = filter.apply(segment(0, signal.subarray(0, 101)), page(0, 100000))
+        const second = filter.apply(segment(100000, signal.subarray(100)), page(100000, 200000))
+        expect(first.data).toHaveLength(100)
+        expect(Array.from(first.data).concat(Array.from(second.data))).toEqual(Array.from(whole))
+    })
+
+    it('decimates to min/max when the page asks for it', () => {
+        const filter = createTraceFilter(chain)
+        const out = filter.apply(segment(0, sine(5, 1000)), page(0, 1000000, { raw: false, pixelWidth: 10000 }))
+        expect(out.isMinMax).toBe(true)
+        expect(out.startUs).toBe(0)
+        expect(out.data).toHaveLength(200)
+    })
+})
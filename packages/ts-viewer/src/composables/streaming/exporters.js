@@ -0,0 +1,392 @@
+// @/composables/streaming/exporters.js
+//
+// File encoders for window exports. Traces come from raw window reads (see
+// windowReader.js) and are written on their native sample grids, never resampled.
+// A gap -- a NaN sample, or a sample slot the reader returned nothing for -- stays a
+// gap in every format rather than being bridged with a made-up value.
+
+/**
+ * @typedef {object} ExportTrace
+ * @property {string} label
+ * @property {string} unit
+ * @property {number} startUs Time of `data[0]`: the first slot of the trace's grid at or after the window start.
+ * @property {number} samplePeriodUs
+ * @property {Float64Array} data One entry per sample slot in the window; NaN for gaps.
+ */
+
+/** Formats a window can be exported as. */
+export const EXPORT_FORMATS = Object.freeze([
+    { value: 'edf', label: 'EDF+', extension: 'edf', mimeType: 'application/octet-stream' },
+    { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+    { value: 'npy', label: 'NumPy (.npy)', extension: 'npy', mimeType: 'application/octet-stream' }
+])
+
+/**
+ * Lays a raw window read out on every sample slot of the window.
+ *
+ * The reader's segment may start late or end early when the recording does; the slots it
+ * does not cover become NaN, so a short read is exported as a gap instead of as a shorter
+ * trace that a consumer would line up wrongly.
+ *
+ * @param {import('./windowReader').WindowTrace} trace A trace with a segment.
+ * @param {number} startUs
+ * @param {number} endUs
+ * @returns {ExportTrace}
+ */
+export function toExportTrace(trace, startUs, endUs) {
+    const { segment, identity } = trace
+    const period = segment.samplePeriodUs
+    const offset = Math.ceil((startUs - segment.startUs) / period)
+    const firstUs = segment.startUs + offset * period
+    const length = Math.max(0, Math.ceil((endUs - firstUs) / period))
+
+    const data = new Float64Array(length).fill(NaN)
+    for (let i = 0; i < length; i++) {
+        const source = i + offset
+        if (source >= 0 && source < segment.data.length) {
+            data[i] = segment.data[source]
+        }
+    }
+    return { label: identity.label, unit: identity.unit ?? '', startUs: firstUs, samplePeriodUs: period, data }
+}
+
+/**
+ * Index ranges of the NaN runs in a trace.
+ *
+ * @param {ArrayLike<number>} data
+ * @returns {Array<[number, number]>} Half-open `[start, end)` pairs, in order.
+ */
+export function gapRuns(data) {
+    const runs = []
+    let start = -1
+    for (let i = 0; i < data.length; i++) {
+        if (Number.isNaN(data[i])) {
+            if (start < 0) start = i
+        } else if (start >= 0) {
+            runs.push([start, i])
+            start = -1
+        }
+    }
+    if (start >= 0) {
+        runs.push([start, data.length])
+    }
+    return runs
+}
+
+/**
+ * Quotes a CSV field when it holds a separator, a quote or a line break.
+ *
+ * @param {*} value
+ * @returns {string}
+ */
+export function csvField(value) {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes traces as one CSV table with a `time_s` column and one column per trace.
+ *
+ * Rows are the union of every trace's sample times, so traces at different rates share
+ * the table without resampling: a trace has a value only on rows that are its own sample
+ * times. Cells with no sample, and gap samples, are empty.
+ *
+ * @param {ExportTrace[]} traces
+ * @param {{originUs?: number}} [options] `time_s` is measured from `originUs`; defaults to the earliest trace start.
+ * @returns {string}
+ */
+export function encodeCsv(traces, options = {}) {
+    const originUs = options.originUs ?? Math.min(...traces.map((trace) => trace.startUs))
+    const header = ['time_s', ...traces.map((trace) => csvField(trace.unit ? `${trace.label} (${trace.unit})` : trace.label))]
+    const lines = [header.join(',')]
+
+    // Two traces share a row when their sample times agree to within half a microsecond
+    const next = traces.map(() => 0)
+    const timeOf = (t) => traces[t].startUs + next[t] * traces[t].samplePeriodUs
+    for (;;) {
+        let rowUs = Infinity
+        for (let t = 0; t < traces.length; t++) {
+            if (next[t] < traces[t].data.length) {
+                rowUs = Math.min(rowUs, timeOf(t))
+            }
+        }
+        if (rowUs === Infinity) break
+
+        const row = [((rowUs - originUs) / 1e6).toFixed(6)]
+        for (let t = 0; t < traces.length; t++) {
+            if (next[t] < traces[t].data.length && timeOf(t) - rowUs < 0.5) {
+                const value = traces[t].data[next[t]]
+                row.push(Number.isNaN(value) ? '' : String(value))
+                next[t]++
+            } else {
+                row.push('')
+            }
+        }
+        lines.push(row.join(','))
+    }
+    return `${lines.join('\n')}\n`
+}
+
+/**
+ * Serializes traces as a NumPy `.npy` file: a little-endian float64 array of shape
+ * `(traces, samples)`, with NaN for gaps.
+ *
+ * @param {ExportTrace[]} traces
+ * @returns {Uint8Array}
+ * @throws {Error} When there are no traces, or they differ in rate or length -- one array cannot hold them.
+ */
+export function encodeNpy(traces) {
+    if (traces.length === 0) {
+        throw new Error('Nothing to export')
+    }
+    const { samplePeriodUs, data: { length } } = traces[0]
+    if (traces.some((trace) => trace.samplePeriodUs !== samplePeriodUs || trace.data.length !== length)) {
+        throw new Error('A .npy file holds one array, so every channel needs the same sample rate. Export mixed rates as EDF+ or CSV.')
+    }
+
+    // Format 1.0: magic, version, header length, then the header padded so data starts on a 64-byte boundary
+    const dict = `{'descr': '<f8', 'fortran_order': False, 'shape': (${traces.length}, ${length}), }`
+    const unpadded = 10 + dict.length + 1
+    const headerText = dict + ' '.repeat((64 - (unpadded % 64)) % 64) + '\n'
+    const headerBytes = 10 + headerText.length
+
+    const out = new Uint8Array(headerBytes + traces.length * length * 8)
+    const view = new DataView(out.buffer)
+    out.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0])
+    view.setUint16(8, headerText.length, true)
+    for (let i = 0; i < headerText.length; i++) {
+        out[10 + i] = headerText.charCodeAt(i)
+    }
+
+    let offset = headerBytes
+    for (const trace of traces) {
+        for (let i = 0; i < length; i++) {
+            view.setFloat64(offset, trace.data[i], true)
+            offset += 8
+        }
+    }
+    return out
+}
+
+const EDF_DIGITAL_MIN = -32768
+const EDF_DIGITAL_MAX = 32767
+
+// Tried in order; the first that gives every trace a whole number of samples per record wins
+const EDF_RECORD_SECONDS = [1, 2, 5, 10, 0.5, 0.25, 0.2, 0.1]
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+const pad2 = (value) => String(value).padStart(2, '0')
+
+/** A header field: printable ASCII, left-justified and space-padded to `width`. */
+const edfField = (value, width) =>
+    String(value).replace(/[^\x20-\x7e]/g, '_').slice(0, width).padEnd(width, ' ')
+
+/** A number in at most `width` characters, losing precision rather than overflowing the field. */
+const edfNumber = (value, width = 8) => {
+    let text = String(value)
+    for (let digits = width; text.length > width && digits > 0; digits--) {
+        text = String(Number(value.toPrecision(digits)))
+    }
+    return text
+}
+
+/** A TAL onset or duration in seconds: signed for onsets, at most microsecond precision. */
+const talSeconds = (seconds, signed) => {
+    const text = String(Number(seconds.toFixed(6)))
+    return signed && seconds >= 0 ? `+${text}` : text
+}
+
+/** Annotation text with control characters, which delimit TALs, turned into spaces. */
+const talText = (text) => Array.from(String(text), (char) => (char.charCodeAt(0) < 0x20 ? ' ' : char)).join('')
+
+/**
+ * Serializes traces as an EDF+ file.
+ *
+ * Each trace becomes a signal at its own rate. A data record the window has no sample in,
+ * on any trace, is left out and the file is written as discontinuous EDF+D, whose per-record
+ * time stamps make the hole explicit. Gap samples inside a written record take the digital
+ * minimum, which real samples never use, and each gap is also listed as a `Gap <label>`
+ * annotation so readers that ignore the digital range still see it.
+ *
+ * With no traces and at least one annotation, the file holds annotations only: one data
+ * record of zero duration, as EDF+ allows for annotation files.
+ *
+ * Times are UTC. The header's start time has whole-second resolution, so the window's
+ * sub-second offset goes into the first record's time stamp.
+ *
+ * @param {ExportTrace[]} traces
+ * @param {number} startUs Window start.
+ * @param {number} endUs Window end.
+ * @param {{annotations?: Array<{startUs: number, durationUs: number, text: string}>, recording?: string}} [options]
+ *   `annotations` are written as EDF+ annotations; `recording` names the recording in the header.
+ * @returns {Uint8Array}
+ * @throws {Error} When there is nothing to write, or no record length fits every trace's rate.
+ */
+export function encodeEdf(traces, startUs, endUs, options = {}) {
+    const annotationsOnly = traces.length === 0
+    if (annotationsOnly && !(options.annotations?.length > 0)) {
+        throw new Error('Nothing to export')
+    }
+    const rates = traces.map((trace) => 1e6 / trace.samplePeriodUs)
+    const isWhole = (value) => Math.abs(value - Math.round(value)) < 1e-6
+    const recordSeconds = annotationsOnly
+        ? 0
+        : EDF_RECORD_SECONDS.find((seconds) => rates.every((rate) => isWhole(rate * seconds)))
+    if (recordSeconds === undefined) {
+        throw new Error(`EDF+ needs a whole number of samples per data record, which no record length gives for ${rates.join(', ')} Hz`)
+    }
+    const samplesPerRecord = rates.map((rate) => Math.round(rate * recordSeconds))
+    const recordUs = recordSeconds * 1e6
+    const recordCount = annotationsOnly ? 1 : Math.max(1, Math.ceil((endUs - startUs) / recordUs))
+
+    // Digitize every record first: which records are written decides EDF+C or EDF+D
+    const scales = traces.map((trace) => {
+        let min = Infinity
+        let max = -Infinity
+        for (const value of trace.data) {
+            if (value < min) min = value
+            if (value > max) max = value
+        }
+        if (!Number.isFinite(min)) {
+            min = -1
+            max = 1
+        } else if (min === max) {
+            min -= 1
+            max += 1
+        }
+        // Scale with the header's rounded values, which are what a reader will use
+        const physicalMin = Number(edfNumber(min))
+        const physicalMax = Number(edfNumber(max))
+        return { physicalMin, physicalMax, gain: (EDF_DIGITAL_MAX - EDF_DIGITAL_MIN) / (physicalMax - physicalMin) }
+    })
+
+    const records = []
+    for (let r = 0; r < recordCount; r++) {
+        const recordStartUs = startUs + r * recordUs
+        let hasData = false
+        const signals = traces.map((trace, t) => {
+            const { physicalMin, gain } = scales[t]
+            const out = new Int16Array(samplesPerRecord[t]).fill(EDF_DIGITAL_MIN)
+            for (let j = 0; j < out.length; j++) {
+                const index = Math.round((recordStartUs + j * trace.samplePeriodUs - trace.startUs) / trace.samplePeriodUs)
+                const value = index >= 0 && index < trace.data.length ? trace.data[index] : NaN
+                if (!Number.isNaN(value)) {
+                    const digital = Math.round((value - physicalMin) * gain + EDF_DIGITAL_MIN)
+                    out[j] = Math.min(EDF_DIGITAL_MAX, Math.max(EDF_DIGITAL_MIN + 1, digital))
+                    hasData = true
+                }
+            }
+            return out
+        })
+        if (hasData || annotationsOnly) {
+            records.push({ startUs: recordStartUs, signals, tal: [] })
+        }
+    }
+    if (records.length === 0) {
+        records.push({ startUs, signals: samplesPerRecord.map((n) => new Int16Array(n).fill(EDF_DIGITAL_MIN)), tal: [] })
+    }
+
+    const fileStartUs = Math.floor(startUs / 1e6) * 1e6
+    const onsetOf = (us) => (us - fileStartUs) / 1e6
+
+    // An annotation goes in the last written record that starts at or before it
+    const annotate = (onsetUs, durationUs, text) => {
+        let index = 0
+        while (index + 1 < records.length && records[index + 1].startUs <= onsetUs) {
+            index++
+        }
+        const duration = durationUs > 0 ? `\x15${talSeconds(durationUs / 1e6, false)}` : ''
+        records[index].tal.push(`${talSeconds(onsetOf(onsetUs), true)}${duration}\x14${talText(text)}\x14\x00`)
+    }
+    for (const annotation of options.annotations ?? []) {
+        annotate(annotation.startUs, annotation.durationUs, annotation.text)
+    }
+    for (const trace of traces) {
+        for (const [start, end] of gapRuns(trace.data)) {
+            annotate(trace.startUs + start * trace.samplePeriodUs, (end - start) * trace.samplePeriodUs, `Gap ${trace.label}`)
+        }
+    }
+
+    const encoder = new TextEncoder()
+    const talBytes = records.map((record) =>
+        encoder.encode(`${talSeconds(onsetOf(record.startUs), true)}\x14\x14\x00${record.tal.join('')}`)
+    )
+    const annotationSamples = Math.ceil(Math.max(...talBytes.map((bytes) => bytes.length)) / 2)
+
+    const signalCount = traces.length + 1
+    const headerBytes = 256 * (signalCount + 1)
+    const recordBytes = 2 * (samplesPerRecord.reduce((sum, n) => sum + n, 0) + annotationSamples)
+    const out = new Uint8Array(headerBytes + records.length * recordBytes)
+
+    const start = new Date(fileStartUs / 1000)
+    const continuous = records.length === recordCount &&
+        records.every((record, r) => record.startUs === startUs + r * recordUs)
+    const recordingName = (options.recording ?? '').trim().replace(/\s+/g, '_') || 'X'
+    const signalField = (pick, width) => [...traces.map(pick), pick(null)].map((value) => edfField(value, width)).join('')
+
+    const header = [
+        edfField('0', 8),
+        edfField('X X X X', 80),
+        edfField(`Startdate ${pad2(start.getUTCDate())}-${MONTHS[start.getUTCMonth()]}-${start.getUTCFullYear()} X X ${recordingName}`, 80),
+        edfField(`${pad2(start.getUTCDate())}.${pad2(start.getUTCMonth() + 1)}.${pad2(start.getUTCFullYear() % 100)}`, 8),
+        edfField(`${pad2(start.getUTCHours())}.${pad2(start.getUTCMinutes())}.${pad2(start.getUTCSeconds())}`, 8),
+        edfField(headerBytes, 8),
+        edfField(continuous ? 'EDF+C' : 'EDF+D', 44),
+        edfField(records.length, 8),
+        edfField(edfNumber(recordSeconds), 8),
+        edfField(signalCount, 4),
+        signalField((trace) => (trace ? trace.label : 'EDF Annotations'), 16),
+        signalField(() => '', 80),
+        signalField((trace) => (trace ? trace.unit : ''), 8),
+        [...scales.map((scale) => edfNumber(scale.physicalMin)), '-1'].map((value) => edfField(value, 8)).join(''),
+        [...scales.map((scale) => edfNumber(scale.physicalMax)), '1'].map((value) => edfField(value, 8)).join(''),
+        signalField(() => EDF_DIGITAL_MIN, 8),
+        signalField(() => EDF_DIGITAL_MAX, 8),
+        signalField(() => '', 80),
+        [...samplesPerRecord, annotationSamples].map((value) => edfField(value, 8)).join(''),
+        signalField(() => '', 32)
+    ].join('')
+    for (let i = 0; i < header.length; i++) {
+        out[i] = header.charCodeAt(i)
+    }
+
+    const view = new DataView(out.buffer)
+    let offset = headerBytes
+    records.forEach((record, r) => {
+        for (const signal of record.signals) {
+            for (let j = 0; j < signal.length; j++) {
+                view.setInt16(offset, signal[j], true)
+                offset += 2
+            }
+        }
+        out.set(talBytes[r], offset)
+        offset += 2 * annotationSamples
+    })
+    return out
+}
+
+/**
+ * Encodes traces in one of {@link EXPORT_FORMATS}.
+ *
+ * @param {string} format An `EXPORT_FORMATS` value.
+ * @param {ExportTrace[]} traces
+ * @param {number} startUs Window start.
+ * @param {number} endUs Window end.
+ * @param {{originUs?: number, annotations?: Array<{startUs: number, durationUs: number, text: string}>, recording?: string}} [options]
+ *   `originUs` is CSV's time zero; the rest are EDF+ only.
+ * @returns {string | Uint8Array}
+ * @throws {Error} For an unknown format, or when the format cannot hold the traces.
+ */
+export function encodeWindow(format, traces, startUs, endUs, options = {}) {
+    switch (format) {
+        case 'edf':
+            return encodeEdf(traces, startUs, endUs, options)
+        case 'csv':
+            return encodeCsv(traces, options)
+        case 'npy':
+            return encodeNpy(traces)
+        default:
+            throw new Error(`Unknown export format "${format}"`)
+    }
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { encodeCsv, encodeEdf, encodeNpy, encodeWindow, gapRuns, toExportTrace } from './exporters'
+
+// 2024-01-01T00:00:00Z
+const START_US = 1704067200000000
+
+const trace = (label, samplePeriodUs, values, startUs = START_US) => ({
+    label,
+    unit: 'uV',
+    startUs,
+    samplePeriodUs,
+    data: Float64Array.from(values)
+})
+
+const ascii = (bytes, from, length) => String.fromCharCode(...bytes.slice(from, from + length)).trim()
+
+/** Reads back the parts of an EDF+ file the encoder is responsible for. */
+const readEdf = (bytes) => {
+    const view = new DataView(bytes.buffer)
+    const signals = Number(ascii(bytes, 252, 4))
+    const field = (offset, width) => Array.from({ length: signals }, (_, s) => ascii(bytes, 256 + offset * signals + s * width, width))
+    const samples = field(216, 8).map(Number)
+    const records = Number(ascii(bytes, 236, 8))
+    const headerBytes = Number(ascii(bytes, 184, 8))
+    const recordBytes = 2 * samples.reduce((sum, n) => sum + n, 0)
+    return {
+        reserved: ascii(bytes, 192, 44),
+        startDate: ascii(bytes, 168, 8),
+        startTime: ascii(bytes, 176, 8),
+        records,
+        recordSeconds: Number(ascii(bytes, 244, 8)),
+        labels: field(0, 16),
+        samples,
+        digital: (record, signal) => {
+            let offset = headerBytes + record * recordBytes
+            for (let s = 0; s < signal; s++) offset += 2 * samples[s]
+            return Array.from({ length: samples[signal] }, (_, j) => view.getInt16(offset + 2 * j, true))
+        },
+        tal: (record) => {
+            let offset = headerBytes + record * recordBytes
+            for (let s = 0; s < signals - 1; s++) offset += 2 * samples[s]
+            // Trailing NULs are padding, and the last TAL's own terminator with them
+            return new TextDecoder().decode(bytes.slice(offset, offset + 2 * samples[signals - 1])).replace(/\0+$/, '')
+        }
+    }
+}
+
+describe('toExportTrace', () => {
+    const identity = { chId: 'a', label: 'A', clientId: 'a', unit: 'uV' }
+
+    it('pads a read that starts late or ends early with NaN slots', () => {
+        const out = toExportTrace({ identity, rateHz: 1000, segment: { startUs: START_US + 2000, samplePeriodUs: 1000, data: Float64Array.from([1, 2]) } }, START_US, START_US + 6000)
+        expect(out.startUs).toBe(START_US)
+        expect(Array.from(out.data)).toEqual([NaN, NaN, 1, 2, NaN, NaN])
+        expect(out.label).toBe('A')
+    })
+})
+
+describe('gapRuns', () => {
+    it('lists NaN runs as half-open index ranges', () => {
+        expect(gapRuns([NaN, 1, 2, NaN, NaN, 3, NaN])).toEqual([[0, 1], [3, 5], [6, 7]])
+        expect(gapRuns([1, 2])).toEqual([])
+    })
+})
+
+describe('encodeCsv', () => {
+    it('shares rows between rates and leaves gaps empty', () => {
+        const csv = encodeCsv([
+            trace('Fp1', 500, [1, NaN, 3, 4]),
+            trace('ECG, lead II', 1000, [10, 20])
+        ], { originUs: START_US })
+        expect(csv.split('\n')).toEqual([
+            'time_s,Fp1 (uV),"ECG, lead II (uV)"',
+            '0.000000,1,10',
+            '0.000500,,',
+            '0.001000,3,20',
+            '0.001500,4,',
+            ''
+        ])
+    })
+})
+
+describe('encodeNpy', () => {
+    it('writes a float64 (channels, samples) array behind an aligned header', () => {
+        const bytes = encodeNpy([trace('A', 1000, [1, NaN]), trace('B', 1000, [3, 4])])
+        expect(Array.from(bytes.slice(0, 8))).toEqual([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0])
+        const headerLength = new DataView(bytes.buffer).getUint16(8, true)
+        expect((10 + headerLength) % 64).toBe(0)
+        expect(ascii(bytes, 10, headerLength)).toBe("{'descr': '<f8', 'fortran_order': False, 'shape': (2, 2), }")
+
+        const data = new Float64Array(bytes.buffer.slice(10 + headerLength))
+        expect(Array.from(data)).toEqual([1, NaN, 3, 4])
+    })
+
+    it('refuses traces one array cannot hold', () => {
+        expect(() => encodeNpy([trace('A', 1000, [1, 2]), trace('B', 2000, [1])])).toThrow(/same sample rate/)
+        expect(() => encodeNpy([])).toThrow(/Nothing to export/)
+    })
+})
+
+describe('encodeEdf', () => {
+    it('writes a continuous file with one signal per trace and an annotation signal', () => {
+        const values = Array.from({ length: 2000 }, (_, i) => Math.sin(i / 10) * 100)
+        const bytes = encodeEdf([trace('Fp1', 4000, values.slice(0, 500)), trace('Fp2', 1000, values)], START_US, START_US + 2e6, {
+            annotations: [{ startUs: START_US + 1.5e6, durationUs: 250000, text: 'Spike' }]
+        })
+        const edf = readEdf(bytes)
+
+        expect(edf.reserved).toBe('EDF+C')
+        expect(edf.startDate).toBe('01.01.24')
+        expect(edf.startTime).toBe('00.00.00')
+        expect(edf.records).toBe(2)
+        expect(edf.recordSeconds).toBe(1)
+        expect(edf.labels).toEqual(['Fp1', 'Fp2', 'EDF Annotations'])
+        expect(edf.samples.slice(0, 2)).toEqual([250, 1000])
+        expect(edf.tal(0)).toBe('+0\x14\x14')
+        expect(edf.tal(1)).toBe('+1\x14\x14\x00+1.5\x150.25\x14Spike\x14')
+        expect(Math.min(...edf.digital(0, 1))).toBeGreaterThan(-32768)
+    })
+
+    it('drops empty records and marks gaps with the digital minimum and an annotation', () => {
+        const values = new Array(3000).fill(5).map((value, i) => value + (i % 7))
+        values.fill(NaN, 1000, 2000)
+        values.fill(NaN, 2500, 2600)
+        const edf = readEdf(encodeEdf([trace('Cz', 1000, values, START_US + 250000)], START_US + 250000, START_US + 3250000))
+
+        expect(edf.reserved).toBe('EDF+D')
+        expect(edf.records).toBe(2)
+        expect(edf.tal(0)).toBe('+0.25\x14\x14\x00+1.25\x151\x14Gap Cz\x14')
+        expect(edf.tal(1)).toBe('+2.25\x14\x14\x00+2.75\x150.1\x14Gap Cz\x14')
+        expect(edf.digital(1, 0).slice(499, 502)).toEqual([expect.any(Number), -32768, -32768])
+    })
+
+    it('writes an annotations-only file as one zero-length record', () => {
+        const edf = readEdf(encodeEdf([], START_US, START_US, {
+            annotations: [{ startUs: START_US + 3e6, durationUs: 0, text: 'Seizure onset' }]
+        }))
+        expect(edf.labels).toEqual(['EDF Annotations'])
+        expect(edf.records).toBe(1)
+        expect(edf.recordSeconds).toBe(0)
+        expect(edf.tal(0)).toBe('+0\x14\x14\x00+3\x14Seizure onset\x14')
+        expect(() => encodeEdf([], START_US, START_US)).toThrow(/Nothing to export/)
+    })
+
+    it('refuses rates no record length fits', () => {
+        expect(() => encodeEdf([trace('A', 1e6 / 333.33, [1])], START_US, START_US + 1e6)).toThrow(/whole number of samples/)
+    })
+})
+
+describe('encodeWindow', () => {
+    it('dispatches on the format and rejects unknown ones', () => {
+        expect(encodeWindow('csv', [trace('A', 1000, [1])], START_US, START_US + 1000)).toBe('time_s,A (uV)\n0.000000,1\n')
+        expect(() => encodeWindow('mat', [], START_US, START_US)).toThrow(/Unknown export format/)
+    })
+})
@@ -0,0 +1,39 @@
+// composables/streaming/fakeEntry.testkit.js
+//
+// Test support, not shipped: a fake client registry entry for the modules that read raw
+// windows through one (detection, averaging).
+
+/** Recording start of the fake channels, 2024-01-01T00:00:00Z. */
+export const START_US = 1704067200000000
+
+/** The fake recording: one 1 kHz channel and one unit channel, ten minutes long. */
+export const INFOS = [
+    { id: 'a', name: 'A', unit: 'uV', rateHz: 1000, startUs: START_US, endUs: START_US + 600e6, kind: 'continuous' },
+    { id: 'spikes', name: 'Spikes', unit: '', rateHz: 0, startUs: START_US, endUs: START_US + 600e6, kind: 'unit' }
+]
+
+const tooLarge = () => Object.assign(new Error('Too large'), { name: 'RawReadTooLargeError' })
+
+/**
+ * A fake registry entry over the 1 kHz channel, whose value at time t is `signal(t)`. Reads
+ * longer than `limitUs` are refused as too large. The entry's `queries` lists every read.
+ *
+ * @param {{signal?: (t: number) => number, limitUs?: number}} [options]
+ * @returns {object}
+ */
+export const fakeEntry = ({ signal = () => 0, limitUs = Infinity } = {}) => {
+    const queries = []
+    const client = {
+        channelInfo: async () => INFOS,
+        async * query(options) {
+            queries.push(options)
+            if (options.endUs - options.startUs > limitUs) {
+                throw tooLarge()
+            }
+            const length = Math.round((options.endUs - options.startUs) / 1000)
+            const data = Float64Array.from({ length }, (_, i) => signal(options.startUs + i * 1000))
+            yield { startUs: options.startUs, samplePeriodUs: 1000, isMinMax: false, data }
+        }
+    }
+    return { client, queries, filterRegistry: new Map(), derivations: null, catalogPromise: null, catalogIndex: null }
+}
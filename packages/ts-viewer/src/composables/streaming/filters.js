@@ -6,6 +6,14 @@
 //
 // FilterSpec = { type: 'lowpass'|'highpass', order, cutoffHz }
 //            | { type: 'bandpass'|'bandstop', order, lowHz, highHz }
+//
+// A registry value may also be a FilterChain: an ordered array of stages, applied
+// first to last. Chain stages are FilterSpecs plus two kinds the reader has no
+// equivalent for, which is why chains are run client-side (see dsp.js):
+//
+// ChainStage = FilterSpec
+//            | { type: 'notch', freqHz, harmonics, q }
+//            | { type: 'fir', taps }
 
 /** Largest order the reader's cascade builder accepts (timeseries-zarr-reader src/filter.ts MAX_ORDER). */
 const MAX_ORDER = 12
@@ -16,6 +24,12 @@ const UNFILTERED_SIGNATURE = 'unfiltered'
 const CUTOFF_TYPES = ['lowpass', 'highpass']
 const BAND_TYPES = ['bandpass', 'bandstop']
 
+/** Most notch harmonics a chain stage may ask for, fundamental included. */
+export const MAX_HARMONICS = 10
+
+/** Longest custom FIR kernel a chain stage may carry. */
+export const MAX_FIR_TAPS = 1025
+
 /**
  * Reads positional wire parameters as finite numbers.
  *
@@ -54,6 +68,11 @@ function readParams(params, count) {
  *   { filter: 'lowpass'|'highpass', filterParameters: [order, cutoff], channels }
  *   { filter: 'bandpass'|'bandstop', filterParameters: [order, center, halfWidth], channels }
  *   { channelFiltersToClear: [ids] }
+ *   { filterChain: [stages], channels }   (Zarr only; the legacy server never sees it)
+ *
+ * A filterChain message passes its stages through as the spec, copied but otherwise
+ * unchecked: stages are validated against each channel's rate by validateChainForRate. An
+ * empty chain clears.
  *
  * Band edges are recovered as `center - halfWidth` / `center + halfWidth`,
  * inverting the viewer's `center = (f0 + f1) / 2`, `halfWidth = |f1 - f0| / 2`.
@@ -70,7 +89,7 @@ function readParams(params, count) {
  * Never throws: an unreadable message returns kind 'ignore' with a reason.
  *
  * @param {any} msg parsed JSON from the fake socket's send()
- * @returns {{kind: 'set', spec: object, channels: string[]}
+ * @returns {{kind: 'set', spec: object|object[], channels: string[]}
  *          | {kind: 'clear', channels: string[]}
  *          | {kind: 'ignore', reason: string}}
  */
@@ -86,6 +105,17 @@ export function legacyFilterToSpec(msg) {
         return { kind: 'clear', channels: msg.channelFiltersToClear.slice() }
     }
 
+    if ('filterChain' in msg) {
+        if (!Array.isArray(msg.filterChain)) {
+            return { kind: 'ignore', reason: 'filterChain is not an array' }
+        }
+        const channels = Array.isArray(msg.channels) ? msg.channels.slice() : []
+        if (msg.filterChain.length === 0) {
+            return { kind: 'clear', channels }
+        }
+        return { kind: 'set', spec: msg.filterChain.map((stage) => ({ ...stage })), channels }
+    }
+
     const type = msg.filter
     if (typeof type !== 'string') {
         return { kind: 'ignore', reason: 'filter message has no filter name' }
@@ -191,3 +221,187 @@ export function specSignature(spec) {
     const keys = Object.keys(spec).sort()
     return `other:${keys.map((k) => `${k}=${String(spec[k])}`).join(':')}`
 }
+
+/**
+ * The stages a registry value stands for: a lone FilterSpec is a one-stage chain.
+ *
+ * @param {object|object[]|null|undefined} value
+ * @returns {object[]}
+ */
+export function normalizeChain(value) {
+    if (value === null || value === undefined) return []
+    return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Whether the reader can run a chain itself, as one `query({ filter })`.
+ *
+ * Only a single Butterworth stage qualifies. Anything longer, and any notch or FIR stage,
+ * has to be filtered client-side on raw samples.
+ *
+ * @param {object[]} chain
+ * @returns {boolean}
+ */
+export function isReaderNativeChain(chain) {
+    return chain.length === 1 &&
+        (CUTOFF_TYPES.includes(chain[0]?.type) || BAND_TYPES.includes(chain[0]?.type))
+}
+
+/**
+ * Checks one chain stage against a channel's native rate.
+ *
+ * Butterworth stages get exactly the reader's checks, since a one-stage chain may be handed
+ * to the reader. A notch needs its fundamental below Nyquist; harmonics at or above Nyquist
+ * are skipped when the stage is designed rather than rejected here, because one chain is
+ * commonly applied to channels recorded at different rates.
+ *
+ * @param {object} stage
+ * @param {number} rateHz
+ * @returns {{ok: true} | {ok: false, reason: string}}
+ */
+function validateStageForRate(stage, rateHz) {
+    if (stage === null || typeof stage !== 'object') {
+        return { ok: false, reason: 'filter stage is not an object' }
+    }
+    if (stage.type === 'notch') {
+        if (!Number.isFinite(rateHz) || rateHz <= 0) {
+            return { ok: false, reason: `channel rate must be a positive number (got ${rateHz})` }
+        }
+        const nyquistHz = rateHz / 2
+        if (!Number.isFinite(stage.freqHz) || stage.freqHz <= 0 || stage.freqHz >= nyquistHz) {
+            return {
+                ok: false,
+                reason: `notch freqHz must be above 0 and below the Nyquist frequency of ${nyquistHz} Hz (got ${stage.freqHz})`
+            }
+        }
+        if (!Number.isInteger(stage.harmonics) || stage.harmonics < 1 || stage.harmonics > MAX_HARMONICS) {
+            return {
+                ok: false,
+                reason: `notch harmonics must be a whole number from 1 to ${MAX_HARMONICS} (got ${stage.harmonics})`
+            }
+        }
+        if (!Number.isFinite(stage.q) || stage.q <= 0) {
+            return { ok: false, reason: `notch q must be a positive number (got ${stage.q})` }
+        }
+        return { ok: true }
+    }
+    if (stage.type === 'fir') {
+        const taps = stage.taps
+        if (!Array.isArray(taps) || taps.length === 0 || taps.length > MAX_FIR_TAPS) {
+            return { ok: false, reason: `fir taps must hold 1 to ${MAX_FIR_TAPS} coefficients` }
+        }
+        if (!taps.every(Number.isFinite)) {
+            return { ok: false, reason: 'fir taps must all be finite numbers' }
+        }
+        return { ok: true }
+    }
+    return validateSpecForRate(stage, rateHz)
+}
+
+/**
+ * Checks every stage of a chain against one channel's native rate.
+ *
+ * The reason names the failing stage by position, so a chain entered in the filter modal
+ * can be corrected without guessing which row is wrong.
+ *
+ * @param {object|object[]|null|undefined} value A FilterSpec or a FilterChain.
+ * @param {number} rateHz
+ * @returns {{ok: true} | {ok: false, reason: string}}
+ */
+export function validateChainForRate(value, rateHz) {
+    const chain = normalizeChain(value)
+    if (chain.length === 0) {
+        return { ok: false, reason: 'no filter spec' }
+    }
+    if (!Array.isArray(value)) {
+        return validateSpecForRate(value, rateHz)
+    }
+    for (let i = 0; i < chain.length; i++) {
+        const check = validateStageForRate(chain[i], rateHz)
+        if (!check.ok) {
+            return { ok: false, reason: `stage ${i + 1} (${chain[i]?.type}): ${check.reason}` }
+        }
+    }
+    return { ok: true }
+}
+
+/**
+ * Canonical grouping key for a registry value, FilterSpec or FilterChain.
+ *
+ * A lone spec and a one-stage chain holding the same spec share a signature, so they are
+ * served by the same reader query. Longer chains join their stage signatures in order:
+ * filter order matters for transients, and two chains that differ only in order are not
+ * the same filter.
+ *
+ * @param {object|object[]|null|undefined} value
+ * @returns {string}
+ */
+export function chainSignature(value) {
+    const chain = normalizeChain(value)
+    if (chain.length === 0) return UNFILTERED_SIGNATURE
+    if (chain.length === 1 && isReaderNativeChain(chain)) return specSignature(chain[0])
+    return `chain[${chain.map(stageSignature).join(',')}]`
+}
+
+/**
+ * @param {object} stage
+ * @returns {string}
+ */
+function stageSignature(stage) {
+    if (stage?.type === 'notch') {
+        return `notch:${stage.freqHz}:${stage.harmonics}:${stage.q}`
+    }
+    if (stage?.type === 'fir') {
+        return `fir:${stage.taps.join(';')}`
+    }
+    return specSignature(stage)
+}
+
+/**
+ * The single-filter fields the legacy socket message is built from, for a chain: its first
+ * stage, with a notch sent as the legacy band-stop around its mains frequency.
+ *
+ * @param {object[]} chain
+ * @returns {{filterType: string, input0: ?number, input1: ?number, notchFreq: ?number}}
+ */
+export function legacyFilterFields(chain) {
+    const first = chain[0]
+    const fields = { filterType: first ? first.type : 'clear', input0: null, input1: null, notchFreq: null }
+    if (first?.type === 'bandpass') {
+        fields.input0 = first.lowHz
+        fields.input1 = first.highHz
+    } else if (first?.type === 'notch') {
+        fields.filterType = 'bandstop'
+        fields.notchFreq = first.freqHz
+    } else if (first) {
+        fields.input0 = first.cutoffHz
+    }
+    return fields
+}
+
+/**
+ * The filter modal's `setFilters` payload that puts a channel entry's filter back on some
+ * channels: the chain the modal produced, the single filter stored before chains existed,
+ * or a clear for an empty filter.
+ *
+ * @param {?object} filter A channel entry's `filter`.
+ * @param {string[]} channelIds
+ * @returns {{selChannels: string[], stages: object[], filterType: string, input0: ?number, input1: ?number, notchFreq: ?number}}
+ */
+export function filterPayloadFor(filter, channelIds) {
+    if (filter?.type === 'chain') {
+        const stages = filter.stages || []
+        return { selChannels: channelIds, stages, ...legacyFilterFields(stages) }
+    }
+    if (!filter?.type) {
+        return { selChannels: channelIds, stages: [], ...legacyFilterFields([]) }
+    }
+    return {
+        selChannels: channelIds,
+        stages: [],
+        filterType: filter.type,
+        input0: filter.input0 ?? null,
+        input1: filter.input1 ?? null,
+        notchFreq: filter.notchFreq ?? null
+    }
+}
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { legacyFilterToSpec, validateSpecForRate, specSignature } from './filters'
+import {
+    legacyFilterToSpec,
+    validateSpecForRate,
+    specSignature,
+    validateChainForRate,
+    chainSignature,
+    isReaderNativeChain,
+    filterPayloadFor
+} from './filters'
 
 // Verbatim algebra from TSViewerCanvas.vue setFilters, so the round-trip tests
 // exercise the numbers the viewer actually puts on the wire.
@@ -318,3 +326,73 @@ describe('regression pins found by adversarial review', () => {
         expect(legacyFilterToSpec({ filter: 'lowpass', filterParameters: [4, NaN], channels: ['a'] }).kind).toBe('ignore')
     })
 })
+
+describe('filter chains', () => {
+    const HIGHPASS = { type: 'highpass', order: 4, cutoffHz: 0.5 }
+    const NOTCH = { type: 'notch', freqHz: 60, harmonics: 3, q: 30 }
+    const LOWPASS = { type: 'lowpass', order: 4, cutoffHz: 70 }
+
+    it('passes a filterChain message through as the spec', () => {
+        const msg = { filterChain: [HIGHPASS, NOTCH, LOWPASS], channels: ['a'] }
+        const out = legacyFilterToSpec(msg)
+        expect(out).toEqual({ kind: 'set', spec: [HIGHPASS, NOTCH, LOWPASS], channels: ['a'] })
+        expect(out.spec[0]).not.toBe(HIGHPASS)
+    })
+
+    it('reads an empty chain as a clear', () => {
+        expect(legacyFilterToSpec({ filterChain: [], channels: ['a'] })).toEqual({ kind: 'clear', channels: ['a'] })
+        expect(legacyFilterToSpec({ filterChain: 'x', channels: ['a'] }).kind).toBe('ignore')
+    })
+
+    it('names the failing stage', () => {
+        expect(validateChainForRate([HIGHPASS, NOTCH, LOWPASS], 256)).toEqual({ ok: true })
+        const bad = validateChainForRate([HIGHPASS, { ...NOTCH, freqHz: 200 }], 256)
+        expect(bad.ok).toBe(false)
+        expect(bad.reason).toMatch(/^stage 2 \(notch\)/)
+    })
+
+    it('checks notch harmonics and FIR taps', () => {
+        expect(validateChainForRate([{ ...NOTCH, harmonics: 0 }], 1000).ok).toBe(false)
+        expect(validateChainForRate([{ ...NOTCH, q: 0 }], 1000).ok).toBe(false)
+        expect(validateChainForRate([{ type: 'fir', taps: [0.5, 0.5] }], 1000).ok).toBe(true)
+        expect(validateChainForRate([{ type: 'fir', taps: [] }], 1000).ok).toBe(false)
+        expect(validateChainForRate([{ type: 'fir', taps: [1, NaN] }], 1000).ok).toBe(false)
+    })
+
+    it('validates a bare spec exactly as validateSpecForRate does', () => {
+        expect(validateChainForRate(LOWPASS, 100)).toEqual(validateSpecForRate(LOWPASS, 100))
+    })
+
+    it('hands only a single Butterworth stage to the reader', () => {
+        expect(isReaderNativeChain([LOWPASS])).toBe(true)
+        expect(isReaderNativeChain([NOTCH])).toBe(false)
+        expect(isReaderNativeChain([HIGHPASS, LOWPASS])).toBe(false)
+    })
+
+    it('signs a one-stage chain like its bare spec and keeps stage order significant', () => {
+        expect(chainSignature([LOWPASS])).toBe(specSignature(LOWPASS))
+        expect(chainSignature(LOWPASS)).toBe(specSignature(LOWPASS))
+        expect(chainSignature([])).toBe(specSignature(null))
+        expect(chainSignature([HIGHPASS, LOWPASS])).not.toBe(chainSignature([LOWPASS, HIGHPASS]))
+        expect(chainSignature([HIGHPASS, NOTCH])).toBe(chainSignature([{ ...HIGHPASS }, { ...NOTCH }]))
+    })
+})
+
+describe('filterPayloadFor', () => {
+    it('puts back a chain with its legacy fields from the first stage', () => {
+        const chain = [{ type: 'notch', freqHz: 50, harmonics: 2, q: 30 }, { type: 'lowpass', order: 4, cutoffHz: 70 }]
+        expect(filterPayloadFor({ type: 'chain', stages: chain }, ['a'])).toEqual({
+            selChannels: ['a'],
+            stages: chain,
+            filterType: 'bandstop',
+            input0: null,
+            input1: null,
+            notchFreq: 50
+        })
+    })
+
+    it('puts back a legacy filter, and clears an empty one', () => {
+        expect(filterPayloadFor({ type: 'bandpass', input0: 1, input1: 40 }, ['a'])).toMatchObject({ stages: [], filterType: 'bandpass', input0: 1, input1: 40 })
+        expect(filterPayloadFor({}, ['a', 'b'])).toMatchObject({ selChannels: ['a', 'b'], stages: [], filterType: 'clear' })
+    })
+})
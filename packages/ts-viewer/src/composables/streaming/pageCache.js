@@ -0,0 +1,303 @@
+// @/composables/streaming/pageCache.js
+//
+// IndexedDB persistence for decoded pages, so a recording reopened in a later session loads
+// from disk rather than the network. One database per bundle, named from a hash of the
+// bundle's unsigned URL; in it, `pages` holds each trace's block for a page and `usage` its
+// size and last use, which is all eviction needs to read.
+//
+// Micro-CT's tileCache.ts is the model. Unlike tiles, pages are bounded by one budget for all
+// bundles together, PAGE_CACHE_MAX_BYTES unless the viewer config's `pageCache` sets another
+// or turns caching off: the oldest-used pages are evicted once a bundle's pages pass it, and
+// opening a bundle deletes the least recently used other bundles until all fit.
+
+import { splitSignedUrl } from './createStore'
+
+const DB_PREFIX = 'tsviewer-pages-'
+const DB_VERSION = 1
+const PAGES = 'pages'
+const USAGE = 'usage'
+
+/** Stored bytes the bundles' caches may hold together, unless the viewer config sets `pageCache`. */
+export const PAGE_CACHE_MAX_BYTES = 256 * 1024 * 1024
+
+/** Eviction frees down to this fraction of the limit, so it does not run on every write. */
+const EVICT_TO = 0.9
+
+/**
+ * The budget a viewer config's `pageCache` sets.
+ *
+ * @param {*} option `false` or 0 turns caching off, a number of bytes sets the budget, and
+ *   anything else, including no setting, keeps PAGE_CACHE_MAX_BYTES.
+ * @returns {?number} Bytes, or null with caching off.
+ */
+export function pageCacheBudget(option) {
+    if (option === false || option === 0) {
+        return null
+    }
+    return Number.isFinite(option) && option > 0 ? option : PAGE_CACHE_MAX_BYTES
+}
+
+/**
+ * Cache key for one trace of a page task.
+ *
+ * A block depends on the trace, the page (start and `adaptivePageSize` span), the resolution
+ * asked for, and everything that shapes the samples: the group key carries the filter's
+ * signature (see filters.js specSignature) and whether the trace is a montage pair, and a
+ * derived trace adds its terms, since a derivation can be redefined under the same label.
+ *
+ * @param {{chId: string, label: string}} identity
+ * @param {import('./pageReader').PageTask} task
+ * @param {number} index The trace's position in `task.group.traces`.
+ * @returns {string}
+ */
+export function pageCacheKey(identity, { kind, group, req, useMedian }, index) {
+    const terms = kind === 'derived'
+        ? group.derivations[index].terms.map((term) => `${term.id}*${term.weight}`).join('+')
+        : ''
+    return [
+        kind,
+        identity.chId,
+        identity.label,
+        req.startTime,
+        req.endTime - req.startTime,
+        req.pixelWidth,
+        req.raw ? 'raw' : 'minmax',
+        group.key ?? '',
+        terms,
+        useMedian ? 'median' : 'mean'
+    ].join('|')
+}
+
+/**
+ * A block as stored: without `cData`, the renderer's zero-filled scratch rows, which are
+ * rebuilt on read rather than written to disk.
+ *
+ * @param {object} block
+ * @returns {object}
+ */
+export function toStored(block) {
+    const stored = { ...block }
+    delete stored.cData
+    return stored
+}
+
+/**
+ * @param {object} stored
+ * @returns {object} The block, with fresh `cData` rows.
+ */
+export function fromStored(stored) {
+    return {
+        ...stored,
+        cData: [new Float32Array(stored.nrPoints), new Float32Array(stored.nrPoints), new Float32Array(stored.nrPoints)]
+    }
+}
+
+/**
+ * @param {object} stored
+ * @returns {number} Bytes of sample data in a stored block.
+ */
+export function storedBytes(stored) {
+    return (stored.parsedData ?? []).reduce((sum, row) => sum + (row?.byteLength ?? 0), 0)
+}
+
+/**
+ * Keys to evict, least recently used first, to bring a bundle back under its limit.
+ *
+ * @param {Array<{key: string, bytes: number, lastUsed: number}>} usage
+ * @param {number} maxBytes
+ * @returns {string[]} Empty while the bundle is within `maxBytes`.
+ */
+export function planEviction(usage, maxBytes) {
+    let total = usage.reduce((sum, row) => sum + row.bytes, 0)
+    if (total <= maxBytes) {
+        return []
+    }
+    const evict = []
+    for (const row of [...usage].sort((a, b) => a.lastUsed - b.lastUsed)) {
+        if (total <= maxBytes * EVICT_TO) {
+            break
+        }
+        evict.push(row.key)
+        total -= row.bytes
+    }
+    return evict
+}
+
+async function hashBundle(url) {
+    const encoded = new TextEncoder().encode(url)
+    const hashBuffer = await crypto.subtle.digest('SHA-256', encoded)
+    return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+const requestResult = (request) => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+})
+
+/**
+ * Deletes the caches of bundles other than `name`, least recently used first, until they fit
+ * in what `ownBytes` leaves of `maxBytes`. Needs `indexedDB.databases()`; where it is missing,
+ * each bundle is only bounded on its own.
+ */
+async function trimOtherBundles(name, ownBytes, maxBytes) {
+    if (typeof indexedDB.databases !== 'function') {
+        return
+    }
+    const names = (await indexedDB.databases())
+        .map((info) => info.name)
+        .filter((other) => other?.startsWith(DB_PREFIX) && other !== name)
+    const bundles = []
+    for (const other of names) {
+        try {
+            const request = indexedDB.open(other)
+            // Deleted since it was listed: leave it deleted rather than creating it empty
+            request.onupgradeneeded = () => request.transaction.abort()
+            const db = await requestResult(request)
+            try {
+                const usage = await requestResult(db.transaction(USAGE, 'readonly').objectStore(USAGE).getAll())
+                bundles.push({
+                    key: other,
+                    bytes: usage.reduce((sum, row) => sum + row.bytes, 0),
+                    lastUsed: usage.reduce((latest, row) => Math.max(latest, row.lastUsed), 0)
+                })
+            } finally {
+                db.close()
+            }
+        } catch {
+            // Unreadable, so left alone
+        }
+    }
+    for (const other of planEviction(bundles, Math.max(0, maxBytes - ownBytes))) {
+        // Not awaited: a tab still holding the bundle open closes it on versionchange
+        indexedDB.deleteDatabase(other)
+    }
+}
+
+/**
+ * @typedef {object} PageCache
+ * @property {function(string[]): Promise<Array<?object>>} get Blocks by key, null for a miss.
+ *   Hits count as a use for eviction. A failed read is all misses.
+ * @property {function(string, object): void} put Stores a block. Fire-and-forget; the block is
+ *   copied before `put` returns, so the caller may transfer it straight after.
+ * @property {function(): void} close
+ */
+
+/**
+ * Opens the page cache for a bundle.
+ *
+ * Resolves null wherever there is nothing to persist to: no IndexedDB or no SubtleCrypto
+ * (an insecure context), or a browser that refuses the database, as some private windows do.
+ * The caller then simply reads everything from the network.
+ *
+ * @param {string} url Bundle URL, signed or not; the signature is not part of the identity.
+ * @param {{maxBytes?: number}} [options] `maxBytes` is the budget of all bundles together.
+ * @returns {Promise<?PageCache>}
+ */
+export async function openPageCache(url, { maxBytes = PAGE_CACHE_MAX_BYTES } = {}) {
+    if (typeof indexedDB === 'undefined' || !globalThis.crypto?.subtle) {
+        return null
+    }
+    let db
+    let name
+    let totalBytes
+    try {
+        name = `${DB_PREFIX}${await hashBundle(splitSignedUrl(url).base)}`
+        const request = indexedDB.open(name, DB_VERSION)
+        request.onupgradeneeded = () => {
+            const upgrading = request.result
+            if (!upgrading.objectStoreNames.contains(PAGES)) {
+                upgrading.createObjectStore(PAGES)
+            }
+            if (!upgrading.objectStoreNames.contains(USAGE)) {
+                upgrading.createObjectStore(USAGE, { keyPath: 'key' })
+            }
+        }
+        db = await requestResult(request)
+        // Let clearPageCaches delete the database; later reads are then misses
+        db.onversionchange = () => db.close()
+        const usage = await requestResult(db.transaction(USAGE, 'readonly').objectStore(USAGE).getAll())
+        totalBytes = usage.reduce((sum, row) => sum + row.bytes, 0)
+    } catch (error) {
+        console.warn(`Page cache unavailable: ${error?.message ?? error}`)
+        return null
+    }
+    void trimOtherBundles(name, totalBytes, maxBytes).catch(() => {})
+
+    let evicting = false
+    const evict = async () => {
+        evicting = true
+        try {
+            const tx = db.transaction([PAGES, USAGE], 'readwrite')
+            const usage = await requestResult(tx.objectStore(USAGE).getAll())
+            const keys = planEviction(usage, maxBytes)
+            const evicted = new Set(keys)
+            for (const key of keys) {
+                tx.objectStore(PAGES).delete(key)
+                tx.objectStore(USAGE).delete(key)
+            }
+            // Recounted from disk: another tab may have written to the same bundle.
+            totalBytes = usage.reduce((sum, row) => sum + (evicted.has(row.key) ? 0 : row.bytes), 0)
+        } catch {
+            // Retried on the next write
+        } finally {
+            evicting = false
+        }
+    }
+
+    return {
+        async get(keys) {
+            try {
+                const tx = db.transaction([PAGES, USAGE], 'readwrite')
+                const pages = tx.objectStore(PAGES)
+                const found = await Promise.all(keys.map((key) => requestResult(pages.get(key))))
+                const now = Date.now()
+                found.forEach((stored, i) => {
+                    if (stored) {
+                        tx.objectStore(USAGE).put({ key: keys[i], bytes: storedBytes(stored), lastUsed: now })
+                    }
+                })
+                return found.map((stored) => (stored ? fromStored(stored) : null))
+            } catch {
+                return keys.map(() => null)
+            }
+        },
+        put(key, block) {
+            try {
+                const stored = toStored(block)
+                const bytes = storedBytes(stored)
+                const tx = db.transaction([PAGES, USAGE], 'readwrite')
+                tx.objectStore(PAGES).put(stored, key)
+                tx.objectStore(USAGE).put({ key, bytes, lastUsed: Date.now() })
+                tx.oncomplete = () => {
+                    totalBytes += bytes
+                    if (totalBytes > maxBytes && !evicting) {
+                        void evict()
+                    }
+                }
+            } catch {
+                // Fire-and-forget -- a page that is not stored is read again next time
+            }
+        },
+        close() {
+            db.close()
+        }
+    }
+}
+
+/**
+ * Deletes every bundle's page cache, e.g. when the user signs out on a shared machine.
+ *
+ * Needs `indexedDB.databases()`; where it is missing, nothing is deleted.
+ *
+ * @returns {Promise<number>} How many bundle caches were deleted.
+ */
+export async function clearPageCaches() {
+    if (typeof indexedDB === 'undefined' || typeof indexedDB.databases !== 'function') {
+        return 0
+    }
+    const names = (await indexedDB.databases())
+        .map((info) => info.name)
+        .filter((name) => name?.startsWith(DB_PREFIX))
+    await Promise.all(names.map((name) => requestResult(indexedDB.deleteDatabase(name))))
+    return names.length
+}
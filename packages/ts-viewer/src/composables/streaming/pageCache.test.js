@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+    PAGE_CACHE_MAX_BYTES,
+    fromStored,
+    openPageCache,
+    pageCacheBudget,
+    pageCacheKey,
+    planEviction,
+    storedBytes,
+    toStored
+} from './pageCache'
+
+const identity = { chId: 'srv-1', label: 'Ch 1', clientId: 'ch1', unit: 'uV' }
+const req = { startTime: 1000, endTime: 61000, pixelWidth: 40, raw: false }
+const task = { kind: 'continuous', group: { key: 'none|channels' }, req, useMedian: false }
+
+describe('pageCacheKey', () => {
+    it('tells apart every input that shapes a block', () => {
+        const base = pageCacheKey(identity, task, 0)
+        const variants = [
+            pageCacheKey({ ...identity, chId: 'srv-2' }, task, 0),
+            pageCacheKey({ ...identity, label: 'Ch 1<->Ch 2' }, task, 0),
+            pageCacheKey(identity, { ...task, req: { ...req, startTime: 2000 } }, 0),
+            pageCacheKey(identity, { ...task, req: { ...req, endTime: 121000 } }, 0),
+            pageCacheKey(identity, { ...task, req: { ...req, pixelWidth: 80 } }, 0),
+            pageCacheKey(identity, { ...task, req: { ...req, raw: true } }, 0),
+            pageCacheKey(identity, { ...task, group: { key: 'lowpass:4:40|channels' } }, 0),
+            pageCacheKey(identity, { ...task, useMedian: true }, 0)
+        ]
+        expect(new Set([base, ...variants]).size).toBe(variants.length + 1)
+        expect(pageCacheKey({ ...identity }, { ...task }, 0)).toBe(base)
+    })
+
+    it('includes a derived trace\'s terms', () => {
+        const derived = (weight) => ({
+            kind: 'derived',
+            group: { key: 'none|derived', derivations: [{ terms: [{ id: 'srv-1', weight: 1 }, { id: 'srv-2', weight }] }] },
+            req,
+            useMedian: false
+        })
+        expect(pageCacheKey(identity, derived(-1), 0)).not.toBe(pageCacheKey(identity, derived(-0.5), 0))
+    })
+})
+
+describe('stored blocks', () => {
+    it('drop the renderer rows and get fresh ones back', () => {
+        const block = {
+            nrPoints: 2,
+            cData: [new Float32Array(2), new Float32Array(2), new Float32Array(2)],
+            parsedData: [Float64Array.from([0, 1]), Float64Array.from([5, 6]), new Float64Array(2)]
+        }
+        const stored = toStored(block)
+        expect(stored.cData).toBeUndefined()
+        expect(block.cData).toHaveLength(3)
+        expect(storedBytes(stored)).toBe(48)
+
+        const restored = fromStored(stored)
+        expect(restored.cData.map((row) => row.length)).toEqual([2, 2, 2])
+        expect(restored.parsedData).toBe(stored.parsedData)
+    })
+})
+
+describe('planEviction', () => {
+    const usage = [
+        { key: 'new', bytes: 40, lastUsed: 3 },
+        { key: 'old', bytes: 40, lastUsed: 1 },
+        { key: 'mid', bytes: 40, lastUsed: 2 }
+    ]
+
+    it('keeps everything within the limit', () => {
+        expect(planEviction(usage, 120)).toEqual([])
+    })
+
+    it('evicts least recently used first, to below the limit', () => {
+        expect(planEviction(usage, 100)).toEqual(['old'])
+        expect(planEviction(usage, 60)).toEqual(['old', 'mid'])
+    })
+})
+
+describe('pageCacheBudget', () => {
+    it('turns the cache off, sets its budget or keeps the default', () => {
+        expect(pageCacheBudget(false)).toBeNull()
+        expect(pageCacheBudget(0)).toBeNull()
+        expect(pageCacheBudget(64 * 1024 * 1024)).toBe(64 * 1024 * 1024)
+        expect(pageCacheBudget(undefined)).toBe(PAGE_CACHE_MAX_BYTES)
+        expect(pageCacheBudget(true)).toBe(PAGE_CACHE_MAX_BYTES)
+        expect(pageCacheBudget(-1)).toBe(PAGE_CACHE_MAX_BYTES)
+    })
+})
+
+describe('openPageCache', () => {
+    it('resolves null without IndexedDB', async () => {
+        expect(await openPageCache('https://example.org/bundle')).toBeNull()
+    })
+})
@@ -0,0 +1,224 @@
+// @/composables/streaming/pageReader.js
+import { CHAIN_LEAD_IN_US, createTraceFilter, shapeForPage } from './dsp'
+import { combineDerivation } from './derivations'
+import { buildContinuousSegm, buildGapSegm, buildNeuralSegm } from './segments'
+import { pageCacheKey } from './pageCache'
+
+/**
+ * @typedef {object} PageTask
+ * @property {'continuous'|'derived'|'units'} kind Which reader query serves the group.
+ * @property {object} group A ContinuousGroup or DerivedGroup from `partitionRequest`; for
+ *   `units`, `{traces}` holding the unit traces.
+ * @property {{startTime: number, endTime: number, pixelWidth: number, raw: boolean}} req Parsed page request.
+ * @property {boolean} useMedian
+ */
+
+const isAbort = (error) => error?.name === 'AbortError'
+
+/**
+ * Chain filter state per trace, keyed by group key and client id; see dsp.js createTraceFilter.
+ *
+ * @returns {{filterFor: function(object, object): object, clear: function(): void}}
+ */
+export function createTraceFilters() {
+    const filters = new Map()
+    return {
+        filterFor(group, identity) {
+            const key = `${group.key}|${identity.clientId}`
+            let filter = filters.get(key)
+            if (!filter) {
+                filter = createTraceFilter(group.filterChain)
+                filters.set(key, filter)
+            }
+            return filter
+        },
+        clear() {
+            filters.clear()
+        }
+    }
+}
+
+/**
+ * Query options for a chain group: raw samples, started `CHAIN_LEAD_IN_US` early when any of
+ * its traces cannot continue from the previous page, so the restarted filters settle before
+ * the visible window.
+ */
+function chainRead(options, group, req, traceFilters) {
+    const filters = group.traces.map((identity) => traceFilters.filterFor(group, identity))
+    options.raw = true
+    if (filters.some((filter) => filter.needsLeadIn(req.startTime))) {
+        options.startUs = req.startTime - CHAIN_LEAD_IN_US
+    }
+}
+
+/**
+ * Continuous group. Traces are matched to yields by position: the reader yields one segment
+ * per requested trace in request order, and the compound key it puts on a montaged segment
+ * is not what the viewer matches on, so identity comes from the request-side table.
+ */
+async function readContinuous(client, { group, req, useMedian }, signal, traceFilters, deliver) {
+    const options = {
+        startUs: req.startTime,
+        endUs: req.endTime,
+        pixelWidthUs: req.pixelWidth,
+        raw: req.raw,
+        signal
+    }
+    if (group.filterChain) {
+        chainRead(options, group, req, traceFilters)
+    }
+    if (group.isMontage) {
+        options.montage = group.montage
+    } else {
+        options.channels = group.channels
+    }
+    if (group.filterSpec) {
+        options.filter = group.filterSpec
+    }
+
+    let index = 0
+    for await (const segment of client.query(options)) {
+        const identity = group.traces[index]
+        index++
+        if (!identity || signal.aborted) {
+            continue
+        }
+        const shaped = group.filterChain ? traceFilters.filterFor(group, identity).apply(segment, req) : segment
+        deliver(identity, buildContinuousSegm(shaped, identity, req, { useMedian }), 'segment')
+    }
+}
+
+/**
+ * Derived-montage group. One raw query reads every member channel of the group; each trace
+ * is then summed from its members, run through the group's chain if it has one, and shaped
+ * like the segment the reader would have produced for the page.
+ */
+async function readDerived(client, { group, req, useMedian }, signal, traceFilters, deliver) {
+    const options = {
+        channels: group.channels,
+        startUs: req.startTime,
+        endUs: req.endTime,
+        pixelWidthUs: req.pixelWidth,
+        raw: true,
+        signal
+    }
+    if (group.filterChain) {
+        chainRead(options, group, req, traceFilters)
+    }
+
+    const segmentsById = new Map()
+    let index = 0
+    for await (const segment of client.query(options)) {
+        const id = group.channels[index]
+        index++
+        if (id !== undefined) {
+            segmentsById.set(id, segment)
+        }
+    }
+    if (signal.aborted) {
+        return
+    }
+
+    group.traces.forEach((identity, i) => {
+        const combined = combineDerivation(segmentsById, group.derivations[i].terms)
+        if (!combined) {
+            return
+        }
+        const shaped = group.filterChain
+            ? traceFilters.filterFor(group, identity).apply(combined, req)
+            : shapeForPage(combined, req)
+        deliver(identity, buildContinuousSegm(shaped, identity, req, { useMedian }), 'segment')
+    })
+}
+
+async function readUnits(client, { group, req }, signal, traceFilters, deliver) {
+    const options = {
+        channels: group.traces.map((trace) => trace.chId),
+        startUs: req.startTime,
+        endUs: req.endTime,
+        pixelWidthUs: req.pixelWidth,
+        signal
+    }
+    let index = 0
+    for await (const batch of client.queryUnits(options)) {
+        const identity = group.traces[index]
+        index++
+        if (!identity || signal.aborted) {
+            continue
+        }
+        // Delivered even when the batch is empty; unlike the legacy path, which dropped empty
+        // event frames, the shim must respond or the page never completes.
+        deliver(identity, buildNeuralSegm(batch, identity, req), 'event')
+    }
+}
+
+const READERS = { continuous: readContinuous, derived: readDerived, units: readUnits }
+
+/**
+ * Reads one query group of a page request and hands back a legacy block per trace.
+ *
+ * This is the whole of the page path below the socket shim -- the reader query, its
+ * decoding, client-side filtering and min/max decimation -- and it runs unchanged in the
+ * decode worker and, where there is no worker, on the main thread; see decoder.js.
+ *
+ * Every trace gets exactly one block: a trace the query yields nothing for, or that a failed
+ * query never reached, is drained with a `gap` block. An aborted read is deliberately left
+ * undrained: whoever aborted (a dump-buffer request or a disconnect) has already cleared the
+ * page bookkeeping. Failures other than an abort go to `fail`, and never throw.
+ *
+ * With a page cache, a group whose every trace is cached is served without a query, and the
+ * blocks a query delivers are stored. Drained gaps are not stored: they stand for a failure,
+ * not for a page with no data. A group with any miss is read whole, as one query serves it.
+ *
+ * @param {object|Promise<object>} client A reader `StreamingClient`, or a promise of one.
+ * @param {PageTask} task
+ * @param {object} context
+ * @param {AbortSignal} context.signal
+ * @param {ReturnType<typeof createTraceFilters>} context.traceFilters
+ * @param {?import('./pageCache').PageCache|Promise<?import('./pageCache').PageCache>} [context.cache]
+ * @param {function(object, 'segment'|'event'): void} context.emit Called once per block.
+ * @param {function(Error): void} context.fail
+ * @returns {Promise<void>}
+ */
+export async function readGroup(client, task, { signal, traceFilters, cache = null, emit, fail }) {
+    const read = READERS[task.kind]
+    if (!read) {
+        throw new Error(`Unknown page task kind: ${task.kind}`)
+    }
+    const pageCache = await cache
+    const keys = new Map()
+    const delivered = new Set()
+    const deliver = (identity, block, kind) => {
+        delivered.add(identity)
+        // Stored first: emitting may transfer the block's arrays away
+        pageCache?.put(keys.get(identity), block)
+        emit(block, kind)
+    }
+
+    if (pageCache) {
+        task.group.traces.forEach((identity, i) => keys.set(identity, pageCacheKey(identity, task, i)))
+        const cached = await pageCache.get([...keys.values()])
+        if (cached.every(Boolean)) {
+            if (!signal.aborted) {
+                cached.forEach((block) => emit(block, task.kind === 'units' ? 'event' : 'segment'))
+            }
+            return
+        }
+    }
+
+    try {
+        await read(await client, task, signal, traceFilters, deliver)
+    } catch (error) {
+        if (!isAbort(error)) {
+            fail(error)
+        }
+    } finally {
+        if (!signal.aborted) {
+            for (const identity of task.group.traces) {
+                if (!delivered.has(identity)) {
+                    emit(buildGapSegm(identity, task.req), 'segment')
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { CHAIN_LEAD_IN_US } from './dsp'
+import { createTraceFilters, readGroup } from './pageReader'
+
+const identity = (n) => ({ chId: `srv-${n}`, label: `Ch ${n}`, clientId: `ch${n}`, unit: 'uV' })
+
+const req = { startTime: 0, endTime: 1000, pixelWidth: 100, raw: true }
+
+const raw = (values, startUs = 0) => ({ startUs, samplePeriodUs: 100, isMinMax: false, data: Float64Array.from(values) })
+
+// A reader stand-in: yields the given segments in order, then throws `error` if given
+const fakeClient = (segments, error = null) => ({
+    calls: [],
+    async *query(options) {
+        this.calls.push(options)
+        for (const segment of segments) {
+            yield segment
+        }
+        if (error) {
+            throw error
+        }
+    },
+    async *queryUnits(options) {
+        this.calls.push(options)
+        for (const segment of segments) {
+            yield segment
+        }
+    }
+})
+
+// A PageCache stand-in over a Map
+const memoryCache = () => {
+    const stored = new Map()
+    return {
+        stored,
+        get: async (keys) => keys.map((key) => stored.get(key) ?? null),
+        put: (key, block) => stored.set(key, block)
+    }
+}
+
+// Runs a task and collects what it emits and reports
+const run = async (client, task, signal = new AbortController().signal, cache = null) => {
+    const emitted = []
+    const failures = []
+    await readGroup(client, { req, useMedian: false, ...task }, {
+        signal,
+        traceFilters: createTraceFilters(),
+        cache,
+        emit: (block, kind) => emitted.push({ block, kind }),
+        fail: (error) => failures.push(error)
+    })
+    return { emitted, failures }
+}
+
+const continuousGroup = (traces, extra = {}) => ({
+    key: 'none|false',
+    filterSpec: null,
+    filterChain: null,
+    isMontage: false,
+    channels: traces.map((trace) => trace.chId),
+    traces,
+    ...extra
+})
+
+describe('readGroup', () => {
+    it('emits a block per trace and drains traces the query never reached', async () => {
+        const client = fakeClient([raw([1, 2, 3])])
+        const { emitted, failures } = await run(client, {
+            kind: 'continuous',
+            group: continuousGroup([identity(1), identity(2)])
+        })
+        expect(failures).toEqual([])
+        expect(emitted.map(({ block, kind }) => [block.label, block.nrPoints, kind])).toEqual([
+            ['Ch 1', 3, 'segment'],
+            ['Ch 2', 0, 'segment']
+        ])
+        expect(client.calls[0]).toMatchObject({ channels: ['srv-1', 'srv-2'], startUs: 0, endUs: 1000 })
+    })
+
+    it('reports a failed query and still drains every trace', async () => {
+        const client = fakeClient([], new Error('403 Forbidden'))
+        const { emitted, failures } = await run(client, {
+            kind: 'continuous',
+            group: continuousGroup([identity(1)])
+        })
+        expect(failures.map((error) => error.message)).toEqual(['403 Forbidden'])
+        expect(emitted).toHaveLength(1)
+        expect(emitted[0].block.nrPoints).toBe(0)
+    })
+
+    it('leaves an aborted read undrained and unreported', async () => {
+        const controller = new AbortController()
+        controller.abort()
+        const abort = Object.assign(new Error('aborted'), { name: 'AbortError' })
+        const { emitted, failures } = await run(fakeClient([], abort), {
+            kind: 'continuous',
+            group: continuousGroup([identity(1)])
+        }, controller.signal)
+        expect(emitted).toEqual([])
+        expect(failures).toEqual([])
+    })
+
+    it('reads a chain group raw, from a lead-in before the page', async () => {
+        const client = fakeClient([raw(new Array(30).fill(0), -2000)])
+        const group = continuousGroup([identity(1)], {
+            filterChain: [{ type: 'lowpass', order: 2, cutoffHz: 40 }]
+        })
+        const { emitted } = await run(client, { kind: 'continuous', group, req: { ...req, raw: false } })
+        expect(client.calls[0]).toMatchObject({ raw: true, startUs: -CHAIN_LEAD_IN_US })
+        expect(emitted[0].block.startTs).toBe(0)
+    })
+
+    it('sums a derived trace from its members', async () => {
+        const client = fakeClient([raw([1, 2]), raw([10, 20])])
+        const group = {
+            key: 'derived|none',
+            filterChain: null,
+            channels: ['srv-1', 'srv-2'],
+            derivations: [{ terms: [{ id: 'srv-1', weight: 1 }, { id: 'srv-2', weight: -1 }] }],
+            traces: [identity(9)]
+        }
+        const { emitted } = await run(client, { kind: 'derived', group })
+        expect(Array.from(emitted[0].block.parsedData[1])).toEqual([9, 18])
+    })
+
+    it('emits unit batches as events', async () => {
+        const client = fakeClient([{ samplePeriodUs: 0, isResampled: false, times: Float64Array.from([5, 7]) }])
+        const { emitted } = await run(client, { kind: 'units', group: { traces: [identity(1)] } })
+        expect(emitted.map(({ block, kind }) => [block.type, block.nrPoints, kind])).toEqual([['Neural', 2, 'event']])
+    })
+
+    it('serves a fully cached group without a query', async () => {
+        const cache = memoryCache()
+        const group = continuousGroup([identity(1)])
+        await run(fakeClient([raw([1, 2, 3])]), { kind: 'continuous', group }, undefined, cache)
+
+        const client = fakeClient([])
+        const { emitted } = await run(client, { kind: 'continuous', group }, undefined, cache)
+        expect(client.calls).toHaveLength(0)
+        expect(emitted.map(({ block, kind }) => [block.nrPoints, kind])).toEqual([[3, 'segment']])
+    })
+
+    it('reads the whole group on any miss, and stores no drained gap', async () => {
+        const cache = memoryCache()
+        await run(fakeClient([raw([1])]), { kind: 'continuous', group: continuousGroup([identity(1), identity(2)]) }, undefined, cache)
+        expect(cache.stored.size).toBe(1)
+
+        const client = fakeClient([raw([1]), raw([2])])
+        const { emitted } = await run(client, { kind: 'continuous', group: continuousGroup([identity(1), identity(2)]) }, undefined, cache)
+        expect(client.calls).toHaveLength(1)
+        expect(emitted.map(({ block }) => block.nrPoints)).toEqual([1, 1])
+        expect(cache.stored.size).toBe(2)
+    })
+
+    it('rejects an unknown task kind', async () => {
+        await expect(run(fakeClient([]), { kind: 'video', group: { traces: [] } })).rejects.toThrow('Unknown page task kind')
+    })
+})
@@ -28,3 +28,25 @@ export function adaptivePageSize(durationUs) {
     }
     return BASE_PAGE_SIZE * Math.pow(2, Math.ceil(Math.log2(pagesAtBase)))
 }
+
+/** Seconds of playback the prefetch should cover, so reads finish before the pages show. */
+const PLAYBACK_LEAD_SECONDS = 3
+
+/**
+ * Pages to read ahead of the viewport, counting playback.
+ *
+ * At rest the viewer reads `basePages` ahead. During playback that horizon is stretched to
+ * cover `PLAYBACK_LEAD_SECONDS` of wall-clock time at the playback speed, so a 20x replay
+ * asks for the pages it is about to reach rather than the handful a paging user needs.
+ *
+ * @param {number} basePages Pages read ahead at rest.
+ * @param {number} pageSizeUs Page span, in microseconds.
+ * @param {?number} speed Playback speed as a multiple of real time, or null when stopped.
+ * @returns {number} Pages to read ahead, at least `basePages`.
+ */
+export function prefetchPagesFor(basePages, pageSizeUs, speed = null) {
+    if (!speed || !(pageSizeUs > 0)) {
+        return basePages
+    }
+    return Math.max(basePages, Math.ceil((PLAYBACK_LEAD_SECONDS * 1e6 * speed) / pageSizeUs))
+}
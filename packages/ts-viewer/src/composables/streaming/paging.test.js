@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { adaptivePageSize, BASE_PAGE_SIZE } from './paging.js'
+import { adaptivePageSize, BASE_PAGE_SIZE, prefetchPagesFor } from './paging.js'
 
 const SECOND = 1000000
 
@@ -42,3 +42,17 @@ describe('adaptivePageSize', () => {
         expect(adaptivePageSize(Infinity)).toBe(BASE_PAGE_SIZE)
     })
 })
+
+describe('prefetchPagesFor', () => {
+    it('keeps the base horizon at rest and for slow playback', () => {
+        expect(prefetchPagesFor(5, BASE_PAGE_SIZE)).toBe(5)
+        expect(prefetchPagesFor(5, BASE_PAGE_SIZE, null)).toBe(5)
+        expect(prefetchPagesFor(5, BASE_PAGE_SIZE, 1)).toBe(5)
+    })
+
+    it('reads further ahead as playback speeds up, never less than at rest', () => {
+        expect(prefetchPagesFor(5, BASE_PAGE_SIZE, 20)).toBe(5)
+        expect(prefetchPagesFor(5, 1 * SECOND, 2)).toBe(6)
+        expect(prefetchPagesFor(1, 1 * SECOND, 20)).toBe(60)
+    })
+})
@@ -0,0 +1,378 @@
+// @/composables/streaming/spectral.js
+//
+// Spectral analysis of raw window reads (see windowReader.js). Everything here
+// works on plain sample arrays on one channel's native grid; NaN samples are
+// gaps, and a frame that touches a gap yields no spectrum rather than one smeared
+// by a made-up value.
+
+import { csvField } from './exporters'
+
+/** Window functions a spectrum can be taken with. */
+export const WINDOW_FUNCTIONS = ['hann', 'hamming', 'blackman', 'rectangular']
+
+/**
+ * In-place iterative radix-2 FFT.
+ *
+ * @param {Float64Array} re Real parts; length must be a power of two.
+ * @param {Float64Array} im Imaginary parts, same length.
+ */
+export function fft(re, im) {
+    const n = re.length
+    if (n & (n - 1)) {
+        throw new Error(`FFT length ${n} is not a power of two`)
+    }
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1
+        for (; j & bit; bit >>= 1) {
+            j ^= bit
+        }
+        j ^= bit
+        if (i < j) {
+            const tRe = re[i]
+            re[i] = re[j]
+            re[j] = tRe
+            const tIm = im[i]
+            im[i] = im[j]
+            im[j] = tIm
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size
+        const wRe = Math.cos(angle)
+        const wIm = Math.sin(angle)
+        const half = size >> 1
+        for (let start = 0; start < n; start += size) {
+            let uRe = 1
+            let uIm = 0
+            for (let k = 0; k < half; k++) {
+                const a = start + k
+                const b = a + half
+                const tRe = re[b] * uRe - im[b] * uIm
+                const tIm = re[b] * uIm + im[b] * uRe
+                re[b] = re[a] - tRe
+                im[b] = im[a] - tIm
+                re[a] += tRe
+                im[a] += tIm
+                const next = uRe * wRe - uIm * wIm
+                uIm = uRe * wIm + uIm * wRe
+                uRe = next
+            }
+        }
+    }
+}
+
+/**
+ * Coefficients of a periodic window of `n` points.
+ *
+ * @param {string} name One of {@link WINDOW_FUNCTIONS}.
+ * @param {number} n
+ * @returns {Float64Array}
+ */
+export function windowCoefficients(name, n) {
+    const out = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+        const x = 2 * Math.PI * i / n
+        switch (name) {
+            case 'hann':
+                out[i] = 0.5 - 0.5 * Math.cos(x)
+                break
+            case 'hamming':
+                out[i] = 0.54 - 0.46 * Math.cos(x)
+                break
+            case 'blackman':
+                out[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x)
+                break
+            case 'rectangular':
+                out[i] = 1
+                break
+            default:
+                throw new Error(`Unknown window function "${name}"`)
+        }
+    }
+    return out
+}
+
+/**
+ * One-sided power spectral density of one frame, in signal units squared per Hz.
+ *
+ * The frame's mean is removed first, so a DC offset does not leak into the low bins
+ * through the window's side lobes. Returns null when the frame contains a gap.
+ *
+ * @param {ArrayLike<number>} samples
+ * @param {number} offset First sample of the frame.
+ * @param {Float64Array} window Window coefficients; its length is the frame length.
+ * @param {number} windowPower Sum of squared coefficients.
+ * @param {number} rateHz
+ * @returns {?Float64Array} `window.length / 2 + 1` bins.
+ */
+function framePsd(samples, offset, window, windowPower, rateHz) {
+    const n = window.length
+    let mean = 0
+    for (let i = 0; i < n; i++) {
+        const value = samples[offset + i]
+        if (!Number.isFinite(value)) {
+            return null
+        }
+        mean += value
+    }
+    mean /= n
+
+    const re = new Float64Array(n)
+    const im = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+        re[i] = (samples[offset + i] - mean) * window[i]
+    }
+    fft(re, im)
+
+    const bins = (n >> 1) + 1
+    const out = new Float64Array(bins)
+    const scale = 1 / (rateHz * windowPower)
+    for (let k = 0; k < bins; k++) {
+        // Every bin but DC and Nyquist folds in its negative-frequency twin.
+        const fold = k === 0 || k === bins - 1 ? 1 : 2
+        out[k] = fold * scale * (re[k] * re[k] + im[k] * im[k])
+    }
+    return out
+}
+
+/**
+ * Checks STFT / Welch settings and fills in defaults.
+ *
+ * @param {{windowSize?: number, overlap?: number, window?: string}} options
+ * @returns {{windowSize: number, hop: number, window: Float64Array, windowPower: number}}
+ * @throws {Error} When the window size is not a power of two of at least 8, or the overlap is outside [0, 1).
+ */
+function frameSettings(options) {
+    const windowSize = options.windowSize ?? 256
+    const overlap = options.overlap ?? 0.5
+    if (!Number.isInteger(windowSize) || windowSize < 8 || (windowSize & (windowSize - 1))) {
+        throw new Error(`Window size must be a power of two of at least 8, got ${windowSize}`)
+    }
+    if (!(overlap >= 0 && overlap < 1)) {
+        throw new Error(`Overlap must be at least 0 and below 1, got ${overlap}`)
+    }
+    const window = windowCoefficients(options.window ?? 'hann', windowSize)
+    let windowPower = 0
+    for (let i = 0; i < windowSize; i++) {
+        windowPower += window[i] * window[i]
+    }
+    return {
+        windowSize,
+        hop: Math.max(1, Math.round(windowSize * (1 - overlap))),
+        window,
+        windowPower
+    }
+}
+
+/**
+ * Short-time Fourier transform of one channel as a power spectrogram.
+ *
+ * Frames that touch a gap are kept in place with NaN power, so columns stay evenly spaced
+ * in time and a renderer can leave them blank.
+ *
+ * @param {ArrayLike<number>} samples
+ * @param {number} rateHz
+ * @param {{windowSize?: number, overlap?: number, window?: string}} [options] Defaults to a
+ *   256-point Hann window with 50% overlap.
+ * @returns {{frames: number, bins: number, power: Float32Array, hopSeconds: number, windowSeconds: number, binHz: number}}
+ *   `power` is frame-major: bin `k` of frame `f` is at `f * bins + k`. Frame `f` covers
+ *   `[f * hopSeconds, f * hopSeconds + windowSeconds)` from the first sample.
+ */
+export function stft(samples, rateHz, options = {}) {
+    const { windowSize, hop, window, windowPower } = frameSettings(options)
+    const bins = (windowSize >> 1) + 1
+    const frames = samples.length < windowSize ? 0 : Math.floor((samples.length - windowSize) / hop) + 1
+    const power = new Float32Array(frames * bins)
+
+    for (let f = 0; f < frames; f++) {
+        const psd = framePsd(samples, f * hop, window, windowPower, rateHz)
+        if (psd === null) {
+            power.fill(NaN, f * bins, (f + 1) * bins)
+        } else {
+            power.set(psd, f * bins)
+        }
+    }
+
+    return {
+        frames,
+        bins,
+        power,
+        hopSeconds: hop / rateHz,
+        windowSeconds: windowSize / rateHz,
+        binHz: rateHz / windowSize
+    }
+}
+
+/**
+ * Welch power spectral density: the mean of the per-frame spectra across a window.
+ *
+ * Frames that touch a gap are left out of the average instead of poisoning it; `segments`
+ * says how many frames went in, and is 0 (with NaN power) when none were gap-free.
+ *
+ * @param {ArrayLike<number>} samples
+ * @param {number} rateHz
+ * @param {{windowSize?: number, overlap?: number, window?: string}} [options] Same as {@link stft}.
+ * @returns {{bins: number, binHz: number, psd: Float64Array, segments: number, skipped: number}}
+ *   Bin `k` is at `k * binHz`.
+ */
+export function welch(samples, rateHz, options = {}) {
+    const { windowSize, hop, window, windowPower } = frameSettings(options)
+    const bins = (windowSize >> 1) + 1
+    const frames = samples.length < windowSize ? 0 : Math.floor((samples.length - windowSize) / hop) + 1
+    const psd = new Float64Array(bins)
+
+    let segments = 0
+    for (let f = 0; f < frames; f++) {
+        const frame = framePsd(samples, f * hop, window, windowPower, rateHz)
+        if (frame === null) {
+            continue
+        }
+        for (let k = 0; k < bins; k++) {
+            psd[k] += frame[k]
+        }
+        segments++
+    }
+
+    if (segments === 0) {
+        psd.fill(NaN)
+    } else {
+        for (let k = 0; k < bins; k++) {
+            psd[k] /= segments
+        }
+    }
+
+    return { bins, binHz: rateHz / windowSize, psd, segments, skipped: frames - segments }
+}
+
+/** Classic EEG bands, in Hz; each band is `[lowHz, highHz)`. */
+export const EEG_BANDS = Object.freeze([
+    { name: 'delta', lowHz: 0.5, highHz: 4 },
+    { name: 'theta', lowHz: 4, highHz: 8 },
+    { name: 'alpha', lowHz: 8, highHz: 13 },
+    { name: 'beta', lowHz: 13, highHz: 30 },
+    { name: 'gamma', lowHz: 30, highHz: 100 }
+])
+
+/**
+ * Integrates a PSD over frequency bands.
+ *
+ * Each bin counts toward the band its centre frequency falls in. `relative` is the band's
+ * share of the total power from the lowest band edge to the highest, so it ignores DC and
+ * whatever lies above the last band. Bands beyond Nyquist come out as NaN, not 0, so a
+ * table does not claim a low-rate channel has no gamma.
+ *
+ * @param {Float64Array} psd From {@link welch}.
+ * @param {number} binHz
+ * @param {{name: string, lowHz: number, highHz: number}[]} [bands]
+ * @returns {{name: string, lowHz: number, highHz: number, power: number, relative: number}[]}
+ */
+export function bandPowers(psd, binHz, bands = EEG_BANDS) {
+    const nyquistHz = (psd.length - 1) * binHz
+    const integrate = (lowHz, highHz) => {
+        let total = 0
+        for (let k = Math.ceil(lowHz / binHz); k < psd.length && k * binHz < highHz; k++) {
+            total += psd[k] * binHz
+        }
+        return total
+    }
+
+    const lowest = Math.min(...bands.map(band => band.lowHz))
+    const highest = Math.max(...bands.map(band => band.highHz))
+    const total = integrate(lowest, highest)
+
+    return bands.map(({ name, lowHz, highHz }) => {
+        const power = lowHz >= nyquistHz ? NaN : integrate(lowHz, highHz)
+        return { name, lowHz, highHz, power, relative: total > 0 ? power / total : NaN }
+    })
+}
+
+const csvNumber = (value) => (Number.isFinite(value) ? String(value) : '')
+
+/**
+ * Serializes per-channel Welch spectra as CSV, one row per channel and frequency bin, with
+ * the channel's band powers in a second block below a blank line. Missing values are empty.
+ *
+ * @param {{label: string, binHz: number, psd: Float64Array, bands: ReturnType<typeof bandPowers>}[]} spectra
+ * @returns {string}
+ */
+export function psdToCsv(spectra) {
+    const lines = ['channel,frequency_hz,psd']
+    for (const { label, binHz, psd } of spectra) {
+        for (let k = 0; k < psd.length; k++) {
+            lines.push([csvField(label), k * binHz, csvNumber(psd[k])].join(','))
+        }
+    }
+
+    lines.push('', 'channel,band,low_hz,high_hz,power,relative_power')
+    for (const { label, bands } of spectra) {
+        for (const band of bands) {
+            lines.push([
+                csvField(label),
+                band.name,
+                band.lowHz,
+                band.highHz,
+                csvNumber(band.power),
+                csvNumber(band.relative)
+            ].join(','))
+        }
+    }
+    return `${lines.join('\n')}\n`
+}
+
+/**
+ * Converts power to decibels, leaving NaN as NaN. Zero power maps to -Infinity.
+ *
+ * @param {number} power
+ * @returns {number}
+ */
+export function toDecibels(power) {
+    return 10 * Math.log10(power)
+}
+
+/**
+ * The dB range a spectrogram should be colored over: the given percentiles of its finite
+ * values, so a handful of extreme frames (an artifact, a flat line) do not wash out the rest.
+ *
+ * @param {Float32Array} power Linear power.
+ * @param {number} [lowPercentile]
+ * @param {number} [highPercentile]
+ * @returns {?{minDb: number, maxDb: number}} Null when there is no finite positive power.
+ */
+export function decibelRange(power, lowPercentile = 2, highPercentile = 99.5) {
+    const values = []
+    for (let i = 0; i < power.length; i++) {
+        if (power[i] > 0 && Number.isFinite(power[i])) {
+            values.push(toDecibels(power[i]))
+        }
+    }
+    if (values.length === 0) {
+        return null
+    }
+    values.sort((a, b) => a - b)
+    const at = (p) => values[Math.min(values.length - 1, Math.max(0, Math.round((p / 100) * (values.length - 1))))]
+    const minDb = at(lowPercentile)
+    const maxDb = at(highPercentile)
+    return maxDb > minDb ? { minDb, maxDb } : { minDb: minDb - 1, maxDb: minDb + 1 }
+}
+
+/**
+ * Settings a spectrogram lane starts with.
+ *
+ * `maxFrequencyHz` null shows every bin up to Nyquist; `dbRange` null colors each lane over
+ * its own {@link decibelRange}.
+ *
+ * @returns {{windowSize: number, overlap: number, window: string, colormap: string, maxFrequencyHz: ?number, dbRange: ?{minDb: number, maxDb: number}, height: number}}
+ */
+export function defaultSpectrogramSettings() {
+    return {
+        windowSize: 256,
+        overlap: 0.5,
+        window: 'hann',
+        colormap: 'viridis',
+        maxFrequencyHz: null,
+        dbRange: null,
+        height: 160
+    }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { bandPowers, decibelRange, fft, psdToCsv, stft, welch, windowCoefficients } from './spectral'
+
+const sine = (freqHz, rateHz, n, amplitude = 1) =>
+    Float64Array.from({ length: n }, (_, i) => amplitude * Math.sin(2 * Math.PI * freqHz * i / rateHz))
+
+const peakBin = (power, frame, bins) => {
+    let best = 0
+    for (let k = 1; k < bins; k++) {
+        if (power[frame * bins + k] > power[frame * bins + best]) best = k
+    }
+    return best
+}
+
+describe('fft', () => {
+    it('matches a direct DFT', () => {
+        const input = [1, 2, 0, -1, 3, 0.5, -2, 1]
+        const re = Float64Array.from(input)
+        const im = new Float64Array(8)
+        fft(re, im)
+        for (let k = 0; k < 8; k++) {
+            let dRe = 0
+            let dIm = 0
+            input.forEach((x, n) => {
+                dRe += x * Math.cos(-2 * Math.PI * k * n / 8)
+                dIm += x * Math.sin(-2 * Math.PI * k * n / 8)
+            })
+            expect(re[k]).toBeCloseTo(dRe, 9)
+            expect(im[k]).toBeCloseTo(dIm, 9)
+        }
+    })
+
+    it('rejects lengths that are not a power of two', () => {
+        expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow(/power of two/)
+    })
+})
+
+describe('windowCoefficients', () => {
+    it('builds periodic windows', () => {
+        const hann = windowCoefficients('hann', 8)
+        expect(hann[0]).toBe(0)
+        expect(hann[4]).toBeCloseTo(1)
+        expect(Array.from(windowCoefficients('rectangular', 4))).toEqual([1, 1, 1, 1])
+        expect(() => windowCoefficients('kaiser', 4)).toThrow(/Unknown window/)
+    })
+})
+
+describe('stft', () => {
+    it('puts a tone in its frequency bin in every frame', () => {
+        const rateHz = 256
+        const result = stft(sine(32, rateHz, 1024), rateHz, { windowSize: 64, overlap: 0.5 })
+        expect(result.bins).toBe(33)
+        expect(result.binHz).toBe(4)
+        expect(result.frames).toBe(31)
+        expect(result.hopSeconds).toBe(0.125)
+        for (let f = 0; f < result.frames; f++) {
+            expect(peakBin(result.power, f, result.bins)).toBe(8)
+        }
+    })
+
+    it('scales power so a tone integrates to its mean square', () => {
+        const rateHz = 1000
+        const result = stft(sine(125, rateHz, 512, 2), rateHz, { windowSize: 512, window: 'rectangular' })
+        let total = 0
+        for (let k = 0; k < result.bins; k++) total += result.power[k] * result.binHz
+        expect(total).toBeCloseTo(2, 6)
+    })
+
+    it('blanks frames that touch a gap', () => {
+        const samples = sine(10, 100, 256)
+        samples[100] = NaN
+        const result = stft(samples, 100, { windowSize: 64, overlap: 0 })
+        expect(result.frames).toBe(4)
+        expect(Number.isNaN(result.power[1 * result.bins])).toBe(true)
+        expect(Number.isNaN(result.power[0])).toBe(false)
+        expect(Number.isNaN(result.power[2 * result.bins])).toBe(false)
+    })
+
+    it('returns no frames when the window is longer than the signal', () => {
+        expect(stft(new Float64Array(10), 100, { windowSize: 64 }).frames).toBe(0)
+    })
+
+    it('rejects bad settings', () => {
+        expect(() => stft(new Float64Array(10), 100, { windowSize: 100 })).toThrow(/power of two/)
+        expect(() => stft(new Float64Array(10), 100, { overlap: 1 })).toThrow(/Overlap/)
+    })
+})
+
+describe('welch', () => {
+    it('averages frames so a tone keeps its power', () => {
+        const rateHz = 256
+        const result = welch(sine(10, rateHz, 2048, 2), rateHz, { windowSize: 256 })
+        expect(result.binHz).toBe(1)
+        expect(result.segments).toBe(15)
+        let total = 0
+        for (let k = 0; k < result.bins; k++) total += result.psd[k] * result.binHz
+        expect(total).toBeCloseTo(2, 2)
+    })
+
+    it('leaves frames that touch a gap out of the average', () => {
+        const samples = sine(10, 100, 256)
+        samples[100] = NaN
+        const result = welch(samples, 100, { windowSize: 64, overlap: 0 })
+        expect(result.segments).toBe(3)
+        expect(result.skipped).toBe(1)
+        expect(Number.isNaN(result.psd[0])).toBe(false)
+    })
+
+    it('returns NaN power when no frame is usable', () => {
+        const result = welch(new Float64Array(10), 100, { windowSize: 64 })
+        expect(result.segments).toBe(0)
+        expect(Number.isNaN(result.psd[3])).toBe(true)
+    })
+})
+
+describe('bandPowers', () => {
+    it('puts an alpha tone in the alpha band', () => {
+        const rateHz = 256
+        const { psd, binHz } = welch(sine(10, rateHz, 2048, 2), rateHz, { windowSize: 256 })
+        const bands = Object.fromEntries(bandPowers(psd, binHz).map(band => [band.name, band]))
+        expect(bands.alpha.power).toBeCloseTo(2, 2)
+        expect(bands.alpha.relative).toBeGreaterThan(0.99)
+        expect(bands.delta.relative).toBeLessThan(0.01)
+    })
+
+    it('reports bands above Nyquist as NaN', () => {
+        const { psd, binHz } = welch(sine(10, 50, 512), 50, { windowSize: 64 })
+        const gamma = bandPowers(psd, binHz).find(band => band.name === 'gamma')
+        expect(Number.isNaN(gamma.power)).toBe(true)
+    })
+})
+
+describe('psdToCsv', () => {
+    it('writes a spectrum block and a band block, quoting labels', () => {
+        const csv = psdToCsv([{
+            label: 'Fp1, ref',
+            binHz: 2,
+            psd: Float64Array.from([1, NaN]),
+            bands: [{ name: 'delta', lowHz: 0.5, highHz: 4, power: 0.25, relative: NaN }]
+        }])
+        expect(csv.split('\n')).toEqual([
+            'channel,frequency_hz,psd',
+            '"Fp1, ref",0,1',
+            '"Fp1, ref",2,',
+            '',
+            'channel,band,low_hz,high_hz,power,relative_power',
+            '"Fp1, ref",delta,0.5,4,0.25,',
+            ''
+        ])
+    })
+})
+
+describe('decibelRange', () => {
+    it('spans the percentiles of finite positive power', () => {
+        const power = Float32Array.from([NaN, 0, 1, 10, 100, 1000])
+        expect(decibelRange(power, 0, 100)).toEqual({ minDb: 0, maxDb: 30 })
+    })
+
+    it('returns null without usable power and widens a flat range', () => {
+        expect(decibelRange(Float32Array.from([NaN, 0]))).toBe(null)
+        expect(decibelRange(Float32Array.from([10, 10]))).toEqual({ minDb: 9, maxDb: 11 })
+    })
+})
@@ -1,6 +1,6 @@
 // @/composables/streaming/translate.js
 
-import { specSignature } from './filters'
+import { chainSignature, isReaderNativeChain, normalizeChain } from './filters'
 
 /** Separator the viewer puts between a montage pair's two channel NAMES. */
 const MONTAGE_SEPARATOR = '<->'
@@ -16,13 +16,26 @@ const MONTAGE_SEPARATOR = '<->'
 /**
  * @typedef {object} QueryGroup
  * @property {string} key Grouping key; equal keys mean one reader query can serve both traces.
- * @property {?object} filterSpec FilterSpec for every trace in the group, or null.
+ * @property {?object} filterSpec FilterSpec the reader applies to every trace in the group, or null.
+ * @property {?object[]} filterChain FilterChain to run client-side on raw samples, or null.
+ *   At most one of filterSpec / filterChain is set.
  * @property {boolean} isMontage
  * @property {string[]} [channels] Bundle channel ids; present only when isMontage is false.
  * @property {Array<{lead: string, secondary: string}>} [montage] Present only when isMontage is true.
  * @property {TraceIdentity[]} traces Parallel to channels/montage, index for index.
  */
 
+/**
+ * @typedef {object} DerivedGroup
+ * @property {string} key Grouping key, as for QueryGroup.
+ * @property {?object[]} filterChain FilterChain to run on each derived trace, or null. Any filter
+ *   counts as a chain here: the reader never sees a derived trace, so it cannot filter one.
+ * @property {string[]} channels Bundle channel ids of every term of every trace, deduplicated;
+ *   one raw reader query over these serves the whole group.
+ * @property {Array<import('./derivations').ResolvedDerivation>} derivations Parallel to traces.
+ * @property {TraceIdentity[]} traces
+ */
+
 /**
  * Reads the filter that applies to one trace.
  *
@@ -33,7 +46,7 @@ const MONTAGE_SEPARATOR = '<->'
  *
  * @param {Map<string, object>|undefined} filterRegistry
  * @param {string} clientId
- * @returns {?object} FilterSpec or null.
+ * @returns {?object|object[]} FilterSpec, FilterChain, or null.
  */
 function lookupFilter(filterRegistry, key) {
     if (!filterRegistry || typeof filterRegistry.get !== 'function') {
@@ -43,6 +56,26 @@ function lookupFilter(filterRegistry, key) {
     return spec === undefined ? null : spec
 }
 
+/**
+ * Splits a registry value into what the reader runs and what runs client-side.
+ *
+ * A lone Butterworth spec, bare or as a one-stage chain, stays with the reader; anything
+ * else becomes a client-side chain. An empty chain is no filter at all.
+ *
+ * @param {?object|object[]} value
+ * @returns {{filterSpec: ?object, filterChain: ?object[]}}
+ */
+function routeFilter(value) {
+    const chain = normalizeChain(value)
+    if (chain.length === 0) {
+        return { filterSpec: null, filterChain: null }
+    }
+    if (isReaderNativeChain(chain)) {
+        return { filterSpec: chain[0], filterChain: null }
+    }
+    return { filterSpec: null, filterChain: chain }
+}
+
 /**
  * Key under which a trace's active filter is stored.
  *
@@ -236,7 +269,8 @@ export function resolveMontagePair(vc, catalogIndex) {
  *
  * `query()` accepts exactly ONE filter and exactly one of `channels` / `montage`, so traces
  * are grouped by `(filter signature, isMontage)` and each group carries only one of the two
- * arrays. That array is parallel to the group's `traces`: the reader yields one segment per
+ * arrays. A filter the reader cannot run (a FilterChain) groups the same way but rides on
+ * `filterChain`, for the caller to apply to a raw read. That array is parallel to the group's `traces`: the reader yields one segment per
  * requested trace in request order, so the caller zips yields to identities by position.
  *
  * A group's identities echo the REQUEST's `id` and `name`, never the reader's compound
@@ -248,29 +282,38 @@ export function resolveMontagePair(vc, catalogIndex) {
  * does not know, and any montage pair that cannot be resolved, goes to `invalid`; the caller
  * must still emit one gap per invalid trace or the page's response counter never drains.
  *
+ * Traces of an active derived montage (see derivations.js) go to `derivedGroups`, grouped
+ * by filter alone, since the reader cannot compute them: the caller reads their terms raw
+ * and sums them itself. A trace is derived only when its label names a derivation AND its
+ * id is that derivation's lead, so a plain channel that happens to share a label is not.
+ *
  * Group order is first-appearance order over the request's channels, so the same request
  * always produces the same groups in the same sequence.
  *
  * @param {{virtualChannels: Array<{id: string, name: string}>}} req Parsed request.
  * @param {{byId: Map<string, object>, byName: Map<string, object>}} catalogIndex
- * @param {Map<string, object>} [filterRegistry] Active FilterSpec per client channel id.
- * @returns {{groups: QueryGroup[], unitTraces: TraceIdentity[], invalid: Array<{identity: TraceIdentity, reason: string}>}}
+ * @param {Map<string, object|object[]>} [filterRegistry] Active FilterSpec or FilterChain per trace, keyed by {@link filterKey}.
+ * @param {Map<string, import('./derivations').ResolvedDerivation>} [derivations] Active derived montage by label.
+ * @returns {{groups: QueryGroup[], derivedGroups: DerivedGroup[], unitTraces: TraceIdentity[], invalid: Array<{identity: TraceIdentity, reason: string}>}}
  */
-export function partitionRequest(req, catalogIndex, filterRegistry) {
+export function partitionRequest(req, catalogIndex, filterRegistry, derivations) {
     const groups = []
     const byKey = new Map()
+    const derivedGroups = []
+    const derivedByKey = new Map()
     const unitTraces = []
     const invalid = []
     const virtualChannels = req && Array.isArray(req.virtualChannels) ? req.virtualChannels : []
 
-    const addToGroup = (isMontage, member, identity, filterSpec) => {
-        const key = `${specSignature(filterSpec)}|${isMontage ? 'montage' : 'channels'}`
+    const addToGroup = (isMontage, member, identity, filter) => {
+        const key = `${chainSignature(filter)}|${isMontage ? 'montage' : 'channels'}`
         let group = byKey.get(key)
 
         if (!group) {
+            const { filterSpec, filterChain } = routeFilter(filter)
             group = isMontage
-                ? { key: key, filterSpec: filterSpec, isMontage: true, montage: [], traces: [] }
-                : { key: key, filterSpec: filterSpec, isMontage: false, channels: [], traces: [] }
+                ? { key: key, filterSpec: filterSpec, filterChain: filterChain, isMontage: true, montage: [], traces: [] }
+                : { key: key, filterSpec: filterSpec, filterChain: filterChain, isMontage: false, channels: [], traces: [] }
             byKey.set(key, group)
             groups.push(group)
         }
@@ -283,6 +326,26 @@ export function partitionRequest(req, catalogIndex, filterRegistry) {
         group.traces.push(identity)
     }
 
+    const addToDerivedGroup = (derivation, identity, filter) => {
+        const key = `${chainSignature(filter)}|derived`
+        let group = derivedByKey.get(key)
+
+        if (!group) {
+            const chain = normalizeChain(filter)
+            group = { key: key, filterChain: chain.length > 0 ? chain : null, channels: [], derivations: [], traces: [] }
+            derivedByKey.set(key, group)
+            derivedGroups.push(group)
+        }
+
+        for (const term of derivation.terms) {
+            if (!group.channels.includes(term.id)) {
+                group.channels.push(term.id)
+            }
+        }
+        group.derivations.push(derivation)
+        group.traces.push(identity)
+    }
+
     for (const vc of virtualChannels) {
         if (vc === null || typeof vc !== 'object' || Array.isArray(vc)) {
             invalid.push({
@@ -292,6 +355,16 @@ export function partitionRequest(req, catalogIndex, filterRegistry) {
             continue
         }
 
+        const derivation = derivations?.get(vc.name)
+
+        if (derivation && derivation.leadId === vc.id) {
+            // Derived traces are only ever requested while a montage is active, so the
+            // viewer minted the montaged `${id}_${name}` client id for them.
+            const identity = identityFor(vc, `${vc.id}_${vc.name}`, derivation.unit)
+            addToDerivedGroup(derivation, identity, lookupFilter(filterRegistry, filterKey(vc.id, vc.name)))
+            continue
+        }
+
         const clientId = reconstructClientId(vc, catalogIndex)
 
         if (clientId === '') {
@@ -302,7 +375,7 @@ export function partitionRequest(req, catalogIndex, filterRegistry) {
             continue
         }
 
-        const filterSpec = lookupFilter(filterRegistry, filterKey(vc.id, vc.name))
+        const filter = lookupFilter(filterRegistry, filterKey(vc.id, vc.name))
 
         if (isMontageLabel(vc, catalogIndex)) {
             const resolved = resolveMontagePair(vc, catalogIndex)
@@ -310,7 +383,7 @@ export function partitionRequest(req, catalogIndex, filterRegistry) {
                 invalid.push({ identity: identityFor(vc, clientId, ''), reason: resolved.reason })
                 continue
             }
-            addToGroup(true, resolved.pair, identityFor(vc, clientId, resolved.leadInfo.unit), filterSpec)
+            addToGroup(true, resolved.pair, identityFor(vc, clientId, resolved.leadInfo.unit), filter)
             continue
         }
 
@@ -329,8 +402,8 @@ export function partitionRequest(req, catalogIndex, filterRegistry) {
             continue
         }
 
-        addToGroup(false, info.id, identityFor(vc, clientId, info.unit), filterSpec)
+        addToGroup(false, info.id, identityFor(vc, clientId, info.unit), filter)
     }
 
-    return { groups: groups, unitTraces: unitTraces, invalid: invalid }
+    return { groups: groups, derivedGroups: derivedGroups, unitTraces: unitTraces, invalid: invalid }
 }
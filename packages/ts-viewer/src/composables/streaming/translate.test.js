@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { buildCatalogIndex } from './channelDetails'
+import { resolveDerivations } from './derivations'
 import { parseRequest, reconstructClientId, resolveMontagePair, partitionRequest, filterKey } from './translate'
 
 const START_US = 1704067200000000
@@ -280,6 +281,29 @@ describe('partitionRequest', () => {
         expect(out.groups[0].filterSpec).toBe(LOWPASS)
     })
 
+    it('routes a chain to filterChain and a one-stage chain to the reader', () => {
+        const CHAIN = [HIGHPASS, { type: 'notch', freqHz: 60, harmonics: 2, q: 30 }]
+        const filters = new Map([
+            [filterKey(C3, 'C3'), CHAIN],
+            [filterKey(CZ, 'Cz'), [LOWPASS]],
+            [filterKey(C4, 'C4'), LOWPASS]
+        ])
+        const req = parseRequest(wireRequest([
+            { id: C3, name: 'C3' },
+            { id: CZ, name: 'Cz' },
+            { id: C4, name: 'C4' }
+        ]))
+        const out = partitionRequest(req, catalog, filters)
+
+        expect(out.groups).toHaveLength(2)
+        expect(out.groups[0].channels).toEqual([C3])
+        expect(out.groups[0].filterSpec).toBe(null)
+        expect(out.groups[0].filterChain).toBe(CHAIN)
+        expect(out.groups[1].channels).toEqual([CZ, C4])
+        expect(out.groups[1].filterSpec).toBe(LOWPASS)
+        expect(out.groups[1].filterChain).toBe(null)
+    })
+
     it('never mixes montaged and plain traces even under an identical filter', () => {
         const filters = new Map([[filterKey(C3, 'C3'), LOWPASS], [filterKey(C4, 'C4<->Cz'), LOWPASS_REORDERED]])
         const req = parseRequest(wireRequest([
@@ -382,7 +406,48 @@ describe('partitionRequest', () => {
 
     it('returns empty results for a request with no channels', () => {
         const out = partitionRequest(parseRequest(wireRequest([])), catalog, new Map())
-        expect(out).toEqual({ groups: [], unitTraces: [], invalid: [] })
+        expect(out).toEqual({ groups: [], derivedGroups: [], unitTraces: [], invalid: [] })
+    })
+
+    describe('with a derived montage', () => {
+        const { byLabel } = resolveDerivations([
+            { label: 'C3-AVG', terms: [{ channel: 'C3', weight: 0.5 }, { channel: 'Cz', weight: -0.5 }] },
+            { label: 'Cz-AVG', terms: [{ channel: 'Cz', weight: 0.5 }, { channel: 'C3', weight: -0.5 }] }
+        ], catalog)
+
+        it('routes derived traces to one raw group over their member channels', () => {
+            const req = parseRequest(wireRequest([
+                { id: C3, name: 'C3-AVG' },
+                { id: CZ, name: 'Cz-AVG' }
+            ]))
+            const out = partitionRequest(req, catalog, new Map(), byLabel)
+
+            expect(out.groups).toEqual([])
+            expect(out.derivedGroups).toHaveLength(1)
+            const group = out.derivedGroups[0]
+            expect(group.key).toBe('unfiltered|derived')
+            expect(group.filterChain).toBe(null)
+            expect(group.channels).toEqual([C3, CZ])
+            expect(group.derivations.map((d) => d.label)).toEqual(['C3-AVG', 'Cz-AVG'])
+            expect(group.traces[0]).toEqual({ chId: C3, label: 'C3-AVG', clientId: `${C3}_C3-AVG`, unit: 'uV' })
+        })
+
+        it('filters derived traces client-side, whatever the filter', () => {
+            const filters = new Map([[filterKey(C3, 'C3-AVG'), LOWPASS]])
+            const req = parseRequest(wireRequest([{ id: C3, name: 'C3-AVG' }, { id: CZ, name: 'Cz-AVG' }]))
+            const out = partitionRequest(req, catalog, filters, byLabel)
+
+            expect(out.derivedGroups).toHaveLength(2)
+            expect(out.derivedGroups[0].filterChain).toEqual([LOWPASS])
+            expect(out.derivedGroups[1].filterChain).toBe(null)
+        })
+
+        it('leaves a plain channel that only shares a label alone', () => {
+            const req = parseRequest(wireRequest([{ id: C4, name: 'C3-AVG' }]))
+            const out = partitionRequest(req, catalog, new Map(), byLabel)
+            expect(out.derivedGroups).toEqual([])
+            expect(out.groups[0].channels).toEqual([C4])
+        })
     })
 })
 
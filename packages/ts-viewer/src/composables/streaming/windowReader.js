@@ -0,0 +1,214 @@
+// @/composables/streaming/windowReader.js
+//
+// Whole-window raw reads for analysis and export, beside the page pipeline. A
+// window is read through the viewer instance's own registry entry, so it shares the
+// bundle's catalog and cache with the traces on screen, and it resolves traces with
+// the same partitioning the page pipeline uses, so a montaged or derived trace reads
+// the same samples it is drawn from.
+//
+// Filters always run here, client-side, even a lone Butterworth the reader could run:
+// the reader's filters keep per-channel state between queries, and a side read through
+// them would shift the state the next page continues from.
+
+import { ensureCatalog } from './clientRegistry'
+import { combineDerivation } from './derivations'
+import { CHAIN_LEAD_IN_US, createChainProcessor } from './dsp'
+import { normalizeChain } from './filters'
+import { isMontageLabel, partitionRequest, resolveMontagePair } from './translate'
+
+/**
+ * @typedef {object} WindowTrace
+ * @property {import('./translate').TraceIdentity} identity
+ * @property {number} rateHz Native sample rate, 0 when the trace could not be read.
+ * @property {?{startUs: number, samplePeriodUs: number, data: Float64Array}} segment Raw
+ *   samples on the trace's own grid, clipped to the window, or null when unreadable. Gaps
+ *   are NaN.
+ * @property {?string} reason Why `segment` is null.
+ */
+
+/**
+ * The request-side address of a viewer channel: its server id and label, which is what a
+ * page request carries and what the filter registry and derivations are keyed by.
+ *
+ * @param {{id: string, serverId?: string, label?: string, name?: string}} channel A `viewerChannels` entry.
+ * @returns {{id: string, name: string}}
+ */
+export function windowAddressFor(channel) {
+    return {
+        id: channel.serverId ?? channel.id,
+        name: channel.label ?? channel.name
+    }
+}
+
+/**
+ * The recording channels behind a set of trace addresses, for reading them unmontaged.
+ *
+ * A plain channel stands for itself, a montage pair for its lead and secondary, and a
+ * trace of the active derived montage for every channel in its terms. Each channel is
+ * listed once, in the order first met. Addresses that cannot be resolved are passed
+ * through, so {@link readRawWindow} reports them with a reason.
+ *
+ * @param {import('./clientRegistry').StreamingClientEntry} entry
+ * @param {Array<{id: string, name: string}>} addresses
+ * @returns {Promise<Array<{id: string, name: string}>>}
+ */
+export async function memberAddressesFor(entry, addresses) {
+    const catalogIndex = await ensureCatalog(entry)
+    const out = new Map()
+    const add = (info) => {
+        if (!out.has(info.id)) {
+            out.set(info.id, { id: info.id, name: info.name })
+        }
+    }
+
+    for (const address of addresses) {
+        const derivation = entry.derivations?.get(address.name)
+        if (derivation) {
+            derivation.terms.forEach((term) => add(catalogIndex.byId.get(term.id)))
+            continue
+        }
+        const info = catalogIndex.byId.get(address.id)
+        if (!isMontageLabel(address, catalogIndex)) {
+            if (info) {
+                add(info)
+            } else {
+                out.set(`${address.id}|${address.name}`, address)
+            }
+            continue
+        }
+        const resolved = resolveMontagePair(address, catalogIndex)
+        if (resolved.ok) {
+            add(resolved.leadInfo)
+            add(resolved.secondaryInfo)
+        } else {
+            out.set(`${address.id}|${address.name}`, address)
+        }
+    }
+    return [...out.values()]
+}
+
+/**
+ * Keeps the samples of a raw segment that start inside `[startUs, endUs)`.
+ *
+ * @param {{startUs: number, samplePeriodUs: number, data: ArrayLike<number>}} segment
+ * @param {number} startUs
+ * @param {number} endUs
+ * @returns {{startUs: number, samplePeriodUs: number, data: Float64Array}}
+ */
+export function clipRaw(segment, startUs, endUs) {
+    const period = segment.samplePeriodUs
+    const length = segment.data.length
+    let first = Math.max(0, Math.ceil((startUs - segment.startUs) / period))
+    const end = Math.min(length, Math.max(first, Math.ceil((endUs - segment.startUs) / period)))
+    first = Math.min(first, length)
+    const data = Float64Array.from(Array.prototype.slice.call(segment.data, first, end))
+    return { startUs: segment.startUs + first * period, samplePeriodUs: period, data }
+}
+
+/**
+ * Reads raw samples for a set of traces over one window.
+ *
+ * Traces are addressed as a page request addresses them (see {@link windowAddressFor}).
+ * With `processed` set (the default), each trace carries its active filter, as drawn;
+ * without it, filters are skipped. The montage is whatever the addresses name -- pass base
+ * channels to read them unmontaged.
+ *
+ * A filtered read starts `CHAIN_LEAD_IN_US` early so filters settle before the window.
+ * Unit channels and anything that cannot be resolved come back with a null segment and a
+ * reason rather than failing the read. Reader errors (a read over the raw byte limit, an
+ * abort) propagate.
+ *
+ * @param {import('./clientRegistry').StreamingClientEntry} entry
+ * @param {Array<{id: string, name: string}>} addresses
+ * @param {number} startUs
+ * @param {number} endUs
+ * @param {{processed?: boolean, signal?: AbortSignal}} [options]
+ * @returns {Promise<WindowTrace[]>} Parallel to `addresses`.
+ */
+export async function readRawWindow(entry, addresses, startUs, endUs, options = {}) {
+    const processed = options.processed !== false
+    const catalogIndex = await ensureCatalog(entry)
+    const { groups, derivedGroups, unitTraces, invalid } = partitionRequest(
+        { virtualChannels: addresses },
+        catalogIndex,
+        processed ? entry.filterRegistry : undefined,
+        entry.derivations
+    )
+
+    const byAddress = new Map()
+    const keyOf = (identity) => `${identity.chId}|${identity.label}`
+    for (const identity of unitTraces) {
+        byAddress.set(keyOf(identity), { identity, rateHz: 0, segment: null, reason: 'Unit channels carry events, not samples' })
+    }
+    for (const { identity, reason } of invalid) {
+        byAddress.set(keyOf(identity), { identity, rateHz: 0, segment: null, reason })
+    }
+
+    const chainFor = (group) => normalizeChain(group.filterChain ?? group.filterSpec)
+    const deliver = (identity, raw, chain) => {
+        const rateHz = 1e6 / raw.samplePeriodUs
+        const data = chain.length > 0 ? createChainProcessor(chain, rateHz).process(raw.data) : raw.data
+        const segment = clipRaw({ startUs: raw.startUs, samplePeriodUs: raw.samplePeriodUs, data }, startUs, endUs)
+        byAddress.set(keyOf(identity), { identity, rateHz, segment, reason: null })
+    }
+
+    for (const group of groups) {
+        const chain = chainFor(group)
+        const query = {
+            startUs: chain.length > 0 ? startUs - CHAIN_LEAD_IN_US : startUs,
+            endUs,
+            pixelWidthUs: 1,
+            raw: true,
+            signal: options.signal
+        }
+        if (group.isMontage) {
+            query.montage = group.montage
+        } else {
+            query.channels = group.channels
+        }
+        let index = 0
+        for await (const raw of entry.client.query(query)) {
+            const identity = group.traces[index]
+            index++
+            if (identity) {
+                deliver(identity, raw, chain)
+            }
+        }
+    }
+
+    for (const group of derivedGroups) {
+        const chain = chainFor(group)
+        const query = {
+            channels: group.channels,
+            startUs: chain.length > 0 ? startUs - CHAIN_LEAD_IN_US : startUs,
+            endUs,
+            pixelWidthUs: 1,
+            raw: true,
+            signal: options.signal
+        }
+        const segmentsById = new Map()
+        let index = 0
+        for await (const raw of entry.client.query(query)) {
+            const id = group.channels[index]
+            index++
+            if (id !== undefined) {
+                segmentsById.set(id, raw)
+            }
+        }
+        group.traces.forEach((identity, i) => {
+            const combined = combineDerivation(segmentsById, group.derivations[i].terms)
+            if (combined) {
+                deliver(identity, combined, chain)
+            } else {
+                byAddress.set(keyOf(identity), { identity, rateHz: 0, segment: null, reason: 'A member channel returned no data' })
+            }
+        })
+    }
+
+    return addresses.map((address) => byAddress.get(`${address.id}|${address.name}`) ?? {
+        identity: { chId: address.id, label: address.name, clientId: '', unit: '' },
+        rateHz: 0,
+        segment: null,
+        reason: 'No data returned'
+    })
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { resolveDerivations } from './derivations'
+import { buildCatalogIndex } from './channelDetails'
+import { filterKey } from './translate'
+import { clipRaw, memberAddressesFor, readRawWindow, windowAddressFor } from './windowReader'
+
+const START_US = 1704067200000000
+
+const chan = (id, name, over = {}) => ({
+    id,
+    name,
+    unit: 'uV',
+    rateHz: 1000,
+    startUs: START_US,
+    endUs: START_US + 30000000,
+    kind: 'continuous',
+    ...over
+})
+
+const INFOS = [
+    chan('a', 'A'),
+    chan('b', 'B'),
+    chan('spikes', 'Spikes', { kind: 'unit' })
+]
+
+// One constant level per channel, so every assertion can tell the traces apart.
+const LEVEL = { a: 1, b: 10 }
+
+/** A fake registry entry whose client records its queries and yields flat raw segments. */
+const fakeEntry = () => {
+    const queries = []
+    const client = {
+        channelInfo: async () => INFOS,
+        async * query(options) {
+            queries.push(options)
+            const length = Math.round((options.endUs - options.startUs) / 1000)
+            const members = options.montage
+                ? options.montage.map(({ lead, secondary }) => LEVEL[lead] - LEVEL[secondary])
+                : options.channels.map((id) => LEVEL[id])
+            for (const level of members) {
+                yield { startUs: options.startUs, samplePeriodUs: 1000, isMinMax: false, data: new Float64Array(length).fill(level) }
+            }
+        }
+    }
+    return { client, queries, filterRegistry: new Map(), derivations: null, catalogPromise: null, catalogIndex: null }
+}
+
+describe('windowAddressFor', () => {
+    it('addresses a montaged viewer channel by server id and label', () => {
+        expect(windowAddressFor({ id: 'a_A<->B', serverId: 'a', label: 'A<->B', name: 'A<->B' })).toEqual({ id: 'a', name: 'A<->B' })
+        expect(windowAddressFor({ id: 'a', name: 'A' })).toEqual({ id: 'a', name: 'A' })
+    })
+})
+
+describe('memberAddressesFor', () => {
+    it('resolves montage pairs and derivations to their recording channels, once each', async () => {
+        const entry = fakeEntry()
+        entry.derivations = resolveDerivations([
+            { label: 'B-AVG', terms: [{ channel: 'B', weight: 0.5 }, { channel: 'A', weight: -0.5 }] }
+        ], buildCatalogIndex(INFOS)).byLabel
+
+        const out = await memberAddressesFor(entry, [
+            { id: 'a', name: 'A<->B' },
+            { id: 'b', name: 'B-AVG' },
+            { id: 'a', name: 'A' }
+        ])
+        expect(out).toEqual([{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }])
+    })
+
+    it('passes unresolvable addresses through for readRawWindow to report', async () => {
+        const out = await memberAddressesFor(fakeEntry(), [{ id: 'a', name: 'A<->Z' }, { id: 'x', name: 'X' }])
+        expect(out).toEqual([{ id: 'a', name: 'A<->Z' }, { id: 'x', name: 'X' }])
+    })
+})
+
+describe('clipRaw', () => {
+    it('keeps samples starting inside the window', () => {
+        const out = clipRaw({ startUs: 0, samplePeriodUs: 10, data: [0, 1, 2, 3, 4, 5] }, 15, 45)
+        expect(out.startUs).toBe(20)
+        expect(Array.from(out.data)).toEqual([2, 3, 4])
+    })
+
+    it('returns an empty segment for a window outside the data', () => {
+        expect(clipRaw({ startUs: 0, samplePeriodUs: 10, data: [0, 1] }, 100, 200).data).toHaveLength(0)
+    })
+})
+
+describe('readRawWindow', () => {
+    const endUs = START_US + 100000
+
+    it('reads plain and montaged traces raw, in address order', async () => {
+        const entry = fakeEntry()
+        const out = await readRawWindow(entry, [{ id: 'a', name: 'A<->B' }, { id: 'b', name: 'B' }], START_US, endUs)
+
+        expect(out.map((trace) => trace.identity.label)).toEqual(['A<->B', 'B'])
+        expect(out[0].segment.data[0]).toBe(-9)
+        expect(out[1].segment.data).toHaveLength(100)
+        expect(out[1].rateHz).toBe(1000)
+        expect(entry.queries.every((query) => query.raw === true && query.filter === undefined)).toBe(true)
+    })
+
+    it('filters client-side with a lead-in, and skips filters when asked', async () => {
+        const entry = fakeEntry()
+        entry.filterRegistry.set(filterKey('a', 'A'), { type: 'lowpass', order: 2, cutoffHz: 40 })
+
+        const filtered = await readRawWindow(entry, [{ id: 'a', name: 'A' }], START_US, endUs)
+        expect(entry.queries[0].startUs).toBeLessThan(START_US)
+        expect(filtered[0].segment.startUs).toBe(START_US)
+        expect(filtered[0].segment.data[0]).toBeCloseTo(1, 6)
+
+        await readRawWindow(entry, [{ id: 'a', name: 'A' }], START_US, endUs, { processed: false })
+        expect(entry.queries[1].startUs).toBe(START_US)
+    })
+
+    it('computes the active derived montage', async () => {
+        const entry = fakeEntry()
+        entry.derivations = resolveDerivations([
+            { label: 'A-AVG', terms: [{ channel: 'A', weight: 0.5 }, { channel: 'B', weight: -0.5 }] }
+        ], buildCatalogIndex(INFOS)).byLabel
+
+        const out = await readRawWindow(entry, [{ id: 'a', name: 'A-AVG' }], START_US, endUs)
+        expect(out[0].segment.data[5]).toBe(-4.5)
+        expect(entry.queries[0].channels).toEqual(['a', 'b'])
+    })
+
+    it('reports unit and unknown channels instead of reading them', async () => {
+        const entry = fakeEntry()
+        const out = await readRawWindow(entry, [{ id: 'spikes', name: 'Spikes' }, { id: 'x', name: 'X' }], START_US, endUs)
+        expect(out[0].segment).toBe(null)
+        expect(out[0].reason).toMatch(/Unit channels/)
+        expect(out[1].reason).toMatch(/Unknown channel id/)
+        expect(entry.queries).toHaveLength(0)
+    })
+})
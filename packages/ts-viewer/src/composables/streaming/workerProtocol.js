@@ -0,0 +1,71 @@
+// @/composables/streaming/workerProtocol.js
+//
+// Messages between decoder.js and decode.worker.js. Every message is a plain object with a
+// `type`; requests and their replies share an `id`.
+//
+// To the worker:
+//   open    {url, renewable}      Builds the worker's reader for the bundle. Sent once.
+//   read    {id, task}            Runs a PageTask (see pageReader.js).
+//   survey  {id, channels, startUs, endUs}   Measures amplitudes (see autoscale.js).
+//   abort   {id}                  Aborts a read or survey.
+//   reset   {}                    Drops chain filter state, as on a disconnect.
+//   renewed {id, url} | {id, error}          Answers a `renew`.
+//
+// From the worker:
+//   block   {id, block, kind}     One legacy block, its typed arrays transferred.
+//   error   {id, error}           A read failure. The read still drains and ends with `done`.
+//   done    {id} | {id, result} | {id, error}  Ends a read or survey.
+//   renew   {id}                  Asks for a fresh bundle URL; the host's callback lives here.
+
+/**
+ * Every buffer under a block's typed arrays, each once, for a postMessage transfer list.
+ *
+ * Transferring moves the sample rows instead of copying them, which is most of what a page
+ * weighs. A block is unusable in the worker afterwards, so it is posted and then dropped.
+ *
+ * @param {{cData?: ArrayBufferView[], parsedData?: ArrayBufferView[]}} block
+ * @returns {ArrayBuffer[]}
+ */
+export function transferablesOf(block) {
+    const buffers = new Set()
+    for (const rows of [block.cData, block.parsedData]) {
+        for (const row of rows ?? []) {
+            if (ArrayBuffer.isView(row)) {
+                buffers.add(row.buffer)
+            }
+        }
+    }
+    return [...buffers]
+}
+
+/**
+ * Flattens a thrown value for postMessage.
+ *
+ * Structured clone keeps an Error's message but not its own fields, and keeps its name only
+ * for the built-in error types. Callers tell reader errors apart by name and read fields off
+ * them (`RawReadTooLargeError.requestedBytes`), so both are carried across explicitly.
+ *
+ * @param {*} error
+ * @returns {{name: string, message: string}}
+ */
+export function serializeError(error) {
+    const out = { name: error?.name ?? 'Error', message: error?.message ?? String(error) }
+    if (error !== null && typeof error === 'object') {
+        for (const [key, value] of Object.entries(error)) {
+            if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+                out[key] = value
+            }
+        }
+    }
+    return out
+}
+
+/**
+ * Rebuilds an Error from {@link serializeError}'s output.
+ *
+ * @param {{name: string, message: string}} payload
+ * @returns {Error}
+ */
+export function reviveError(payload) {
+    return Object.assign(new Error(payload.message), payload)
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { reviveError, serializeError, transferablesOf } from './workerProtocol'
+
+describe('transferablesOf', () => {
+    it('lists every row buffer once', () => {
+        const shared = new Float64Array(8)
+        const block = {
+            cData: [new Float32Array(2), new Float32Array(2), new Float32Array(2)],
+            parsedData: [shared.subarray(0, 4), shared.subarray(4)]
+        }
+        const buffers = transferablesOf(block)
+        expect(buffers).toHaveLength(4)
+        expect(buffers).toContain(shared.buffer)
+        expect(buffers).toContain(block.cData[2].buffer)
+    })
+
+    it('tolerates a block without rows', () => {
+        expect(transferablesOf({ nrPoints: 0 })).toEqual([])
+    })
+})
+
+describe('serializeError', () => {
+    it('carries the name and fields a reader error is told apart by', () => {
+        const error = Object.assign(new Error('too large'), {
+            name: 'RawReadTooLargeError',
+            requestedBytes: 900,
+            maxBytes: 500,
+            cause: new Error('nested')
+        })
+        const payload = serializeError(error)
+        expect(payload).toEqual({ name: 'RawReadTooLargeError', message: 'too large', requestedBytes: 900, maxBytes: 500 })
+        expect(structuredClone(payload)).toEqual(payload)
+
+        const revived = reviveError(payload)
+        expect(revived).toBeInstanceOf(Error)
+        expect(revived.name).toBe('RawReadTooLargeError')
+        expect(revived.requestedBytes).toBe(900)
+    })
+
+    it('describes a thrown non-error', () => {
+        expect(serializeError('boom')).toEqual({ name: 'Error', message: 'boom' })
+        expect(serializeError(null)).toEqual({ name: 'Error', message: 'null' })
+    })
+})
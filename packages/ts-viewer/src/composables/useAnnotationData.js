@@ -2,9 +2,10 @@
 import { ref, inject } from 'vue'
 import { createViewerStore } from '../stores/tsviewer'
 import { storeToRefs } from 'pinia'
-import { useToken } from "@/composables/useToken"
 import { useHandleXhrError } from "@/mixins/request/request_composable"
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
 import { annIndexOf } from '@/utils/annotationUtils'
+import { snapshotAnnotation } from '@/utils/annotationHistory'
 
 /**
  * Composable for annotation data management.
@@ -75,9 +76,13 @@ export function useAnnotationData(storeInstance = null) {
             return
         }
 
-        // Request annotations from server
+        // Request annotations from storage
         if (reqRange.length > 0) {
-            const channelIds = viewerChannels.value.map(channel => getChannelId(channel))
+            const storage = annotationStorageFor(viewerStore)
+            const scope = storage.scopeOf(activeViewer?.content)
+            if (!scope) {
+                return
+            }
 
             for (const curRange of reqRange) {
                 for (const curLayer of viewerAnnotations.value) {
@@ -86,32 +91,12 @@ export function useAnnotationData(storeInstance = null) {
                         continue
                     }
 
-                    const endTime = Math.floor(curRange.end)
-                    const params = {
-                        id: activeViewer.content.id,
-                        start: Math.floor(curRange.start),
-                        end: endTime,
-                        layerId: curLayer.id,
-                        limit: props.constants.LIMITANNFETCH
-                    }
-
                     try {
-                        const token = await useToken()
-                        const apiUrl = viewerStore.config.apiUrl
-                        const baseUrl = `${apiUrl}/timeseries/${activeViewer.content.id}/layers/${curLayer.id}/annotations?api_key=${token}`
-                        const urlParams = Object.keys(params).map(k => `&${k}=${params[k]}`).join('')
-                        const url = `${baseUrl}${urlParams}`
-
-                        const response = await fetch(url, {
-                            method: 'GET',
-                            headers: { 'Content-type': 'application/json' }
+                        const data = await storage.listAnnotations(scope, curLayer.id, {
+                            start: Math.floor(curRange.start),
+                            end: Math.floor(curRange.end),
+                            limit: props.constants.LIMITANNFETCH
                         })
-
-                        if (response.status >= 400) {
-                            throw new Error(response.status)
-                        }
-
-                        const data = await response.json()
                         await processAnnotationResponse(data, emit)
                     } catch (err) {
                         useHandleXhrError(err)
@@ -186,6 +171,7 @@ export function useAnnotationData(storeInstance = null) {
                 } else if (isViewingMontage && newAnn.channelIds.length > viewerChannels.value.length) {
                     newAnn.allChannels = true
                 }
+                newAnn.savedState = snapshotAnnotation(newAnn)
 
                 return newAnn
             })
@@ -1,8 +1,8 @@
 // composables/useAnnotationLayers.js
 import { ref, inject } from 'vue'
 import { createViewerStore } from '../stores/tsviewer'
-import { useToken } from "@/composables/useToken"
-import { useHandleXhrError, useSendXhr } from "@/mixins/request/request_composable"
+import { useHandleXhrError } from "@/mixins/request/request_composable"
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
 import EventBus from '@/utils/event-bus'
 import { hexToRgbA } from '@/utils/annotationUtils'
 
@@ -23,15 +23,15 @@ export function useAnnotationLayers(storeInstance = null) {
 
     const initializeLayers = async (response, emit) => {
         const annLayers = []
+        // History refers to the previous recording's annotations
+        viewerStore.clearAnnotationHistory()
 
-        // If no layers exist, create a default layer
+        // Opening a recording only reads its layers: with none, the list is left empty
+        // until the user adds one, rather than writing a layer to storage on open
         if (!response?.results || response.results.length === 0) {
-            const payload = {
-                name: 'Default',
-                color: '#18BA62',
-                description: 'Default Annotation Layer'
-            }
-            await createAnnotationLayer(payload, null, emit)
+            // Drop any layers left from the previously active recording
+            viewerStore.setAnnotations([])
+            emit('annLayersInitialized')
         } else {
             // Process existing layers
             for (let i = 0; i < response.results.length; i++) {
@@ -62,22 +62,18 @@ export function useAnnotationLayers(storeInstance = null) {
     }
 
     const createAnnotationLayer = async (newLayer, activeViewer, emit) => {
-        // Guard: ensure activeViewer has required properties
-        if (!activeViewer?.content?.id) {
+        // Guard: ensure activeViewer identifies a recording the storage can hold
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(activeViewer?.content)
+        if (!scope) {
             return null
         }
 
         try {
-            const token = await useToken()
-            const url = `${viewerStore.config.apiUrl}/timeseries/${activeViewer.content.id}/layers?api_key=${token}`
-
-            const response = await useSendXhr(url, {
-                method: "POST",
-                body: {
-                    name: newLayer.name,
-                    color: newLayer.color,
-                    description: newLayer.description || newLayer.name
-                }
+            const response = await storage.createLayer(scope, {
+                name: newLayer.name,
+                color: newLayer.color,
+                description: newLayer.description || newLayer.name
             })
 
             // Process the created layer
@@ -138,18 +134,17 @@ export function useAnnotationLayers(storeInstance = null) {
     }
 
     const deleteLayer = async (layerId, activeViewer) => {
-        if (!activeViewer?.content?.id) {
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(activeViewer?.content)
+        if (!scope) {
             return null
         }
 
         try {
-            const token = await useToken()
-            const url = `${viewerStore.config.apiUrl}/timeseries/${activeViewer.content.id}/layers/${layerId}?api_key=${token}`
-
-            await useSendXhr(url, { method: "DELETE" })
+            await storage.deleteLayer(scope, layerId)
 
             // Remove from store
-            viewerStore.removeLayer(layerId)
+            viewerStore.deleteLayer({ id: layerId })
 
             EventBus.$emit('toast', {
                 detail: {
@@ -163,18 +158,14 @@ export function useAnnotationLayers(storeInstance = null) {
     }
 
     const updateLayerColor = async (layerId, newColor, activeViewer) => {
-        if (!activeViewer?.content?.id) {
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(activeViewer?.content)
+        if (!scope) {
             return null
         }
 
         try {
-            const token = await useToken()
-            const url = `${viewerStore.config.apiUrl}/timeseries/${activeViewer.content.id}/layers/${layerId}?api_key=${token}`
-
-            const response = await useSendXhr(url, {
-                method: "PUT",
-                body: { color: newColor }
-            })
+            const response = await storage.updateLayer(scope, layerId, { color: newColor })
 
             // Update in store
             const layer = viewerStore.viewerAnnotations.find(l => l.id === layerId)
@@ -194,15 +185,15 @@ export function useAnnotationLayers(storeInstance = null) {
     }
 
     const loadLayers = async (activeViewer, emit) => {
-        // Guard: ensure activeViewer has required properties
-        if (!activeViewer?.content?.id) {
+        // Guard: ensure activeViewer identifies a recording the storage can hold
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(activeViewer?.content)
+        if (!scope) {
             return null
         }
 
         try {
-            const token = await useToken()
-            const url = `${viewerStore.config.apiUrl}/timeseries/${activeViewer.content.id}/layers?api_key=${token}`
-            const response = await useSendXhr(url)
+            const response = await storage.listLayers(scope)
             await initializeLayers(response, emit)
             return response
         } catch (error) {
@@ -0,0 +1,168 @@
+// composables/useArtifacts.js
+import { inject } from 'vue'
+import { createViewerStore } from '../stores/tsviewer'
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
+import { listLayerAnnotations } from '@/composables/annotationStorage/pagedAnnotations'
+import { useAnnotationLayers } from './useAnnotationLayers'
+import { useTsAnnotation } from './useTsAnnotation'
+import {
+    ARTIFACT_LABEL,
+    ARTIFACT_LAYER_NAME,
+    BAD_CHANNEL_LABEL,
+    artifactSpans,
+    indexBadChannels
+} from '@/utils/artifacts'
+
+/**
+ * Composable for bad channels and artifact spans, both kept as annotations in the artifact
+ * layer (utils/artifacts).
+ *
+ * Bad channels span the whole recording while the viewer loads annotations a window at a
+ * time, so the layer's bad-channel annotations are read once when the layers load and indexed
+ * in the store; marking a channel keeps the index. Those writes skip the annotation history,
+ * which would otherwise undo a mark behind the index's back. Artifact spans are ordinary
+ * annotations and can be undone like any other.
+ * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
+ */
+export function useArtifacts(storeInstance = null) {
+    // Use provided store, inject from parent, or fall back to default
+    const viewerStore = storeInstance || inject('viewerStore', null) || createViewerStore('default')
+
+    const { createAnnotationLayer, defaultColors } = useAnnotationLayers(viewerStore)
+    const { addAnnotation, removeAnnotation } = useTsAnnotation(viewerStore)
+
+    const artifactLayer = () => viewerStore.viewerAnnotations.find(layer => layer.name === ARTIFACT_LAYER_NAME) ?? null
+
+    const ensureArtifactLayer = async () => {
+        const annotationLayers = viewerStore.viewerAnnotations
+        const layer = artifactLayer() ?? await createAnnotationLayer({
+            name: ARTIFACT_LAYER_NAME,
+            color: defaultColors.value[annotationLayers.length % defaultColors.value.length],
+            description: 'Bad channels and artifact spans'
+        }, viewerStore.activeViewer, null)
+        if (!layer) {
+            throw new Error('The artifact layer could not be created')
+        }
+        return layer
+    }
+
+    const loadLayerAnnotations = (layerId, startUs, endUs) => {
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer?.content)
+        return listLayerAnnotations(storage, scope, layerId, { start: startUs, end: endUs })
+    }
+
+    /**
+     * Read the bad channels from the artifact layer into the store. Without the layer, no
+     * channel is bad.
+     * @returns {Promise<Object<string, {annotationId: string}>>} The store's new index
+     */
+    const loadBadChannels = async () => {
+        const layer = artifactLayer()
+        const { recordingStart, recordingEnd } = viewerStore.viewport
+        if (!layer || !(recordingEnd > recordingStart)) {
+            viewerStore.setBadChannels({})
+            return {}
+        }
+        const annotations = await loadLayerAnnotations(layer.id, recordingStart, recordingEnd)
+        const index = indexBadChannels(annotations)
+        viewerStore.setBadChannels(index)
+        return index
+    }
+
+    // The marking annotation as loaded, or enough of it to delete by id
+    const badChannelAnnotation = (channelId) => {
+        const { annotationId } = viewerStore.badChannels[channelId]
+        const { recordingStart, recordingEnd } = viewerStore.viewport
+        return viewerStore.getAnnotationById(annotationId) ?? {
+            id: annotationId,
+            layer_id: artifactLayer()?.id,
+            label: BAD_CHANNEL_LABEL,
+            start: recordingStart,
+            duration: recordingEnd - recordingStart,
+            channelIds: [channelId]
+        }
+    }
+
+    /**
+     * Mark a channel bad, or good again. Bad channels are greyed out or left off the traces,
+     * left out of common-average references and autoscaling, and left out of exports.
+     * @param {string} channelId - Catalog id; a montage derivation marks the channel it leads with
+     * @param {boolean} [bad=true]
+     * @returns {Promise<boolean>} False when the channel already was
+     */
+    const markChannelBad = async (channelId, bad = true) => {
+        const marked = Object.hasOwn(viewerStore.badChannels, channelId)
+        if (marked === bad) {
+            return false
+        }
+        if (bad) {
+            const { recordingStart, recordingEnd } = viewerStore.viewport
+            if (!(recordingEnd > recordingStart)) {
+                throw new Error('Marking a channel bad needs an open recording')
+            }
+            const layer = await ensureArtifactLayer()
+            const channel = (viewerStore.activeViewer.channels ?? []).find(candidate => candidate.id === channelId)
+            const annotation = await addAnnotation({
+                id: null,
+                layer_id: layer.id,
+                label: BAD_CHANNEL_LABEL,
+                description: channel?.name ?? channelId,
+                start: recordingStart,
+                duration: recordingEnd - recordingStart,
+                channelIds: [channelId]
+            }, { record: false })
+            viewerStore.setChannelBad(channelId, { annotationId: annotation.id })
+        } else {
+            await removeAnnotation(badChannelAnnotation(channelId), { record: false })
+            viewerStore.setChannelBad(channelId, null)
+        }
+        viewerStore.triggerRerender('annotations-edited')
+        return true
+    }
+
+    /**
+     * Mark a time span as artifact
+     * @param {number} startUs
+     * @param {number} endUs
+     * @param {Array<string>} [channelIds] - Catalog ids; every channel when empty
+     * @returns {Promise<Object>} The artifact annotation
+     */
+    const markArtifact = async (startUs, endUs, channelIds = []) => {
+        if (!(endUs > startUs)) {
+            throw new Error('An artifact span needs an end after its start')
+        }
+        const layer = await ensureArtifactLayer()
+        const annotation = await addAnnotation({
+            id: null,
+            layer_id: layer.id,
+            label: ARTIFACT_LABEL,
+            description: '',
+            start: startUs,
+            duration: endUs - startUs,
+            allChannels: channelIds.length === 0,
+            channelIds
+        })
+        viewerStore.triggerRerender('annotations-edited')
+        return annotation
+    }
+
+    /**
+     * Loaded artifact spans that overlap a time span
+     * @param {number} startUs
+     * @param {number} endUs
+     * @param {?string} [channelId] - Only the spans covering this catalog id
+     * @returns {Array<{startUs: number, endUs: number, channelIds: Array<string>}>}
+     */
+    const artifactsIn = (startUs, endUs, channelId = null) => {
+        const annotations = artifactLayer()?.annotations ?? []
+        return artifactSpans(annotations, channelId).filter(span => span.startUs < endUs && span.endUs > startUs)
+    }
+
+    return {
+        loadBadChannels,
+        markChannelBad,
+        markArtifact,
+        artifactsIn
+    }
+}
@@ -1,7 +1,26 @@
 // @/composables/useCanvasRenderer.js
 import { ref, nextTick } from 'vue'
-
-export const useCanvasRenderer = () => {
+import { buildTraceGeometry, cssColor, joinsPrevious, traceStyle, usesBandFill } from '@/composables/rendering/traceGeometry'
+import { createWebglTracePainter } from '@/composables/rendering/webglTracePainter'
+import { channelTraceCenter, channelTraceScale } from '@/utils/channelDisplay'
+import { BAD_CHANNEL_COLOR } from '@/utils/artifacts'
+
+/** Trace renderers a viewer can be configured with, as `config.traceRenderer`. */
+export const TRACE_RENDERERS = Object.freeze(['canvas', 'webgl'])
+
+/**
+ * @param {{renderer?: () => string, channelColor?: (channel: object) => ?number[], isBad?: (channel: object) => boolean, badDisplay?: () => string}} [options]
+ *   renderer returns the configured trace renderer; 'webgl' paints traces with WebGL and
+ *   falls back to Canvas 2D without it. channelColor returns a channel's layout colour as
+ *   [r, g, b, a], or null for the default. isBad says whether a channel is marked bad, and
+ *   badDisplay whether bad channels are drawn in grey ('grey') or left off their rows ('hide').
+ */
+export const useCanvasRenderer = ({
+    renderer = () => 'canvas',
+    channelColor = () => null,
+    isBad = () => false,
+    badDisplay = () => 'grey'
+} = {}) => {
     const plotCanvasRef = ref(null)
     const blurCanvasRef = ref(null)
 
@@ -17,6 +36,32 @@ export const useCanvasRenderer = () => {
         return pixelRatioValue
     }
 
+    // WebGL painter for the current plot canvas. The canvas is replaced when the renderer
+    // changes, since a canvas keeps the first kind of context it hands out.
+    let webgl = { canvas: null, painter: null }
+
+    const webglPainterFor = (canvas) => {
+        if (webgl.canvas !== canvas) {
+            webgl.painter?.dispose()
+            let painter = null
+            try {
+                painter = createWebglTracePainter(canvas)
+            } catch (error) {
+                console.error('WebGL trace renderer failed to start:', error)
+            }
+            if (!painter) {
+                console.warn('WebGL is unavailable, drawing traces with Canvas 2D')
+            }
+            webgl = { canvas, painter }
+        }
+        return webgl.painter
+    }
+
+    const disposeRenderer = () => {
+        webgl.painter?.dispose()
+        webgl = { canvas: null, painter: null }
+    }
+
     // Render data (from original)
     const renderData = (viewData, viewerChannels, constants, viewport, globalZoomMult, pixelRatioValue, isRedraw = false) => {
         const blurCanvas = blurCanvasRef.value
@@ -38,15 +83,20 @@ export const useCanvasRenderer = () => {
             return
         }
 
-        const ctx = plotCanvas.getContext('2d')
-        if (!ctx) {
-            console.warn('Unable to get 2D context for plotArea, skipping drawing.')
-            return
-        }
-        ctx.setTransform(pixelRatioValue, 0, 0, pixelRatioValue, 0, 0)
-
         // Clear canvas
-        ctx.clearRect(0, 0, viewport.cWidth, viewport.cHeight)
+        const painter = renderer() === 'webgl' ? webglPainterFor(plotCanvas) : null
+        let ctx = null
+        if (painter) {
+            painter.begin(viewport.cWidth, viewport.cHeight)
+        } else {
+            ctx = plotCanvas.getContext('2d')
+            if (!ctx) {
+                console.warn('Unable to get 2D context for plotArea, skipping drawing.')
+                return
+            }
+            ctx.setTransform(pixelRatioValue, 0, 0, pixelRatioValue, 0, 0)
+            ctx.clearRect(0, 0, viewport.cWidth, viewport.cHeight)
+        }
         ctxb.clearRect(0, 0, viewport.cWidth, viewport.cHeight)
 
         // Update number of visible channels
@@ -60,7 +110,7 @@ export const useCanvasRenderer = () => {
         // Compute channel views
         computeChannelViews(viewerChannels, viewport.pHeight, nrVisCh)
 
-        ctx.save()
+        ctx?.save()
 
         for (let ch in viewData.channels) {
             if (viewData.channels.hasOwnProperty(ch)) {
@@ -76,6 +126,12 @@ export const useCanvasRenderer = () => {
                     continue
                 }
 
+                // A hidden bad channel keeps its row and label, with nothing drawn in it
+                const isBadChannel = isBad(curChannelView)
+                if (isBadChannel && badDisplay() === 'hide') {
+                    continue
+                }
+
                 // Render segment placeholders
                 const startT = viewport.start
                 const rsP = viewport.rsPeriod
@@ -106,45 +162,28 @@ export const useCanvasRenderer = () => {
                     channelType = curChannelData.blocks[0].type
                 }
 
-                // Set channel style
-                if (curChannelView.hover) {
-                    if (curChannelView.selected) {
-                        ctx.strokeStyle = 'rgba(39,96,255,0.70)'
-                        ctx.fillStyle = 'rgba(39,96,255,0.70)'
-                    } else {
-                        ctx.strokeStyle = 'rgba(39,96,255,0.60)'
-                        ctx.fillStyle = 'rgba(39,96,255,0.60)'
-                    }
-                } else if (curChannelView.selected) {
-                    ctx.strokeStyle = 'rgb(249,162,58)'
-                    ctx.fillStyle = 'rgb(249,162,58)'
-                } else if (channelType === 'Neural') {
-                    ctx.strokeStyle = 'rgb(249,162,58)'
-                } else {
-                    ctx.strokeStyle = 'black'
-                    ctx.fillStyle = 'black'
-                }
-
-                const realSamplePeriod = 1000000 * (1 / curChannelView.sf)
+                // Colours and the band-or-ticks choice are shared with the WebGL renderer
+                const style = traceStyle(curChannelView, channelType, isBadChannel ? BAD_CHANNEL_COLOR : channelColor(curChannelView))
+                const doPolFill = usesBandFill(curChannelView, curChannelData.blocks)
 
-                // Bins under 3 samples wide do not read as a band, so the channel draws ticks
-                // instead of a filled envelope. The decision is made for the whole channel,
-                // which keeps every block of it in one path.
-                let doPolFill = true
-                for (let block = 0; block < nrBlocks; block++) {
-                    const curBlock = curChannelData.blocks[block]
-                    if (curBlock.nrPoints > 0 && curBlock.isMinMax &&
-                        (curBlock.samplePeriod / realSamplePeriod) < 3) {
-                        doPolFill = false
+                if (painter) {
+                    // Loaded data covers its placeholder
+                    for (const curBlock of curChannelData.blocks) {
+                        if (curBlock.nrPoints === 0) {
+                            continue
+                        }
+                        const xVec = curBlock.cData[0]
+                        ctxb.clearRect(Math.floor(xVec[curBlock.renderStartIndex]), Math.floor(curChannelView.rowBaseline - blurHeight / 2), Math.ceil(xVec[curBlock.renderEndIndex] - xVec[curBlock.renderStartIndex] + 2), blurHeight + 1)
                     }
+                    const geometry = buildTraceGeometry(curChannelData, doPolFill)
+                    painter.fill(geometry.band, style.fill)
+                    painter.stroke(geometry.ticks, style.stroke)
+                    painter.stroke(geometry.trace, style.stroke)
+                    continue
                 }
 
-                // A block starting within `joinPx` of the previous block's end continues the
-                // same trace across a page boundary. Wider separations are data gaps and stay
-                // open.
-                const joinsPrevious = (lastEnd, x, joinPx) => {
-                    return lastEnd !== null && x < (lastEnd.x + joinPx)
-                }
+                ctx.strokeStyle = cssColor(style.stroke)
+                ctx.fillStyle = cssColor(style.fill)
 
                 // Both passes below paint one path per channel. Two paths that abut at a
                 // fractional x composite to less than full coverage, which leaves a light
@@ -264,7 +303,7 @@ export const useCanvasRenderer = () => {
                 }
             }
         }
-        ctx.restore()
+        ctx?.restore()
     }
 
     // Compute channel views (from original)
@@ -355,7 +394,7 @@ export const useCanvasRenderer = () => {
 
                     const curCData = curSeg.cData
                     const curData = curSeg.parsedData
-                    const curScale = globalZoomMult * channelInfo.rowScale
+                    const curScale = channelTraceScale(channelInfo, globalZoomMult)
                     const xOffset = constants.XOFFSET
 
                     const length = curSeg.parsedData[0].length
@@ -368,12 +407,7 @@ export const useCanvasRenderer = () => {
 
                     const rowBaseLine = channelInfo.rowBaseline
 
-                    let chDatCenterer = 0
-                    if (constants.USEMEDIAN) {
-                        chDatCenterer = channelData.median
-                    } else {
-                        chDatCenterer = channelData.mean
-                    }
+                    const chDatCenterer = channelTraceCenter(channelInfo, channelData, constants.USEMEDIAN)
 
                     const rsp = viewport.rsPeriod
                     const startT = viewport.start
@@ -400,6 +434,7 @@ export const useCanvasRenderer = () => {
         blurCanvasRef,
         initializeCanvases,
         renderData,
+        disposeRenderer,
         computeChannelViews,
         getPointCoords,
         cpCanvasScaler
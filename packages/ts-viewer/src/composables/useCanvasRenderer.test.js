@@ -60,11 +60,21 @@ const minMaxPage = (startUs, binCount, periodUs) => buildContinuousSegm(
 const PERIOD = 4000
 const BINS = 100
 
-const renderBlocks = (blocks, { sampleRateHz = 1000 } = {}) => {
-    const { plotCanvasRef, blurCanvasRef, renderData } = useCanvasRenderer()
+// Renders one channel and returns the plot canvas's recorded context
+const renderChannel = (blocks, { sampleRateHz = 1000, renderer, badDisplay } = {}) => {
+    const options = {}
+    if (renderer) {
+        options.renderer = () => renderer
+    }
+    if (badDisplay) {
+        options.isBad = () => true
+        options.badDisplay = () => badDisplay
+    }
+    const { plotCanvasRef, blurCanvasRef, renderData } = useCanvasRenderer(options)
     const ctx = recordingContext()
     const ctxb = recordingContext()
-    plotCanvasRef.value = { getContext: () => ctx }
+    // No WebGL here, as in a browser without it
+    plotCanvasRef.value = { getContext: (type) => (type === '2d' ? ctx : null) }
     blurCanvasRef.value = { getContext: () => ctxb }
 
     const viewerChannels = [{
@@ -94,9 +104,11 @@ const renderBlocks = (blocks, { sampleRateHz = 1000 } = {}) => {
         nrVisibleChannels: 1
     }
     renderData(viewData, viewerChannels, { XOFFSET: 0, USEMEDIAN: false }, viewport, 1, 1)
-    return paths(ctx.ops)
+    return ctx
 }
 
+const renderBlocks = (blocks, options) => paths(renderChannel(blocks, options).ops)
+
 describe('renderData min/max blocks', () => {
     it('paints every block of a channel in one fill and one trace', () => {
         const drawn = renderBlocks([
@@ -169,3 +181,23 @@ describe('renderData min/max blocks', () => {
         expect(trace.ops[seam + 1]).toEqual({ op: 'lineTo', args: [100, 50] })
     })
 })
+
+describe('renderData with the WebGL renderer', () => {
+    it('falls back to Canvas 2D when WebGL is unavailable', () => {
+        const drawn = renderBlocks([minMaxPage(0, BINS, PERIOD)], { renderer: 'webgl' })
+        expect(drawn.filter((p) => p.end === 'fill')).toHaveLength(1)
+        expect(drawn.filter((p) => p.end === 'stroke')).toHaveLength(1)
+    })
+})
+
+describe('renderData with bad channels', () => {
+    it('draws a bad channel in grey', () => {
+        const ctx = renderChannel([minMaxPage(0, BINS, PERIOD)], { badDisplay: 'grey' })
+        expect(paths(ctx.ops).filter((p) => p.end === 'fill')).toHaveLength(1)
+        expect(ctx.strokeStyle).toBe('rgba(170,170,170,1)')
+    })
+
+    it('leaves a hidden bad channel\'s row empty', () => {
+        expect(renderBlocks([minMaxPage(0, BINS, PERIOD)], { badDisplay: 'hide' })).toHaveLength(0)
+    })
+})
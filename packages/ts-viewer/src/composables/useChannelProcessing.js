@@ -1,7 +1,9 @@
 // @/composables/useChannelProcessing.js
 import { computed, reactive, ref, watch, readonly } from 'vue'
+import { excludeFromAverage, isBipolarMontage, toMontageMap } from '@/utils/montages'
+import { isBadChannel } from '@/utils/artifacts'
 
-export const useChannelProcessing = (baseChannels, viewerMontageScheme, workspaceMontages, activeViewer) => {    // Processing state
+export const useChannelProcessing = (baseChannels, viewerMontageScheme, workspaceMontages, activeViewer, userMontages = ref([]), badChannels = ref({})) => {    // Processing state
     const processingStats = reactive({
         totalChannels: 0,
         processedChannels: 0,
@@ -238,8 +240,7 @@ export const useChannelProcessing = (baseChannels, viewerMontageScheme, workspac
         const selectedMontage = workspaceMontages.value.find(m => m.name === montageSchemeName)
 
         if (!selectedMontage) {
-            console.warn('Montage not found:', montageSchemeName)
-            return null
+            return createUserMontagePayload(montageSchemeName)
         }
 
         // Convert channelPairs to the array format the server expects
@@ -252,6 +253,39 @@ export const useChannelProcessing = (baseChannels, viewerMontageScheme, workspac
         }
     }
 
+    /**
+     * Create montage payload for a montage saved in the montage editor.
+     * Plain bipolar montages go out as CUSTOM_MONTAGE so either backend can serve them;
+     * anything else needs the client-side derivations only the Zarr path computes.
+     * Channels marked bad are left out of a common average's reference, though still derived.
+     */
+    const createUserMontagePayload = (montageSchemeName) => {
+        const userMontage = userMontages.value?.find(m => m.name === montageSchemeName)
+
+        if (!userMontage) {
+            console.warn('Montage not found:', montageSchemeName)
+            return null
+        }
+
+        if (isBipolarMontage(userMontage)) {
+            return {
+                montage: "CUSTOM_MONTAGE",
+                packageId: activeViewer.value?.content?.id,
+                montageMap: toMontageMap(userMontage)
+            }
+        }
+
+        const badNames = (baseChannels.value || [])
+            .filter(channel => isBadChannel(channel, badChannels.value))
+            .map(channel => channel.name)
+
+        return {
+            montage: "DERIVED_MONTAGE",
+            packageId: activeViewer.value?.content?.id,
+            derivations: excludeFromAverage(userMontage, badNames).derivations
+        }
+    }
+
     /**
      * Validate channel configuration
      */
@@ -356,6 +390,10 @@ export const useChannelProcessing = (baseChannels, viewerMontageScheme, workspac
             plotAgainst: null,
             rowBaseline: null,
             rowScale: 1,
+            inverted: false,
+            removeDc: true,
+            group: null,
+            color: null,
             rowAdjust: 0,
             selected: false,
             hover: false,
@@ -0,0 +1,160 @@
+// composables/useDetection.js
+import { inject } from 'vue'
+import { createViewerStore } from '../stores/tsviewer'
+import { abortJobs, getClient } from '@/composables/streaming/clientRegistry'
+import { describeHit, getDetector, resolveDetectorParams } from '@/composables/streaming/detectors'
+import { runDetection } from '@/composables/streaming/detection'
+import { useAnnotationLayers } from './useAnnotationLayers'
+import { useTsAnnotation } from './useTsAnnotation'
+
+/**
+ * Composable for event detection: runs a detector (streaming/detectors.js) over the
+ * viewer's bundle and writes the hits into a new annotation layer.
+ *
+ * One run at a time per viewer. Its controller sits in the registry entry's `jobs` set, so
+ * paging does not cancel it and disposing the client does; progress goes to the store's
+ * `detectionJob` for whichever component shows it. Hits are written without history
+ * records, like an import: deleting the layer removes them.
+ * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
+ */
+export function useDetection(storeInstance = null) {
+    // Use provided store, inject from parent, or fall back to default
+    const viewerStore = storeInstance || inject('viewerStore', null) || createViewerStore('default')
+
+    const { createAnnotationLayer, defaultColors } = useAnnotationLayers(viewerStore)
+    const { addAnnotation } = useTsAnnotation(viewerStore)
+
+    const layerDescription = (detector, params) => {
+        const settings = detector.params.map(param => `${param.label} ${params[param.key]}${param.unit === 'ms' ? ' ms' : ''}`)
+        return `${detector.label} detector: ${settings.join(', ')}`
+    }
+
+    /**
+     * Runs a detector and writes its hits to a new layer, selected once created.
+     *
+     * Resolves with a summary once done or cancelled; cancelling while hits are written keeps
+     * the layer with what was written so far. A run that finds nothing creates no layer.
+     * @param {Object} options
+     * @param {string} options.detector - A registered detector name
+     * @param {Object} [options.params] - Overrides of the detector's defaults
+     * @param {Array<string>} options.channelIds - Viewer channel ids to scan
+     * @param {number} options.startUs
+     * @param {number} options.endUs
+     * @param {string} [options.layerName] - Defaults to '<Detector> detections'
+     * @param {string} [options.color] - Layer colour; defaults to the next unused default
+     * @returns {Promise<{cancelled: boolean, layer: ?Object, hits: number, written: number, failed: number, truncated: boolean, scannedToUs: number, skipped: Array<Object>}>}
+     */
+    const detect = async ({ detector: name, params = {}, channelIds = [], startUs, endUs, layerName, color } = {}) => {
+        const entry = getClient(viewerStore.$id)
+        if (!entry) {
+            throw new Error('Detection reads through the bundle client, so it needs a timeseries-zarr bundle')
+        }
+        if (entry.jobs.size > 0) {
+            throw new Error('A detection is already running')
+        }
+        const detector = getDetector(name)
+        const resolved = resolveDetectorParams(name, params)
+        const channels = viewerStore.viewerChannels.filter(channel => channelIds.includes(channel.id))
+        if (channels.length === 0) {
+            throw new Error('Detection needs at least one channel')
+        }
+
+        const controller = new AbortController()
+        entry.jobs.add(controller)
+        viewerStore.updateDetectionJob(null)
+        viewerStore.updateDetectionJob({
+            detector: name,
+            label: detector.label,
+            status: 'reading',
+            progress: 0,
+            hits: 0,
+            written: 0,
+            layerId: null,
+            message: null
+        })
+
+        const summary = { cancelled: false, layer: null, hits: 0, written: 0, failed: 0, truncated: false, scannedToUs: startUs, skipped: [] }
+        try {
+            const result = await runDetection(entry, channels, {
+                startUs,
+                endUs,
+                detector: name,
+                params: resolved,
+                signal: controller.signal,
+                onProgress: ({ fraction, hits }) => viewerStore.updateDetectionJob({ progress: fraction, hits })
+            })
+            Object.assign(summary, {
+                hits: result.hits.length,
+                truncated: result.truncated,
+                scannedToUs: result.scannedToUs,
+                skipped: result.skipped
+            })
+            if (result.hits.length === 0) {
+                viewerStore.updateDetectionJob({ status: 'done', progress: 1, hits: 0 })
+                return summary
+            }
+
+            viewerStore.updateDetectionJob({ status: 'writing', progress: 0, hits: result.hits.length })
+            const annotationLayers = viewerStore.viewerAnnotations
+            summary.layer = await createAnnotationLayer({
+                name: layerName?.trim() || `${detector.label} detections`,
+                color: color ?? defaultColors.value[annotationLayers.length % defaultColors.value.length],
+                description: layerDescription(detector, resolved)
+            }, viewerStore.activeViewer, null)
+            if (!summary.layer) {
+                throw new Error('The detection layer could not be created')
+            }
+            viewerStore.updateDetectionJob({ layerId: summary.layer.id })
+
+            const channelsById = new Map(channels.map(channel => [channel.id, channel]))
+            // One at a time: each POST appends to the same layer
+            for (const hit of result.hits) {
+                if (controller.signal.aborted) {
+                    summary.cancelled = true
+                    break
+                }
+                try {
+                    await addAnnotation({
+                        id: null,
+                        layer_id: summary.layer.id,
+                        label: detector.label,
+                        description: describeHit(name, hit, channelsById.get(hit.channelId)),
+                        start: hit.startUs,
+                        duration: hit.endUs - hit.startUs,
+                        channelIds: [hit.channelId],
+                        allChannels: false
+                    }, { record: false })
+                    summary.written++
+                } catch (error) {
+                    console.warn('Could not write a detection:', error)
+                    summary.failed++
+                }
+                viewerStore.updateDetectionJob({ progress: (summary.written + summary.failed) / result.hits.length, written: summary.written })
+            }
+            viewerStore.triggerRerender('annotations-detected')
+            viewerStore.updateDetectionJob({ status: summary.cancelled ? 'cancelled' : 'done' })
+            return summary
+        } catch (error) {
+            if (error?.name === 'AbortError') {
+                summary.cancelled = true
+                viewerStore.updateDetectionJob({ status: 'cancelled' })
+                return summary
+            }
+            viewerStore.updateDetectionJob({ status: 'failed', message: error?.message ?? String(error) })
+            throw error
+        } finally {
+            entry.jobs.delete(controller)
+        }
+    }
+
+    /**
+     * Cancels the running detection, if any.
+     * @returns {boolean} Whether one was running
+     */
+    const cancelDetection = () => abortJobs(getClient(viewerStore.$id)) > 0
+
+    return {
+        detect,
+        cancelDetection
+    }
+}
@@ -0,0 +1,84 @@
+// composables/useEventAverage.js
+import { inject } from 'vue'
+import { createViewerStore } from '../stores/tsviewer'
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
+import { listLayerAnnotations } from '@/composables/annotationStorage/pagedAnnotations'
+import { getClient } from '@/composables/streaming/clientRegistry'
+import { MAX_AVERAGING_TRIALS, computeAverage, defaultAveragingSettings, readTrials } from '@/composables/streaming/averaging'
+
+/**
+ * Composable for event-locked averages: the trigger layer's annotations as events, trials
+ * read around each through the viewer's bundle client, averaged per channel.
+ *
+ * Reading is the slow part, so it is split from averaging: {@link readEventTrials} once per
+ * layer, channels and window, then `computeAverage` again for each baseline, rejection
+ * threshold or trial excluded by hand.
+ * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
+ */
+export function useEventAverage(storeInstance = null) {
+    // Use provided store, inject from parent, or fall back to default
+    const viewerStore = storeInstance || inject('viewerStore', null) || createViewerStore('default')
+
+    /**
+     * Start times of a layer's annotations over the recording, at most one more than
+     * the trial limit, so a caller can tell the layer was cut short
+     * @param {string|number} layerId
+     * @returns {Promise<Array<number>>}
+     */
+    const loadTriggers = async (layerId) => {
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer?.content)
+        const { recordingStart, recordingEnd } = viewerStore.viewport
+        const annotations = await listLayerAnnotations(storage, scope, layerId, { start: recordingStart, end: recordingEnd }, {
+            until: read => read.length > MAX_AVERAGING_TRIALS
+        })
+        return annotations.map(annotation => annotation.start)
+    }
+
+    /**
+     * Read a trial around every annotation of the trigger layer
+     * @param {Object} options
+     * @param {string|number} options.layerId - Trigger layer
+     * @param {Array<string>} options.channelIds - Viewer channel ids
+     * @param {number} options.preUs - Trial start, before the event
+     * @param {number} options.postUs - Trial end, after the event
+     * @param {AbortSignal} [options.signal]
+     * @param {(fraction: number) => void} [options.onProgress]
+     * @returns {Promise<import('./streaming/averaging').TrialSet>}
+     */
+    const readEventTrials = async ({ layerId, channelIds = [], preUs, postUs, signal, onProgress } = {}) => {
+        const entry = getClient(viewerStore.$id)
+        if (!entry) {
+            throw new Error('Averaging reads through the bundle client, so it needs a timeseries-zarr bundle')
+        }
+        if (!viewerStore.viewerAnnotations.some(layer => layer.id === layerId)) {
+            throw new Error(`Unknown trigger layer: ${layerId}`)
+        }
+        const channels = viewerStore.viewerChannels.filter(channel => channelIds.includes(channel.id))
+        if (channels.length === 0) {
+            throw new Error('Averaging needs at least one channel')
+        }
+        const events = await loadTriggers(layerId)
+        if (events.length === 0) {
+            throw new Error('The trigger layer has no annotations')
+        }
+        return readTrials(entry, channels, events, { preUs, postUs, signal, onProgress })
+    }
+
+    /**
+     * Read and average in one go, with the panel's defaults for anything not given
+     * @param {Object} options - As {@link readEventTrials}, plus `baselineUs`, `rejectPeakToPeak` and `excludedTrials`
+     * @returns {Promise<import('./streaming/averaging').EventAverage & {truncated: boolean}>}
+     */
+    const eventAverage = async (options = {}) => {
+        const settings = { ...defaultAveragingSettings(), ...options }
+        const trialSet = await readEventTrials(settings)
+        return { ...computeAverage(trialSet, settings), truncated: trialSet.truncated }
+    }
+
+    return {
+        loadTriggers,
+        readEventTrials,
+        eventAverage
+    }
+}
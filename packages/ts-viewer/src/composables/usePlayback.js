@@ -0,0 +1,118 @@
+// composables/usePlayback.js
+import { onBeforeUnmount, watch } from 'vue'
+import { storeToRefs } from 'pinia'
+import { findPlaybackStop, mergeDataSpans, playbackStart } from '@/utils/playback'
+
+/** Shortest wall-clock time between two window moves, in milliseconds. Each move redraws. */
+const MIN_FRAME_INTERVAL_MS = 40
+
+/**
+ * Advances a viewer's window while its store's `playbackActive` is set.
+ *
+ * The window start is derived from an anchor (start and time when play began) so late frames
+ * do not accumulate drift. Any move the loop did not make itself -- paging, the scrubber, a
+ * linked viewer -- re-anchors playback at the new position, as does a settings change.
+ * Playback ends on its own at the recording end and, when asked, where a gap or an annotation
+ * reaches the cursor (continuous mode) or comes onto the page (page mode).
+ *
+ * @param {Object} viewerStore
+ * @param {{start: import('vue').Ref<number>, duration: import('vue').Ref<number>, cursorLoc: import('vue').Ref<number>, tsEnd: import('vue').Ref<?number>, setStart: (start: number) => void}} view
+ */
+export function usePlayback(viewerStore, { start, duration, cursorLoc, tsEnd, setStart }) {
+    const { playbackActive, playbackSettings } = storeToRefs(viewerStore)
+
+    let frameRequest = null
+    let anchorUs = 0
+    let anchorMs = 0
+    let lastFrameMs = 0
+    let lastSetUs = null
+
+    const anchor = () => {
+        anchorUs = start.value
+        anchorMs = performance.now()
+        lastSetUs = start.value
+    }
+
+    const stop = (ended = null) => {
+        if (frameRequest !== null) {
+            cancelAnimationFrame(frameRequest)
+            frameRequest = null
+        }
+        if (ended) {
+            viewerStore.setPlaybackActive(false, ended)
+        }
+    }
+
+    // The point that meets a stop: the cursor while sliding, the page's right edge while paging
+    const watchPoint = (windowStart, settings) =>
+        windowStart + (settings.mode === 'page' ? duration.value : cursorLoc.value * duration.value)
+
+    const onFrame = (now) => {
+        frameRequest = requestAnimationFrame(onFrame)
+        if (now - lastFrameMs < MIN_FRAME_INTERVAL_MS || duration.value <= 0) {
+            return
+        }
+        lastFrameMs = now
+
+        if (start.value !== lastSetUs) {
+            anchor()
+        }
+
+        const settings = playbackSettings.value
+        let next = playbackStart(anchorUs, now - anchorMs, settings, duration.value)
+        if (next === start.value) {
+            return
+        }
+
+        let ended = null
+        const lastStart = tsEnd.value !== null ? tsEnd.value - duration.value : Infinity
+        if (next >= lastStart) {
+            next = Math.max(start.value, lastStart)
+            ended = { reason: 'end', timeUs: tsEnd.value, annotationId: null }
+        }
+
+        const found = findPlaybackStop(watchPoint(start.value, settings), watchPoint(next, settings), {
+            spans: settings.stopAtGaps ? mergeDataSpans(viewerStore.viewerChannels) : [],
+            layers: viewerStore.viewerAnnotations,
+            stopAtGaps: settings.stopAtGaps,
+            stopAtAnnotations: settings.stopAtAnnotations
+        })
+        if (found) {
+            // A sliding window stops with the event under the cursor; a paging one on the page
+            // that shows it
+            if (settings.mode !== 'page') {
+                next = found.timeUs - cursorLoc.value * duration.value
+            }
+            ended = { reason: found.reason, timeUs: found.timeUs, annotationId: found.annotation?.id ?? null }
+        }
+
+        lastSetUs = next
+        setStart(next)
+        if (ended) {
+            stop(ended)
+        }
+    }
+
+    watch(playbackActive, (active) => {
+        stop()
+        if (active) {
+            anchor()
+            lastFrameMs = 0
+            frameRequest = requestAnimationFrame(onFrame)
+        }
+    })
+
+    // A new speed or mode takes over from where the window is now
+    watch(playbackSettings, () => {
+        if (playbackActive.value) {
+            anchor()
+        }
+    })
+
+    onBeforeUnmount(() => {
+        stop()
+        if (playbackActive.value) {
+            viewerStore.setPlaybackActive(false)
+        }
+    })
+}
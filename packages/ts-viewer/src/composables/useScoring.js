@@ -0,0 +1,242 @@
+// composables/useScoring.js
+import { inject } from 'vue'
+import { createViewerStore } from '../stores/tsviewer'
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
+import { listLayerAnnotations } from '@/composables/annotationStorage/pagedAnnotations'
+import { useAnnotationLayers } from './useAnnotationLayers'
+import { useTsAnnotation } from './useTsAnnotation'
+import {
+    DEFAULT_EPOCH_SECONDS,
+    DEFAULT_SCORING_STAGES,
+    SCORING_LAYER_NAME,
+    epochCount,
+    epochIndexAt,
+    epochSpan,
+    indexEpochScores,
+    serializeStageTable,
+    stageTable,
+    validateScoringStages
+} from '@/utils/sleepScoring'
+
+// Epochs with a score being written, per viewer, so a key held or pressed twice writes once
+const pendingEpochs = new Map()
+
+/**
+ * Composable for epoch scoring: the window fixed at one epoch, a stage per epoch from a key,
+ * and the scores kept as annotations in a scoring layer.
+ *
+ * The viewer loads annotations a window at a time, so starting reads the whole scoring layer
+ * once to index its scores for the hypnogram and the stage table; from then on the index is
+ * kept as scores are written. Scores are written without history records: a stage key
+ * rescores, Backspace clears.
+ * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
+ */
+export function useScoring(storeInstance = null) {
+    // Use provided store, inject from parent, or fall back to default
+    const viewerStore = storeInstance || inject('viewerStore', null) || createViewerStore('default')
+
+    const { createAnnotationLayer, defaultColors } = useAnnotationLayers(viewerStore)
+    const { addAnnotation, updateAnnotation, removeAnnotation } = useTsAnnotation(viewerStore)
+
+    const requireScoring = () => {
+        if (!viewerStore.scoring) {
+            throw new Error('Scoring is not on')
+        }
+        return viewerStore.scoring
+    }
+
+    const loadLayerAnnotations = (layerId, startUs, endUs) => {
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer?.content)
+        return listLayerAnnotations(storage, scope, layerId, { start: startUs, end: endUs })
+    }
+
+    /**
+     * Turn scoring on, with the scoring layer named `layerName`: the existing one, or a new
+     * one. Moves the window onto the epoch it starts in.
+     * @param {Object} [options]
+     * @param {number} [options.epochSeconds=30]
+     * @param {Array<Object>} [options.stages] - {label, name, key, level, color}; defaults to W, REM, N1, N2, N3
+     * @param {string} [options.layerName='Sleep stages']
+     * @param {boolean} [options.autoAdvance=true] - Move to the next epoch after scoring one
+     * @returns {Promise<Object>} The scoring layer
+     */
+    const startScoring = async ({
+        epochSeconds = DEFAULT_EPOCH_SECONDS,
+        stages = DEFAULT_SCORING_STAGES,
+        layerName = SCORING_LAYER_NAME,
+        autoAdvance = true
+    } = {}) => {
+        validateScoringStages(stages)
+        if (!(epochSeconds > 0)) {
+            throw new Error('Epochs need a length above 0 seconds')
+        }
+        const { start, recordingStart, recordingEnd } = viewerStore.viewport
+        if (!(recordingEnd > recordingStart)) {
+            throw new Error('Scoring needs an open recording')
+        }
+        const grid = { originUs: recordingStart, endUs: recordingEnd, epochUs: epochSeconds * 1e6 }
+
+        const annotationLayers = viewerStore.viewerAnnotations
+        const layer = annotationLayers.find(candidate => candidate.name === layerName) ?? await createAnnotationLayer({
+            name: layerName,
+            color: defaultColors.value[annotationLayers.length % defaultColors.value.length],
+            description: `Stages scored in ${epochSeconds} s epochs`
+        }, viewerStore.activeViewer, null)
+        if (!layer) {
+            throw new Error('The scoring layer could not be created')
+        }
+
+        const annotations = await loadLayerAnnotations(layer.id, grid.originUs, grid.endUs)
+        viewerStore.setScoring({
+            layerId: layer.id,
+            ...grid,
+            stages: stages.map(stage => ({ ...stage })),
+            autoAdvance,
+            scores: indexEpochScores(annotations, { ...grid, stages })
+        })
+        goToEpoch(epochIndexAt(start, grid.originUs, grid.epochUs))
+        return layer
+    }
+
+    /**
+     * Turn scoring off. The scores stay in their layer.
+     */
+    const stopScoring = () => {
+        viewerStore.setScoring(null)
+    }
+
+    /**
+     * The epoch the window is on
+     * @returns {number}
+     */
+    const currentEpoch = () => {
+        const { originUs, epochUs } = requireScoring()
+        return epochIndexAt(viewerStore.viewport.start, originUs, epochUs)
+    }
+
+    /**
+     * Show one epoch, clamped to the recording
+     * @param {number} epochIndex
+     */
+    const goToEpoch = (epochIndex) => {
+        const scoring = requireScoring()
+        const last = epochCount(scoring.originUs, scoring.endUs, scoring.epochUs) - 1
+        const index = Math.min(Math.max(0, epochIndex), last)
+        viewerStore.setViewport({ start: scoring.originUs + index * scoring.epochUs, duration: scoring.epochUs })
+    }
+
+    const withPending = async (epochIndex, write) => {
+        const pending = pendingEpochs.get(viewerStore.$id) ?? new Set()
+        pendingEpochs.set(viewerStore.$id, pending)
+        if (pending.has(epochIndex)) {
+            return false
+        }
+        pending.add(epochIndex)
+        try {
+            await write()
+            return true
+        } finally {
+            pending.delete(epochIndex)
+        }
+    }
+
+    // The score's annotation as loaded, or enough of it to update or delete by id
+    const scoreAnnotation = (scoring, epochIndex) => {
+        const score = scoring.scores[epochIndex]
+        const { startUs, endUs } = epochSpan(epochIndex, scoring)
+        return viewerStore.getAnnotationById(score.annotationId) ?? {
+            id: score.annotationId,
+            layer_id: scoring.layerId,
+            label: score.label,
+            start: startUs,
+            duration: endUs - startUs,
+            channelIds: (viewerStore.activeViewer.channels ?? []).map(channel => channel.id)
+        }
+    }
+
+    /**
+     * Give an epoch a stage, then move to the next epoch when auto-advance is on
+     * @param {string} label - A stage label
+     * @param {number} [epochIndex] - Defaults to the epoch on screen
+     * @returns {Promise<boolean>} False when that epoch was still being written
+     */
+    const scoreEpoch = async (label, epochIndex = currentEpoch()) => {
+        const scoring = requireScoring()
+        const stage = scoring.stages.find(candidate => candidate.label === label)
+        if (!stage) {
+            throw new Error(`Unknown scoring stage: ${label}`)
+        }
+        const existing = scoring.scores[epochIndex]
+        const written = await withPending(epochIndex, async () => {
+            if (existing?.label === label) {
+                return
+            }
+            if (existing) {
+                const annotation = scoreAnnotation(scoring, epochIndex)
+                await updateAnnotation({ ...annotation, label, description: stage.name ?? label }, { record: false })
+                viewerStore.setEpochScore(epochIndex, { label, annotationId: existing.annotationId })
+            } else {
+                const { startUs, endUs } = epochSpan(epochIndex, scoring)
+                const annotation = await addAnnotation({
+                    id: null,
+                    layer_id: scoring.layerId,
+                    label,
+                    description: stage.name ?? label,
+                    start: startUs,
+                    duration: endUs - startUs,
+                    allChannels: true
+                }, { record: false })
+                viewerStore.setEpochScore(epochIndex, { label, annotationId: annotation.id })
+            }
+            viewerStore.triggerRerender('annotations-edited')
+        })
+        if (written && viewerStore.scoring?.autoAdvance) {
+            goToEpoch(epochIndex + 1)
+        }
+        return written
+    }
+
+    /**
+     * Remove an epoch's score
+     * @param {number} [epochIndex] - Defaults to the epoch on screen
+     * @returns {Promise<boolean>} Whether there was a score to remove
+     */
+    const clearEpoch = async (epochIndex = currentEpoch()) => {
+        const scoring = requireScoring()
+        if (!scoring.scores[epochIndex]) {
+            return false
+        }
+        return withPending(epochIndex, async () => {
+            await removeAnnotation(scoreAnnotation(scoring, epochIndex), { record: false })
+            viewerStore.setEpochScore(epochIndex, null)
+            viewerStore.triggerRerender('annotations-edited')
+        })
+    }
+
+    /**
+     * Every epoch with its stage, null when unscored
+     * @returns {Array<{epoch: number, startUs: number, durationUs: number, stage: ?string}>}
+     */
+    const stageRows = () => {
+        const scoring = requireScoring()
+        return stageTable(scoring.scores, scoring)
+    }
+
+    /**
+     * The stage table as TSV: epoch, onset (s from recording start), duration, clock_time, stage
+     * @returns {string}
+     */
+    const exportStageTable = () => serializeStageTable(stageRows(), requireScoring().originUs)
+
+    return {
+        startScoring,
+        stopScoring,
+        currentEpoch,
+        goToEpoch,
+        scoreEpoch,
+        clearEpoch,
+        stageRows,
+        exportStageTable
+    }
+}
@@ -0,0 +1,141 @@
+// composables/useSession.js
+import { inject, watch } from 'vue'
+import { createViewerStore } from '../stores/tsviewer'
+import { filterPayloadFor } from '@/composables/streaming/filters'
+import { channelDisplayOf } from '@/utils/channelDisplay'
+import { buildSession, channelPlan, decodeSession, validateSession } from '@/utils/viewerSession'
+
+/** How long a restore waits for the viewer's channels, after opening or a montage switch. */
+const CHANNELS_TIMEOUT_MS = 30000
+
+const filterKey = (filter) => (filter?.type ? JSON.stringify(filter) : '')
+
+/**
+ * Composable for viewer sessions (utils/viewerSession): saving what the viewer shows, and
+ * restoring a saved or linked session.
+ *
+ * A restore waits for the package's channels, since a link usually opens the viewer and
+ * restores in one go, and again after switching montage, since a montage brings its own
+ * channels. The host opens the package; a session for another package is refused.
+ * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
+ */
+export function useSession(storeInstance = null) {
+    // Use provided store, inject from parent, or fall back to default
+    const viewerStore = storeInstance || inject('viewerStore', null) || createViewerStore('default')
+
+    // Resolves with the channels once `ready` holds for them
+    const channelsWhen = (ready, description) => new Promise((resolve, reject) => {
+        let stop = null
+        let settled = false
+        const timer = setTimeout(() => {
+            settled = true
+            stop?.()
+            reject(new Error(`Timed out waiting for ${description}`))
+        }, CHANNELS_TIMEOUT_MS)
+        stop = watch(() => viewerStore.viewerChannels, (channels) => {
+            if (settled || !ready(channels)) {
+                return
+            }
+            settled = true
+            clearTimeout(timer)
+            stop?.()
+            resolve(channels)
+        }, { immediate: true })
+        if (settled) {
+            stop()
+        }
+    })
+
+    /**
+     * What the viewer shows, as a session
+     * @returns {Object} Session
+     */
+    const saveSession = () => {
+        return buildSession({
+            packageId: viewerStore.activeViewer?.content?.id,
+            viewport: viewerStore.viewport,
+            verticalScale: viewerStore.verticalScale,
+            montage: viewerStore.viewerMontageScheme,
+            channels: viewerStore.viewerChannels.map(channel => ({
+                id: channel.id,
+                visible: channel.visible !== false,
+                selected: channel.selected === true,
+                display: channelDisplayOf(channel),
+                filter: channel.filter
+            })),
+            activeLayer: viewerStore.viewerAnnotations.find(layer => layer.selected)?.id,
+            tool: viewerStore.viewerActiveTool
+        })
+    }
+
+    const montageKnown = (name) => name === 'NOT_MONTAGED' ||
+        viewerStore.workspaceMontages.some(montage => montage.name === name) ||
+        viewerStore.userMontages.some(montage => montage.name === name)
+
+    /**
+     * Show what a session recorded. Parts that cannot be restored here, such as a montage
+     * saved only in the sender's browser or channels this montage lacks, are skipped and
+     * reported.
+     * @param {Object|string} session - A session, or one encoded with encodeSession
+     * @returns {Promise<{skipped: Array<string>}>}
+     */
+    const restoreSession = async (session) => {
+        // Values the session holds that this viewer cannot show are skipped, like the rest
+        const skipped = []
+        const restored = typeof session === 'string' ? decodeSession(session, skipped) : validateSession(session, skipped)
+        const packageId = viewerStore.activeViewer?.content?.id
+        if (restored.packageId && packageId && restored.packageId !== packageId) {
+            throw new Error(`The session is for package ${restored.packageId}, not the open package ${packageId}`)
+        }
+
+        let channels = await channelsWhen(list => list.length > 0, 'the viewer\'s channels')
+        if (restored.montage !== viewerStore.viewerMontageScheme) {
+            if (montageKnown(restored.montage)) {
+                const previous = channels
+                viewerStore.setViewerMontageScheme(restored.montage)
+                channels = await channelsWhen(list => list !== previous && list.length > 0, `the channels of montage "${restored.montage}"`)
+            } else {
+                skipped.push(`Montage "${restored.montage}" is not saved here`)
+            }
+        }
+
+        viewerStore.setViewport({ start: restored.start, duration: restored.duration, cursorLoc: restored.cursorLoc })
+        if (restored.verticalScale) {
+            viewerStore.setVerticalScale(restored.verticalScale)
+        }
+
+        const plan = channelPlan(restored, channels)
+        for (const { id, visible, selected, display } of plan.states) {
+            viewerStore.updateChannelVisibility(id, visible)
+            viewerStore.updateChannelSelection(id, selected)
+            viewerStore.setChannelDisplay([id], display)
+        }
+        // Channels already showing a filter keep it rather than being refiltered
+        const current = new Map(channels.map(channel => [channel.id, filterKey(channel.filter)]))
+        const payloads = plan.filters
+            .map(({ filter, channelIds }) => filterPayloadFor(filter, channelIds.filter(id => current.get(id) !== filterKey(filter))))
+            .filter(payload => payload.selChannels.length > 0)
+        if (payloads.length > 0) {
+            viewerStore.requestFilters(payloads)
+        }
+        if (plan.missing.length > 0) {
+            skipped.push(`${plan.missing.length} channel${plan.missing.length === 1 ? ' is' : 's are'} not in this view: ${plan.missing.join(', ')}`)
+        }
+
+        if (restored.activeLayer !== null) {
+            if (viewerStore.viewerAnnotations.some(layer => layer.id === restored.activeLayer)) {
+                viewerStore.setActiveAnnotationLayer(restored.activeLayer)
+            } else {
+                skipped.push(`Annotation layer ${restored.activeLayer} is not here`)
+            }
+        }
+        viewerStore.setActiveTool(restored.tool)
+        viewerStore.triggerRerender('session')
+        return { skipped }
+    }
+
+    return {
+        saveSession,
+        restoreSession
+    }
+}
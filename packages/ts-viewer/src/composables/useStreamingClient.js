@@ -2,9 +2,10 @@ import { ref, readonly, markRaw, inject, onUnmounted } from 'vue'
 import { createViewerStore } from '@/stores/tsviewer'
 import { acquireClient, ensureCatalog, abortInflight } from '@/composables/streaming/clientRegistry'
 import { synthesizeMontageDetails } from '@/composables/streaming/channelDetails'
-import { legacyFilterToSpec, validateSpecForRate } from '@/composables/streaming/filters'
+import { legacyFilterToSpec, validateChainForRate } from '@/composables/streaming/filters'
+import { resolveDerivations } from '@/composables/streaming/derivations'
 import { parseRequest, partitionRequest, filterKey } from '@/composables/streaming/translate'
-import { buildContinuousSegm, buildGapSegm, buildNeuralSegm } from '@/composables/streaming/segments'
+import { buildGapSegm } from '@/composables/streaming/segments'
 
 /**
  * Reads timeseries data from a Zarr bundle behind the exact surface of `useWebSocket()`.
@@ -58,8 +59,6 @@ export function useStreamingClient() {
     /** Serializes filtered queries per filter spec, so the reader's stateful filter advances in send order. */
     const filterChains = new Map()
 
-    const isAbort = (error) => error?.name === 'AbortError'
-
     const reportError = (payload) => {
         onErrorHandler?.(payload)
     }
@@ -102,96 +101,28 @@ export function useStreamingClient() {
     }
 
     /**
-     * Runs one continuous query group and emits a block per trace.
-     *
-     * Traces are matched to yields by position: the reader yields one segment per requested
-     * trace in request order, and the compound key it puts on a montaged segment is not what
-     * the viewer matches on, so identity comes from the request-side table.
+     * Runs one query group on the entry's page decoder, which reads, filters and shapes it off
+     * the main thread (see decoder.js), and emits a block per trace. Blocks and errors that
+     * arrive after the viewer has moved on are dropped here.
      */
-    const runContinuousGroup = async (group, req, signal, gen, activeEntry) => {
-        const delivered = new Set()
-        try {
-            const options = {
-                startUs: req.startTime,
-                endUs: req.endTime,
-                pixelWidthUs: req.pixelWidth,
-                raw: req.raw,
-                signal
-            }
-            if (group.isMontage) {
-                options.montage = group.montage
-            } else {
-                options.channels = group.channels
-            }
-            if (group.filterSpec) {
-                options.filter = group.filterSpec
-            }
-
-            let index = 0
-            for await (const segment of activeEntry.client.query(options)) {
-                const identity = group.traces[index]
-                index++
-                if (!identity || gen !== generation || signal.aborted) {
-                    continue
+    const runGroup = (task, signal, gen, activeEntry) =>
+        activeEntry.decoder.read(task, signal, {
+            emit: (block, kind) => {
+                if (gen !== generation || signal.aborted) {
+                    return
                 }
-                delivered.add(identity)
-                emitSegment(buildContinuousSegm(segment, identity, req, { useMedian }), req)
-            }
-        } catch (error) {
-            if (isAbort(error) || gen !== generation) {
-                return
-            }
-            reportError(describeError(error))
-        } finally {
-            // An aborted group is deliberately left undrained: whoever aborted (a dump-buffer
-            // request or a disconnect) has already cleared the page bookkeeping.
-            if (gen === generation && !signal.aborted) {
-                for (const identity of group.traces) {
-                    if (!delivered.has(identity)) {
-                        emitSegment(buildGapSegm(identity, req), req)
-                    }
-                }
-            }
-        }
-    }
-
-    const runUnitGroup = async (traces, req, signal, gen, activeEntry) => {
-        const delivered = new Set()
-        try {
-            const options = {
-                channels: traces.map((trace) => trace.chId),
-                startUs: req.startTime,
-                endUs: req.endTime,
-                pixelWidthUs: req.pixelWidth,
-                signal
-            }
-            let index = 0
-            for await (const batch of activeEntry.client.queryUnits(options)) {
-                const identity = traces[index]
-                index++
-                if (!identity || gen !== generation || signal.aborted) {
-                    continue
+                if (kind === 'event') {
+                    emitEvent(block, task.req)
+                } else {
+                    emitSegment(block, task.req)
                 }
-                delivered.add(identity)
-                // Emitted even when the batch is empty; unlike the legacy path, which dropped
-                // empty event frames, this shim must respond or the page never completes.
-                emitEvent(buildNeuralSegm(batch, identity, req), req)
-            }
-        } catch (error) {
-            if (isAbort(error) || gen !== generation) {
-                return
-            }
-            reportError(describeError(error))
-        } finally {
-            if (gen === generation && !signal.aborted) {
-                for (const identity of traces) {
-                    if (!delivered.has(identity)) {
-                        emitSegment(buildGapSegm(identity, req), req)
-                    }
+            },
+            fail: (error) => {
+                if (gen === generation) {
+                    reportError(describeError(error))
                 }
             }
-        }
-    }
+        })
 
     const handleDataRequest = async (message) => {
         const gen = generation
@@ -205,7 +136,8 @@ export function useStreamingClient() {
             return
         }
 
-        const { groups, unitTraces, invalid } = partitionRequest(req, activeCatalog, activeEntry.filterRegistry)
+        const { groups, derivedGroups, unitTraces, invalid } =
+            partitionRequest(req, activeCatalog, activeEntry.filterRegistry, activeEntry.derivations)
 
         // Yield before emitting anything. Everything above is synchronous, so without this
         // the invalid-trace gaps below would fire inside `ws.send()` -- before the caller has
@@ -221,7 +153,7 @@ export function useStreamingClient() {
             reportError({ error: `Cannot read channel ${identity.label}: ${reason}` })
         }
 
-        if (groups.length === 0 && unitTraces.length === 0) {
+        if (groups.length === 0 && derivedGroups.length === 0 && unitTraces.length === 0) {
             return
         }
 
@@ -231,8 +163,19 @@ export function useStreamingClient() {
 
         const pending = []
         for (const group of groups) {
-            const run = () => runContinuousGroup(group, req, signal, gen, activeEntry)
-            if (group.filterSpec) {
+            const run = () => runGroup({ kind: 'continuous', group, req, useMedian }, signal, gen, activeEntry)
+            if (group.filterSpec || group.filterChain) {
+                const previous = filterChains.get(group.key) ?? Promise.resolve()
+                const next = previous.then(run, run)
+                filterChains.set(group.key, next)
+                pending.push(next)
+            } else {
+                pending.push(run())
+            }
+        }
+        for (const group of derivedGroups) {
+            const run = () => runGroup({ kind: 'derived', group, req, useMedian }, signal, gen, activeEntry)
+            if (group.filterChain) {
                 const previous = filterChains.get(group.key) ?? Promise.resolve()
                 const next = previous.then(run, run)
                 filterChains.set(group.key, next)
@@ -242,7 +185,7 @@ export function useStreamingClient() {
             }
         }
         if (unitTraces.length > 0) {
-            pending.push(runUnitGroup(unitTraces, req, signal, gen, activeEntry))
+            pending.push(runGroup({ kind: 'units', group: { traces: unitTraces }, req, useMedian }, signal, gen, activeEntry))
         }
 
         try {
@@ -260,7 +203,24 @@ export function useStreamingClient() {
     const handleMontageMessage = async (message) => {
         const gen = generation
         await Promise.resolve()
-        if (gen !== generation || !catalogIndex) {
+        if (gen !== generation || !entry || !catalogIndex) {
+            return
+        }
+
+        entry.derivations = null
+
+        if (message.montage === 'DERIVED_MONTAGE') {
+            const { byLabel, details, dropped } = resolveDerivations(message.derivations, catalogIndex)
+            for (const drop of dropped) {
+                console.warn(`Montage derivation ${drop.label} dropped: ${drop.message}`)
+            }
+            if (details.length === 0) {
+                reportError({ error: 'No montage derivation could be resolved against this bundle; showing unmontaged channels.' })
+                onChannelDetailsHandler?.(baseDetails)
+                return
+            }
+            entry.derivations = byLabel
+            onChannelDetailsHandler?.(details)
             return
         }
 
@@ -306,7 +266,7 @@ export function useStreamingClient() {
             }
 
             const rateHz = channel.sf ?? channel.rate ?? rateForServerChannel(channel.serverId ?? channel.id)
-            const check = rateHz ? validateSpecForRate(parsed.spec, rateHz) : { ok: true }
+            const check = rateHz ? validateChainForRate(parsed.spec, rateHz) : { ok: true }
             if (!check.ok) {
                 reportError({ error: `Filter not applied to ${channel.label ?? clientId}: ${check.reason}` })
                 continue
@@ -347,7 +307,7 @@ export function useStreamingClient() {
             void handleDataRequest(message)
             return
         }
-        if (message.filter !== undefined || message.channelFiltersToClear !== undefined) {
+        if (message.filter !== undefined || message.filterChain !== undefined || message.channelFiltersToClear !== undefined) {
             handleFilterMessage(message)
             return
         }
@@ -362,6 +322,8 @@ export function useStreamingClient() {
         abortInflight(entry)
         if (entry) {
             entry.filterRegistry.clear()
+            entry.derivations = null
+            entry.decoder.reset()
         }
         filterChains.clear()
         websocket.value = null
@@ -400,7 +362,8 @@ export function useStreamingClient() {
             }
 
             const opened = await acquireClient(viewerStore.$id, url, {
-                onUrlExpired: content.onUrlExpired
+                onUrlExpired: content.onUrlExpired,
+                pageCache: viewerStore.config.pageCache
             })
             const index = await ensureCatalog(opened)
             if (gen !== generation) {
@@ -128,6 +128,10 @@ export const useTimeSeriesData = () => {
                     plotAgainst: null,
                     rowBaseline: null,
                     rowScale: 1,
+                    inverted: false,
+                    removeDc: true,
+                    group: null,
+                    color: null,
                     rowAdjust: 0,
                     selected: false,
                     hover: false,
@@ -309,6 +313,31 @@ export const useTimeSeriesData = () => {
         return 1
     }
 
+    // Vertical scale that fits one channel's loaded data to a row of `rowHeight` pixels, the
+    // per-channel counterpart of autoScaleViewData. Null while the channel has no data.
+    const autoScaleChannel = (channelId, rowHeight) => {
+        const channel = viewData.channels.find((c) => c.id === channelId)
+        if (!channel || !rowHeight) {
+            return null
+        }
+
+        let sumStd = 0
+        let nrSeg = 0
+        for (const curBlock of channel.blocks) {
+            if (curBlock.type !== 'Continuous' || !curBlock.parsedData || curBlock.parsedData[1].length === 0) {
+                continue
+            }
+            sumStd += standardDeviation(curBlock.parsedData[1])
+            nrSeg++
+        }
+
+        const avgStd = sumStd / nrSeg
+        if (!(avgStd > 0)) {
+            return null
+        }
+        return rowHeight / (2 * avgStd)
+    }
+
     // Helper functions from original
     const standardDeviation = (values) => {
         const avg = average(values)
@@ -376,6 +405,7 @@ export const useTimeSeriesData = () => {
         dataCallback,
         invalidate,
         autoScaleViewData,
+        autoScaleChannel,
         segmIndexOf,
         updateCurrentRequestedSamplePeriod,
         isDataCurrentForViewport,
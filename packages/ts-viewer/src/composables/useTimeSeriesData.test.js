@@ -136,3 +136,30 @@ describe('autoScaleViewData', () => {
         expect(zoom).toBeGreaterThan(0)
     })
 })
+
+describe('autoScaleChannel', () => {
+    const values = (...v) => block({
+        parsedData: [
+            Float64Array.from(v.map((_, i) => i * 1000)),
+            Float64Array.from(v),
+            new Float64Array(v.length)
+        ]
+    })
+
+    it('fits one channel to its row, independently of the others', () => {
+        const ts = setup()
+        ts.viewData.channels.push(
+            { id: 'eeg', blocks: [values(-1, 1, -1, 1)] },
+            { id: 'ekg', blocks: [emptyBlock(), values(-100, 100, -100, 100)] }
+        )
+        expect(ts.autoScaleChannel('eeg', 40)).toBe(20)
+        expect(ts.autoScaleChannel('ekg', 40)).toBe(0.2)
+    })
+
+    it('returns null for a channel without usable data', () => {
+        const ts = setup()
+        ts.viewData.channels.push({ id: 'flat', blocks: [values(3, 3, 3)] })
+        expect(ts.autoScaleChannel('flat', 40)).toBeNull()
+        expect(ts.autoScaleChannel('missing', 40)).toBeNull()
+    })
+})
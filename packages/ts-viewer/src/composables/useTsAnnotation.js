@@ -3,11 +3,17 @@
 import { computed, inject } from 'vue'
 import { storeToRefs } from 'pinia'
 import { useHandleXhrError } from '@/mixins/request/request_composable'
-import { useToken } from '@/composables/useToken'
 import { createViewerStore } from '../stores/tsviewer'
+import { annotationStorageFor } from '@/composables/annotationStorage/storageRegistry'
+import { batchChange, sameSnapshot, snapshotAnnotation } from '@/utils/annotationHistory'
 
 /**
  * Composable for annotation CRUD operations.
+ *
+ * Each successful change is recorded in the store's annotation history unless called with
+ * `{ record: false }`, which undo/redo and bulk imports use. Annotations carry a `savedState`
+ * snapshot of what storage last confirmed: drags and the edit modal change the store object
+ * in place, so it is the only record of an edit's "before".
  * @param {Object} storeInstance - Optional store instance. If not provided, will inject from parent or use default.
  */
 export function useTsAnnotation(storeInstance = null) {
@@ -31,7 +37,7 @@ export function useTsAnnotation(storeInstance = null) {
     }
 
     // Add annotation function with Pinia store usage
-    const addAnnotation = async (annotation = null) => {
+    const addAnnotation = async (annotation = null, { record = true } = {}) => {
         // Use passed annotation or fall back to store
         const annotationData = annotation || activeAnnotation.value
 
@@ -100,29 +106,11 @@ export function useTsAnnotation(storeInstance = null) {
             channelIds: channelIds
         }
 
-        // Use correct property for timeseries ID
-        const timeseriesId = viewerStore.activeViewer.content.id
-        const url = `${viewerStore.config.apiUrl}/timeseries/${timeseriesId}/layers/${layer_id}/annotations`
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer.content)
 
         try {
-            // Use useToken() directly
-            const token = await useToken()
-
-            const response = await fetch(`${url}?api_key=${token}`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                },
-                body: JSON.stringify(apiPayload)
-            })
-
-            if (!response.ok) {
-                const errorText = await response.text()
-                throw new Error(`HTTP ${response.status}: ${errorText}`)
-            }
-
-            const result = await response.json()
+            const result = await storage.createAnnotation(scope, layer_id, apiPayload)
 
             const newAnn = {
                 name: '',
@@ -144,6 +132,7 @@ export function useTsAnnotation(storeInstance = null) {
             if (result.linkedPackage) {
                 newAnn.linkedPackage = result.linkedPackage
             }
+            newAnn.savedState = snapshotAnnotation(newAnn)
 
             // Find layer and add annotation - Use Pinia store
             let curLIndex = 0
@@ -160,6 +149,10 @@ export function useTsAnnotation(storeInstance = null) {
                 sortAnns(viewerAnnotations.value[curLIndex].annotations)
             }
 
+            if (record) {
+                viewerStore.recordAnnotationChange({ type: 'create', before: null, after: newAnn.savedState })
+            }
+
             return newAnn
         } catch (error) {
             console.error('Error creating annotation:', error)
@@ -169,7 +162,7 @@ export function useTsAnnotation(storeInstance = null) {
     }
 
     // Update annotation function with Pinia store usage
-    const updateAnnotation = async (annotation = null) => {
+    const updateAnnotation = async (annotation = null, { record = true } = {}) => {
         // Use passed annotation or fall back to store
         const annotationData = annotation || activeAnnotation.value
 
@@ -200,27 +193,12 @@ export function useTsAnnotation(storeInstance = null) {
             channelIds: annotationData.channelIds || []
         }
 
-        const timeseriesId = viewerStore.activeViewer.content.id
-        const url = `${viewerStore.config.apiUrl}/timeseries/${timeseriesId}/layers/${annotationData.layer_id}/annotations/${annotationData.id}`
+        const before = annotationData.savedState ?? snapshotAnnotation(annotationData)
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer.content)
 
         try {
-            const token = await useToken()
-
-            const response = await fetch(`${url}?api_key=${token}`, {
-                method: 'PUT',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                },
-                body: JSON.stringify(apiPayload)
-            })
-
-            if (!response.ok) {
-                const errorText = await response.text()
-                throw new Error(`HTTP ${response.status}: ${errorText}`)
-            }
-
-            const result = await response.json()
+            const result = await storage.updateAnnotation(scope, annotationData.layer_id, annotationData.id, apiPayload)
 
             // Update the annotation with server response
             const updatedAnnotation = {
@@ -228,9 +206,13 @@ export function useTsAnnotation(storeInstance = null) {
                 ...result,
                 duration: result.end - result.start
             }
+            updatedAnnotation.savedState = snapshotAnnotation(updatedAnnotation)
 
             // Use Pinia store method
             viewerStore.updateAnnotation(updatedAnnotation)
+            if (record && !sameSnapshot(before, updatedAnnotation.savedState)) {
+                viewerStore.recordAnnotationChange({ type: 'update', before, after: updatedAnnotation.savedState })
+            }
             return result
         } catch (error) {
             console.error('Error updating annotation:', error)
@@ -240,7 +222,7 @@ export function useTsAnnotation(storeInstance = null) {
     }
 
     // Remove annotation function with Pinia store usage
-    const removeAnnotation = async (annotation) => {
+    const removeAnnotation = async (annotation, { record = true } = {}) => {
         if (!annotation || !annotation.id) {
             throw new TypeError("Invalid annotation for deletion", annotation)
         }
@@ -256,26 +238,21 @@ export function useTsAnnotation(storeInstance = null) {
             throw new TypeError("Missing layer_id for annotation deletion", annotation)
         }
 
-        const timeseriesId = viewerStore.activeViewer.content.id
-        const url = `${viewerStore.config.apiUrl}/timeseries/${timeseriesId}/layers/${annLayerId}/annotations/${annotation.id}`
+        const storage = annotationStorageFor(viewerStore)
+        const scope = storage.scopeOf(viewerStore.activeViewer.content)
 
         try {
-            const token = await useToken()
-
-            const response = await fetch(`${url}?api_key=${token}`, {
-                method: 'DELETE',
-                headers: {
-                    'Accept': 'application/json'
-                }
-            })
-
-            if (!response.ok) {
-                const errorText = await response.text()
-                throw new Error(`HTTP ${response.status}: ${errorText}`)
-            }
+            await storage.deleteAnnotation(scope, annLayerId, annotation.id)
 
             // Use Pinia store method
             viewerStore.deleteAnnotation(annotation)
+            if (record) {
+                viewerStore.recordAnnotationChange({
+                    type: 'delete',
+                    before: annotation.savedState ?? snapshotAnnotation({ ...annotation, layer_id: annLayerId }),
+                    after: null
+                })
+            }
             return true
         } catch (error) {
             console.error('Error deleting annotation:', error)
@@ -284,6 +261,76 @@ export function useTsAnnotation(storeInstance = null) {
         }
     }
 
+    // Bulk actions apply one annotation at a time and carry on past failures, so one bad
+    // annotation does not strand the rest. `apply` pushes each change it persists, and all
+    // of them are recorded as a single batch, including those of a half-done annotation.
+    const runBulk = async (annotations, label, apply) => {
+        const changes = []
+        const failed = []
+        for (const annotation of annotations) {
+            try {
+                await apply(annotation, changes)
+            } catch (error) {
+                failed.push({ annotation, error })
+            }
+        }
+        const entry = batchChange(changes, label)
+        if (entry) {
+            viewerStore.recordAnnotationChange(entry)
+        }
+        return { changed: annotations.length - failed.length, failed }
+    }
+
+    const plural = (count) => `${count} annotation${count === 1 ? '' : 's'}`
+
+    /**
+     * Sets the same label and/or description on several annotations.
+     * @param {Array<Object>} annotations Store annotations.
+     * @param {{label?: string, description?: string}} fields Omitted fields are left alone.
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const updateAnnotations = (annotations, fields) => {
+        return runBulk(annotations, `Edit ${plural(annotations.length)}`, async (annotation, changes) => {
+            const before = annotation.savedState ?? snapshotAnnotation(annotation)
+            await updateAnnotation({ ...annotation, ...fields }, { record: false })
+            const after = viewerStore.getAnnotationById(annotation.id)?.savedState
+            if (after && !sameSnapshot(before, after)) {
+                changes.push({ type: 'update', before, after })
+            }
+        })
+    }
+
+    /**
+     * Deletes several annotations.
+     * @param {Array<Object>} annotations Store annotations.
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const removeAnnotations = (annotations) => {
+        return runBulk(annotations, `Delete ${plural(annotations.length)}`, async (annotation, changes) => {
+            const before = annotation.savedState ?? snapshotAnnotation(annotation)
+            await removeAnnotation(annotation, { record: false })
+            changes.push({ type: 'delete', before, after: null })
+        })
+    }
+
+    /**
+     * Moves several annotations to another layer. Storage has no move, so each annotation is
+     * re-created in the target layer, with a new id, and then deleted from its own.
+     * @param {Array<Object>} annotations Store annotations.
+     * @param {string} layerId Target layer.
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const moveAnnotations = (annotations, layerId) => {
+        const moving = annotations.filter(annotation => annotation.layer_id !== layerId)
+        return runBulk(moving, `Move ${plural(moving.length)}`, async (annotation, changes) => {
+            const before = annotation.savedState ?? snapshotAnnotation(annotation)
+            const created = await addAnnotation({ ...before, id: null, layer_id: layerId }, { record: false })
+            changes.push({ type: 'create', before: null, after: created.savedState })
+            await removeAnnotation(annotation, { record: false })
+            changes.push({ type: 'delete', before, after: null })
+        })
+    }
+
     // Return the public API
     return {
         // Computed properties
@@ -294,6 +341,9 @@ export function useTsAnnotation(storeInstance = null) {
         addAnnotation,
         updateAnnotation,
         removeAnnotation,
+        updateAnnotations,
+        removeAnnotations,
+        moveAnnotations,
         sortAnns,
         getChannelId
     }
@@ -22,6 +22,17 @@
 import { computed, readonly } from 'vue'
 import { storeToRefs } from 'pinia'
 import { createViewerStore } from '../stores/tsviewer'
+import { useTsAnnotation } from './useTsAnnotation'
+import { useDetection } from './useDetection'
+import { useScoring } from './useScoring'
+import { useEventAverage } from './useEventAverage'
+import { useArtifacts } from './useArtifacts'
+import { useSession } from './useSession'
+import { defaultChannelDisplay } from '@/utils/channelDisplay'
+import { measurementDescription } from '@/utils/calipers'
+import { batchChange, describeChange, invertChange } from '@/utils/annotationHistory'
+import { SESSION_URL_PARAM, sessionUrl } from '@/utils/viewerSession'
+import { joinLinkGroup as joinGroup, leaveLinkGroup as leaveGroup, updateLinkGroup } from './linking/linkRegistry'
 
 /**
  * Provides read and write access to a TSViewer instance's state.
@@ -34,12 +45,36 @@ export function useViewerControls(instanceId = 'default') {
 
     const {
         viewerChannels,
+        channelGroups: viewerChannelGroups,
         viewerAnnotations,
         viewerActiveTool,
+        keyboardShortcuts,
+        keyboardShortcutsEnabled,
+        spectrogramVisible,
+        spectrogramSettings,
+        spectrumWindow,
+        eventAverage,
         viewerSelectedChannels,
         activeAnnotation,
         activeAnnotationLayer,
+        annotationUndoStack,
+        annotationRedoStack,
+        annotationFilter,
+        annotationSort,
+        filteredAnnotationRows,
+        viewport,
+        linkGroup,
+        playbackActive,
+        playbackSettings,
+        playbackStop,
+        activeMeasurement,
+        pinnedMeasurements,
+        cursorReadout,
+        detectionJob,
+        scoring,
+        badChannels: badChannelIndex,
         viewerMontageScheme,
+        userMontages,
         viewerErrors,
         config,
         activeViewer
@@ -54,6 +89,12 @@ export function useViewerControls(instanceId = 'default') {
      */
     const channels = readonly(viewerChannels)
 
+    /**
+     * Named channel groups, as {id, name, color, collapsed} (readonly). Each channel's
+     * `group` holds the id of the group it is in.
+     */
+    const channelGroups = readonly(viewerChannelGroups)
+
     /**
      * Currently selected channels (readonly computed)
      */
@@ -69,11 +110,149 @@ export function useViewerControls(instanceId = 'default') {
      */
     const activeTool = readonly(viewerActiveTool)
 
+    /**
+     * Keyboard bindings by action name (readonly)
+     */
+    const shortcuts = readonly(keyboardShortcuts)
+
+    /**
+     * Whether the viewer responds to keyboard shortcuts (readonly)
+     */
+    const shortcutsEnabled = readonly(keyboardShortcutsEnabled)
+
+    /**
+     * Whether the spectrogram lane is shown (readonly)
+     */
+    const spectrogramShown = readonly(spectrogramVisible)
+
+    /**
+     * Spectrogram window, overlap, colormap and display range (readonly)
+     */
+    const spectrogramOptions = readonly(spectrogramSettings)
+
+    /**
+     * Window the power spectrum panel analyses, as {startUs, endUs}, or null while closed (readonly)
+     */
+    const powerSpectrumWindow = readonly(spectrumWindow)
+
+    /**
+     * Settings of the event-locked average panel, or null while it is closed (readonly):
+     * {layerId, channelIds, preUs, postUs, baselineUs, rejectPeakToPeak, excludedTrials}
+     */
+    const eventAverageSettings = readonly(eventAverage)
+
+    /**
+     * The measure tool's last measurement, or null (readonly). Measurements hold
+     * {channelId, channelLabel, startUs, endUs, deltaUs, frequencyHz, deltaAmplitude,
+     * peakToPeak, unit}, amplitudes in the channel's unit.
+     */
+    const measurement = readonly(activeMeasurement)
+
+    /**
+     * Pinned measurements, each with an id (readonly)
+     */
+    const measurements = readonly(pinnedMeasurements)
+
+    /**
+     * What the traces show under the pointer while it hovers over them, or null (readonly):
+     * {timeUs, readings}, readings by channel id, each {min, max, unit} or null where nothing
+     * is loaded. min and max differ where the trace draws a min/max column.
+     */
+    const hoverReadout = readonly(cursorReadout)
+
+    /**
+     * The detection run in progress or last finished, or null (readonly):
+     * {detector, label, status, progress, hits, written, layerId, message}, status one of
+     * 'reading', 'writing', 'done', 'cancelled', 'failed'
+     */
+    const detection = readonly(detectionJob)
+
+    /**
+     * Epoch scoring while it is on, or null (readonly):
+     * {layerId, epochUs, originUs, endUs, stages, autoAdvance, scores}, scores indexed by epoch
+     */
+    const scoringState = readonly(scoring)
+
+    /**
+     * Catalog ids of the channels marked bad (readonly computed)
+     */
+    const badChannels = computed(() => Object.keys(badChannelIndex.value))
+
+    /**
+     * Loaded annotations after the list filter and sort, one row per annotation with its
+     * layer's name and color (readonly computed)
+     */
+    const annotationList = computed(() => filteredAnnotationRows.value)
+
+    /**
+     * Filter of the annotation list (readonly)
+     */
+    const annotationListFilter = readonly(annotationFilter)
+
+    /**
+     * Sort of the annotation list, as {key, order} (readonly)
+     */
+    const annotationListSort = readonly(annotationSort)
+
+    /**
+     * Whether there is an annotation change to undo (readonly computed)
+     */
+    const canUndoAnnotation = computed(() => annotationUndoStack.value.length > 0)
+
+    /**
+     * Whether there is an undone annotation change to redo (readonly computed)
+     */
+    const canRedoAnnotation = computed(() => annotationRedoStack.value.length > 0)
+
+    /**
+     * Label of the change undo would revert, e.g. 'Delete "Spike"', or null (readonly computed)
+     */
+    const nextUndoLabel = computed(() => {
+        const change = annotationUndoStack.value[annotationUndoStack.value.length - 1]
+        return change ? describeChange(change) : null
+    })
+
+    /**
+     * Label of the change redo would reapply, or null (readonly computed)
+     */
+    const nextRedoLabel = computed(() => {
+        const change = annotationRedoStack.value[annotationRedoStack.value.length - 1]
+        return change ? describeChange(change) : null
+    })
+
+    /**
+     * Window on screen as {start, duration, cursorLoc, recordingStart, recordingEnd},
+     * in microseconds (readonly)
+     */
+    const viewerViewport = readonly(viewport)
+
+    /**
+     * Link group this viewer is in, as {id, alignment, syncAnnotations, offsetUs, members},
+     * or null (readonly)
+     */
+    const link = readonly(linkGroup)
+
+    /**
+     * Playback state as {playing, speed, mode, stopAtGaps, stopAtAnnotations, lastStop};
+     * lastStop is {reason: 'end' | 'gap' | 'annotation', timeUs, annotationId} when playback
+     * ended on its own, else null (readonly computed)
+     */
+    const playback = computed(() => ({
+        playing: playbackActive.value,
+        ...playbackSettings.value,
+        lastStop: playbackStop.value
+    }))
+
     /**
      * Current montage scheme (readonly)
      */
     const montageScheme = readonly(viewerMontageScheme)
 
+    /**
+     * Montages saved in this browser (readonly)
+     */
+    const savedMontages = readonly(userMontages)
+
     /**
      * Current viewer errors (readonly)
      */
@@ -218,6 +397,112 @@ export function useViewerControls(instanceId = 'default') {
         viewerStore.triggerRerender('channel-visibility')
     }
 
+    // ============================================
+    // CHANNEL DISPLAY
+    // ============================================
+
+    /**
+     * Set per-channel display settings. Settings left out are unchanged.
+     * @param {Array<string>} channelIds
+     * @param {{gain?: number, inverted?: boolean, removeDc?: boolean}} settings - gain
+     *   multiplies the viewer's vertical scale (1/64 to 64); removeDc centres the trace on
+     *   its mean or median; inverted flips its polarity
+     */
+    const setChannelDisplay = (channelIds, settings) => {
+        viewerStore.setChannelDisplay(channelIds, settings)
+    }
+
+    /**
+     * Fit each channel's gain to its row from the data the viewer has loaded
+     * @param {Array<string>} [channelIds] - Defaults to every visible channel
+     */
+    const autoscaleChannels = (channelIds) => {
+        viewerStore.requestChannelAutoscale(channelIds ?? getVisibleChannels().map(ch => ch.id))
+    }
+
+    /**
+     * Restore the default gain, DC removal and polarity
+     * @param {Array<string>} [channelIds] - Defaults to every channel
+     */
+    const resetChannelDisplay = (channelIds) => {
+        viewerStore.setChannelDisplay(channelIds ?? viewerChannels.value.map(ch => ch.id), defaultChannelDisplay())
+    }
+
+    // ============================================
+    // CHANNEL LAYOUT
+    // ============================================
+    // Layout changes are saved per package in this browser and restored when it reopens.
+
+    /**
+     * Move a channel in front of another, as dragging its label does
+     * @param {string} channelId
+     * @param {string|null} beforeId - null moves the channel to the bottom
+     */
+    const moveChannel = (channelId, beforeId = null) => {
+        viewerStore.moveChannel(channelId, beforeId)
+    }
+
+    /**
+     * Replace all groups with one per electrode, unit or channel type
+     * @param {'electrode'|'unit'|'type'} grouping
+     */
+    const groupChannelsBy = (grouping) => {
+        viewerStore.groupChannelsBy(grouping)
+    }
+
+    /**
+     * Create a named group from channels
+     * @param {string} name
+     * @param {Array<string>} channelIds
+     * @param {string|null} color - '#rrggbb' for the group's traces
+     * @returns {string} The group's id
+     */
+    const createChannelGroup = (name, channelIds, color = null) => {
+        return viewerStore.createChannelGroup(name, channelIds, color)
+    }
+
+    /**
+     * Delete a group, leaving its channels ungrouped
+     * @param {string} groupId
+     */
+    const deleteChannelGroup = (groupId) => {
+        viewerStore.deleteChannelGroup(groupId)
+    }
+
+    /**
+     * Collapse a group, hiding its channels, or expand it again
+     * @param {string} groupId
+     * @param {boolean} collapsed
+     */
+    const setChannelGroupCollapsed = (groupId, collapsed = true) => {
+        viewerStore.setChannelGroupCollapsed(groupId, collapsed)
+    }
+
+    /**
+     * Set the trace colour of channels
+     * @param {Array<string>} channelIds
+     * @param {string|null} color - '#rrggbb', or null for the group's colour
+     */
+    const setChannelColor = (channelIds, color) => {
+        viewerStore.setChannelColor(channelIds, color)
+    }
+
+    /**
+     * Set the trace colour of a group's channels that have no colour of their own
+     * @param {string} groupId
+     * @param {string|null} color - '#rrggbb', or null for the default
+     */
+    const setChannelGroupColor = (groupId, color) => {
+        viewerStore.setChannelGroupColor(groupId, color)
+    }
+
+    /**
+     * Return to catalog order without groups or colours, and forget the saved layout
+     */
+    const resetChannelLayout = () => {
+        viewerStore.resetChannelLayout()
+    }
+
     // ============================================
     // ANNOTATION CONTROLS
     // ============================================
@@ -254,18 +539,650 @@ export function useViewerControls(instanceId = 'default') {
         }
     }
 
+    /**
+     * Select an annotation and scroll the viewer to it
+     * @param {string} annotationId
+     */
+    const focusAnnotation = (annotationId) => {
+        const annotation = viewerStore.getAnnotationById(annotationId)
+        if (annotation) {
+            viewerStore.focusAnnotation(annotation)
+        }
+    }
+
+    /**
+     * Narrow the annotation list; omitted keys keep their value. Times are microseconds on
+     * the recording's clock, and an empty list or null leaves a field open.
+     * @param {{label?: string, text?: string, layerIds?: Array<string>, channelIds?: Array<string>, start?: ?number, end?: ?number, minDuration?: ?number, maxDuration?: ?number}} filter
+     */
+    const setAnnotationFilter = (filter) => {
+        viewerStore.setAnnotationFilter(filter)
+    }
+
+    /**
+     * Clear every annotation list filter
+     */
+    const resetAnnotationFilter = () => {
+        viewerStore.resetAnnotationFilter()
+    }
+
+    /**
+     * Sort the annotation list
+     * @param {'start' | 'end' | 'duration' | 'label' | 'layer' | 'channels'} key
+     * @param {'ascending' | 'descending'} order
+     */
+    const setAnnotationSort = (key, order = 'ascending') => {
+        viewerStore.setAnnotationSort({ key, order })
+    }
+
+    const annotationsById = (annotationIds) => {
+        return annotationIds.map(id => viewerStore.getAnnotationById(id)).filter(Boolean)
+    }
+
+    /**
+     * Set the label and/or description of several annotations, as one undoable change
+     * @param {Array<string>} annotationIds
+     * @param {{label?: string, description?: string}} fields
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const updateAnnotations = async (annotationIds, fields) => {
+        const result = await useTsAnnotation(viewerStore).updateAnnotations(annotationsById(annotationIds), fields)
+        viewerStore.triggerRerender('annotations-edited')
+        return result
+    }
+
+    /**
+     * Delete several annotations, as one undoable change
+     * @param {Array<string>} annotationIds
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const deleteAnnotations = async (annotationIds) => {
+        const result = await useTsAnnotation(viewerStore).removeAnnotations(annotationsById(annotationIds))
+        viewerStore.triggerRerender('annotations-edited')
+        return result
+    }
+
+    /**
+     * Move several annotations to another layer, as one undoable change. Moved annotations
+     * get new ids.
+     * @param {Array<string>} annotationIds
+     * @param {string} layerId
+     * @returns {Promise<{changed: number, failed: Array<{annotation: Object, error: Error}>}>}
+     */
+    const moveAnnotations = async (annotationIds, layerId) => {
+        const result = await useTsAnnotation(viewerStore).moveAnnotations(annotationsById(annotationIds), layerId)
+        viewerStore.triggerRerender('annotations-edited')
+        return result
+    }
+
+    // ============================================
+    // ANNOTATION HISTORY
+    // ============================================
+
+    /**
+     * Applies one history change against the annotation storage without recording it.
+     * Re-creating an annotation gives it a new id, which the remaining history follows.
+     * @param {{type: string, before: ?Object, after: ?Object}} change
+     */
+    const applyAnnotationChange = async (change) => {
+        const { addAnnotation, updateAnnotation, removeAnnotation } = useTsAnnotation(viewerStore)
+
+        if (change.type === 'create') {
+            const created = await addAnnotation({ ...change.after, id: null }, { record: false })
+            return { oldId: change.after.id, newId: created.id }
+        }
+
+        const current = viewerStore.getAnnotationById(change.before.id)
+        if (change.type === 'update') {
+            await updateAnnotation({ ...(current ?? {}), ...change.after }, { record: false })
+        } else {
+            await removeAnnotation(current ?? change.before, { record: false })
+        }
+        return null
+    }
+
+    /**
+     * Moves the latest change of one stack to the other, applying it forwards (redo) or
+     * inverted (undo). A batch is applied one change at a time; if storage rejects one, the
+     * changes already applied move across and the rest stay where they were.
+     * @param {'undo' | 'redo'} direction
+     */
+    const stepAnnotationHistory = async (direction) => {
+        const entry = viewerStore.popAnnotationChange(direction)
+        if (!entry) return false
+
+        const toward = direction === 'undo' ? invertChange : (change) => change
+        const forward = toward(entry)
+        const steps = forward.type === 'batch' ? forward.changes : [forward]
+        // Back in the orientation the entry is stored in
+        const asEntry = (changes) => toward(batchChange(changes, entry.label))
+
+        const applied = []
+        const remaps = []
+        let failure = null
+        for (const step of steps) {
+            try {
+                const remap = await applyAnnotationChange(step)
+                if (remap) remaps.push(remap)
+                applied.push(step)
+            } catch (error) {
+                failure = error
+                break
+            }
+        }
+
+        if (applied.length > 0) {
+            viewerStore.pushAnnotationChange(direction === 'undo' ? 'redo' : 'undo', asEntry(applied))
+        }
+        if (failure) {
+            viewerStore.pushAnnotationChange(direction, asEntry(steps.slice(applied.length)))
+        }
+        remaps.forEach(({ oldId, newId }) => viewerStore.remapAnnotationHistory(oldId, newId))
+        if (applied.length > 0) {
+            viewerStore.triggerRerender('annotation-history')
+        }
+        if (failure) {
+            throw failure
+        }
+        return true
+    }
+
+    /**
+     * Revert the most recent annotation create, edit or delete (or bulk action), in storage
+     * as well as in the viewer. Rejects if storage refuses the change.
+     * @returns {Promise<boolean>} false when there was nothing to undo
+     */
+    const undoAnnotationChange = () => {
+        return stepAnnotationHistory('undo')
+    }
+
+    /**
+     * Reapply the most recently undone annotation change
+     * @returns {Promise<boolean>} false when there was nothing to redo
+     */
+    const redoAnnotationChange = () => {
+        return stepAnnotationHistory('redo')
+    }
+
+    /**
+     * Forget all annotation history, e.g. after the host edits annotations elsewhere
+     */
+    const clearAnnotationHistory = () => {
+        viewerStore.clearAnnotationHistory()
+    }
+
     // ============================================
     // TOOL CONTROLS
     // ============================================
 
     /**
      * Set the active tool
-     * @param {'pointer' | 'pan' | 'annotate'} tool
+     * @param {'pointer' | 'pan' | 'annotate' | 'spectrum' | 'measure'} tool
      */
     const setActiveTool = (tool) => {
         viewerStore.setActiveTool(tool)
     }
 
+    // ============================================
+    // MEASUREMENTS
+    // ============================================
+
+    /**
+     * Pin the measure tool's last measurement so it stays on the traces
+     * @returns {string|null} The pinned measurement's id
+     */
+    const pinMeasurement = () => {
+        return viewerStore.pinMeasurement()
+    }
+
+    /**
+     * Remove a pinned measurement
+     * @param {string} measurementId
+     */
+    const removeMeasurement = (measurementId) => {
+        viewerStore.unpinMeasurement(measurementId)
+    }
+
+    /**
+     * Remove every measurement, pinned or not
+     */
+    const clearMeasurements = () => {
+        viewerStore.clearMeasurements()
+    }
+
+    /**
+     * Save a pinned measurement as an annotation on its channel, values in the description
+     * @param {string} measurementId
+     * @param {{label?: string, layerId?: string}} [options] - layerId defaults to the active layer
+     * @returns {Promise<Object>} The new annotation
+     */
+    const annotateMeasurement = async (measurementId, { label = 'Measurement', layerId } = {}) => {
+        const pinned = pinnedMeasurements.value.find(m => m.id === measurementId)
+        if (!pinned) {
+            throw new Error(`Unknown measurement: ${measurementId}`)
+        }
+        const annotation = await useTsAnnotation(viewerStore).addAnnotation({
+            id: null,
+            label,
+            description: measurementDescription(pinned),
+            start: pinned.startUs,
+            duration: pinned.deltaUs,
+            channelIds: [pinned.channelId],
+            allChannels: false,
+            layer_id: layerId ?? viewerStore.getViewerActiveLayer()?.id
+        })
+        viewerStore.triggerRerender('annotations-edited')
+        return annotation
+    }
+
+    // ============================================
+    // EVENT DETECTION
+    // ============================================
+
+    /**
+     * Run a detector over a span and write its hits to a new annotation layer. Needs a
+     * timeseries-zarr bundle; one run at a time. See the README for the built-in detectors
+     * and their params.
+     * @param {Object} options
+     * @param {string} options.detector - 'threshold', 'lineLength', 'spike', 'artifact' or a registered name
+     * @param {Object} [options.params] - Overrides of the detector's defaults
+     * @param {Array<string>} options.channelIds
+     * @param {number} options.startUs
+     * @param {number} options.endUs
+     * @param {string} [options.layerName]
+     * @param {string} [options.color] - '#rrggbb'
+     * @returns {Promise<Object>} Summary: {cancelled, layer, hits, written, failed, truncated, scannedToUs, skipped}
+     */
+    const detectEvents = (options) => {
+        return useDetection(viewerStore).detect(options)
+    }
+
+    /**
+     * Stop the running detection. Hits already written stay in their layer.
+     * @returns {boolean} Whether one was running
+     */
+    const cancelDetection = () => {
+        return useDetection(viewerStore).cancelDetection()
+    }
+
+    // ============================================
+    // EPOCH SCORING
+    // ============================================
+
+    /**
+     * Turn epoch scoring on: the window fixed at one epoch, a stage per epoch from a key,
+     * scores kept in the scoring layer (reused by name, or created).
+     * @param {Object} [options]
+     * @param {number} [options.epochSeconds=30]
+     * @param {Array<Object>} [options.stages] - {label, name, key, level, color}; defaults to W, REM, N1, N2, N3
+     * @param {string} [options.layerName='Sleep stages']
+     * @param {boolean} [options.autoAdvance=true]
+     * @returns {Promise<Object>} The scoring layer
+     */
+    const startScoring = (options) => {
+        return useScoring(viewerStore).startScoring(options)
+    }
+
+    /**
+     * Turn epoch scoring off. The scores stay in their layer.
+     */
+    const stopScoring = () => {
+        useScoring(viewerStore).stopScoring()
+    }
+
+    /**
+     * Give an epoch a stage
+     * @param {string} label - A stage label
+     * @param {number} [epochIndex] - From 0; defaults to the epoch on screen
+     * @returns {Promise<boolean>}
+     */
+    const scoreEpoch = (label, epochIndex) => {
+        return useScoring(viewerStore).scoreEpoch(label, epochIndex)
+    }
+
+    /**
+     * Remove an epoch's score
+     * @param {number} [epochIndex] - From 0; defaults to the epoch on screen
+     * @returns {Promise<boolean>} Whether there was a score to remove
+     */
+    const clearEpoch = (epochIndex) => {
+        return useScoring(viewerStore).clearEpoch(epochIndex)
+    }
+
+    /**
+     * Show one epoch
+     * @param {number} epochIndex - From 0, clamped to the recording
+     */
+    const goToEpoch = (epochIndex) => {
+        useScoring(viewerStore).goToEpoch(epochIndex)
+    }
+
+    /**
+     * Every epoch of the recording with its stage
+     * @returns {Array<{epoch: number, startUs: number, durationUs: number, stage: ?string}>} epoch counts from 1; stage is null when unscored
+     */
+    const stageTable = () => {
+        return useScoring(viewerStore).stageRows()
+    }
+
+    /**
+     * The stage table as TSV: epoch, onset, duration, clock_time, stage
+     * @returns {string}
+     */
+    const exportStageTable = () => {
+        return useScoring(viewerStore).exportStageTable()
+    }
+
+    // ============================================
+    // BAD CHANNELS AND ARTIFACTS
+    // ============================================
+
+    /**
+     * Mark channels bad, or good again. Bad channels are drawn in grey or left off, left
+     * out of common-average references, autoscaling and exports, and saved as annotations
+     * in the "Artifacts" layer.
+     * @param {Array<string>} channelIds - Catalog ids
+     * @param {boolean} [bad=true]
+     * @returns {Promise<void>}
+     */
+    const markChannelsBad = async (channelIds, bad = true) => {
+        const { markChannelBad } = useArtifacts(viewerStore)
+        for (const channelId of channelIds) {
+            await markChannelBad(channelId, bad)
+        }
+    }
+
+    /**
+     * Mark a time span as artifact, in the "Artifacts" layer
+     * @param {number} startUs
+     * @param {number} endUs
+     * @param {Array<string>} [channelIds] - Catalog ids; every channel when empty
+     * @returns {Promise<Object>} The artifact annotation
+     */
+    const markArtifact = (startUs, endUs, channelIds = []) => {
+        return useArtifacts(viewerStore).markArtifact(startUs, endUs, channelIds)
+    }
+
+    /**
+     * Draw bad channels in grey or leave them off their rows
+     * @param {string} display - 'grey' or 'hide'
+     */
+    const setBadChannelDisplay = (display) => {
+        viewerStore.setBadChannelDisplay(display)
+    }
+
+    // ============================================
+    // SESSIONS
+    // ============================================
+
+    /**
+     * What the viewer shows: window, vertical scale, montage, channel visibility, selection,
+     * display and filters, active annotation layer and tool. Plain data, for saving and for
+     * restoreSession.
+     * @returns {Object} Session
+     */
+    const saveSession = () => {
+        return useSession(viewerStore).saveSession()
+    }
+
+    /**
+     * Show what a session recorded, once the viewer has its channels
+     * @param {Object|string} session - A session from saveSession, or the text of a session link
+     * @returns {Promise<{skipped: Array<string>}>} What could not be restored here
+     */
+    const restoreSession = (session) => {
+        return useSession(viewerStore).restoreSession(session)
+    }
+
+    /**
+     * A link to a page that carries what the viewer shows. Read it back with sessionFromUrl.
+     * @param {string} url - The page, e.g. window.location.href
+     * @param {string} [param='tsviewer'] - Query parameter to carry the session in
+     * @returns {string}
+     */
+    const sessionLink = (url, param = SESSION_URL_PARAM) => {
+        return sessionUrl(url, saveSession(), param)
+    }
+
+    // ============================================
+    // KEYBOARD CONTROLS
+    // ============================================
+
+    /**
+     * Bind an action to one or more key combos, replacing its current bindings.
+     * Combos look like 'ArrowLeft', 'shift+n' or 'ctrl+='.
+     * @param {string} action - One of SHORTCUT_ACTIONS, e.g. 'pageForward'
+     * @param {string|Array<string>} combos
+     */
+    const setShortcut = (action, combos) => {
+        viewerStore.setShortcut(action, combos)
+    }
+
+    /**
+     * Rebind several actions at once
+     * @param {Object<string, string|Array<string>>} bindings - Action name to combos
+     */
+    const setShortcuts = (bindings) => {
+        viewerStore.setShortcuts(bindings)
+    }
+
+    /**
+     * Remove every binding for an action
+     * @param {string} action
+     */
+    const disableShortcut = (action) => {
+        viewerStore.setShortcut(action, [])
+    }
+
+    /**
+     * Restore the default key bindings
+     */
+    const resetShortcuts = () => {
+        viewerStore.resetShortcuts()
+    }
+
+    /**
+     * Turn keyboard handling on or off for this viewer
+     * @param {boolean} enabled
+     */
+    const setShortcutsEnabled = (enabled) => {
+        viewerStore.setKeyboardShortcutsEnabled(enabled)
+    }
+
+    // ============================================
+    // SPECTROGRAM CONTROLS
+    // ============================================
+
+    /**
+     * Show or hide the spectrogram lane for the selected channels
+     * @param {boolean} visible
+     */
+    const showSpectrogram = (visible = true) => {
+        viewerStore.setSpectrogramVisible(visible)
+    }
+
+    /**
+     * Change spectrogram settings; omitted keys keep their value.
+     * windowSize must be a power of two; overlap is a fraction in [0, 1).
+     * @param {{windowSize?: number, overlap?: number, window?: string, colormap?: string, maxFrequencyHz?: ?number, dbRange?: ?{minDb: number, maxDb: number}, height?: number}} settings
+     */
+    const setSpectrogramSettings = (settings) => {
+        viewerStore.setSpectrogramSettings(settings)
+    }
+
+    /**
+     * Open the power spectrum panel on a time window, as with the spectrum tool
+     * @param {number} startUs
+     * @param {number} endUs
+     */
+    const showPowerSpectrum = (startUs, endUs) => {
+        viewerStore.setSpectrumWindow({ startUs, endUs })
+    }
+
+    /**
+     * Close the power spectrum panel
+     */
+    const closePowerSpectrum = () => {
+        viewerStore.setSpectrumWindow(null)
+    }
+
+    // ============================================
+    // EVENT-LOCKED AVERAGING
+    // ============================================
+
+    /**
+     * Open the event-locked average panel, or change its settings while open. Settings not
+     * given keep their current or default values.
+     * @param {Object} [settings]
+     * @param {string|number} [settings.layerId] - Trigger layer; defaults to the selected layer
+     * @param {Array<string>} [settings.channelIds] - Defaults to the selected channels
+     * @param {number} [settings.preUs=200000]
+     * @param {number} [settings.postUs=800000]
+     * @param {?Array<number>} [settings.baselineUs=[-200000, 0]] - Relative to the event; null for none
+     * @param {?number} [settings.rejectPeakToPeak] - Channel units; null keeps every trial
+     * @param {Array<number>} [settings.excludedTrials] - Trial indices left out by hand
+     */
+    const showEventAverage = (settings = {}) => {
+        viewerStore.setEventAverage(settings)
+    }
+
+    /**
+     * Close the event-locked average panel
+     */
+    const closeEventAverage = () => {
+        viewerStore.setEventAverage(null)
+    }
+
+    /**
+     * Compute an event-locked average without the panel. Needs a timeseries-zarr bundle.
+     * @param {Object} options - layerId and channelIds, plus any setting of {@link showEventAverage}
+     * @returns {Promise<Object>} {trials, channels, accepted, preUs, postUs, truncated}; each channel has mean and sem arrays from startUs, relative to the event
+     */
+    const computeEventAverage = (options) => {
+        return useEventAverage(viewerStore).eventAverage(options)
+    }
+
+    // ============================================
+    // NAVIGATION AND LINKING
+    // ============================================
+
+    /**
+     * Move the viewer; omitted keys keep their value. Linked viewers follow.
+     * @param {{start?: number, duration?: number, cursorLoc?: number}} changes - Times in microseconds
+     */
+    const setViewport = ({ start, duration, cursorLoc }) => {
+        const changes = Object.entries({ start, duration, cursorLoc }).filter(([, value]) => value !== undefined)
+        viewerStore.setViewport(Object.fromEntries(changes))
+    }
+
+    /**
+     * Link this viewer with every other viewer that joins the same group: paging, zooming
+     * the time window and moving the cursor in one moves them all. The viewer takes the
+     * group's current position when it joins.
+     * @param {string} groupId
+     * @param {{alignment?: 'absolute' | 'recording', syncAnnotations?: boolean, offsetUs?: number}} [options]
+     *   alignment: 'absolute' shows the same wall-clock time, 'recording' the same offset into
+     *   each recording (group-wide, default 'absolute'). syncAnnotations selects the matching
+     *   annotation in the other viewers (group-wide). offsetUs shifts this viewer alone.
+     */
+    const joinLinkGroup = (groupId, options = {}) => {
+        joinGroup(instanceId, groupId, options)
+    }
+
+    /**
+     * Stop following the link group
+     */
+    const leaveLinkGroup = () => {
+        leaveGroup(instanceId)
+    }
+
+    /**
+     * Change alignment, annotation syncing or this viewer's offset while linked
+     * @param {{alignment?: 'absolute' | 'recording', syncAnnotations?: boolean, offsetUs?: number}} options
+     */
+    const setLinkOptions = (options) => {
+        updateLinkGroup(instanceId, options)
+    }
+
+    // ============================================
+    // PLAYBACK CONTROLS
+    // ============================================
+
+    /**
+     * Start advancing the window, optionally changing settings first
+     * @param {{speed?: number, mode?: 'continuous' | 'page', stopAtGaps?: boolean, stopAtAnnotations?: boolean}} [settings]
+     */
+    const play = (settings = {}) => {
+        viewerStore.setPlaybackSettings(settings)
+        viewerStore.setPlaybackActive(true)
+    }
+
+    /**
+     * Stop playback where it is
+     */
+    const pause = () => {
+        viewerStore.setPlaybackActive(false)
+    }
+
+    /**
+     * Change playback settings, while playing or not; omitted keys keep their value.
+     * speed is a multiple of real time from 0.5 to 20. mode 'continuous' slides the traces,
+     * 'page' flips a page once the played time covers it.
+     * @param {{speed?: number, mode?: 'continuous' | 'page', stopAtGaps?: boolean, stopAtAnnotations?: boolean}} settings
+     */
+    const setPlaybackSettings = (settings) => {
+        viewerStore.setPlaybackSettings(settings)
+    }
+
+    // ============================================
+    // MONTAGE CONTROLS
+    // ============================================
+
+    /**
+     * Switch the viewer to a montage: 'NOT_MONTAGED', a workspace montage or a saved one
+     * @param {string} name
+     */
+    const setMontage = (name) => {
+        viewerStore.setViewerMontageScheme(name)
+    }
+
+    /**
+     * Save a montage definition, replacing any saved montage with the same name.
+     * Build definitions with bipolarMontage, commonAverageMontage, laplacianMontage
+     * or weightedMontage.
+     * @param {Object} montage
+     * @returns {{ok: boolean, errors: Array<string>}}
+     */
+    const saveMontage = (montage) => {
+        return viewerStore.saveUserMontage(montage)
+    }
+
+    /**
+     * Delete a saved montage
+     * @param {string} name
+     */
+    const deleteMontage = (name) => {
+        viewerStore.deleteUserMontage(name)
+    }
+
+    /**
+     * Import montages from an exported JSON document
+     * @param {string} text
+     * @returns {{imported: number, errors: Array<string>}}
+     */
+    const importMontages = (text) => {
+        return viewerStore.importUserMontages(text)
+    }
+
+    /**
+     * Export saved montages as a JSON document
+     * @param {Array<string>} [names] - Montages to export; all when omitted
+     * @returns {string}
+     */
+    const exportMontages = (names) => {
+        return viewerStore.exportUserMontages(names)
+    }
+
     // ============================================
     // VIEWER CONTROLS
     // ============================================
@@ -308,10 +1225,34 @@ export function useViewerControls(instanceId = 'default') {
     return {
         // Readonly state
         channels,
+        channelGroups,
         selectedChannels,
         annotations,
         activeTool,
+        shortcuts,
+        shortcutsEnabled,
+        spectrogramShown,
+        spectrogramOptions,
+        powerSpectrumWindow,
+        eventAverageSettings,
+        measurement,
+        measurements,
+        hoverReadout,
+        detection,
+        scoringState,
+        badChannels,
+        annotationList,
+        annotationListFilter,
+        annotationListSort,
+        canUndoAnnotation,
+        canRedoAnnotation,
+        nextUndoLabel,
+        nextRedoLabel,
+        viewport: viewerViewport,
+        link,
+        playback,
         montageScheme,
+        savedMontages,
         errors,
         viewerConfig,
         viewer,
@@ -331,14 +1272,106 @@ export function useViewerControls(instanceId = 'default') {
         showAllChannels,
         hideAllChannels,
 
+        // Channel display
+        setChannelDisplay,
+        autoscaleChannels,
+        resetChannelDisplay,
+
+        // Channel layout
+        moveChannel,
+        groupChannelsBy,
+        createChannelGroup,
+        deleteChannelGroup,
+        setChannelGroupCollapsed,
+        setChannelColor,
+        setChannelGroupColor,
+        resetChannelLayout,
+
         // Annotation controls
         selectAnnotation,
         setActiveLayer,
         toggleLayerVisibility,
+        focusAnnotation,
+        setAnnotationFilter,
+        resetAnnotationFilter,
+        setAnnotationSort,
+        updateAnnotations,
+        deleteAnnotations,
+        moveAnnotations,
+
+        // Annotation history
+        undoAnnotationChange,
+        redoAnnotationChange,
+        clearAnnotationHistory,
 
         // Tool controls
         setActiveTool,
 
+        // Measurements
+        pinMeasurement,
+        removeMeasurement,
+        clearMeasurements,
+        annotateMeasurement,
+
+        // Event detection
+        detectEvents,
+        cancelDetection,
+
+        // Epoch scoring
+        startScoring,
+        stopScoring,
+        scoreEpoch,
+        clearEpoch,
+        goToEpoch,
+        stageTable,
+        exportStageTable,
+
+        // Bad channels and artifacts
+        markChannelsBad,
+        markArtifact,
+        setBadChannelDisplay,
+
+        // Sessions
+        saveSession,
+        restoreSession,
+        sessionLink,
+
+        // Keyboard controls
+        setShortcut,
+        setShortcuts,
+        disableShortcut,
+        resetShortcuts,
+        setShortcutsEnabled,
+
+        // Spectrogram controls
+        showSpectrogram,
+        setSpectrogramSettings,
+        showPowerSpectrum,
+        closePowerSpectrum,
+
+        // Event-locked averaging
+        showEventAverage,
+        closeEventAverage,
+        computeEventAverage,
+
+        // Navigation and linking
+        setViewport,
+        joinLinkGroup,
+        leaveLinkGroup,
+        setLinkOptions,
+
+        // Playback controls
+        play,
+        pause,
+        setPlaybackSettings,
+
+        // Montage controls
+        setMontage,
+        saveMontage,
+        deleteMontage,
+        importMontages,
+        exportMontages,
+
         // Viewer controls
         setConfig,
         setActiveViewer,
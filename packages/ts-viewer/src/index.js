@@ -1,6 +1,8 @@
 import './assets/styles.scss';
 
 import TSViewer from './components/TSViewer/TSViewer.vue';
+import TSAnnotationTable from './components/TSViewer/TSAnnotationTable.vue';
+import TSVideoPanel from './components/TSViewer/TSVideoPanel.vue';
 import {
   createViewerStore,
   clearViewerStore,
@@ -13,6 +15,35 @@ import {
   TIMESERIES_WEBSOCKET,
   isZarrAssetType
 } from './composables/streaming/assetTypes';
+import { clearPageCaches } from './composables/streaming/pageCache';
+import { registerDetector, listDetectors } from './composables/streaming/detectors';
+import { DEFAULT_SCORING_STAGES } from './utils/sleepScoring';
+import { ARTIFACT_LABEL, ARTIFACT_LAYER_NAME, BAD_CHANNEL_LABEL } from './utils/artifacts';
+import {
+  SESSION_URL_PARAM,
+  SESSION_VERSION,
+  decodeSession,
+  encodeSession,
+  sessionFromUrl,
+  sessionUrl,
+} from './utils/viewerSession';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  DURATION_PRESETS_SECONDS
+} from './utils/keyboardShortcuts';
+import {
+  bipolarMontage,
+  commonAverageMontage,
+  laplacianMontage,
+  weightedMontage
+} from './utils/montages';
+import {
+  setAnnotationStorage,
+  localAnnotationStorage,
+  copyAnnotations
+} from './composables/annotationStorage/storageRegistry';
+import { createRemoteAnnotationStorage } from './composables/annotationStorage/remoteAnnotationStorage';
 
 // Primary exports for multi-instance support
 export {
@@ -29,6 +60,42 @@ export {
 // rather than duplicating them.
 export { TIMESERIES_ZARR, TIMESERIES_WEBSOCKET, isZarrAssetType };
 
+// Pages read from Zarr bundles persist in IndexedDB across sessions; hosts on shared machines
+// clear them on sign-out.
+export { clearPageCaches };
+
+// Keyboard vocabulary for hosts that rebind keys or render a shortcut cheat sheet.
+export { DEFAULT_SHORTCUTS, SHORTCUT_ACTIONS, DURATION_PRESETS_SECONDS };
+
+// Montage builders, for hosts that create saved montages through useViewerControls.
+export { bipolarMontage, commonAverageMontage, laplacianMontage, weightedMontage };
+
+// Event detectors, for hosts that add their own beside the built-in ones. A registered
+// detector shows up in the viewer's Detect dialog and runs through useViewerControls.
+export { registerDetector, listDetectors };
+
+// Default sleep stages, for hosts that score with a changed or extended set.
+export { DEFAULT_SCORING_STAGES };
+
+// Layer and labels bad channels and artifacts are saved under, for hosts that read them back.
+export { ARTIFACT_LAYER_NAME, ARTIFACT_LABEL, BAD_CHANNEL_LABEL };
+
+// Session encoding, for hosts that keep sessions or build and read session links themselves.
+// Pass a decoded session to useViewerControls' restoreSession.
+export { encodeSession, decodeSession, sessionUrl, sessionFromUrl, SESSION_VERSION, SESSION_URL_PARAM };
+
+// Annotation storage, for hosts that keep annotations somewhere other than the Pennsieve API
+// or sync locally made annotations to it.
+export { setAnnotationStorage, localAnnotationStorage, createRemoteAnnotationStorage, copyAnnotations };
+
+// Annotation list panel, for hosts that show it in their own side panel. Pass the viewer's
+// instance-id; the list, filter and sort live in that viewer's store.
+export { TSAnnotationTable };
+
+// Video panel, for hosts that lay the video out themselves or serve it from a URL. Pass the
+// viewer's instance-id; the panel reads and moves that viewer's position through its store.
+export { TSVideoPanel };
+
 export default {
   install(app) {
     app.component('TSViewer', TSViewer);
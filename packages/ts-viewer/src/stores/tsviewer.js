@@ -5,6 +5,34 @@ import { useToken } from '@/composables/useToken'
 import { useChannelDataRequest } from '@/composables/useChannelDataRequest';
 import { acquireClient, ensureCatalog, disposeClient } from '@/composables/streaming/clientRegistry'
 import { isZarrAssetType } from '@/composables/streaming/assetTypes'
+import { SHORTCUT_ACTIONS, buildShortcutIndex, defaultShortcutBindings } from '@/utils/keyboardShortcuts'
+import { defaultSpectrogramSettings } from '@/composables/streaming/spectral'
+import { defaultAveragingSettings } from '@/composables/streaming/averaging'
+import { loadSavedMontages, parseMontages, persistMontages, serializeMontages, validateMontage } from '@/utils/montages'
+import { ANNOTATION_HISTORY_LIMIT, remapAnnotationId, withoutLayer } from '@/utils/annotationHistory'
+import { ANNOTATION_SORT_KEYS, defaultAnnotationFilter, filterAnnotations, flattenAnnotations, sortAnnotations } from '@/utils/annotationQuery'
+import { defaultPlaybackSettings, validatePlaybackSettings } from '@/utils/playback'
+import { channelDisplayProperties } from '@/utils/channelDisplay'
+import { BAD_CHANNEL_DISPLAYS, isBadChannel } from '@/utils/artifacts'
+import {
+    channelColorOf,
+    channelOrder,
+    groupChannels,
+    loadChannelLayout,
+    moveInOrder,
+    persistChannelLayout,
+    planLayout,
+    snapshotLayout,
+    validateChannelColor
+} from '@/utils/channelLayouts'
+
+const defaultViewport = () => ({
+    start: 0,
+    duration: 0,
+    cursorLoc: 0.1,
+    recordingStart: null,
+    recordingEnd: null
+})
 
 // Store instance cache - maps instanceId to store instance
 const storeInstances = new Map()
@@ -44,6 +72,7 @@ export function createViewerStore(instanceId = 'default') {
     const viewerMontageScheme = ref('NOT_MONTAGED')
     const customMontageMap = ref({})
     const workspaceMontages = ref([])
+    const userMontages = ref(loadSavedMontages())
     const viewerErrors = ref(null)
     const needsRerender = ref(null)
     const activeViewer = ref({})
@@ -54,6 +83,84 @@ export function createViewerStore(instanceId = 'default') {
     const activeAnnotation = ref({})
     const viewerActiveTool = ref('pointer')
 
+    // Persisted annotation changes that can be undone or redone, most recent last
+    const annotationUndoStack = ref([])
+    const annotationRedoStack = ref([])
+
+    // Annotation list: filter and sort of the tabular view, and the last annotation the
+    // viewer was asked to jump to (watched by TSViewer, like needsRerender)
+    const annotationFilter = ref(defaultAnnotationFilter())
+    const annotationSort = ref({ key: 'start', order: 'ascending' })
+    const annotationFocus = ref(null)
+
+    // Keyboard shortcuts, per instance so two viewers can bind keys differently
+    const keyboardShortcuts = ref(defaultShortcutBindings())
+    const keyboardShortcutsEnabled = ref(true)
+
+    // Spectrogram lane under the traces
+    const spectrogramVisible = ref(false)
+    const spectrogramSettings = ref(defaultSpectrogramSettings())
+
+    // Time window the power spectrum panel analyses, or null while it is closed
+    const spectrumWindow = ref(null)
+
+    // Settings of the event-locked average panel (composables/streaming/averaging), or null
+    // while it is closed
+    const eventAverage = ref(null)
+
+    // What the viewer shows, mirrored from TSViewer so linked viewers and hosts can follow
+    // and steer it. Times in microseconds; cursorLoc is a fraction of the canvas width.
+    const viewport = ref(defaultViewport())
+
+    // Vertical scale in uV/mm, mirrored from TSViewer like the viewport; null until it is drawn
+    const verticalScale = ref(null)
+
+    // Link group this viewer belongs to, as published by the link registry, or null
+    const linkGroup = ref(null)
+
+    // Continuous playback; TSViewer advances the window while playbackActive is set. The
+    // last stop records why playback ended on its own ({reason, timeUs, annotationId}), or null.
+    const playbackActive = ref(false)
+    const playbackSettings = ref(defaultPlaybackSettings())
+    const playbackStop = ref(null)
+
+    // Channels waiting to be fitted to their rows ({channelIds, timestamp}), or null once
+    // TSPlotCanvas has set their gains (watched like annotationFocus)
+    const channelAutoscale = ref(null)
+
+    // Filters waiting to be applied ({payloads, timestamp}, each payload the filter modal's
+    // setFilters payload), or null once TSViewer has applied them (watched like annotationFocus)
+    const filterRequest = ref(null)
+
+    // Named channel groups ({id, name, color, collapsed}); members carry the id as `group`.
+    // Saved per package with the channel order and colours, see utils/channelLayouts.
+    const channelGroups = ref([])
+
+    // Caliper measurements (utils/calipers): the one the measure tool last took, and the
+    // pinned ones that stay on the traces, each with an id
+    const activeMeasurement = ref(null)
+    const pinnedMeasurements = ref([])
+    let nextMeasurementId = 1
+
+    // The hover readout (utils/cursorReadout): {timeUs, readings}, readings by channel id, each
+    // a reading or null, while the pointer is over the traces; null otherwise
+    const cursorReadout = ref(null)
+
+    // The detection run in progress or last finished (composables/useDetection), or null:
+    // {detector, label, status: 'reading' | 'writing' | 'done' | 'cancelled' | 'failed',
+    //  progress 0..1, hits, written, layerId, message}
+    const detectionJob = ref(null)
+
+    // Epoch scoring mode (composables/useScoring), or null while off:
+    // {layerId, epochUs, originUs, endUs, stages, autoAdvance, scores}, scores being the
+    // scoring layer's annotations indexed by epoch (utils/sleepScoring)
+    const scoring = ref(null)
+
+    // Bad channels by catalog id, each with the annotation that marks it in the artifact
+    // layer (utils/artifacts), and whether their traces are greyed out or left off
+    const badChannels = ref({})
+    const badChannelDisplay = ref('grey')
+
     const { openConnection } = useChannelDataRequest()
 
     // Getters (from original Vuex getters)
@@ -79,6 +186,10 @@ export function createViewerStore(instanceId = 'default') {
         }
     })
 
+    const shortcutIndex = computed(() => {
+        return buildShortcutIndex(keyboardShortcuts.value)
+    })
+
     const validateAnnotationLayers = () => {
         let hasErrors = false
 
@@ -108,6 +219,26 @@ export function createViewerStore(instanceId = 'default') {
         }
     })
 
+    // A channel's trace colour: its own, else its group's, else null for the default
+    const getChannelColor = computed(() => {
+        return (channel) => channelColorOf(channel, channelGroups.value)
+    })
+
+    // Whether a channel, or the channel a derivation leads with, is marked bad
+    const isChannelBad = computed(() => {
+        return (channel) => isBadChannel(channel, badChannels.value)
+    })
+
+    // Every loaded annotation as a table row, with its layer's name and color
+    const annotationRows = computed(() => {
+        return flattenAnnotations(viewerAnnotations.value)
+    })
+
+    // annotationRows after annotationFilter and annotationSort
+    const filteredAnnotationRows = computed(() => {
+        return sortAnnotations(filterAnnotations(annotationRows.value, annotationFilter.value), annotationSort.value)
+    })
+
     // Actions
     const setActiveViewer = (viewer) => {
       activeViewer.value = viewer;
@@ -133,6 +264,35 @@ export function createViewerStore(instanceId = 'default') {
         viewerErrors.value = errors
     }
 
+    const saveUserMontage = (montage) => {
+        const check = validateMontage(montage)
+        if (!check.ok) {
+            return check
+        }
+        const others = userMontages.value.filter(m => m.name !== montage.name)
+        userMontages.value = [...others, montage]
+        persistMontages(userMontages.value)
+        return check
+    }
+
+    const deleteUserMontage = (name) => {
+        userMontages.value = userMontages.value.filter(m => m.name !== name)
+        persistMontages(userMontages.value)
+    }
+
+    const importUserMontages = (text) => {
+        const { montages, errors } = parseMontages(text)
+        const imported = new Set(montages.map(m => m.name))
+        userMontages.value = [...userMontages.value.filter(m => !imported.has(m.name)), ...montages]
+        persistMontages(userMontages.value)
+        return { imported: montages.length, errors }
+    }
+
+    const exportUserMontages = (names) => {
+        const selected = names ? userMontages.value.filter(m => names.includes(m.name)) : userMontages.value
+        return serializeMontages(selected)
+    }
+
 
     const setNeedsRerender = (renderData) => {
         needsRerender.value = renderData
@@ -188,7 +348,8 @@ export function createViewerStore(instanceId = 'default') {
           throw new Error(`A "${assetType}" viewer asset requires a bundle url`)
         }
         const entry = await acquireClient(`tsviewer-${instanceId}`, url, {
-          onUrlExpired: data.onUrlExpired
+          onUrlExpired: data.onUrlExpired,
+          pageCache: config.pageCache
         })
         const catalogIndex = await ensureCatalog(entry)
         setActiveViewer({ channels: catalogIndex.details, content })
@@ -284,6 +445,50 @@ export function createViewerStore(instanceId = 'default') {
         viewerActiveTool.value = tool
     }
 
+    const setShortcut = (action, combos) => {
+        if (!SHORTCUT_ACTIONS.includes(action)) {
+            console.warn(`Unknown shortcut action: ${action}`)
+            return
+        }
+        const list = combos == null ? [] : (Array.isArray(combos) ? combos : [combos])
+        keyboardShortcuts.value = { ...keyboardShortcuts.value, [action]: [...list] }
+    }
+
+    const setShortcuts = (bindings) => {
+        Object.entries(bindings || {}).forEach(([action, combos]) => {
+            setShortcut(action, combos)
+        })
+    }
+
+    const resetShortcuts = () => {
+        keyboardShortcuts.value = defaultShortcutBindings()
+    }
+
+    const setKeyboardShortcutsEnabled = (enabled) => {
+        keyboardShortcutsEnabled.value = !!enabled
+    }
+
+    const setSpectrogramVisible = (visible) => {
+        spectrogramVisible.value = !!visible
+    }
+
+    const setSpectrogramSettings = (settings) => {
+        spectrogramSettings.value = { ...spectrogramSettings.value, ...settings }
+    }
+
+    const setSpectrumWindow = (window) => {
+        spectrumWindow.value = window && window.endUs > window.startUs
+            ? { startUs: window.startUs, endUs: window.endUs }
+            : null
+    }
+
+    // Opens the average panel or changes its settings; null closes it
+    const setEventAverage = (settings) => {
+        eventAverage.value = settings
+            ? { ...(eventAverage.value ?? defaultAveragingSettings()), ...settings }
+            : null
+    }
+
     const createLayer = (layer) => {
         // FIX: Validate layer structure before creating
         if (!layer.id && layer.id !== 0) {
@@ -324,6 +529,9 @@ export function createViewerStore(instanceId = 'default') {
         if (index >= 0) {
             viewerAnnotations.value.splice(index, 1)
         }
+        // The layer's annotations went with it, so their history can no longer be replayed
+        annotationUndoStack.value = withoutLayer(annotationUndoStack.value, layerData.id)
+        annotationRedoStack.value = withoutLayer(annotationRedoStack.value, layerData.id)
     }
 
     const createAnnotation = (annotation) => {
@@ -359,6 +567,88 @@ export function createViewerStore(instanceId = 'default') {
         }
     }
 
+    const annotationHistoryStack = (direction) => {
+        if (direction !== 'undo' && direction !== 'redo') {
+            throw new Error(`Unknown annotation history direction: ${direction}`)
+        }
+        return direction === 'undo' ? annotationUndoStack : annotationRedoStack
+    }
+
+    const pushAnnotationChange = (direction, change) => {
+        const stack = annotationHistoryStack(direction)
+        stack.value.push(change)
+        if (stack.value.length > ANNOTATION_HISTORY_LIMIT) {
+            stack.value.splice(0, stack.value.length - ANNOTATION_HISTORY_LIMIT)
+        }
+    }
+
+    const popAnnotationChange = (direction) => {
+        return annotationHistoryStack(direction).value.pop() ?? null
+    }
+
+    // Records a change the user made; a new change makes the redo stack stale
+    const recordAnnotationChange = (change) => {
+        pushAnnotationChange('undo', change)
+        annotationRedoStack.value = []
+    }
+
+    const remapAnnotationHistory = (oldId, newId) => {
+        annotationUndoStack.value = remapAnnotationId(annotationUndoStack.value, oldId, newId)
+        annotationRedoStack.value = remapAnnotationId(annotationRedoStack.value, oldId, newId)
+    }
+
+    const clearAnnotationHistory = () => {
+        annotationUndoStack.value = []
+        annotationRedoStack.value = []
+    }
+
+    // Merges into the current viewport; assigns nothing when no field changes, so a viewer
+    // echoing a position it was just sent does not notify its link group again
+    const setViewport = (changes) => {
+        const next = { ...viewport.value, ...changes }
+        if (Object.keys(next).some(key => next[key] !== viewport.value[key])) {
+            viewport.value = next
+        }
+    }
+
+    const setLinkGroup = (group) => {
+        linkGroup.value = group
+    }
+
+    // `stop` says why playback ended on its own; leave it out when the user paused
+    const setPlaybackActive = (active, stop = null) => {
+        playbackActive.value = !!active
+        playbackStop.value = active ? null : stop
+    }
+
+    const setPlaybackSettings = (settings) => {
+        validatePlaybackSettings(settings)
+        playbackSettings.value = { ...playbackSettings.value, ...settings }
+    }
+
+    // Merges into the current filter; pass the full defaultAnnotationFilter() shape to replace it
+    const setAnnotationFilter = (filter) => {
+        annotationFilter.value = { ...annotationFilter.value, ...filter }
+    }
+
+    const resetAnnotationFilter = () => {
+        annotationFilter.value = defaultAnnotationFilter()
+    }
+
+    const setAnnotationSort = ({ key = 'start', order = 'ascending' } = {}) => {
+        if (!ANNOTATION_SORT_KEYS.includes(key)) {
+            throw new Error(`Unknown annotation sort key: ${key}`)
+        }
+        annotationSort.value = { key, order: order === 'descending' ? 'descending' : 'ascending' }
+    }
+
+    // Asks the viewer to select the annotation and scroll to it; null once handled
+    const focusAnnotation = (annotation) => {
+        annotationFocus.value = annotation
+            ? { id: annotation.id, layerId: annotation.layer_id, start: annotation.start, timestamp: Date.now() }
+            : null
+    }
+
     const updateChannelProperty = (channelId, property, value) => {
         const channel = viewerChannels.value.find(ch => ch.id === channelId)
         if (channel) {
@@ -379,17 +669,277 @@ export function createViewerStore(instanceId = 'default') {
         updateChannelProperty(channelId, 'filter', filter)
     }
 
+    // Applies {gain, inverted, removeDc} -- any subset -- to each channel and repaints
+    const setChannelDisplay = (channelIds, settings) => {
+        const properties = channelDisplayProperties(settings)
+        for (const channelId of channelIds) {
+            for (const [property, value] of Object.entries(properties)) {
+                updateChannelProperty(channelId, property, value)
+            }
+        }
+        triggerRerender('channel-display')
+    }
+
+    const channelLayoutKey = () => activeViewer.value?.content?.id
+
+    const saveChannelLayout = () => {
+        persistChannelLayout(channelLayoutKey(), snapshotLayout(viewerChannels.value, channelGroups.value))
+    }
+
+    const findChannelGroup = (groupId) => {
+        const group = channelGroups.value.find(g => g.id === groupId)
+        if (!group) {
+            throw new Error(`Unknown channel group: ${groupId}`)
+        }
+        return group
+    }
+
+    // Draws `channelId` in front of `beforeId`, or last when `beforeId` is null
+    const moveChannel = (channelId, beforeId = null) => {
+        const order = moveInOrder(channelOrder(viewerChannels.value), channelId, beforeId)
+        order.forEach((id, rank) => updateChannelProperty(id, 'rank', rank))
+        saveChannelLayout()
+        triggerRerender('channel-layout')
+    }
+
+    // Replaces every group with one per value of a CHANNEL_GROUPINGS key
+    const groupChannelsBy = (grouping) => {
+        const ordered = channelOrder(viewerChannels.value).map(id => viewerChannels.value.find(ch => ch.id === id))
+        const groups = groupChannels(ordered, grouping)
+        viewerChannels.value.forEach(channel => {
+            if (channelGroups.value.some(g => g.id === channel.group && g.collapsed)) {
+                channel.visible = true
+            }
+        })
+        for (const { id, channels } of groups) {
+            channels.forEach(channelId => updateChannelProperty(channelId, 'group', id))
+        }
+        channelGroups.value = groups.map(({ id, name, color, collapsed }) => ({ id, name, color, collapsed }))
+        saveChannelLayout()
+        triggerRerender('channel-visibility')
+    }
+
+    // Adds a named group, moving the channels out of any group they were in; returns its id
+    const createChannelGroup = (name, channelIds, color = null) => {
+        if (color !== null) {
+            validateChannelColor(color)
+        }
+        const id = `custom:${name}`
+        if (channelGroups.value.some(g => g.id === id)) {
+            throw new Error(`A channel group named "${name}" already exists`)
+        }
+        channelGroups.value = [...channelGroups.value, { id, name, color, collapsed: false }]
+        channelIds.forEach(channelId => updateChannelProperty(channelId, 'group', id))
+        saveChannelLayout()
+        triggerRerender('channel-layout')
+        return id
+    }
+
+    // Removes a group; its channels stay where they are, ungrouped and shown
+    const deleteChannelGroup = (groupId) => {
+        findChannelGroup(groupId)
+        viewerChannels.value.forEach(channel => {
+            if (channel.group === groupId) {
+                channel.group = null
+                channel.visible = true
+            }
+        })
+        channelGroups.value = channelGroups.value.filter(g => g.id !== groupId)
+        saveChannelLayout()
+        triggerRerender('channel-visibility')
+    }
+
+    // Hides a collapsed group's channels, and shows them all again when it expands
+    const setChannelGroupCollapsed = (groupId, collapsed) => {
+        const group = findChannelGroup(groupId)
+        group.collapsed = !!collapsed
+        viewerChannels.value.forEach(channel => {
+            if (channel.group === groupId) {
+                channel.visible = !group.collapsed
+            }
+        })
+        saveChannelLayout()
+        triggerRerender('channel-visibility')
+    }
+
+    // A null colour returns the channels to their group's colour, or the default
+    const setChannelColor = (channelIds, color) => {
+        if (color !== null) {
+            validateChannelColor(color)
+        }
+        channelIds.forEach(channelId => updateChannelProperty(channelId, 'color', color))
+        saveChannelLayout()
+        triggerRerender('channel-layout')
+    }
+
+    const setChannelGroupColor = (groupId, color) => {
+        if (color !== null) {
+            validateChannelColor(color)
+        }
+        findChannelGroup(groupId).color = color
+        saveChannelLayout()
+        triggerRerender('channel-layout')
+    }
+
+    // Applies the layout saved for the active package, if any; returns whether there was one
+    const restoreChannelLayout = () => {
+        const layout = loadChannelLayout(channelLayoutKey())
+        if (!layout) {
+            return false
+        }
+        const { properties, groups } = planLayout(viewerChannels.value, layout)
+        viewerChannels.value.forEach(channel => {
+            Object.assign(channel, properties.get(channel.id))
+            if (groups.some(g => g.id === channel.group && g.collapsed)) {
+                channel.visible = false
+            }
+        })
+        channelGroups.value = groups
+        triggerRerender('channel-visibility')
+        return true
+    }
+
+    // Back to catalog order with no groups or colours, and forgets the saved layout
+    const resetChannelLayout = () => {
+        viewerChannels.value.forEach((channel, rank) => {
+            Object.assign(channel, { rank, group: null, color: null })
+            channel.visible = true
+        })
+        channelGroups.value = []
+        persistChannelLayout(channelLayoutKey(), null)
+        triggerRerender('channel-visibility')
+    }
+
+    const setActiveMeasurement = (measurement) => {
+        activeMeasurement.value = measurement
+    }
+
+    // Keeps the active measurement on the traces; returns its id, or null without one
+    const pinMeasurement = () => {
+        if (!activeMeasurement.value) {
+            return null
+        }
+        const pinned = { ...activeMeasurement.value, id: `measurement-${nextMeasurementId++}` }
+        pinnedMeasurements.value = [...pinnedMeasurements.value, pinned]
+        activeMeasurement.value = null
+        return pinned.id
+    }
+
+    const unpinMeasurement = (measurementId) => {
+        pinnedMeasurements.value = pinnedMeasurements.value.filter(m => m.id !== measurementId)
+    }
+
+    const clearMeasurements = () => {
+        activeMeasurement.value = null
+        pinnedMeasurements.value = []
+    }
+
+    const setCursorReadout = (readout) => {
+        cursorReadout.value = readout
+    }
+
+    // Merges into the current detection job, or starts one from `fields`; null clears it
+    const updateDetectionJob = (fields) => {
+        detectionJob.value = fields ? { ...(detectionJob.value ?? {}), ...fields } : null
+    }
+
+    const setScoring = (settings) => {
+        scoring.value = settings ? { ...settings, scores: { ...(settings.scores ?? {}) } } : null
+    }
+
+    // Records an epoch's score, or forgets it when `score` is null
+    const setEpochScore = (epochIndex, score) => {
+        if (!scoring.value) {
+            return
+        }
+        const scores = { ...scoring.value.scores }
+        if (score) {
+            scores[epochIndex] = score
+        } else {
+            delete scores[epochIndex]
+        }
+        scoring.value = { ...scoring.value, scores }
+    }
+
+    // Replaces every bad channel, as when the artifact layer is read
+    const setBadChannels = (index) => {
+        badChannels.value = { ...index }
+        triggerRerender('channel-display')
+    }
+
+    // Marks a channel bad ({annotationId}), or good again when `bad` is null
+    const setChannelBad = (channelId, bad) => {
+        const next = { ...badChannels.value }
+        if (bad) {
+            next[channelId] = bad
+        } else {
+            delete next[channelId]
+        }
+        badChannels.value = next
+        triggerRerender('channel-display')
+    }
+
+    const setBadChannelDisplay = (display) => {
+        if (!BAD_CHANNEL_DISPLAYS.includes(display)) {
+            throw new Error(`Unknown bad channel display: ${display}`)
+        }
+        badChannelDisplay.value = display
+        triggerRerender('channel-display')
+    }
+
+    const setVerticalScale = (uvPerMm) => {
+        verticalScale.value = uvPerMm
+    }
+
+    // Asks the viewer to apply filters as the filter modal would; null once handled
+    const requestFilters = (payloads) => {
+        filterRequest.value = payloads ? { payloads: [...payloads], timestamp: Date.now() } : null
+    }
+
+    // Asks the viewer to fit each channel's gain to its row; null once handled
+    const requestChannelAutoscale = (channelIds) => {
+        channelAutoscale.value = channelIds ? { channelIds: [...channelIds], timestamp: Date.now() } : null
+    }
+
     // Reset all state
     const resetViewer = () => {
         viewerChannels.value = []
         viewerMontageScheme.value = 'NOT_MONTAGED'
         customMontageMap.value = {}
         workspaceMontages.value = []
+        // userMontages are left alone: they belong to the browser, not to the package
         viewerErrors.value = null
         viewerAnnotations.value = []
         activeAnnotationLayer.value = {}
         activeAnnotation.value = {}
+        annotationUndoStack.value = []
+        annotationRedoStack.value = []
+        annotationFilter.value = defaultAnnotationFilter()
+        annotationSort.value = { key: 'start', order: 'ascending' }
+        annotationFocus.value = null
         viewerActiveTool.value = 'pointer'
+        keyboardShortcuts.value = defaultShortcutBindings()
+        keyboardShortcutsEnabled.value = true
+        spectrogramVisible.value = false
+        spectrogramSettings.value = defaultSpectrogramSettings()
+        spectrumWindow.value = null
+        eventAverage.value = null
+        viewport.value = defaultViewport()
+        playbackActive.value = false
+        playbackSettings.value = defaultPlaybackSettings()
+        playbackStop.value = null
+        channelAutoscale.value = null
+        filterRequest.value = null
+        verticalScale.value = null
+        channelGroups.value = []
+        activeMeasurement.value = null
+        pinnedMeasurements.value = []
+        cursorReadout.value = null
+        detectionJob.value = null
+        scoring.value = null
+        badChannels.value = {}
+        badChannelDisplay.value = 'grey'
+        // linkGroup is left alone: membership is the host's choice and outlives a reset
         activeViewer.value = {}
         Object.keys(config).forEach(key => {
           delete config[key]
@@ -413,13 +963,41 @@ export function createViewerStore(instanceId = 'default') {
         viewerMontageScheme,
         customMontageMap,
         workspaceMontages,
+        userMontages,
         viewerErrors,
         needsRerender,
         viewerAnnotations,
         activeAnnotationLayer,
         activeAnnotation,
+        annotationUndoStack,
+        annotationRedoStack,
+        annotationFilter,
+        annotationSort,
+        annotationFocus,
         activeViewer,
         viewerActiveTool,
+        keyboardShortcuts,
+        keyboardShortcutsEnabled,
+        spectrogramVisible,
+        spectrogramSettings,
+        spectrumWindow,
+        eventAverage,
+        viewport,
+        verticalScale,
+        linkGroup,
+        playbackActive,
+        playbackSettings,
+        playbackStop,
+        channelAutoscale,
+        filterRequest,
+        channelGroups,
+        activeMeasurement,
+        pinnedMeasurements,
+        cursorReadout,
+        detectionJob,
+        scoring,
+        badChannels,
+        badChannelDisplay,
         config,
 
         // Getters
@@ -427,6 +1005,11 @@ export function createViewerStore(instanceId = 'default') {
         viewerSelectedChannels,
         getViewerActiveLayer,
         getAnnotationById,
+        annotationRows,
+        filteredAnnotationRows,
+        shortcutIndex,
+        getChannelColor,
+        isChannelBad,
 
         // Actions
         setChannels,
@@ -434,20 +1017,69 @@ export function createViewerStore(instanceId = 'default') {
         setCustomMontageMap,
         setWorkspaceMontages,
         setViewerErrors,
+        saveUserMontage,
+        deleteUserMontage,
+        importUserMontages,
+        exportUserMontages,
         setAnnotations,
         setActiveAnnotationLayer,
         setActiveAnnotation,
         setActiveTool,
+        setShortcut,
+        setShortcuts,
+        resetShortcuts,
+        setKeyboardShortcutsEnabled,
+        setSpectrogramVisible,
+        setSpectrogramSettings,
+        setSpectrumWindow,
+        setEventAverage,
+        setViewport,
+        setVerticalScale,
+        setLinkGroup,
+        setPlaybackActive,
+        setPlaybackSettings,
         createLayer,
         updateLayer,
         deleteLayer,
         createAnnotation,
         updateAnnotation,
         deleteAnnotation,
+        recordAnnotationChange,
+        popAnnotationChange,
+        pushAnnotationChange,
+        remapAnnotationHistory,
+        clearAnnotationHistory,
+        setAnnotationFilter,
+        resetAnnotationFilter,
+        setAnnotationSort,
+        focusAnnotation,
         updateChannelProperty,
         updateChannelVisibility,
         updateChannelSelection,
         updateChannelFilter,
+        setChannelDisplay,
+        requestChannelAutoscale,
+        requestFilters,
+        moveChannel,
+        groupChannelsBy,
+        createChannelGroup,
+        deleteChannelGroup,
+        setChannelGroupCollapsed,
+        setChannelColor,
+        setChannelGroupColor,
+        restoreChannelLayout,
+        resetChannelLayout,
+        setActiveMeasurement,
+        pinMeasurement,
+        unpinMeasurement,
+        clearMeasurements,
+        setCursorReadout,
+        updateDetectionJob,
+        setScoring,
+        setEpochScore,
+        setBadChannels,
+        setChannelBad,
+        setBadChannelDisplay,
         validateAnnotationLayers,
         resetViewer,
         triggerRerender,
@@ -0,0 +1,451 @@
+// utils/annotationFormats.js
+//
+// Annotation interchange with other tools: BIDS events.tsv, EDF+ annotations and a
+// JSON document of whole layers. Every format goes through one neutral shape,
+//
+//   InterchangeAnnotation = { label, description, startUs, durationUs, channels }
+//
+// where `startUs` is absolute, like the viewer's own annotation times, and `channels`
+// lists channel NAMES (ids mean nothing to another tool), or is null for an annotation
+// on every channel.
+
+import { encodeEdf } from '../composables/streaming/exporters'
+
+/** Formats annotations can be exported to and imported from. */
+export const ANNOTATION_FORMATS = Object.freeze([
+    { value: 'bids', label: 'BIDS events.tsv', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+    { value: 'edf', label: 'EDF+ annotations', extension: 'edf', mimeType: 'application/octet-stream' },
+    { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' }
+])
+
+/** Tag written into exported annotation files, so an import can tell them from other JSON. */
+export const ANNOTATION_FILE_FORMAT = 'pennsieve-tsviewer-annotations'
+
+/** Version of the exported file layout. */
+export const ANNOTATION_FILE_VERSION = 1
+
+/** Label an imported annotation gets when its source has none. */
+const DEFAULT_LABEL = 'Event'
+
+const BIDS_MISSING = 'n/a'
+
+/**
+ * Converts viewer annotation layers to interchange layers. Annotations may be the viewer's
+ * own or as storage answers them, with an `end` in place of a `duration`.
+ *
+ * @param {Array<{name: string, hexColor?: string, description?: string, annotations?: object[]}>} layers `viewerAnnotations` entries.
+ * @param {Map<string, string>} channelNameById Channel names by server id.
+ * @returns {Array<{name: string, color: ?string, description: string, annotations: InterchangeAnnotation[]}>}
+ */
+export function collectLayers(layers, channelNameById) {
+    return layers.map((layer) => ({
+        name: layer.name,
+        color: layer.hexColor ?? null,
+        description: layer.description || '',
+        annotations: (layer.annotations || [])
+            .map((annotation) => ({
+                label: annotation.label || annotation.name || '',
+                description: annotation.description || '',
+                startUs: annotation.start,
+                durationUs: annotation.duration ?? Math.max(0, (annotation.end ?? annotation.start) - annotation.start),
+                channels: annotation.allChannels || !annotation.channelIds?.length
+                    ? null
+                    : annotation.channelIds.map((id) => channelNameById.get(id) ?? id)
+            }))
+            .sort((a, b) => a.startUs - b.startUs)
+    }))
+}
+
+// ============================================
+// BIDS events.tsv
+// ============================================
+
+const tsvCell = (value) => {
+    const text = String(value ?? '').replace(/[\t\r\n]+/g, ' ')
+    return text === '' ? BIDS_MISSING : text
+}
+
+/**
+ * Serializes layers as a BIDS `events.tsv`.
+ *
+ * `onset` and `duration` are in seconds, onsets from `originUs` (the recording start).
+ * `trial_type` carries the label. The optional BIDS `channel` column lists channel names
+ * comma-separated, `n/a` meaning every channel; `layer` and `description` are extra
+ * columns, which BIDS permits.
+ *
+ * @param {ReturnType<typeof collectLayers>} layers
+ * @param {number} originUs
+ * @returns {string}
+ */
+export function toBidsEvents(layers, originUs) {
+    const rows = layers
+        .flatMap((layer) => layer.annotations.map((annotation) => ({ layer: layer.name, ...annotation })))
+        .sort((a, b) => a.startUs - b.startUs)
+    const lines = [['onset', 'duration', 'trial_type', 'channel', 'layer', 'description'].join('\t')]
+    for (const row of rows) {
+        lines.push([
+            String(Number(((row.startUs - originUs) / 1e6).toFixed(6))),
+            String(Number((row.durationUs / 1e6).toFixed(6))),
+            tsvCell(row.label),
+            tsvCell(row.channels?.join(',')),
+            tsvCell(row.layer),
+            tsvCell(row.description)
+        ].join('\t'))
+    }
+    return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parses a BIDS `events.tsv`.
+ *
+ * Only `onset` is required. The label is taken from `trial_type`, then `value`; a missing
+ * or `n/a` duration is 0. Rows whose onset is not a number are left out with an issue.
+ *
+ * @param {string} text
+ * @param {number} originUs Recording start the onsets count from.
+ * @returns {{annotations: InterchangeAnnotation[], issues: string[]}}
+ */
+export function parseBidsEvents(text, originUs) {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '')
+    if (lines.length === 0) {
+        return { annotations: [], issues: ['The file is empty'] }
+    }
+    const header = lines[0].split('\t').map((name) => name.trim())
+    const column = (name) => header.indexOf(name)
+    const onsetAt = column('onset')
+    if (onsetAt < 0) {
+        return { annotations: [], issues: ['Not a BIDS events file: there is no onset column'] }
+    }
+    const durationAt = column('duration')
+    const labelAt = column('trial_type') >= 0 ? column('trial_type') : column('value')
+    const channelAt = column('channel')
+    const descriptionAt = column('description')
+
+    const annotations = []
+    const issues = []
+    lines.slice(1).forEach((line, i) => {
+        const cells = line.split('\t')
+        const cell = (at) => {
+            const value = at >= 0 ? (cells[at] ?? '').trim() : ''
+            return value === BIDS_MISSING ? '' : value
+        }
+        const onset = Number(cell(onsetAt))
+        if (cell(onsetAt) === '' || !Number.isFinite(onset)) {
+            issues.push(`Row ${i + 2}: onset "${cells[onsetAt] ?? ''}" is not a number`)
+            return
+        }
+        const duration = Number(cell(durationAt) || 0)
+        const channels = cell(channelAt)
+        annotations.push({
+            label: cell(labelAt),
+            description: cell(descriptionAt),
+            startUs: originUs + onset * 1e6,
+            durationUs: Number.isFinite(duration) ? duration * 1e6 : 0,
+            channels: channels ? channels.split(',').map((name) => name.trim()).filter(Boolean) : null
+        })
+    })
+    return { annotations, issues }
+}
+
+// ============================================
+// EDF+ annotations
+// ============================================
+
+/**
+ * Serializes layers as an annotations-only EDF+ file, timed from `originUs`.
+ *
+ * EDF+ annotations have no channel field, so channel-specific annotations are written
+ * as plain labels.
+ *
+ * @param {ReturnType<typeof collectLayers>} layers
+ * @param {number} originUs
+ * @returns {Uint8Array}
+ */
+export function toEdfAnnotations(layers, originUs) {
+    const annotations = layers
+        .flatMap((layer) => layer.annotations)
+        .map((annotation) => ({ startUs: annotation.startUs, durationUs: annotation.durationUs, text: annotation.label }))
+    return encodeEdf([], originUs, originUs, { annotations })
+}
+
+// A TAL's onset is signed, its duration is not
+const TAL_ONSET = /^[+-]\d+(\.\d*)?$/
+const TAL_DURATION = /^\d+(\.\d*)?$/
+
+const ascii = (bytes, from, length) => String.fromCharCode(...bytes.subarray(from, from + length)).trim()
+
+/**
+ * Start of an EDF recording in microseconds, from its `dd.mm.yy` and `hh.mm.ss` header
+ * fields read as UTC. Two-digit years from 85 on are 19xx, as the EDF spec has it.
+ */
+const edfStartUs = (date, time) => {
+    const [day, month, year] = date.split('.').map(Number)
+    const [hours, minutes, seconds] = time.split('.').map(Number)
+    const fullYear = year >= 85 ? 1900 + year : 2000 + year
+    return Date.UTC(fullYear, month - 1, day, hours, minutes, seconds) * 1000
+}
+
+/**
+ * Reads the annotations of an EDF+ file: an annotations-only file, or a recording with
+ * an `EDF Annotations` signal.
+ *
+ * The time-keeping TAL that opens every data record is skipped. An annotation with
+ * several texts becomes one annotation per text.
+ *
+ * @param {Uint8Array} bytes
+ * @returns {{annotations: InterchangeAnnotation[], issues: string[], startUs: ?number}}
+ */
+export function parseEdfAnnotations(bytes) {
+    if (bytes.length < 256 || ascii(bytes, 0, 8) !== '0') {
+        return { annotations: [], issues: ['Not an EDF file'], startUs: null }
+    }
+    const signalCount = Number(ascii(bytes, 252, 4))
+    const headerBytes = Number(ascii(bytes, 184, 8))
+    const recordCount = Number(ascii(bytes, 236, 8))
+    if (!(signalCount > 0) || headerBytes !== 256 * (signalCount + 1) || bytes.length < headerBytes) {
+        return { annotations: [], issues: ['The EDF header is damaged'], startUs: null }
+    }
+
+    const labels = []
+    const samples = []
+    for (let s = 0; s < signalCount; s++) {
+        labels.push(ascii(bytes, 256 + s * 16, 16))
+        samples.push(Number(ascii(bytes, 256 + signalCount * 216 + s * 8, 8)))
+    }
+    const annotationSignals = labels.flatMap((label, s) => (label === 'EDF Annotations' ? [s] : []))
+    if (annotationSignals.length === 0) {
+        return { annotations: [], issues: ['The file has no EDF+ annotation signal'], startUs: null }
+    }
+
+    const startUs = edfStartUs(ascii(bytes, 168, 8), ascii(bytes, 176, 8))
+    const recordBytes = 2 * samples.reduce((sum, n) => sum + n, 0)
+    const records = recordCount >= 0 ? recordCount : Math.floor((bytes.length - headerBytes) / recordBytes)
+    const decoder = new TextDecoder()
+    const annotations = []
+    const issues = []
+
+    for (let r = 0; r < records; r++) {
+        for (const s of annotationSignals) {
+            let offset = headerBytes + r * recordBytes
+            for (let before = 0; before < s; before++) offset += 2 * samples[before]
+            if (offset + 2 * samples[s] > bytes.length) {
+                issues.push(`The file ends inside data record ${r + 1}`)
+                return { annotations, issues, startUs }
+            }
+            const tals = decoder.decode(bytes.subarray(offset, offset + 2 * samples[s])).split('\x00')
+            for (const tal of tals) {
+                const [timing, ...texts] = tal.split('\x14')
+                const [onset, duration] = timing.split('\x15')
+                if (!TAL_ONSET.test(onset) || (duration !== undefined && !TAL_DURATION.test(duration))) continue
+                for (const text of texts.filter((value) => value !== '')) {
+                    annotations.push({
+                        label: text,
+                        description: '',
+                        startUs: startUs + Number(onset) * 1e6,
+                        durationUs: duration ? Number(duration) * 1e6 : 0,
+                        channels: null
+                    })
+                }
+            }
+        }
+    }
+    return { annotations, issues, startUs }
+}
+
+// ============================================
+// JSON
+// ============================================
+
+/**
+ * Serializes layers as the viewer's JSON annotation file. Onsets and durations are in
+ * seconds, onsets from `recordingStartUs`, so the file also applies to a copy of the
+ * recording stored with a different clock.
+ *
+ * @param {ReturnType<typeof collectLayers>} layers
+ * @param {number} originUs
+ * @returns {string}
+ */
+export function toAnnotationJson(layers, originUs) {
+    return JSON.stringify({
+        format: ANNOTATION_FILE_FORMAT,
+        version: ANNOTATION_FILE_VERSION,
+        recordingStartUs: originUs,
+        layers: layers.map((layer) => ({
+            name: layer.name,
+            color: layer.color,
+            description: layer.description,
+            annotations: layer.annotations.map((annotation) => ({
+                label: annotation.label,
+                description: annotation.description,
+                onset: (annotation.startUs - originUs) / 1e6,
+                duration: annotation.durationUs / 1e6,
+                channels: annotation.channels
+            }))
+        }))
+    }, null, 2)
+}
+
+/**
+ * Parses the viewer's JSON annotation file. Annotations of every layer are returned
+ * together, in file order.
+ *
+ * @param {string} text
+ * @param {number} originUs Recording start the onsets count from.
+ * @returns {{annotations: InterchangeAnnotation[], issues: string[]}}
+ */
+export function parseAnnotationJson(text, originUs) {
+    let doc
+    try {
+        doc = JSON.parse(text)
+    } catch (error) {
+        return { annotations: [], issues: [`Not a JSON file: ${error.message}`] }
+    }
+    if (doc?.format !== ANNOTATION_FILE_FORMAT || !Array.isArray(doc.layers)) {
+        return { annotations: [], issues: ['Not an annotation file'] }
+    }
+    if (doc.version > ANNOTATION_FILE_VERSION) {
+        return { annotations: [], issues: [`Annotation file version ${doc.version} is newer than this viewer supports`] }
+    }
+
+    const annotations = []
+    const issues = []
+    doc.layers.forEach((layer, l) => {
+        (Array.isArray(layer?.annotations) ? layer.annotations : []).forEach((annotation, i) => {
+            if (!Number.isFinite(annotation?.onset)) {
+                issues.push(`${layer?.name ?? `Layer ${l + 1}`}, annotation ${i + 1}: onset is not a number`)
+                return
+            }
+            annotations.push({
+                label: typeof annotation.label === 'string' ? annotation.label : '',
+                description: typeof annotation.description === 'string' ? annotation.description : '',
+                startUs: originUs + annotation.onset * 1e6,
+                durationUs: Number.isFinite(annotation.duration) ? annotation.duration * 1e6 : 0,
+                channels: Array.isArray(annotation.channels) ? annotation.channels.map(String) : null
+            })
+        })
+    })
+    return { annotations, issues }
+}
+
+// ============================================
+// Import planning
+// ============================================
+
+/**
+ * Maps imported annotations onto this recording, for a preview before anything is saved.
+ *
+ * Each row carries its issues. An `error` keeps the row out of the import: a start or end
+ * outside the recording, or a negative duration. A `warning` does not: unknown channels are
+ * dropped (and an annotation left with none goes on every channel), and a missing label
+ * becomes "Event".
+ *
+ * @param {InterchangeAnnotation[]} annotations
+ * @param {{channels: Array<{id: string, name: string}>, startUs: number, endUs: number}} recording
+ * @returns {Array<{label: string, description: string, start: number, duration: number, channelIds: string[], allChannels: boolean, issues: Array<{level: 'error' | 'warning', message: string}>}>}
+ */
+export function planAnnotationImport(annotations, recording) {
+    const idByName = new Map(recording.channels.map((channel) => [channel.name, channel.id]))
+    const seconds = (us) => `${((us - recording.startUs) / 1e6).toFixed(3)} s`
+
+    return annotations.map((annotation) => {
+        const issues = []
+        const start = annotation.startUs
+        const duration = annotation.durationUs
+        const end = start + duration
+
+        if (duration < 0) {
+            issues.push({ level: 'error', message: 'Negative duration' })
+        }
+        if (start < recording.startUs || start > recording.endUs) {
+            issues.push({ level: 'error', message: `Starts at ${seconds(start)}, outside the recording` })
+        } else if (end > recording.endUs) {
+            issues.push({ level: 'error', message: `Ends at ${seconds(end)}, after the recording` })
+        }
+
+        let channelIds = []
+        if (annotation.channels) {
+            const unknown = annotation.channels.filter((name) => !idByName.has(name))
+            channelIds = annotation.channels.filter((name) => idByName.has(name)).map((name) => idByName.get(name))
+            if (unknown.length > 0) {
+                issues.push({
+                    level: 'warning',
+                    message: channelIds.length > 0
+                        ? `Unknown channel(s) dropped: ${unknown.join(', ')}`
+                        : `Unknown channel(s) ${unknown.join(', ')}; placed on every channel`
+                })
+            }
+        }
+
+        const label = annotation.label.trim()
+        if (label === '') {
+            issues.push({ level: 'warning', message: `No label; imported as "${DEFAULT_LABEL}"` })
+        }
+
+        return {
+            label: label || DEFAULT_LABEL,
+            description: annotation.description,
+            start,
+            duration,
+            channelIds,
+            allChannels: channelIds.length === 0,
+            issues
+        }
+    })
+}
+
+/**
+ * Parses an annotation file in one of {@link ANNOTATION_FORMATS}.
+ *
+ * @param {string} format An `ANNOTATION_FORMATS` value.
+ * @param {string | Uint8Array} content Text for BIDS and JSON, bytes for EDF+.
+ * @param {number} originUs Recording start; BIDS and JSON onsets count from it, EDF+ carries its own clock.
+ * @returns {{annotations: InterchangeAnnotation[], issues: string[]}}
+ */
+export function parseAnnotationFile(format, content, originUs) {
+    switch (format) {
+        case 'bids':
+            return parseBidsEvents(content, originUs)
+        case 'edf':
+            return parseEdfAnnotations(content)
+        case 'json':
+            return parseAnnotationJson(content, originUs)
+        default:
+            return { annotations: [], issues: [`Unknown annotation format "${format}"`] }
+    }
+}
+
+/**
+ * Serializes layers in one of {@link ANNOTATION_FORMATS}.
+ *
+ * @param {string} format An `ANNOTATION_FORMATS` value.
+ * @param {ReturnType<typeof collectLayers>} layers
+ * @param {number} originUs Recording start.
+ * @returns {string | Uint8Array}
+ * @throws {Error} For an unknown format, or an EDF+ export with no annotations.
+ */
+export function serializeAnnotationFile(format, layers, originUs) {
+    switch (format) {
+        case 'bids':
+            return toBidsEvents(layers, originUs)
+        case 'edf':
+            return toEdfAnnotations(layers, originUs)
+        case 'json':
+            return toAnnotationJson(layers, originUs)
+        default:
+            throw new Error(`Unknown annotation format "${format}"`)
+    }
+}
+
+/**
+ * The format a file name suggests, for preselecting the import format.
+ *
+ * @param {string} name
+ * @returns {?string} An `ANNOTATION_FORMATS` value, or null.
+ */
+export function annotationFormatFor(name) {
+    const lower = name.toLowerCase()
+    if (lower.endsWith('.tsv')) return 'bids'
+    if (lower.endsWith('.edf') || lower.endsWith('.edf+')) return 'edf'
+    if (lower.endsWith('.json')) return 'json'
+    return null
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import {
+    ANNOTATION_FILE_FORMAT,
+    annotationFormatFor,
+    collectLayers,
+    parseAnnotationFile,
+    parseAnnotationJson,
+    parseBidsEvents,
+    parseEdfAnnotations,
+    planAnnotationImport,
+    serializeAnnotationFile,
+    toBidsEvents
+} from '@/utils/annotationFormats'
+
+// 2024-01-01T00:00:00Z
+const START_US = 1704067200000000
+
+const channelNames = new Map([['N:channel:1', 'Fp1'], ['N:channel:2', 'Fp2']])
+
+const viewerLayers = [
+    {
+        name: 'Seizures',
+        hexColor: '#ff0000',
+        description: 'Reviewed',
+        annotations: [
+            { label: 'Onset', description: 'clinical\tsigns', start: START_US + 12.5e6, duration: 4e6, channelIds: ['N:channel:1'], allChannels: false },
+            { label: 'Spike', description: '', start: START_US + 2e6, duration: 0, channelIds: [], allChannels: true }
+        ]
+    },
+    {
+        name: 'Artifacts',
+        hexColor: '#00ff00',
+        annotations: [
+            { label: 'Chewing', start: START_US + 5e6, duration: 1.5e6, channelIds: ['N:channel:1', 'N:channel:2'], allChannels: false }
+        ]
+    }
+]
+
+describe('collectLayers', () => {
+    it('names channels, sorts by start and treats all-channel annotations as channel-free', () => {
+        const [seizures, artifacts] = collectLayers(viewerLayers, channelNames)
+        expect(seizures).toMatchObject({ name: 'Seizures', color: '#ff0000', description: 'Reviewed' })
+        expect(seizures.annotations.map((a) => a.label)).toEqual(['Spike', 'Onset'])
+        expect(seizures.annotations[0].channels).toBeNull()
+        expect(seizures.annotations[1].channels).toEqual(['Fp1'])
+        expect(artifacts.annotations[0].channels).toEqual(['Fp1', 'Fp2'])
+    })
+})
+
+describe('BIDS events', () => {
+    it('writes seconds from the recording start and n/a for every channel', () => {
+        const tsv = toBidsEvents(collectLayers(viewerLayers, channelNames), START_US)
+        expect(tsv.split('\n')).toEqual([
+            'onset\tduration\ttrial_type\tchannel\tlayer\tdescription',
+            '2\t0\tSpike\tn/a\tSeizures\tn/a',
+            '5\t1.5\tChewing\tFp1,Fp2\tArtifacts\tn/a',
+            '12.5\t4\tOnset\tFp1\tSeizures\tclinical signs',
+            ''
+        ])
+    })
+
+    it('reads its own output back', () => {
+        const layers = collectLayers(viewerLayers, channelNames)
+        const { annotations, issues } = parseBidsEvents(toBidsEvents(layers, START_US), START_US)
+        expect(issues).toEqual([])
+        expect(annotations[2]).toEqual({
+            label: 'Onset', description: 'clinical signs', startUs: START_US + 12.5e6, durationUs: 4e6, channels: ['Fp1']
+        })
+        expect(annotations[0].channels).toBeNull()
+    })
+
+    it('falls back to the value column and reports rows without an onset', () => {
+        const { annotations, issues } = parseBidsEvents('onset\tvalue\n1.0\tstim\nn/a\tstim\n', START_US)
+        expect(annotations).toEqual([{ label: 'stim', description: '', startUs: START_US + 1e6, durationUs: 0, channels: null }])
+        expect(issues).toEqual(['Row 3: onset "n/a" is not a number'])
+        expect(parseBidsEvents('time\tlabel\n', START_US).issues[0]).toMatch(/no onset column/)
+    })
+})
+
+describe('EDF+ annotations', () => {
+    it('round-trips labels and times through an annotations-only file', () => {
+        const bytes = serializeAnnotationFile('edf', collectLayers(viewerLayers, channelNames), START_US)
+        const { annotations, issues, startUs } = parseEdfAnnotations(bytes)
+        expect(issues).toEqual([])
+        expect(startUs).toBe(START_US)
+        expect(annotations.map(({ label, startUs: at, durationUs }) => [label, at - START_US, durationUs])).toEqual([
+            ['Spike', 2e6, 0],
+            ['Onset', 12.5e6, 4e6],
+            ['Chewing', 5e6, 1.5e6]
+        ])
+        expect(annotations.every((a) => a.channels === null)).toBe(true)
+    })
+
+    it('rejects files that are not EDF', () => {
+        expect(parseEdfAnnotations(new Uint8Array(10)).issues).toEqual(['Not an EDF file'])
+    })
+})
+
+describe('JSON annotation files', () => {
+    it('keeps layers and reads back relative to the target recording', () => {
+        const text = serializeAnnotationFile('json', collectLayers(viewerLayers, channelNames), START_US)
+        const doc = JSON.parse(text)
+        expect(doc.format).toBe(ANNOTATION_FILE_FORMAT)
+        expect(doc.layers.map((layer) => layer.name)).toEqual(['Seizures', 'Artifacts'])
+        expect(doc.layers[0].annotations[1]).toMatchObject({ label: 'Onset', onset: 12.5, duration: 4 })
+
+        const { annotations } = parseAnnotationJson(text, 1e6)
+        expect(annotations).toHaveLength(3)
+        expect(annotations[1].startUs).toBe(1e6 + 12.5e6)
+    })
+
+    it('reports malformed documents and annotations', () => {
+        expect(parseAnnotationJson('{', 0).issues[0]).toMatch(/Not a JSON file/)
+        expect(parseAnnotationJson('{"layers": []}', 0).issues).toEqual(['Not an annotation file'])
+        const doc = { format: ANNOTATION_FILE_FORMAT, version: 1, layers: [{ name: 'L', annotations: [{ label: 'x' }] }] }
+        expect(parseAnnotationJson(JSON.stringify(doc), 0).issues).toEqual(['L, annotation 1: onset is not a number'])
+    })
+})
+
+describe('planAnnotationImport', () => {
+    const recording = {
+        channels: [{ id: 'N:channel:1', name: 'Fp1' }, { id: 'N:channel:2', name: 'Fp2' }],
+        startUs: START_US,
+        endUs: START_US + 60e6
+    }
+    const annotation = (overrides) => ({ label: 'A', description: '', startUs: START_US + 1e6, durationUs: 1e6, channels: null, ...overrides })
+
+    it('maps channel names to ids and imports clean rows without issues', () => {
+        const [row] = planAnnotationImport([annotation({ channels: ['Fp2'] })], recording)
+        expect(row).toMatchObject({ label: 'A', start: START_US + 1e6, duration: 1e6, channelIds: ['N:channel:2'], allChannels: false, issues: [] })
+    })
+
+    it('drops unknown channels with a warning', () => {
+        const [some, none] = planAnnotationImport([
+            annotation({ channels: ['Fp1', 'T3'] }),
+            annotation({ channels: ['T3'] })
+        ], recording)
+        expect(some.channelIds).toEqual(['N:channel:1'])
+        expect(some.issues).toEqual([{ level: 'warning', message: 'Unknown channel(s) dropped: T3' }])
+        expect(none.allChannels).toBe(true)
+        expect(none.issues[0].message).toMatch(/placed on every channel/)
+    })
+
+    it('flags times outside the recording as errors', () => {
+        const rows = planAnnotationImport([
+            annotation({ startUs: START_US - 1e6 }),
+            annotation({ startUs: START_US + 59.5e6 }),
+            annotation({ durationUs: -1 })
+        ], recording)
+        expect(rows[0].issues).toEqual([{ level: 'error', message: 'Starts at -1.000 s, outside the recording' }])
+        expect(rows[1].issues).toEqual([{ level: 'error', message: 'Ends at 60.500 s, after the recording' }])
+        expect(rows[2].issues.map((issue) => issue.level)).toEqual(['error'])
+    })
+
+    it('labels unlabeled annotations', () => {
+        const [row] = planAnnotationImport([annotation({ label: '  ' })], recording)
+        expect(row.label).toBe('Event')
+        expect(row.issues[0].level).toBe('warning')
+    })
+})
+
+describe('format dispatch', () => {
+    it('guesses the format from the file name', () => {
+        expect(annotationFormatFor('sub-01_task-rest_events.tsv')).toBe('bids')
+        expect(annotationFormatFor('scoring.EDF')).toBe('edf')
+        expect(annotationFormatFor('layers.json')).toBe('json')
+        expect(annotationFormatFor('notes.txt')).toBeNull()
+    })
+
+    it('rejects unknown formats', () => {
+        expect(parseAnnotationFile('xml', '', 0).issues[0]).toMatch(/Unknown annotation format/)
+        expect(() => serializeAnnotationFile('xml', [], 0)).toThrow(/Unknown annotation format/)
+    })
+})
@@ -0,0 +1,143 @@
+// utils/annotationHistory.js
+//
+// Undo/redo entries for annotation edits. Each entry records one change that has already
+// been persisted, as plain snapshots of the annotation around it:
+//
+//   { type: 'create', before: null,     after: snapshot }
+//   { type: 'update', before: snapshot, after: snapshot }
+//   { type: 'delete', before: snapshot, after: null }
+//   { type: 'batch',  label: string,    changes: [entry, ...] }
+//
+// A batch groups the changes of one bulk action so a single undo reverts all of them.
+// Undoing an entry applies its inverse against the annotation storage, so the server (or
+// local storage) is compensated rather than just the store. Re-creating an annotation gives
+// it a new id; remapAnnotationId rewrites the remaining entries to follow it.
+
+/** Entries kept per direction; the oldest are dropped past this. */
+export const ANNOTATION_HISTORY_LIMIT = 100
+
+/**
+ * The persisted fields of an annotation, detached from the store object so later in-place
+ * edits (drags, the edit modal) do not reach it.
+ *
+ * @param {object} annotation
+ * @returns {{id: ?string, layer_id: string, label: string, description: string, start: number, duration: number, end: number, channelIds: string[], allChannels: boolean}}
+ */
+export function snapshotAnnotation(annotation) {
+    const duration = annotation.duration ?? (annotation.end - annotation.start)
+    return {
+        id: annotation.id ?? null,
+        layer_id: annotation.layer_id,
+        label: annotation.label,
+        description: annotation.description || '',
+        start: annotation.start,
+        duration,
+        end: annotation.end ?? annotation.start + duration,
+        channelIds: [...(annotation.channelIds || [])],
+        allChannels: Boolean(annotation.allChannels)
+    }
+}
+
+/**
+ * Whether two snapshots describe the same persisted annotation, so saving an edit that
+ * changed nothing leaves no entry.
+ *
+ * @param {object} a
+ * @param {object} b
+ * @returns {boolean}
+ */
+export function sameSnapshot(a, b) {
+    return a.id === b.id &&
+        a.layer_id === b.layer_id &&
+        a.label === b.label &&
+        a.description === b.description &&
+        a.start === b.start &&
+        a.end === b.end &&
+        a.allChannels === b.allChannels &&
+        a.channelIds.length === b.channelIds.length &&
+        a.channelIds.every((id, i) => id === b.channelIds[i])
+}
+
+/**
+ * The change that undoes `change`.
+ *
+ * @param {object} change
+ * @returns {object}
+ */
+export function invertChange(change) {
+    if (change.type === 'batch') {
+        return { ...change, changes: change.changes.map(invertChange).reverse() }
+    }
+    const type = { create: 'delete', delete: 'create', update: 'update' }[change.type]
+    if (!type) {
+        throw new Error(`Unknown annotation change type: ${change.type}`)
+    }
+    return { type, before: change.after, after: change.before }
+}
+
+/**
+ * Entries with every reference to `oldId` replaced by `newId`. Entries that do not mention
+ * the annotation are returned as they are.
+ *
+ * @param {Array<object>} changes
+ * @param {string} oldId
+ * @param {string} newId
+ * @returns {Array<object>}
+ */
+export function remapAnnotationId(changes, oldId, newId) {
+    const remap = (snapshot) => (snapshot && snapshot.id === oldId ? { ...snapshot, id: newId } : snapshot)
+    return changes.map((change) => {
+        if (change.type === 'batch') {
+            const nested = remapAnnotationId(change.changes, oldId, newId)
+            return nested.every((entry, i) => entry === change.changes[i]) ? change : { ...change, changes: nested }
+        }
+        const before = remap(change.before)
+        const after = remap(change.after)
+        return before === change.before && after === change.after ? change : { ...change, before, after }
+    })
+}
+
+/**
+ * Entries that do not touch annotations of `layerId`, for when that layer is deleted and
+ * its annotations can no longer be restored.
+ *
+ * @param {Array<object>} changes
+ * @param {string} layerId
+ * @returns {Array<object>}
+ */
+export function withoutLayer(changes, layerId) {
+    return changes.flatMap((change) => {
+        if (change.type === 'batch') {
+            const nested = withoutLayer(change.changes, layerId)
+            if (nested.length === change.changes.length) return [change]
+            return nested.length > 0 ? [batchChange(nested, change.label)] : []
+        }
+        return (change.before ?? change.after).layer_id === layerId ? [] : [change]
+    })
+}
+
+/**
+ * One entry for several changes: the change itself when there is only one, otherwise a batch.
+ *
+ * @param {Array<object>} changes In the order they were applied.
+ * @param {string} [label] Description of the bulk action, e.g. 'Move 4 annotations'.
+ * @returns {?object} Null when there are no changes.
+ */
+export function batchChange(changes, label = '') {
+    if (changes.length === 0) return null
+    if (changes.length === 1) return changes[0]
+    return { type: 'batch', label: label || `${changes.length} annotation changes`, changes }
+}
+
+/**
+ * Short label for an entry, e.g. for an "Undo ..." tooltip.
+ *
+ * @param {{type: string, before: ?object, after: ?object}} change
+ * @returns {string}
+ */
+export function describeChange(change) {
+    if (change.type === 'batch') return change.label
+    const verb = { create: 'Create', update: 'Edit', delete: 'Delete' }[change.type] ?? change.type
+    const label = (change.after ?? change.before)?.label
+    return label ? `${verb} "${label}"` : `${verb} annotation`
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+    batchChange,
+    describeChange,
+    invertChange,
+    remapAnnotationId,
+    sameSnapshot,
+    snapshotAnnotation,
+    withoutLayer
+} from '@/utils/annotationHistory'
+
+const annotation = (overrides = {}) => ({
+    id: 'a1',
+    layer_id: 'L1',
+    label: 'Spike',
+    description: '',
+    start: 100,
+    duration: 50,
+    end: 150,
+    channelIds: ['c1'],
+    allChannels: false,
+    ...overrides
+})
+
+describe('snapshotAnnotation', () => {
+    it('keeps only persisted fields, detached from the source', () => {
+        const source = { ...annotation(), selected: true, cStart: 3, userId: 7 }
+        const snapshot = snapshotAnnotation(source)
+        source.channelIds.push('c2')
+        source.start = 0
+
+        expect(snapshot).toEqual(annotation())
+    })
+
+    it('fills duration and end from each other', () => {
+        expect(snapshotAnnotation({ layer_id: 'L1', label: 'A', start: 10, end: 30 }))
+            .toMatchObject({ id: null, duration: 20, end: 30, channelIds: [], description: '' })
+        expect(snapshotAnnotation({ layer_id: 'L1', label: 'A', start: 10, duration: 5 }).end).toBe(15)
+    })
+})
+
+describe('sameSnapshot', () => {
+    it('compares persisted fields, channels in order', () => {
+        const a = snapshotAnnotation(annotation())
+        expect(sameSnapshot(a, snapshotAnnotation({ ...annotation(), selected: true }))).toBe(true)
+        expect(sameSnapshot(a, snapshotAnnotation(annotation({ description: 'x' })))).toBe(false)
+        expect(sameSnapshot(a, snapshotAnnotation(annotation({ channelIds: ['c2'] })))).toBe(false)
+    })
+})
+
+describe('invertChange', () => {
+    it('swaps create with delete and before with after', () => {
+        const created = { type: 'create', before: null, after: annotation() }
+        expect(invertChange(created)).toEqual({ type: 'delete', before: annotation(), after: null })
+        expect(invertChange(invertChange(created))).toEqual(created)
+
+        const moved = { type: 'update', before: annotation(), after: annotation({ start: 200, end: 250 }) }
+        expect(invertChange(moved)).toEqual({ type: 'update', before: moved.after, after: moved.before })
+    })
+
+    it('inverts a batch in reverse order', () => {
+        const created = { type: 'create', before: null, after: annotation({ id: 'b1', layer_id: 'L2' }) }
+        const deleted = { type: 'delete', before: annotation(), after: null }
+        const move = batchChange([created, deleted], 'Move 1 annotation')
+
+        expect(invertChange(move)).toEqual({
+            type: 'batch',
+            label: 'Move 1 annotation',
+            changes: [invertChange(deleted), invertChange(created)]
+        })
+    })
+
+    it('rejects unknown change types', () => {
+        expect(() => invertChange({ type: 'move' })).toThrow(/Unknown annotation change type/)
+    })
+})
+
+describe('remapAnnotationId', () => {
+    it('follows a re-created annotation to its new id and leaves other entries alone', () => {
+        const other = { type: 'create', before: null, after: annotation({ id: 'b1' }) }
+        const changes = [
+            { type: 'update', before: annotation(), after: annotation({ label: 'Sharp' }) },
+            other
+        ]
+
+        const remapped = remapAnnotationId(changes, 'a1', 'a2')
+        expect(remapped[0].before.id).toBe('a2')
+        expect(remapped[0].after.id).toBe('a2')
+        expect(remapped[1]).toBe(other)
+        expect(changes[0].before.id).toBe('a1')
+    })
+
+    it('reaches into batches', () => {
+        const batch = batchChange([
+            { type: 'delete', before: annotation(), after: null },
+            { type: 'delete', before: annotation({ id: 'b1' }), after: null }
+        ])
+        const [remapped] = remapAnnotationId([batch], 'a1', 'a2')
+        expect(remapped.changes.map((change) => change.before.id)).toEqual(['a2', 'b1'])
+        expect(remapAnnotationId([batch], 'zz', 'a2')[0]).toBe(batch)
+    })
+})
+
+describe('batchChange', () => {
+    it('collapses zero and one change', () => {
+        const change = { type: 'delete', before: annotation(), after: null }
+        expect(batchChange([])).toBeNull()
+        expect(batchChange([change])).toBe(change)
+        expect(batchChange([change, change]).label).toBe('2 annotation changes')
+    })
+})
+
+describe('withoutLayer', () => {
+    it('drops entries for annotations of a deleted layer', () => {
+        const changes = [
+            { type: 'create', before: null, after: annotation() },
+            { type: 'delete', before: annotation({ layer_id: 'L2' }), after: null }
+        ]
+        expect(withoutLayer(changes, 'L1')).toEqual([changes[1]])
+    })
+
+    it('trims batches and drops emptied ones', () => {
+        const keep = { type: 'delete', before: annotation({ layer_id: 'L2' }), after: null }
+        const drop = { type: 'delete', before: annotation(), after: null }
+        expect(withoutLayer([batchChange([drop, keep], 'Delete 2 annotations')], 'L1')).toEqual([keep])
+        expect(withoutLayer([batchChange([drop, drop])], 'L1')).toEqual([])
+    })
+})
+
+describe('describeChange', () => {
+    it('names the change and the annotation', () => {
+        expect(describeChange({ type: 'delete', before: annotation(), after: null })).toBe('Delete "Spike"')
+        expect(describeChange({ type: 'update', before: annotation(), after: annotation({ label: 'Sharp' }) })).toBe('Edit "Sharp"')
+        expect(describeChange({ type: 'create', before: null, after: annotation({ label: '' }) })).toBe('Create annotation')
+        expect(describeChange(batchChange([{ type: 'delete', before: annotation() }, { type: 'delete', before: annotation() }], 'Delete 2 annotations')))
+            .toBe('Delete 2 annotations')
+    })
+})
@@ -0,0 +1,115 @@
+// utils/annotationQuery.js
+//
+// Flattening, filtering and sorting of the viewer's annotation layers for tabular views.
+// The store builds its annotation list getters from these; they never change the layers.
+
+/** Columns an annotation list can be sorted by. */
+export const ANNOTATION_SORT_KEYS = Object.freeze(['start', 'end', 'duration', 'label', 'layer', 'channels'])
+
+/**
+ * A filter that lets every annotation through. Times are microseconds on the recording's
+ * clock, like annotation starts; null leaves a bound open.
+ *
+ * @returns {{label: string, text: string, layerIds: string[], channelIds: string[], start: ?number, end: ?number, minDuration: ?number, maxDuration: ?number}}
+ */
+export function defaultAnnotationFilter() {
+    return {
+        label: '',
+        text: '',
+        layerIds: [],
+        channelIds: [],
+        start: null,
+        end: null,
+        minDuration: null,
+        maxDuration: null
+    }
+}
+
+/**
+ * One row per annotation, carrying its layer's name and color. `annotation` is the store
+ * object itself, so a row can be handed straight to the annotation composables.
+ *
+ * @param {Array<object>} layers The store's `viewerAnnotations`.
+ * @returns {Array<{id: string, annotation: object, layerId: string, layerName: string, layerColor: string, label: string, description: string, start: number, end: number, duration: number, channelIds: string[], allChannels: boolean}>}
+ */
+export function flattenAnnotations(layers) {
+    return (layers || []).flatMap((layer) => (layer.annotations || []).map((annotation) => {
+        const duration = annotation.duration ?? (annotation.end - annotation.start)
+        return {
+            id: annotation.id,
+            annotation,
+            layerId: layer.id,
+            layerName: layer.name,
+            layerColor: layer.hexColor,
+            label: annotation.label || '',
+            description: annotation.description || '',
+            start: annotation.start,
+            end: annotation.end ?? annotation.start + duration,
+            duration,
+            channelIds: annotation.channelIds || [],
+            allChannels: Boolean(annotation.allChannels)
+        }
+    }))
+}
+
+const contains = (value, query) => value.toLowerCase().includes(query.trim().toLowerCase())
+
+const isSet = (value) => value !== null && value !== undefined && value !== ''
+
+/**
+ * Rows that match every set field of `filter`. Label and text match case-insensitive
+ * substrings of the label and description; layer and channel lists match any of their ids,
+ * an all-channel annotation matching every channel; start and end keep rows that overlap
+ * the range; durations are inclusive bounds.
+ *
+ * @param {Array<object>} rows From {@link flattenAnnotations}.
+ * @param {object} filter Fields of {@link defaultAnnotationFilter}; missing ones are open.
+ * @returns {Array<object>}
+ */
+export function filterAnnotations(rows, filter = {}) {
+    const layerIds = new Set((filter.layerIds || []).map(String))
+    const channelIds = new Set(filter.channelIds || [])
+
+    return rows.filter((row) => {
+        if (filter.label && !contains(row.label, filter.label)) return false
+        if (filter.text && !contains(row.description, filter.text)) return false
+        if (layerIds.size > 0 && !layerIds.has(String(row.layerId))) return false
+        if (channelIds.size > 0 && !row.allChannels && !row.channelIds.some((id) => channelIds.has(id))) return false
+        if (isSet(filter.start) && row.end < filter.start) return false
+        if (isSet(filter.end) && row.start > filter.end) return false
+        if (isSet(filter.minDuration) && row.duration < filter.minDuration) return false
+        if (isSet(filter.maxDuration) && row.duration > filter.maxDuration) return false
+        return true
+    })
+}
+
+const sortValue = {
+    start: (row) => row.start,
+    end: (row) => row.end,
+    duration: (row) => row.duration,
+    label: (row) => row.label.toLowerCase(),
+    layer: (row) => (row.layerName || '').toLowerCase(),
+    channels: (row) => (row.allChannels ? Infinity : row.channelIds.length)
+}
+
+/**
+ * A sorted copy of `rows`. Ties keep start order, so equal labels list chronologically.
+ *
+ * @param {Array<object>} rows
+ * @param {{key: string, order: 'ascending'|'descending'}} sort `key` is one of {@link ANNOTATION_SORT_KEYS}.
+ * @returns {Array<object>}
+ */
+export function sortAnnotations(rows, { key = 'start', order = 'ascending' } = {}) {
+    const value = sortValue[key]
+    if (!value) {
+        throw new Error(`Unknown annotation sort key: ${key}`)
+    }
+    const sign = order === 'descending' ? -1 : 1
+    return [...rows].sort((a, b) => {
+        const va = value(a)
+        const vb = value(b)
+        if (va < vb) return -sign
+        if (va > vb) return sign
+        return a.start - b.start
+    })
+}
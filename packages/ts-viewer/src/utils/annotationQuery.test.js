@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+    defaultAnnotationFilter,
+    filterAnnotations,
+    flattenAnnotations,
+    sortAnnotations
+} from '@/utils/annotationQuery'
+
+const layers = [
+    {
+        id: 'L1',
+        name: 'Seizures',
+        hexColor: '#E94B4B',
+        annotations: [
+            { id: 'a1', label: 'Onset', description: 'left temporal', start: 1000, duration: 500, end: 1500, channelIds: ['c1'], allChannels: false },
+            { id: 'a2', label: 'spike', description: '', start: 4000, duration: 0, end: 4000, channelIds: ['c2'], allChannels: false }
+        ]
+    },
+    {
+        id: 'L2',
+        name: 'Artifacts',
+        hexColor: '#18BA62',
+        annotations: [
+            { id: 'b1', label: 'Movement', description: 'patient moved', start: 2000, end: 6000, channelIds: ['c1', 'c2'], allChannels: true }
+        ]
+    }
+]
+
+const ids = (rows) => rows.map((row) => row.id)
+
+describe('flattenAnnotations', () => {
+    it('lists every annotation with its layer and keeps the store object', () => {
+        const rows = flattenAnnotations(layers)
+        expect(ids(rows)).toEqual(['a1', 'a2', 'b1'])
+        expect(rows[2]).toMatchObject({ layerId: 'L2', layerName: 'Artifacts', layerColor: '#18BA62', duration: 4000, allChannels: true })
+        expect(rows[0].annotation).toBe(layers[0].annotations[0])
+        expect(flattenAnnotations([{ id: 'L3', name: 'Empty' }])).toEqual([])
+    })
+})
+
+describe('filterAnnotations', () => {
+    const rows = flattenAnnotations(layers)
+
+    it('passes everything through the default filter', () => {
+        expect(ids(filterAnnotations(rows, defaultAnnotationFilter()))).toEqual(['a1', 'a2', 'b1'])
+    })
+
+    it('matches label and description text case-insensitively', () => {
+        expect(ids(filterAnnotations(rows, { label: 'SPI' }))).toEqual(['a2'])
+        expect(ids(filterAnnotations(rows, { text: 'Moved' }))).toEqual(['b1'])
+    })
+
+    it('filters by layer and by channel, counting all-channel annotations on every channel', () => {
+        expect(ids(filterAnnotations(rows, { layerIds: ['L1'] }))).toEqual(['a1', 'a2'])
+        expect(ids(filterAnnotations(rows, { channelIds: ['c2'] }))).toEqual(['a2', 'b1'])
+        expect(ids(filterAnnotations(rows, { channelIds: ['c9'] }))).toEqual(['b1'])
+    })
+
+    it('keeps annotations overlapping the time range and within the duration bounds', () => {
+        expect(ids(filterAnnotations(rows, { start: 1600, end: 3000 }))).toEqual(['b1'])
+        expect(ids(filterAnnotations(rows, { start: 4000 }))).toEqual(['a2', 'b1'])
+        expect(ids(filterAnnotations(rows, { minDuration: 1, maxDuration: 1000 }))).toEqual(['a1'])
+        expect(ids(filterAnnotations(rows, { minDuration: 0, maxDuration: '' }))).toEqual(['a1', 'a2', 'b1'])
+    })
+})
+
+describe('sortAnnotations', () => {
+    const rows = flattenAnnotations(layers)
+
+    it('sorts by a column in either order without touching the input', () => {
+        expect(ids(sortAnnotations(rows, { key: 'duration', order: 'descending' }))).toEqual(['b1', 'a1', 'a2'])
+        expect(ids(sortAnnotations(rows, { key: 'label' }))).toEqual(['b1', 'a1', 'a2'])
+        expect(ids(sortAnnotations(rows, { key: 'layer' }))).toEqual(['b1', 'a1', 'a2'])
+        expect(ids(sortAnnotations(rows, { key: 'channels', order: 'descending' }))).toEqual(['b1', 'a1', 'a2'])
+        expect(ids(rows)).toEqual(['a1', 'a2', 'b1'])
+    })
+
+    it('rejects unknown columns', () => {
+        expect(() => sortAnnotations(rows, { key: 'color' })).toThrow(/Unknown annotation sort key/)
+    })
+})
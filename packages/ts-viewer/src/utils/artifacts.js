@@ -0,0 +1,121 @@
+// utils/artifacts.js
+//
+// Bad channels and artifact spans. Both are kept as annotations in one layer, so they travel
+// with the recording like any other annotation:
+//
+//   bad channel   label BAD_CHANNEL_LABEL, the whole recording, channelIds [channel]
+//   artifact      label ARTIFACT_LABEL, the marked span, channelIds of the channels it covers
+//
+// Channels are addressed by their catalog id (`serverId`, else `id`), which is also what an
+// annotation lists. A montage derivation shares its catalog id with the channel it leads
+// with, so it counts as bad when that channel is.
+
+/** Name of the layer bad channels and artifacts are written to. */
+export const ARTIFACT_LAYER_NAME = 'Artifacts'
+
+export const BAD_CHANNEL_LABEL = 'Bad channel'
+
+export const ARTIFACT_LABEL = 'Artifact'
+
+/** How bad channels' traces are drawn: greyed out, or left off with their row kept. */
+export const BAD_CHANNEL_DISPLAYS = Object.freeze(['grey', 'hide'])
+
+/** Trace colour of a greyed-out bad channel, as [r, g, b, a]. */
+export const BAD_CHANNEL_COLOR = Object.freeze([170, 170, 170, 1])
+
+/**
+ * The catalog id a channel is marked bad under.
+ *
+ * @param {{id?: string, serverId?: string}} channel
+ * @returns {string}
+ */
+export function badChannelKey(channel) {
+    return channel?.serverId || channel?.id || ''
+}
+
+/**
+ * @param {{id?: string, serverId?: string}} channel
+ * @param {Object<string, {annotationId: ?string}>} badChannels The store's index.
+ * @returns {boolean}
+ */
+export function isBadChannel(channel, badChannels) {
+    return Object.hasOwn(badChannels ?? {}, badChannelKey(channel))
+}
+
+/**
+ * Channels that are not marked bad.
+ *
+ * @template T
+ * @param {T[]} channels
+ * @param {Object<string, {annotationId: ?string}>} badChannels
+ * @returns {T[]}
+ */
+export function withoutBadChannels(channels, badChannels) {
+    return channels.filter((channel) => !isBadChannel(channel, badChannels))
+}
+
+/**
+ * Indexes a layer's bad-channel annotations by the channel each marks. A channel marked more
+ * than once keeps its first annotation.
+ *
+ * @param {Array<{id: string, label: string, channelIds?: string[]}>} annotations
+ * @returns {Object<string, {annotationId: string}>}
+ */
+export function indexBadChannels(annotations) {
+    const index = {}
+    for (const annotation of annotations) {
+        if (annotation.label !== BAD_CHANNEL_LABEL) {
+            continue
+        }
+        for (const channelId of annotation.channelIds ?? []) {
+            if (!Object.hasOwn(index, channelId)) {
+                index[channelId] = { annotationId: annotation.id }
+            }
+        }
+    }
+    return index
+}
+
+/**
+ * Artifact spans among a layer's annotations, in start order. With `channelId`, only the
+ * spans that cover that channel; an artifact listing no channels covers them all.
+ *
+ * @param {Array<{label: string, start: number, duration?: number, channelIds?: string[]}>} annotations
+ * @param {?string} [channelId]
+ * @returns {Array<{startUs: number, endUs: number, channelIds: string[]}>}
+ */
+export function artifactSpans(annotations, channelId = null) {
+    return annotations
+        .filter((annotation) => annotation.label === ARTIFACT_LABEL)
+        .map((annotation) => ({
+            startUs: annotation.start,
+            endUs: annotation.start + (annotation.duration ?? 0),
+            channelIds: annotation.channelIds ?? []
+        }))
+        .filter((span) => channelId === null || span.channelIds.length === 0 || span.channelIds.includes(channelId))
+        .sort((a, b) => a.startUs - b.startUs)
+}
+
+/**
+ * Replaces the samples of a trace that fall inside any of the spans with NaN, which every
+ * exporter writes as a gap.
+ *
+ * @param {{startUs: number, samplePeriodUs: number, data: Float64Array}} trace
+ * @param {Array<{startUs: number, endUs: number}>} spans
+ * @returns {object} The trace with its own copy of the data when anything was blanked.
+ */
+export function blankSpans(trace, spans) {
+    let data = trace.data
+    for (const { startUs, endUs } of spans) {
+        const first = Math.max(0, Math.ceil((startUs - trace.startUs) / trace.samplePeriodUs))
+        const end = Math.min(data.length, Math.ceil((endUs - trace.startUs) / trace.samplePeriodUs))
+        if (first >= end) {
+            continue
+        }
+        if (data === trace.data) {
+            data = Float64Array.from(trace.data)
+        }
+        data.fill(NaN, first, end)
+    }
+    return data === trace.data ? trace : { ...trace, data }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+    ARTIFACT_LABEL,
+    BAD_CHANNEL_LABEL,
+    artifactSpans,
+    blankSpans,
+    indexBadChannels,
+    isBadChannel,
+    withoutBadChannels
+} from '@/utils/artifacts'
+
+describe('bad channels', () => {
+    const annotations = [
+        { id: 'n1', label: 'Spindle', channelIds: ['c'] },
+        { id: 'b1', label: BAD_CHANNEL_LABEL, channelIds: ['a'] },
+        { id: 'b2', label: BAD_CHANNEL_LABEL, channelIds: ['a', 'b'] }
+    ]
+
+    it('indexes each channel under its first bad-channel annotation', () => {
+        expect(indexBadChannels(annotations)).toEqual({
+            a: { annotationId: 'b1' },
+            b: { annotationId: 'b2' }
+        })
+    })
+
+    it('matches montage derivations by the channel they lead with', () => {
+        const bad = indexBadChannels(annotations)
+        expect(isBadChannel({ id: 'a' }, bad)).toBe(true)
+        expect(isBadChannel({ id: 'a_A<->C', serverId: 'a' }, bad)).toBe(true)
+        expect(isBadChannel({ id: 'c' }, bad)).toBe(false)
+        expect(withoutBadChannels([{ id: 'a' }, { id: 'c' }], bad)).toEqual([{ id: 'c' }])
+    })
+})
+
+describe('artifacts', () => {
+    const annotations = [
+        { label: ARTIFACT_LABEL, start: 5000, duration: 1000, channelIds: ['a'] },
+        { label: ARTIFACT_LABEL, start: 1000, duration: 2000, channelIds: [] },
+        { label: BAD_CHANNEL_LABEL, start: 0, duration: 10000, channelIds: ['b'] }
+    ]
+
+    it('lists spans in start order, for one channel or all', () => {
+        expect(artifactSpans(annotations).map((span) => span.startUs)).toEqual([1000, 5000])
+        expect(artifactSpans(annotations, 'b')).toEqual([{ startUs: 1000, endUs: 3000, channelIds: [] }])
+    })
+
+    it('blanks the samples inside spans without touching the original', () => {
+        const trace = { startUs: 0, samplePeriodUs: 1000, data: Float64Array.from([0, 1, 2, 3, 4, 5, 6]) }
+        const blanked = blankSpans(trace, artifactSpans(annotations))
+        expect(Array.from(blanked.data)).toEqual([0, NaN, NaN, 3, 4, NaN, 6])
+        expect(trace.data[1]).toBe(1)
+        expect(blankSpans(trace, [{ startUs: 8000, endUs: 9000 }])).toBe(trace)
+    })
+})
@@ -0,0 +1,158 @@
+// utils/calipers.js
+//
+// Measurements the `measure` tool takes on one channel: a caliper dragged from one point on
+// the trace canvas to another. Time comes from the drag's horizontal extent, amplitude from
+// its vertical extent at the channel's current scale, and peak-to-peak from the samples the
+// viewer has loaded inside the dragged window.
+//
+//   Measurement = { id, channelId, channelLabel, startUs, endUs, deltaUs, frequencyHz,
+//                   deltaAmplitude, peakToPeak, unit }
+//
+// Amplitudes are in the channel's physical unit, the `unit` a block carries from its trace
+// identity. ΔA is the physical change from the drag's start to its end, signed as the hover
+// readout (utils/cursorReadout) reads values: blocks store values negated, and the renderer
+// draws a channel at `rowBaseline - stored * traceScale`, that is `rowBaseline + value *
+// traceScale`, so larger physical values sit lower on the screen (negative up, as EEG is
+// read) and a downward drag is a rise. Peak-to-peak does not depend on the sign.
+
+/**
+ * The visible channel whose row contains `y`, or null between or outside rows.
+ *
+ * @param {Array<{visible: boolean, rowBaseline: ?number}>} channels Channel entries.
+ * @param {number} y Canvas y, in CSS pixels.
+ * @returns {?object}
+ */
+export function channelAtY(channels, y) {
+    const rows = channels.filter((channel) => channel.visible && channel.rowBaseline !== null)
+    if (rows.length === 0) {
+        return null
+    }
+    const baselines = rows.map((channel) => channel.rowBaseline).sort((a, b) => a - b)
+    const halfRow = baselines.length > 1 ? (baselines[1] - baselines[0]) / 2 : baselines[0]
+    let nearest = null
+    for (const channel of rows) {
+        const distance = Math.abs(channel.rowBaseline - y)
+        if (distance <= halfRow && (nearest === null || distance < Math.abs(nearest.rowBaseline - y))) {
+            nearest = channel
+        }
+    }
+    return nearest
+}
+
+/**
+ * Lowest and highest sample in `[startUs, endUs]` over a channel's continuous blocks, with
+ * the unit they carry; null when no loaded sample falls in the window. Min/max blocks
+ * contribute both rows.
+ *
+ * @param {Array<object>} blocks The channel's blocks, as the viewer caches them.
+ * @param {number} startUs
+ * @param {number} endUs
+ * @returns {?{min: number, max: number, unit: string}}
+ */
+export function sampleRange(blocks, startUs, endUs) {
+    let min = Infinity
+    let max = -Infinity
+    let unit = ''
+    for (const block of blocks) {
+        if (block.type !== 'Continuous' || !block.parsedData || block.nrPoints === 0) {
+            continue
+        }
+        const [times, first, second] = block.parsedData
+        for (let i = 0; i < times.length; i++) {
+            if (times[i] < startUs || times[i] > endUs) {
+                continue
+            }
+            const values = block.isMinMax ? [first[i], second[i]] : [first[i]]
+            for (const value of values) {
+                if (Number.isFinite(value)) {
+                    min = Math.min(min, value)
+                    max = Math.max(max, value)
+                    unit = unit || block.unit || ''
+                }
+            }
+        }
+    }
+    return min <= max ? { min, max, unit } : null
+}
+
+/**
+ * Takes a caliper measurement on one channel.
+ *
+ * @param {object} options
+ * @param {{id: string, label: string, unit?: string}} options.channel Channel entry.
+ * @param {Array<object>} options.blocks The channel's loaded blocks.
+ * @param {number} options.startUs Time under the drag's start.
+ * @param {number} options.endUs Time under the drag's end.
+ * @param {number} options.dy Vertical drag, in CSS pixels, down positive.
+ * @param {number} options.traceScale Pixels per unit, as the renderer draws the channel
+ *   (negative when it is inverted).
+ * @returns {object} Measurement, without an id.
+ */
+export function measureCaliper({ channel, blocks, startUs, endUs, dy, traceScale }) {
+    const from = Math.min(startUs, endUs)
+    const to = Math.max(startUs, endUs)
+    const deltaUs = to - from
+    const range = sampleRange(blocks, from, to)
+    return {
+        channelId: channel.id,
+        channelLabel: channel.label,
+        startUs: from,
+        endUs: to,
+        deltaUs,
+        frequencyHz: deltaUs > 0 ? 1e6 / deltaUs : null,
+        // Larger physical values are drawn lower on the screen, so a downward drag is a rise
+        deltaAmplitude: traceScale ? dy / traceScale : null,
+        peakToPeak: range ? range.max - range.min : null,
+        unit: range?.unit || channel.unit || ''
+    }
+}
+
+/**
+ * @param {number} us
+ * @returns {string}
+ */
+export function formatInterval(us) {
+    if (us >= 1e6) {
+        return `${(us / 1e6).toFixed(3)} s`
+    }
+    return `${(us / 1e3).toFixed(1)} ms`
+}
+
+/**
+ * @param {?number} value
+ * @param {string} unit
+ * @returns {string}
+ */
+export function formatAmplitude(value, unit) {
+    if (value === null) {
+        return '--'
+    }
+    const digits = Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 1 ? 1 : 3
+    return `${value.toFixed(digits)} ${unit}`.trim()
+}
+
+/**
+ * A measurement's values as labelled lines, in display order.
+ *
+ * @param {object} measurement
+ * @returns {string[]}
+ */
+export function measurementLines(measurement) {
+    const { deltaUs, frequencyHz, deltaAmplitude, peakToPeak, unit } = measurement
+    return [
+        `Δt ${formatInterval(deltaUs)}`,
+        `f ${frequencyHz === null ? '--' : `${frequencyHz.toFixed(2)} Hz`}`,
+        `ΔA ${formatAmplitude(deltaAmplitude, unit)}`,
+        `p-p ${formatAmplitude(peakToPeak, unit)}`
+    ]
+}
+
+/**
+ * Annotation description recording a measurement.
+ *
+ * @param {object} measurement
+ * @returns {string}
+ */
+export function measurementDescription(measurement) {
+    return `${measurement.channelLabel}: ${measurementLines(measurement).join(', ')}`
+}
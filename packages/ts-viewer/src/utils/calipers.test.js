@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { channelAtY, formatInterval, measureCaliper, measurementDescription, measurementLines, sampleRange } from './calipers'
+import { readingAt } from './cursorReadout'
+
+const block = (times, first, second = null, extra = {}) => ({
+    type: 'Continuous',
+    nrPoints: times.length,
+    isMinMax: second !== null,
+    unit: 'uV',
+    parsedData: [Float64Array.from(times), Float64Array.from(first), Float64Array.from(second ?? times.map(() => 0))],
+    ...extra
+})
+
+describe('channelAtY', () => {
+    const channels = [
+        { id: 'a', visible: true, rowBaseline: 25 },
+        { id: 'b', visible: false, rowBaseline: null },
+        { id: 'c', visible: true, rowBaseline: 75 }
+    ]
+
+    it('finds the row around a point', () => {
+        expect(channelAtY(channels, 10).id).toBe('a')
+        expect(channelAtY(channels, 60).id).toBe('c')
+    })
+
+    it('finds nothing outside the rows', () => {
+        expect(channelAtY(channels, 120)).toBeNull()
+        expect(channelAtY([], 10)).toBeNull()
+    })
+})
+
+describe('sampleRange', () => {
+    it('spans both rows of min/max blocks inside the window', () => {
+        const blocks = [
+            block([0, 10, 20], [-5, -9, -1], [5, 4, 100]),
+            block([30], [NaN]),
+            { type: 'Neural', nrPoints: 1, parsedData: [Float64Array.from([15])] }
+        ]
+        expect(sampleRange(blocks, 5, 25)).toEqual({ min: -9, max: 100, unit: 'uV' })
+    })
+
+    it('is null without loaded samples in the window', () => {
+        expect(sampleRange([block([0], [1])], 5, 25)).toBeNull()
+    })
+})
+
+describe('measureCaliper', () => {
+    const channel = { id: 'c3', label: 'C3', unit: 'mV' }
+    const blocks = [block([0, 100000, 200000], [-10, 30, -20])]
+
+    it('measures time, frequency, drawn amplitude and peak-to-peak', () => {
+        const m = measureCaliper({ channel, blocks, startUs: 250000, endUs: 0, dy: 20, traceScale: 0.5 })
+        expect(m).toEqual({
+            channelId: 'c3',
+            channelLabel: 'C3',
+            startUs: 0,
+            endUs: 250000,
+            deltaUs: 250000,
+            frequencyHz: 4,
+            deltaAmplitude: 40,
+            peakToPeak: 50,
+            unit: 'uV'
+        })
+    })
+
+    it('signs ΔA as the physical change the hover readout reads', () => {
+        // 10 uV then 30 uV, stored negated, drawn at rowBaseline - stored * traceScale
+        const rising = { ...block([0, 100000], [-10, -30]), samplePeriod: 100000 }
+        const traceScale = 0.5
+        const y = (i) => 100 - rising.parsedData[1][i] * traceScale
+        const m = measureCaliper({ channel, blocks: [rising], startUs: 0, endUs: 100000, dy: y(1) - y(0), traceScale })
+        expect(m.deltaAmplitude).toBe(readingAt([rising], 100000).min - readingAt([rising], 0).min)
+        expect(m.deltaAmplitude).toBe(20)
+    })
+
+    it('leaves out what it cannot measure', () => {
+        const m = measureCaliper({ channel, blocks: [], startUs: 5, endUs: 5, dy: 0, traceScale: 0 })
+        expect([m.frequencyHz, m.deltaAmplitude, m.peakToPeak, m.unit]).toEqual([null, null, null, 'mV'])
+    })
+})
+
+describe('formatting', () => {
+    it('writes intervals in ms below a second', () => {
+        expect(formatInterval(250000)).toBe('250.0 ms')
+        expect(formatInterval(1500000)).toBe('1.500 s')
+    })
+
+    it('describes a measurement for an annotation', () => {
+        const m = { channelLabel: 'C3', deltaUs: 250000, frequencyHz: 4, deltaAmplitude: -12.34, peakToPeak: null, unit: 'uV' }
+        expect(measurementLines(m)).toEqual(['Δt 250.0 ms', 'f 4.00 Hz', 'ΔA -12.3 uV', 'p-p --'])
+        expect(measurementDescription(m)).toBe('C3: Δt 250.0 ms, f 4.00 Hz, ΔA -12.3 uV, p-p --')
+    })
+})
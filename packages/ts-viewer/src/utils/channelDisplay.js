@@ -0,0 +1,103 @@
+// utils/channelDisplay.js
+//
+// Per-channel display: a gain on top of the viewer's vertical scale, DC removal and polarity.
+// They live on each channel entry in the viewer store -- the gain as `rowScale`, which the
+// renderer and the channel labels already multiply in, next to `inverted` and `removeDc` --
+// so mixed-modality recordings (EEG next to EKG or EMG) can show every channel at a usable
+// size.
+
+/** Smallest and largest per-channel gain, as multiples of the viewer's vertical scale. */
+export const MIN_CHANNEL_GAIN = 1 / 64
+export const MAX_CHANNEL_GAIN = 64
+
+/**
+ * Display settings a channel starts with: the viewer's scale, centred on the channel's mean
+ * (or median), with the recorded polarity.
+ *
+ * @returns {{gain: number, inverted: boolean, removeDc: boolean}}
+ */
+export function defaultChannelDisplay() {
+    return { gain: 1, inverted: false, removeDc: true }
+}
+
+/**
+ * Channel entry properties for a change of display settings. Only the settings given are
+ * returned, so a caller can change the gain without touching the polarity.
+ *
+ * @param {{gain?: number, inverted?: boolean, removeDc?: boolean}} settings
+ * @returns {{rowScale?: number, inverted?: boolean, removeDc?: boolean}}
+ */
+export function channelDisplayProperties({ gain, inverted, removeDc }) {
+    const properties = {}
+    if (gain !== undefined) {
+        if (!(gain >= MIN_CHANNEL_GAIN && gain <= MAX_CHANNEL_GAIN)) {
+            throw new Error(`Channel gain must be between ${MIN_CHANNEL_GAIN} and ${MAX_CHANNEL_GAIN}`)
+        }
+        properties.rowScale = gain
+    }
+    if (inverted !== undefined) {
+        properties.inverted = Boolean(inverted)
+    }
+    if (removeDc !== undefined) {
+        properties.removeDc = Boolean(removeDc)
+    }
+    return properties
+}
+
+/**
+ * A channel entry's display settings, with defaults for entries made before they existed.
+ *
+ * @param {{rowScale?: number, inverted?: boolean, removeDc?: boolean}} channel
+ * @returns {{gain: number, inverted: boolean, removeDc: boolean}}
+ */
+export function channelDisplayOf(channel) {
+    return {
+        gain: channel.rowScale ?? 1,
+        inverted: channel.inverted === true,
+        removeDc: channel.removeDc !== false
+    }
+}
+
+/**
+ * Screen pixels per unit of signal for a channel: the viewer's vertical scale times the
+ * channel's gain, negative when the channel is inverted.
+ *
+ * @param {object} channel Channel entry.
+ * @param {number} globalZoomMult
+ * @returns {number}
+ */
+export function channelTraceScale(channel, globalZoomMult) {
+    const { gain, inverted } = channelDisplayOf(channel)
+    return globalZoomMult * gain * (inverted ? -1 : 1)
+}
+
+/**
+ * The signal level drawn on a channel's baseline: its mean or median over the loaded data
+ * while DC removal is on, zero while it is off.
+ *
+ * @param {object} channel Channel entry.
+ * @param {{mean: number, median: number}} channelData
+ * @param {boolean} useMedian
+ * @returns {number}
+ */
+export function channelTraceCenter(channel, channelData, useMedian) {
+    if (!channelDisplayOf(channel).removeDc) {
+        return 0
+    }
+    return useMedian ? channelData.median : channelData.mean
+}
+
+/**
+ * Gain that turns the viewer's vertical scale into `zoomMult` for one channel, clamped to
+ * the accepted range. Null when either scale is unusable.
+ *
+ * @param {?number} zoomMult Scale that fits the channel to its row.
+ * @param {number} globalZoomMult
+ * @returns {?number}
+ */
+export function gainForZoom(zoomMult, globalZoomMult) {
+    if (!(zoomMult > 0) || !(globalZoomMult > 0) || !Number.isFinite(zoomMult)) {
+        return null
+    }
+    return Math.min(MAX_CHANNEL_GAIN, Math.max(MIN_CHANNEL_GAIN, zoomMult / globalZoomMult))
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+    MAX_CHANNEL_GAIN,
+    MIN_CHANNEL_GAIN,
+    channelDisplayOf,
+    channelDisplayProperties,
+    channelTraceCenter,
+    channelTraceScale,
+    defaultChannelDisplay,
+    gainForZoom
+} from './channelDisplay'
+
+describe('channelDisplayProperties', () => {
+    it('maps only the settings given onto channel properties', () => {
+        expect(channelDisplayProperties({ gain: 4 })).toEqual({ rowScale: 4 })
+        expect(channelDisplayProperties({ inverted: 1, removeDc: false })).toEqual({ inverted: true, removeDc: false })
+    })
+
+    it('rejects a gain outside the accepted range', () => {
+        expect(() => channelDisplayProperties({ gain: 0 })).toThrow('Channel gain must be between')
+        expect(() => channelDisplayProperties({ gain: MAX_CHANNEL_GAIN * 2 })).toThrow()
+        expect(() => channelDisplayProperties({ gain: NaN })).toThrow()
+    })
+})
+
+describe('channelDisplayOf', () => {
+    it('defaults entries that carry no settings', () => {
+        expect(channelDisplayOf({})).toEqual(defaultChannelDisplay())
+        expect(channelDisplayOf({ rowScale: 2, inverted: true, removeDc: false })).toEqual({ gain: 2, inverted: true, removeDc: false })
+    })
+})
+
+describe('channelTraceScale', () => {
+    it('multiplies the gain in and flips an inverted channel', () => {
+        expect(channelTraceScale({ rowScale: 2 }, 0.5)).toBe(1)
+        expect(channelTraceScale({ rowScale: 2, inverted: true }, 0.5)).toBe(-1)
+    })
+})
+
+describe('channelTraceCenter', () => {
+    const data = { mean: 12, median: 10 }
+
+    it('centres on the mean or median while DC removal is on', () => {
+        expect(channelTraceCenter({}, data, false)).toBe(12)
+        expect(channelTraceCenter({ removeDc: true }, data, true)).toBe(10)
+    })
+
+    it('keeps zero on the baseline while DC removal is off', () => {
+        expect(channelTraceCenter({ removeDc: false }, data, false)).toBe(0)
+    })
+})
+
+describe('gainForZoom', () => {
+    it('expresses a channel scale relative to the viewer scale', () => {
+        expect(gainForZoom(2, 0.5)).toBe(4)
+    })
+
+    it('clamps to the accepted range', () => {
+        expect(gainForZoom(1e6, 1)).toBe(MAX_CHANNEL_GAIN)
+        expect(gainForZoom(1e-6, 1)).toBe(MIN_CHANNEL_GAIN)
+    })
+
+    it('returns null for an unusable scale', () => {
+        expect(gainForZoom(null, 1)).toBeNull()
+        expect(gainForZoom(Infinity, 1)).toBeNull()
+        expect(gainForZoom(1, 0)).toBeNull()
+    })
+})
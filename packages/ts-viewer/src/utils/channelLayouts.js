@@ -0,0 +1,262 @@
+// utils/channelLayouts.js
+//
+// Channel layout: the order channels are drawn in, named groups that collapse together, and
+// trace colours per channel or per group. The viewer store holds the live layout -- order as
+// each channel entry's `rank`, membership as its `group`, an own colour as its `color` --
+// and saves a snapshot per package in this browser:
+//
+//   ChannelLayout = { order: [channelId], colors: {channelId: color},
+//                     groups: [{ id, name, color, collapsed, channels: [channelId] }] }
+//
+// Colours are '#rrggbb' strings.
+
+/** Version of the saved layout, written with it so a later format can migrate. */
+export const CHANNEL_LAYOUT_VERSION = 1
+
+/** localStorage key prefix; the package id completes the key. */
+const STORAGE_PREFIX = 'pennsieve-tsviewer:layout:'
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+/**
+ * Ways the viewer can group channels automatically, each a function from a channel entry to
+ * its group name. `electrode` strips the contact number off the label, so LA1..LA8 form one
+ * strip; a bipolar pair goes with its lead.
+ */
+export const CHANNEL_GROUPINGS = Object.freeze({
+    electrode: (channel) => electrodeOf(channel.label ?? ''),
+    unit: (channel) => channel.unit || 'No unit',
+    type: (channel) => channel.type || 'CONTINUOUS'
+})
+
+/**
+ * @param {string} label
+ * @returns {string}
+ */
+export function electrodeOf(label) {
+    const lead = label.split('<->')[0].trim()
+    return lead.replace(/[\s_-]*\d+$/, '') || lead
+}
+
+/**
+ * @param {string} color
+ * @throws {Error} when the colour is not '#rrggbb'
+ */
+export function validateChannelColor(color) {
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+        throw new Error(`Channel color must be a '#rrggbb' string, got ${JSON.stringify(color)}`)
+    }
+}
+
+/**
+ * A '#rrggbb' colour as [r, g, b, a], the form traceGeometry's colours take.
+ *
+ * @param {string} color
+ * @returns {number[]}
+ */
+export function colorToRgba(color) {
+    const value = parseInt(color.slice(1), 16)
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255, 1]
+}
+
+/**
+ * The colour a channel's trace is drawn in: its own, else its group's, else null for the
+ * viewer's default.
+ *
+ * @param {{color?: ?string, group?: ?string}} channel
+ * @param {Array<{id: string, color: ?string}>} groups
+ * @returns {?string}
+ */
+export function channelColorOf(channel, groups) {
+    if (channel.color) {
+        return channel.color
+    }
+    if (!channel.group) {
+        return null
+    }
+    return groups.find((group) => group.id === channel.group)?.color ?? null
+}
+
+/**
+ * Channel ids in drawing order.
+ *
+ * @param {Array<{id: string, rank: number}>} channels
+ * @returns {string[]}
+ */
+export function channelOrder(channels) {
+    return [...channels].sort((a, b) => a.rank - b.rank).map((channel) => channel.id)
+}
+
+/**
+ * Drawing order after moving one channel in front of another, or to the end when `beforeId`
+ * is null. Unknown ids leave the order as it is.
+ *
+ * @param {string[]} order
+ * @param {string} channelId
+ * @param {?string} beforeId
+ * @returns {string[]}
+ */
+export function moveInOrder(order, channelId, beforeId) {
+    if (!order.includes(channelId) || channelId === beforeId) {
+        return order
+    }
+    const rest = order.filter((id) => id !== channelId)
+    const at = beforeId === null ? rest.length : rest.indexOf(beforeId)
+    if (at < 0) {
+        return order
+    }
+    return [...rest.slice(0, at), channelId, ...rest.slice(at)]
+}
+
+/**
+ * Groups channels by one of CHANNEL_GROUPINGS, in order of each group's first channel.
+ * Groups get ids from their names, so grouping again by the same key yields the same ids.
+ *
+ * @param {Array<object>} channels Channel entries, in drawing order.
+ * @param {string} grouping A key of CHANNEL_GROUPINGS.
+ * @returns {Array<{id: string, name: string, color: null, collapsed: boolean, channels: string[]}>}
+ */
+export function groupChannels(channels, grouping) {
+    const nameOf = CHANNEL_GROUPINGS[grouping]
+    if (!nameOf) {
+        throw new Error(`Unknown channel grouping: ${grouping}`)
+    }
+    const groups = new Map()
+    for (const channel of channels) {
+        const name = String(nameOf(channel))
+        if (!groups.has(name)) {
+            groups.set(name, { id: `${grouping}:${name}`, name, color: null, collapsed: false, channels: [] })
+        }
+        groups.get(name).channels.push(channel.id)
+    }
+    return [...groups.values()]
+}
+
+/**
+ * Snapshot of the live layout, for saving.
+ *
+ * @param {Array<object>} channels Channel entries.
+ * @param {Array<{id: string, name: string, color: ?string, collapsed: boolean}>} groups
+ * @returns {object} ChannelLayout
+ */
+export function snapshotLayout(channels, groups) {
+    const colors = {}
+    for (const channel of channels) {
+        if (channel.color) {
+            colors[channel.id] = channel.color
+        }
+    }
+    return {
+        order: channelOrder(channels),
+        colors,
+        groups: groups.map(({ id, name, color, collapsed }) => ({
+            id,
+            name,
+            color,
+            collapsed,
+            channels: channels.filter((channel) => channel.group === id).map((channel) => channel.id)
+        }))
+    }
+}
+
+/**
+ * Channel entry properties and groups that restore a saved layout onto the channels the
+ * viewer has now. Channels the layout does not know go after the ones it orders, in their
+ * current order; ids the viewer no longer has are dropped, and so are groups left empty.
+ *
+ * @param {Array<object>} channels Channel entries.
+ * @param {object} layout ChannelLayout
+ * @returns {{properties: Map<string, {rank: number, group: ?string, color: ?string}>, groups: Array<object>}}
+ */
+export function planLayout(channels, layout) {
+    const known = new Set(channels.map((channel) => channel.id))
+    const saved = layout.order.filter((id) => known.has(id))
+    const listed = new Set(saved)
+    const order = [...saved, ...channelOrder(channels).filter((id) => !listed.has(id))]
+
+    const groupOf = new Map()
+    const groups = []
+    for (const { channels: members, ...group } of layout.groups) {
+        const present = members.filter((id) => known.has(id))
+        if (present.length === 0) {
+            continue
+        }
+        present.forEach((id) => groupOf.set(id, group.id))
+        groups.push(group)
+    }
+
+    const properties = new Map(order.map((id, rank) => [id, {
+        rank,
+        group: groupOf.get(id) ?? null,
+        color: layout.colors[id] ?? null
+    }]))
+    return { properties, groups }
+}
+
+/**
+ * Checks a parsed layout, so a damaged or foreign entry is ignored instead of applied.
+ *
+ * @param {*} layout
+ * @returns {boolean}
+ */
+function isLayout(layout) {
+    return Boolean(layout) &&
+        Array.isArray(layout.order) &&
+        typeof layout.colors === 'object' && layout.colors !== null &&
+        Array.isArray(layout.groups) &&
+        layout.groups.every((group) => typeof group.id === 'string' && Array.isArray(group.channels)) &&
+        Object.values(layout.colors).every((color) => COLOR_PATTERN.test(color))
+}
+
+/**
+ * @param {Storage} [storage]
+ * @returns {?Storage}
+ */
+function resolveStorage(storage) {
+    if (storage) return storage
+    return typeof globalThis.localStorage === 'undefined' ? null : globalThis.localStorage
+}
+
+/**
+ * The layout saved for a package in this browser, or null when there is none, it cannot be
+ * read, or storage is unavailable.
+ *
+ * @param {string} packageId
+ * @param {Storage} [storage] Defaults to localStorage.
+ * @returns {?object} ChannelLayout
+ */
+export function loadChannelLayout(packageId, storage) {
+    const store = resolveStorage(storage)
+    if (!store || !packageId) return null
+    try {
+        const text = store.getItem(STORAGE_PREFIX + packageId)
+        if (!text) return null
+        const { version, layout } = JSON.parse(text)
+        return version === CHANNEL_LAYOUT_VERSION && isLayout(layout) ? layout : null
+    } catch (error) {
+        console.warn('Could not read the saved channel layout:', error)
+        return null
+    }
+}
+
+/**
+ * Saves a package's layout in this browser, or forgets it when `layout` is null. Failures
+ * are logged and otherwise ignored: the layout stays in effect for the session.
+ *
+ * @param {string} packageId
+ * @param {?object} layout ChannelLayout
+ * @param {Storage} [storage] Defaults to localStorage.
+ */
+export function persistChannelLayout(packageId, layout, storage) {
+    const store = resolveStorage(storage)
+    if (!store || !packageId) return
+    try {
+        if (layout) {
+            store.setItem(STORAGE_PREFIX + packageId, JSON.stringify({ version: CHANNEL_LAYOUT_VERSION, layout }))
+        } else {
+            store.removeItem(STORAGE_PREFIX + packageId)
+        }
+    } catch (error) {
+        console.warn('Could not save the channel layout:', error)
+    }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import {
+    channelColorOf,
+    channelOrder,
+    colorToRgba,
+    electrodeOf,
+    groupChannels,
+    loadChannelLayout,
+    moveInOrder,
+    persistChannelLayout,
+    planLayout,
+    snapshotLayout,
+    validateChannelColor
+} from '@/utils/channelLayouts'
+
+const memoryStorage = () => {
+    const items = new Map()
+    return {
+        items,
+        getItem: (key) => (items.has(key) ? items.get(key) : null),
+        setItem: (key, value) => { items.set(key, String(value)) },
+        removeItem: (key) => { items.delete(key) }
+    }
+}
+
+const channel = (id, rank, extra = {}) => ({ id, label: id, rank, group: null, color: null, unit: 'uV', type: 'CONTINUOUS', ...extra })
+
+describe('electrodeOf', () => {
+    it('strips the contact number, and groups a bipolar pair with its lead', () => {
+        expect(electrodeOf('LA12')).toBe('LA')
+        expect(electrodeOf('RH-3')).toBe('RH')
+        expect(electrodeOf('Fp1<->F3')).toBe('Fp')
+        expect(electrodeOf('EKG')).toBe('EKG')
+        expect(electrodeOf('17')).toBe('17')
+    })
+})
+
+describe('colours', () => {
+    it('accepts only #rrggbb', () => {
+        expect(() => validateChannelColor('#00aaFF')).not.toThrow()
+        expect(() => validateChannelColor('teal')).toThrow('#rrggbb')
+        expect(() => validateChannelColor('#0af')).toThrow()
+    })
+
+    it('converts to the renderer\'s rgba form', () => {
+        expect(colorToRgba('#ff8000')).toEqual([255, 128, 0, 1])
+    })
+
+    it('prefers a channel\'s own colour over its group\'s', () => {
+        const groups = [{ id: 'g', color: '#111111' }]
+        expect(channelColorOf({ color: '#222222', group: 'g' }, groups)).toBe('#222222')
+        expect(channelColorOf({ color: null, group: 'g' }, groups)).toBe('#111111')
+        expect(channelColorOf({ color: null, group: null }, groups)).toBeNull()
+    })
+})
+
+describe('ordering', () => {
+    it('lists channels by rank', () => {
+        expect(channelOrder([channel('b', 1), channel('a', 0)])).toEqual(['a', 'b'])
+    })
+
+    it('moves a channel in front of another, or to the end', () => {
+        expect(moveInOrder(['a', 'b', 'c'], 'c', 'a')).toEqual(['c', 'a', 'b'])
+        expect(moveInOrder(['a', 'b', 'c'], 'a', null)).toEqual(['b', 'c', 'a'])
+        expect(moveInOrder(['a', 'b', 'c'], 'x', 'a')).toEqual(['a', 'b', 'c'])
+        expect(moveInOrder(['a', 'b', 'c'], 'a', 'x')).toEqual(['a', 'b', 'c'])
+    })
+})
+
+describe('groupChannels', () => {
+    it('groups by electrode in order of first appearance', () => {
+        const groups = groupChannels([channel('LB1', 0), channel('LA1', 1), channel('LB2', 2)], 'electrode')
+        expect(groups.map((g) => [g.id, g.channels])).toEqual([
+            ['electrode:LB', ['LB1', 'LB2']],
+            ['electrode:LA', ['LA1']]
+        ])
+    })
+
+    it('groups by unit', () => {
+        const groups = groupChannels([channel('C3', 0), channel('EKG', 1, { unit: 'mV' })], 'unit')
+        expect(groups.map((g) => g.name)).toEqual(['uV', 'mV'])
+    })
+
+    it('rejects an unknown grouping', () => {
+        expect(() => groupChannels([], 'colour')).toThrow('Unknown channel grouping')
+    })
+})
+
+describe('layouts', () => {
+    const groups = [{ id: 'custom:Depth', name: 'Depth', color: '#ff0000', collapsed: true }]
+    const channels = [
+        channel('a', 2, { group: 'custom:Depth' }),
+        channel('b', 0, { color: '#00ff00' }),
+        channel('c', 1, { group: 'custom:Depth' })
+    ]
+
+    it('snapshots order, colours and membership', () => {
+        expect(snapshotLayout(channels, groups)).toEqual({
+            order: ['b', 'c', 'a'],
+            colors: { b: '#00ff00' },
+            groups: [{ ...groups[0], channels: ['a', 'c'] }]
+        })
+    })
+
+    it('restores onto the channels the viewer has now', () => {
+        const layout = snapshotLayout(channels, groups)
+        const now = [channel('a', 0), channel('c', 1), channel('d', 2)]
+        const { properties, groups: restored } = planLayout(now, layout)
+        expect([...properties]).toEqual([
+            ['c', { rank: 0, group: 'custom:Depth', color: null }],
+            ['a', { rank: 1, group: 'custom:Depth', color: null }],
+            ['d', { rank: 2, group: null, color: null }]
+        ])
+        expect(restored).toEqual(groups)
+    })
+
+    it('drops groups none of whose channels remain', () => {
+        const layout = snapshotLayout(channels, groups)
+        expect(planLayout([channel('b', 0)], layout).groups).toEqual([])
+    })
+
+    it('saves per package and forgets on request', () => {
+        const storage = memoryStorage()
+        const layout = snapshotLayout(channels, groups)
+        persistChannelLayout('N:package:1', layout, storage)
+        expect(loadChannelLayout('N:package:1', storage)).toEqual(layout)
+        expect(loadChannelLayout('N:package:2', storage)).toBeNull()
+
+        persistChannelLayout('N:package:1', null, storage)
+        expect(loadChannelLayout('N:package:1', storage)).toBeNull()
+    })
+
+    it('ignores a damaged saved layout', () => {
+        const storage = memoryStorage()
+        storage.setItem('pennsieve-tsviewer:layout:N:package:1', '{"version":1,"layout":{"order":"abc"}}')
+        expect(loadChannelLayout('N:package:1', storage)).toBeNull()
+        storage.setItem('pennsieve-tsviewer:layout:N:package:1', 'not json')
+        expect(loadChannelLayout('N:package:1', storage)).toBeNull()
+    })
+})
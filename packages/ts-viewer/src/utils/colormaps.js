@@ -0,0 +1,53 @@
+// utils/colormaps.js
+//
+// Colormaps for intensity plots. Each map is a short list of evenly spaced RGB
+// stops, expanded by linear interpolation into a 256-entry lookup table.
+
+const STOPS = {
+    viridis: [
+        [68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142],
+        [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]
+    ],
+    magma: [
+        [0, 0, 4], [28, 16, 68], [79, 18, 123], [129, 37, 129], [181, 54, 122],
+        [229, 80, 100], [251, 135, 97], [254, 194, 135], [252, 253, 191]
+    ],
+    jet: [
+        [0, 0, 131], [0, 60, 170], [5, 255, 255], [255, 255, 0], [250, 0, 0], [128, 0, 0]
+    ],
+    gray: [
+        [0, 0, 0], [255, 255, 255]
+    ]
+}
+
+/** Names accepted by {@link colormapLut}. */
+export const COLORMAPS = Object.keys(STOPS)
+
+const cache = new Map()
+
+/**
+ * A 256-entry RGB lookup table: entry `i` is at `[3 * i, 3 * i + 3)`.
+ *
+ * @param {string} name One of {@link COLORMAPS}; unknown names fall back to viridis.
+ * @returns {Uint8ClampedArray}
+ */
+export function colormapLut(name) {
+    const key = STOPS[name] ? name : 'viridis'
+    if (cache.has(key)) {
+        return cache.get(key)
+    }
+
+    const stops = STOPS[key]
+    const lut = new Uint8ClampedArray(256 * 3)
+    for (let i = 0; i < 256; i++) {
+        const position = (i / 255) * (stops.length - 1)
+        const lower = Math.floor(position)
+        const upper = Math.min(stops.length - 1, lower + 1)
+        const t = position - lower
+        for (let c = 0; c < 3; c++) {
+            lut[3 * i + c] = Math.round(stops[lower][c] + (stops[upper][c] - stops[lower][c]) * t)
+        }
+    }
+    cache.set(key, lut)
+    return lut
+}
@@ -0,0 +1,89 @@
+// utils/cursorReadout.js
+//
+// The hover readout: what the traces show at the time under the pointer. Each channel's
+// reading comes from the blocks the viewer has loaded, the finest one covering that time,
+// so it is the value of the pixel column under the pointer rather than a fresh read:
+//
+//   Reading = { min, max, unit }
+//
+// A raw block gives one sample, min === max. A min/max block gives the range its column
+// spans, which is what the trace draws there; zoom in for single samples. Blocks store
+// values negated for the screen (see streaming/segments); readings are in physical units.
+
+import { formatAmplitude } from '@/utils/calipers'
+
+const pad = (value, width = 2) => String(value).padStart(width, '0')
+
+/**
+ * The reading at `timeUs` from a channel's continuous blocks; null where no loaded block
+ * covers it or the covering sample is a gap.
+ *
+ * @param {Array<object>} blocks The channel's blocks, as the viewer caches them.
+ * @param {number} timeUs
+ * @returns {?{min: number, max: number, unit: string}}
+ */
+export function readingAt(blocks, timeUs) {
+    let covering = null
+    for (const block of blocks) {
+        if (block.type !== 'Continuous' || !block.parsedData || block.nrPoints === 0 || !(block.samplePeriod > 0)) {
+            continue
+        }
+        const times = block.parsedData[0]
+        if (timeUs < times[0] || timeUs >= times[times.length - 1] + block.samplePeriod) {
+            continue
+        }
+        if (covering === null || block.samplePeriod < covering.samplePeriod) {
+            covering = block
+        }
+    }
+    if (covering === null) {
+        return null
+    }
+
+    const [times, first, second] = covering.parsedData
+    const i = Math.min(Math.floor((timeUs - times[0]) / covering.samplePeriod), times.length - 1)
+    const values = (covering.isMinMax ? [first[i], second[i]] : [first[i]]).map((value) => -value)
+    if (!values.every(Number.isFinite)) {
+        return null
+    }
+    return { min: Math.min(...values), max: Math.max(...values), unit: covering.unit || '' }
+}
+
+/**
+ * @param {?{min: number, max: number, unit: string}} reading
+ * @returns {string} '--' without a reading.
+ */
+export function formatReading(reading) {
+    if (reading === null) {
+        return '--'
+    }
+    if (reading.min === reading.max) {
+        return formatAmplitude(reading.min, reading.unit)
+    }
+    return `${formatAmplitude(reading.min, '')} – ${formatAmplitude(reading.max, reading.unit)}`
+}
+
+/**
+ * Time of day in UTC, to the millisecond, as the time axis labels it.
+ *
+ * @param {number} us Epoch microseconds.
+ * @returns {string} e.g. '13:04:05.250'
+ */
+export function formatClockTime(us) {
+    const date = new Date(Math.floor(us / 1000))
+    return `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`
+}
+
+/**
+ * Time since the recording's start, to the millisecond.
+ *
+ * @param {number} us Microseconds since the start; negative before it.
+ * @returns {string} e.g. '+1:02:03.450'
+ */
+export function formatElapsed(us) {
+    const ms = Math.round(Math.abs(us) / 1000)
+    const hours = Math.floor(ms / 3600000)
+    const minutes = Math.floor(ms / 60000) % 60
+    const seconds = Math.floor(ms / 1000) % 60
+    return `${us < 0 ? '-' : '+'}${hours}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`
+}
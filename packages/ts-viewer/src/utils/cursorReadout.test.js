@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { formatClockTime, formatElapsed, formatReading, readingAt } from './cursorReadout'
+
+// Blocks hold values negated, as the viewer parses them
+const block = (startTs, samplePeriod, first, second = null) => ({
+    type: 'Continuous',
+    nrPoints: first.length,
+    isMinMax: second !== null,
+    samplePeriod,
+    unit: 'uV',
+    parsedData: [
+        Float64Array.from(first, (_, i) => startTs + i * samplePeriod),
+        Float64Array.from(first, (value) => -value),
+        Float64Array.from(second ?? first, (value) => -value)
+    ]
+})
+
+describe('readingAt', () => {
+    it('reads the sample under the time from the finest covering block', () => {
+        const blocks = [
+            block(0, 100, [1, 2, 3, 4]),
+            block(0, 10, [5, 6, 7, 8, 9]),
+            { type: 'Neural', nrPoints: 1, parsedData: [Float64Array.from([15])] }
+        ]
+        expect(readingAt(blocks, 25)).toEqual({ min: 7, max: 7, unit: 'uV' })
+        expect(readingAt(blocks, 250)).toEqual({ min: 3, max: 3, unit: 'uV' })
+    })
+
+    it('gives the range a min/max column spans', () => {
+        expect(readingAt([block(0, 100, [-4, 2], [10, 3])], 50)).toEqual({ min: -4, max: 10, unit: 'uV' })
+    })
+
+    it('is null outside the loaded blocks and in gaps', () => {
+        const blocks = [block(1000, 10, [1, NaN])]
+        expect(readingAt(blocks, 500)).toBeNull()
+        expect(readingAt(blocks, 1020)).toBeNull()
+        expect(readingAt(blocks, 1015)).toBeNull()
+    })
+})
+
+describe('formatting', () => {
+    it('formats readings', () => {
+        expect(formatReading({ min: 12.34, max: 12.34, unit: 'uV' })).toBe('12.3 uV')
+        expect(formatReading({ min: -4, max: 150, unit: 'uV' })).toBe('-4.0 – 150 uV')
+        expect(formatReading(null)).toBe('--')
+    })
+
+    it('formats clock and elapsed times', () => {
+        // 2024-01-01T13:04:05.250Z
+        expect(formatClockTime(1704114245250000)).toBe('13:04:05.250')
+        expect(formatElapsed(3723450000)).toBe('+1:02:03.450')
+        expect(formatElapsed(-1500000)).toBe('-0:00:01.500')
+    })
+})
@@ -0,0 +1,217 @@
+// utils/keyboardShortcuts.js
+
+/**
+ * Window lengths, in seconds, behind the number-row presets. Key `1` selects the first entry,
+ * key `9` the last.
+ */
+export const DURATION_PRESETS_SECONDS = [1, 5, 10, 15, 30, 60, 120, 300, 600]
+
+/**
+ * Default key bindings, by action name.
+ *
+ * Each action maps to a list of combos so that an action can have aliases (`+` and `=` share a
+ * physical key on US layouts). An empty list disables the action. Combos use the syntax
+ * {@link normalizeCombo} accepts.
+ */
+export const DEFAULT_SHORTCUTS = Object.freeze({
+    pageBack: ['ArrowLeft'],
+    pageForward: ['ArrowRight'],
+    incrementZoom: ['+', '='],
+    decrementZoom: ['-', '_'],
+    previousAnnotation: ['p'],
+    nextAnnotation: ['n'],
+    toolPointer: ['v'],
+    toolPan: ['h'],
+    toolAnnotate: ['a'],
+    toolSpectrum: ['s'],
+    toolMeasure: ['m'],
+    togglePlayback: ['space'],
+    undoAnnotation: ['ctrl+z', 'meta+z'],
+    redoAnnotation: ['ctrl+shift+z', 'meta+shift+z', 'ctrl+y'],
+    ...Object.fromEntries(
+        DURATION_PRESETS_SECONDS.map((seconds, i) => [`durationPreset${i + 1}`, [String(i + 1)]])
+    )
+})
+
+/** Every action the viewer knows how to perform from the keyboard. */
+export const SHORTCUT_ACTIONS = Object.freeze(Object.keys(DEFAULT_SHORTCUTS))
+
+/** Modifier order in a canonical combo, so `shift+ctrl+k` and `ctrl+shift+k` compare equal. */
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta']
+
+const MODIFIER_ALIASES = {
+    control: 'ctrl',
+    ctrl: 'ctrl',
+    alt: 'alt',
+    option: 'alt',
+    shift: 'shift',
+    meta: 'meta',
+    cmd: 'meta',
+    command: 'meta'
+}
+
+/** Spelled-out names for keys that cannot appear literally in a `+`-separated combo. */
+const KEY_ALIASES = {
+    plus: '+',
+    minus: '-',
+    space: ' ',
+    spacebar: ' ',
+    esc: 'escape'
+}
+
+/**
+ * Lowercases a key name, leaving single printable characters other than letters untouched so
+ * that `+` stays `+`.
+ *
+ * @param {string} key
+ * @returns {string}
+ */
+function normalizeKey(key) {
+    if (key.length === 1) {
+        return key.toLowerCase()
+    }
+    const lower = key.toLowerCase()
+    return KEY_ALIASES[lower] ?? lower
+}
+
+/**
+ * Canonical form of a combo such as `Ctrl+Shift+K`, `ArrowLeft` or `+`.
+ *
+ * The last `+`-separated part is the key and everything before it a modifier, so a lone `+` is
+ * the plus key rather than an empty modifier list. Unknown modifiers make the combo invalid.
+ *
+ * @param {string} combo
+ * @returns {?string} Canonical combo, or null when it cannot be read.
+ */
+export function normalizeCombo(combo) {
+    if (typeof combo !== 'string' || combo.length === 0) {
+        return null
+    }
+    if (combo === '+') {
+        return '+'
+    }
+    const parts = combo.endsWith('++')
+        ? [...combo.slice(0, -2).split('+'), '+']
+        : combo.split('+')
+    const key = parts.pop()
+    if (!key) {
+        return null
+    }
+
+    const modifiers = new Set()
+    for (const part of parts) {
+        const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()]
+        if (!modifier) {
+            return null
+        }
+        modifiers.add(modifier)
+    }
+
+    const ordered = MODIFIERS.filter((m) => modifiers.has(m))
+    return [...ordered, normalizeKey(key)].join('+')
+}
+
+/**
+ * Canonical combo for a keyboard event.
+ *
+ * Shift is dropped for single non-letter characters: the character already reflects it, and
+ * keeping it would make `+` on a US layout (Shift+=) unreachable as plain `+`.
+ *
+ * @param {{key: string, ctrlKey?: boolean, altKey?: boolean, shiftKey?: boolean, metaKey?: boolean}} event
+ * @returns {?string}
+ */
+export function comboFromEvent(event) {
+    const key = event?.key
+    if (typeof key !== 'string' || key.length === 0) {
+        return null
+    }
+    if (['Control', 'Alt', 'Shift', 'Meta'].includes(key)) {
+        return null
+    }
+    const isLetter = key.length === 1 && key.toLowerCase() !== key.toUpperCase()
+    const shift = event.shiftKey && (key.length > 1 || isLetter)
+
+    const modifiers = []
+    if (event.ctrlKey) modifiers.push('ctrl')
+    if (event.altKey) modifiers.push('alt')
+    if (shift) modifiers.push('shift')
+    if (event.metaKey) modifiers.push('meta')
+    return [...modifiers, normalizeKey(key)].join('+')
+}
+
+/**
+ * Builds the combo-to-action lookup for a set of bindings.
+ *
+ * When two actions claim the same combo the first one listed wins and a warning names both, so
+ * a host rebinding a key it did not know was taken sees why the key does something else.
+ * Unreadable combos are skipped with a warning.
+ *
+ * @param {Object<string, string[]>} bindings Action name to combo list.
+ * @returns {Map<string, string>} Canonical combo to action name.
+ */
+export function buildShortcutIndex(bindings) {
+    const index = new Map()
+    for (const [action, combos] of Object.entries(bindings || {})) {
+        for (const combo of combos || []) {
+            const canonical = normalizeCombo(combo)
+            if (canonical === null) {
+                console.warn(`TSViewer: ignoring unreadable shortcut "${combo}" for ${action}`)
+                continue
+            }
+            const taken = index.get(canonical)
+            if (taken !== undefined && taken !== action) {
+                console.warn(`TSViewer: shortcut "${combo}" is bound to both ${taken} and ${action}; keeping ${taken}`)
+                continue
+            }
+            index.set(canonical, action)
+        }
+    }
+    return index
+}
+
+/**
+ * Whether a key event was aimed at something that takes text, where a bare letter must type
+ * rather than trigger the viewer.
+ *
+ * @param {?EventTarget} target
+ * @returns {boolean}
+ */
+export function isEditableTarget(target) {
+    if (!target || typeof target !== 'object') {
+        return false
+    }
+    if (target.isContentEditable) {
+        return true
+    }
+    const tag = typeof target.tagName === 'string' ? target.tagName.toUpperCase() : ''
+    return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT'
+}
+
+/**
+ * The action a key event triggers, if any.
+ *
+ * @param {KeyboardEvent} event
+ * @param {Map<string, string>} index From {@link buildShortcutIndex}.
+ * @returns {?string} Action name, or null.
+ */
+export function resolveShortcut(event, index) {
+    if (!index || isEditableTarget(event?.target)) {
+        return null
+    }
+    const combo = comboFromEvent(event)
+    if (combo === null) {
+        return null
+    }
+    return index.get(combo) ?? null
+}
+
+/**
+ * Copy of the default bindings, safe for a store to mutate.
+ *
+ * @returns {Object<string, string[]>}
+ */
+export function defaultShortcutBindings() {
+    return Object.fromEntries(
+        Object.entries(DEFAULT_SHORTCUTS).map(([action, combos]) => [action, [...combos]])
+    )
+}
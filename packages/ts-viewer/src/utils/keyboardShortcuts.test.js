@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    DEFAULT_SHORTCUTS,
+    SHORTCUT_ACTIONS,
+    buildShortcutIndex,
+    comboFromEvent,
+    defaultShortcutBindings,
+    isEditableTarget,
+    normalizeCombo,
+    resolveShortcut
+} from '@/utils/keyboardShortcuts'
+
+const key = (k, mods = {}) => ({ key: k, target: null, ...mods })
+
+describe('normalizeCombo', () => {
+    it('orders modifiers and lowercases letters', () => {
+        expect(normalizeCombo('Shift+Ctrl+K')).toBe('ctrl+shift+k')
+        expect(normalizeCombo('cmd+n')).toBe('meta+n')
+        expect(normalizeCombo('ArrowLeft')).toBe('arrowleft')
+    })
+
+    it('reads a lone or trailing plus as the plus key', () => {
+        expect(normalizeCombo('+')).toBe('+')
+        expect(normalizeCombo('ctrl++')).toBe('ctrl++')
+        expect(normalizeCombo('ctrl+plus')).toBe('ctrl++')
+    })
+
+    it('rejects unknown modifiers and empty input', () => {
+        expect(normalizeCombo('hyper+k')).toBeNull()
+        expect(normalizeCombo('')).toBeNull()
+        expect(normalizeCombo(null)).toBeNull()
+    })
+})
+
+describe('comboFromEvent', () => {
+    it('keeps shift for letters and named keys', () => {
+        expect(comboFromEvent(key('N', { shiftKey: true }))).toBe('shift+n')
+        expect(comboFromEvent(key('ArrowRight', { shiftKey: true }))).toBe('shift+arrowright')
+    })
+
+    it('drops shift for symbols the character already reflects', () => {
+        expect(comboFromEvent(key('+', { shiftKey: true }))).toBe('+')
+    })
+
+    it('ignores bare modifier presses', () => {
+        expect(comboFromEvent(key('Shift', { shiftKey: true }))).toBeNull()
+    })
+})
+
+describe('buildShortcutIndex', () => {
+    it('maps every default combo to its action', () => {
+        const index = buildShortcutIndex(DEFAULT_SHORTCUTS)
+        expect(index.get('arrowleft')).toBe('pageBack')
+        expect(index.get('=')).toBe('incrementZoom')
+        expect(index.get('9')).toBe('durationPreset9')
+        expect(new Set(index.values())).toEqual(new Set(SHORTCUT_ACTIONS))
+    })
+
+    it('keeps the first action on a conflict and warns', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const index = buildShortcutIndex({ pageBack: ['x'], pageForward: ['X'] })
+        expect(index.get('x')).toBe('pageBack')
+        expect(warn).toHaveBeenCalledOnce()
+        warn.mockRestore()
+    })
+})
+
+describe('resolveShortcut', () => {
+    const index = buildShortcutIndex(DEFAULT_SHORTCUTS)
+
+    it('resolves a key event to an action', () => {
+        expect(resolveShortcut(key('n'), index)).toBe('nextAnnotation')
+        expect(resolveShortcut(key('q'), index)).toBeNull()
+    })
+
+    it('does not fire while typing in a form field', () => {
+        const input = { tagName: 'INPUT' }
+        expect(isEditableTarget(input)).toBe(true)
+        expect(isEditableTarget({ tagName: 'DIV', isContentEditable: true })).toBe(true)
+        expect(resolveShortcut({ key: 'n', target: input }, index)).toBeNull()
+    })
+
+    it('treats modified keys as different combos', () => {
+        expect(resolveShortcut(key('n', { ctrlKey: true }), index)).toBeNull()
+    })
+
+    it('resolves undo and redo on either platform', () => {
+        expect(resolveShortcut(key('z', { ctrlKey: true }), index)).toBe('undoAnnotation')
+        expect(resolveShortcut(key('z', { metaKey: true }), index)).toBe('undoAnnotation')
+        expect(resolveShortcut(key('Z', { metaKey: true, shiftKey: true }), index)).toBe('redoAnnotation')
+        expect(resolveShortcut(key('y', { ctrlKey: true }), index)).toBe('redoAnnotation')
+    })
+
+    it('toggles playback with the space bar', () => {
+        expect(resolveShortcut(key(' '), index)).toBe('togglePlayback')
+    })
+})
+
+describe('defaultShortcutBindings', () => {
+    it('returns a copy that does not alias the defaults', () => {
+        const bindings = defaultShortcutBindings()
+        bindings.pageBack.push('j')
+        expect(DEFAULT_SHORTCUTS.pageBack).toEqual(['ArrowLeft'])
+    })
+})
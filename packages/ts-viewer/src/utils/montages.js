@@ -0,0 +1,353 @@
+// utils/montages.js
+//
+// User-defined montages. A montage is a named list of derivations, each a
+// weighted sum of catalog channels addressed by NAME:
+//
+//   MontageDefinition = { name, kind, derivations: [{ label, terms: [{ channel, weight }] }] }
+//
+// `kind` records which builder made the montage so the editor can reopen it in the
+// same form; the derivations alone define what is computed.
+
+/** Tag written into exported montage files, so an import can tell them from other JSON. */
+export const MONTAGE_FILE_FORMAT = 'pennsieve-tsviewer-montages'
+
+/** Version of the exported file layout. */
+export const MONTAGE_FILE_VERSION = 1
+
+export const MONTAGE_KINDS = ['bipolar', 'common-average', 'laplacian', 'weighted']
+
+/** Separator the viewer puts between a bipolar pair's two channel names. */
+const PAIR_SEPARATOR = '<->'
+
+/** localStorage key the saved montages live under. Shared by every viewer on the origin. */
+const STORAGE_KEY = 'pennsieve-tsviewer:montages'
+
+/**
+ * Merges repeated channels within one derivation and drops zero weights, so a derivation
+ * reads the same however its terms were written.
+ *
+ * @param {Array<{channel: string, weight: number}>} terms
+ * @returns {Array<{channel: string, weight: number}>}
+ */
+function mergeTerms(terms) {
+    const byChannel = new Map()
+    for (const { channel, weight } of terms) {
+        byChannel.set(channel, (byChannel.get(channel) ?? 0) + weight)
+    }
+    return [...byChannel].filter(([, weight]) => weight !== 0).map(([channel, weight]) => ({ channel, weight }))
+}
+
+/**
+ * Bipolar montage: each derivation is `lead - secondary`.
+ *
+ * Labels use the `lead<->secondary` form the legacy server and the Zarr montage path both
+ * already understand, which is what lets a bipolar montage fall back to a plain
+ * CUSTOM_MONTAGE message.
+ *
+ * @param {string} name
+ * @param {Array<[string, string]>} pairs
+ * @returns {object} MontageDefinition
+ */
+export function bipolarMontage(name, pairs) {
+    return {
+        name,
+        kind: 'bipolar',
+        derivations: pairs.map(([lead, secondary]) => ({
+            label: `${lead}${PAIR_SEPARATOR}${secondary}`,
+            terms: [{ channel: lead, weight: 1 }, { channel: secondary, weight: -1 }]
+        }))
+    }
+}
+
+/**
+ * Common-average montage: each channel minus the mean of the reference set.
+ *
+ * The reference set defaults to every listed channel; `exclude` removes channels from it
+ * (bad channels, typically) while still deriving them.
+ *
+ * @param {string} name
+ * @param {string[]} channels
+ * @param {{exclude?: string[]}} [options]
+ * @returns {object} MontageDefinition
+ */
+export function commonAverageMontage(name, channels, options = {}) {
+    const excluded = new Set(options.exclude || [])
+    const reference = channels.filter((channel) => !excluded.has(channel))
+    const share = reference.length > 0 ? 1 / reference.length : 0
+    return {
+        name,
+        kind: 'common-average',
+        derivations: channels.map((channel) => {
+            const terms = mergeTerms([
+                { channel, weight: 1 },
+                ...reference.map((ref) => ({ channel: ref, weight: -share }))
+            ])
+            // A reference of just the channel itself cancels it out; it stays the first term,
+            // at weight 0, so the derivation still draws (flat) and still names its channel
+            return {
+                label: `${channel}-AVG`,
+                terms: terms[0]?.channel === channel ? terms : [{ channel, weight: 0 }, ...terms]
+            }
+        })
+    }
+}
+
+/**
+ * The channels and exclude list a common-average montage was built from.
+ *
+ * The derived channel is its derivation's first term, even at weight 0; a channel that no
+ * other derivation subtracts was left out of the average.
+ *
+ * @param {object} montage A common-average MontageDefinition.
+ * @returns {{channels: string[], exclude: string[]}}
+ */
+export function commonAverageParts(montage) {
+    // Montages saved before the derived channel was always kept name it only in the label
+    const derivedChannel = ({ label, terms }) => terms[0]?.channel ?? label.replace(/-AVG$/, '')
+    const channels = montage.derivations.map(derivedChannel)
+    const exclude = channels.filter((channel) =>
+        !montage.derivations.some((derivation) =>
+            derivedChannel(derivation) !== channel && derivation.terms.some((term) => term.channel === channel))
+    )
+    return { channels, exclude }
+}
+
+/**
+ * Leaves more channels out of a common-average montage's reference, as when channels are
+ * marked bad. Other kinds of montage, and a montage none of the names belong to, come back
+ * unchanged.
+ *
+ * @param {object} montage
+ * @param {string[]} names Channel names to leave out.
+ * @returns {object} MontageDefinition
+ */
+export function excludeFromAverage(montage, names) {
+    if (montage.kind !== 'common-average' || names.length === 0) {
+        return montage
+    }
+    const { channels, exclude } = commonAverageParts(montage)
+    const added = names.filter((name) => channels.includes(name) && !exclude.includes(name))
+    if (added.length === 0) {
+        return montage
+    }
+    return commonAverageMontage(montage.name, channels, { exclude: [...exclude, ...added] })
+}
+
+/**
+ * Laplacian montage: each channel minus the mean of its neighbours.
+ *
+ * @param {string} name
+ * @param {Object<string, string[]>} neighbours Channel name to its neighbours' names.
+ * @returns {object} MontageDefinition
+ */
+export function laplacianMontage(name, neighbours) {
+    return {
+        name,
+        kind: 'laplacian',
+        derivations: Object.entries(neighbours).map(([channel, around]) => ({
+            label: `${channel}-LAP`,
+            terms: mergeTerms([
+                { channel, weight: 1 },
+                ...around.map((other) => ({ channel: other, weight: -1 / around.length }))
+            ])
+        }))
+    }
+}
+
+/**
+ * Montage of arbitrary weighted sums.
+ *
+ * @param {string} name
+ * @param {Array<{label: string, terms: Array<{channel: string, weight: number}>}>} derivations
+ * @returns {object} MontageDefinition
+ */
+export function weightedMontage(name, derivations) {
+    return {
+        name,
+        kind: 'weighted',
+        derivations: derivations.map(({ label, terms }) => ({ label, terms: mergeTerms(terms) }))
+    }
+}
+
+/**
+ * Checks a montage definition's shape, and its channel names when the catalog is known.
+ *
+ * @param {object} montage
+ * @param {string[]} [channelNames] Catalog names; omit to skip the name check.
+ * @returns {{ok: boolean, errors: string[]}}
+ */
+export function validateMontage(montage, channelNames) {
+    const errors = []
+    if (montage === null || typeof montage !== 'object') {
+        return { ok: false, errors: ['Montage is not an object'] }
+    }
+    if (typeof montage.name !== 'string' || montage.name.trim() === '') {
+        errors.push('Montage needs a name')
+    } else if (montage.name === 'NOT_MONTAGED') {
+        errors.push('"NOT_MONTAGED" is reserved')
+    }
+    if (!Array.isArray(montage.derivations) || montage.derivations.length === 0) {
+        errors.push('Montage needs at least one derivation')
+        return { ok: false, errors }
+    }
+
+    const known = channelNames ? new Set(channelNames) : null
+    const labels = new Set()
+    montage.derivations.forEach((derivation, i) => {
+        const where = `Derivation ${i + 1}`
+        if (typeof derivation?.label !== 'string' || derivation.label === '') {
+            errors.push(`${where} needs a label`)
+        } else if (labels.has(derivation.label)) {
+            errors.push(`${where}: label "${derivation.label}" is used twice`)
+        } else {
+            labels.add(derivation.label)
+        }
+        if (!Array.isArray(derivation?.terms) || derivation.terms.length === 0) {
+            errors.push(`${where} needs at least one channel`)
+            return
+        }
+        for (const term of derivation.terms) {
+            if (typeof term?.channel !== 'string' || !Number.isFinite(term?.weight)) {
+                errors.push(`${where}: every term needs a channel name and a finite weight`)
+                break
+            }
+            if (known && !known.has(term.channel)) {
+                errors.push(`${where}: unknown channel "${term.channel}"`)
+            }
+        }
+    })
+    return { ok: errors.length === 0, errors }
+}
+
+/**
+ * Whether every derivation is a plain `lead - secondary` pair, so the montage can be sent
+ * as a legacy CUSTOM_MONTAGE and work on either transport.
+ *
+ * @param {object} montage
+ * @returns {boolean}
+ */
+export function isBipolarMontage(montage) {
+    return montage.derivations.every(({ label, terms }) =>
+        terms.length === 2 &&
+        terms[0].weight === 1 &&
+        terms[1].weight === -1 &&
+        label === `${terms[0].channel}${PAIR_SEPARATOR}${terms[1].channel}`
+    )
+}
+
+/**
+ * The `[lead, secondary]` name pairs of a bipolar montage, as CUSTOM_MONTAGE carries them.
+ *
+ * @param {object} montage
+ * @returns {Array<[string, string]>}
+ */
+export function toMontageMap(montage) {
+    return montage.derivations.map(({ terms }) => [terms[0].channel, terms[1].channel])
+}
+
+/**
+ * Montage definitions as an exportable JSON document.
+ *
+ * @param {object[]} montages
+ * @returns {string}
+ */
+export function serializeMontages(montages) {
+    return JSON.stringify({
+        format: MONTAGE_FILE_FORMAT,
+        version: MONTAGE_FILE_VERSION,
+        montages: montages.map(({ name, kind, derivations }) => ({ name, kind, derivations }))
+    }, null, 2)
+}
+
+/**
+ * Reads an exported montage document.
+ *
+ * Each montage is validated on its own, so one bad entry costs only that entry. A bare
+ * array of definitions is accepted too, for files written by hand.
+ *
+ * @param {string} text
+ * @returns {{montages: object[], errors: string[]}}
+ */
+export function parseMontages(text) {
+    let doc
+    try {
+        doc = JSON.parse(text)
+    } catch (error) {
+        return { montages: [], errors: [`Not a JSON file: ${error.message}`] }
+    }
+
+    let list = doc
+    if (!Array.isArray(doc)) {
+        if (doc?.format !== MONTAGE_FILE_FORMAT || !Array.isArray(doc.montages)) {
+            return { montages: [], errors: ['Not a montage file'] }
+        }
+        if (doc.version > MONTAGE_FILE_VERSION) {
+            return { montages: [], errors: [`Montage file version ${doc.version} is newer than this viewer supports`] }
+        }
+        list = doc.montages
+    }
+
+    const montages = []
+    const errors = []
+    list.forEach((montage, i) => {
+        const check = validateMontage(montage)
+        if (!check.ok) {
+            errors.push(`Montage ${montage?.name ?? i + 1}: ${check.errors.join('; ')}`)
+            return
+        }
+        montages.push({
+            name: montage.name,
+            kind: MONTAGE_KINDS.includes(montage.kind) ? montage.kind : 'weighted',
+            derivations: montage.derivations.map(({ label, terms }) => ({
+                label,
+                terms: terms.map(({ channel, weight }) => ({ channel, weight }))
+            }))
+        })
+    })
+    return { montages, errors }
+}
+
+/**
+ * @param {Storage} [storage]
+ * @returns {?Storage}
+ */
+function resolveStorage(storage) {
+    if (storage) return storage
+    return typeof globalThis.localStorage === 'undefined' ? null : globalThis.localStorage
+}
+
+/**
+ * Montages saved in this browser, or an empty list when there are none or storage is
+ * unavailable (private mode, server rendering, tests).
+ *
+ * @param {Storage} [storage] Defaults to localStorage.
+ * @returns {object[]}
+ */
+export function loadSavedMontages(storage) {
+    const store = resolveStorage(storage)
+    if (!store) return []
+    try {
+        const text = store.getItem(STORAGE_KEY)
+        return text ? parseMontages(text).montages : []
+    } catch (error) {
+        console.warn('Could not read saved montages:', error)
+        return []
+    }
+}
+
+/**
+ * Saves montages in this browser. Failures (quota, disabled storage) are logged and
+ * otherwise ignored: the montages stay usable for the session.
+ *
+ * @param {object[]} montages
+ * @param {Storage} [storage] Defaults to localStorage.
+ */
+export function persistMontages(montages, storage) {
+    const store = resolveStorage(storage)
+    if (!store) return
+    try {
+        store.setItem(STORAGE_KEY, serializeMontages(montages))
+    } catch (error) {
+        console.warn('Could not save montages:', error)
+    }
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    MONTAGE_FILE_FORMAT,
+    bipolarMontage,
+    commonAverageMontage,
+    commonAverageParts,
+    excludeFromAverage,
+    isBipolarMontage,
+    laplacianMontage,
+    loadSavedMontages,
+    parseMontages,
+    persistMontages,
+    serializeMontages,
+    toMontageMap,
+    validateMontage,
+    weightedMontage
+} from '@/utils/montages'
+
+const memoryStorage = () => {
+    const items = new Map()
+    return {
+        getItem: (key) => (items.has(key) ? items.get(key) : null),
+        setItem: (key, value) => { items.set(key, String(value)) }
+    }
+}
+
+describe('montage builders', () => {
+    it('labels bipolar pairs the way the viewer splits them', () => {
+        const montage = bipolarMontage('Banana', [['Fp1', 'F3'], ['F3', 'C3']])
+        expect(montage.derivations[0]).toEqual({
+            label: 'Fp1<->F3',
+            terms: [{ channel: 'Fp1', weight: 1 }, { channel: 'F3', weight: -1 }]
+        })
+        expect(isBipolarMontage(montage)).toBe(true)
+        expect(toMontageMap(montage)).toEqual([['Fp1', 'F3'], ['F3', 'C3']])
+    })
+
+    it('subtracts the reference mean and folds the channel into its own term', () => {
+        const montage = commonAverageMontage('CAR', ['A', 'B', 'C', 'D'], { exclude: ['D'] })
+        const a = montage.derivations[0]
+        expect(a.label).toBe('A-AVG')
+        expect(a.terms[0].channel).toBe('A')
+        expect(a.terms[0].weight).toBeCloseTo(2 / 3)
+        expect(a.terms.map((term) => term.channel)).toEqual(['A', 'B', 'C'])
+
+        // An excluded channel is still derived, just not averaged in.
+        const d = montage.derivations[3]
+        expect(d.terms.map((term) => term.channel)).toEqual(['D', 'A', 'B', 'C'])
+        expect(d.terms[0].weight).toBe(1)
+        expect(isBipolarMontage(montage)).toBe(false)
+    })
+
+    it('recovers a common average\'s channels and leaves more out of it', () => {
+        const montage = commonAverageMontage('CAR', ['A', 'B', 'C', 'D'], { exclude: ['D'] })
+        expect(commonAverageParts(montage)).toEqual({ channels: ['A', 'B', 'C', 'D'], exclude: ['D'] })
+
+        const fewer = excludeFromAverage(montage, ['B', 'D', 'X'])
+        expect(commonAverageParts(fewer).exclude).toEqual(['B', 'D'])
+        expect(fewer.derivations[0].terms.map((term) => term.channel)).toEqual(['A', 'C'])
+        expect(excludeFromAverage(montage, ['D'])).toBe(montage)
+
+        const bipolar = bipolarMontage('Pairs', [['A', 'B']])
+        expect(excludeFromAverage(bipolar, ['A'])).toBe(bipolar)
+    })
+
+    it('keeps every derivation when all but one reference channel are bad', () => {
+        const montage = excludeFromAverage(commonAverageMontage('CA', ['A', 'B']), ['B'])
+        expect(montage.derivations.map((derivation) => derivation.terms)).toEqual([
+            [{ channel: 'A', weight: 0 }],
+            [{ channel: 'B', weight: 1 }, { channel: 'A', weight: -1 }]
+        ])
+        expect(commonAverageParts(montage)).toEqual({ channels: ['A', 'B'], exclude: ['B'] })
+
+        const none = excludeFromAverage(montage, ['A'])
+        expect(commonAverageParts(none)).toEqual({ channels: ['A', 'B'], exclude: ['A', 'B'] })
+        expect(none.derivations.every((derivation) => derivation.terms.length === 1)).toBe(true)
+
+        // Saved before the derived channel was always kept: named only in the label
+        const saved = { ...montage, derivations: [{ label: 'A-AVG', terms: [] }, montage.derivations[1]] }
+        expect(commonAverageParts(saved).channels).toEqual(['A', 'B'])
+    })
+
+    it('weights Laplacian neighbours equally', () => {
+        const montage = laplacianMontage('LAP', { C3: ['F3', 'P3', 'T7', 'Cz'] })
+        expect(montage.derivations[0].label).toBe('C3-LAP')
+        expect(montage.derivations[0].terms.slice(1).every((term) => term.weight === -0.25)).toBe(true)
+    })
+
+    it('merges repeated channels and drops zero weights in weighted sums', () => {
+        const montage = weightedMontage('W', [{
+            label: 'sum',
+            terms: [{ channel: 'A', weight: 1 }, { channel: 'B', weight: 2 }, { channel: 'A', weight: 0.5 }, { channel: 'B', weight: -2 }]
+        }])
+        expect(montage.derivations[0].terms).toEqual([{ channel: 'A', weight: 1.5 }])
+    })
+})
+
+describe('validateMontage', () => {
+    it('accepts a well-formed montage against its catalog', () => {
+        expect(validateMontage(bipolarMontage('M', [['A', 'B']]), ['A', 'B'])).toEqual({ ok: true, errors: [] })
+    })
+
+    it('reports missing names, reserved names, duplicate labels and unknown channels', () => {
+        expect(validateMontage({ name: '', derivations: [] }).errors).toHaveLength(2)
+        expect(validateMontage(bipolarMontage('NOT_MONTAGED', [['A', 'B']])).ok).toBe(false)
+        const duplicate = bipolarMontage('M', [['A', 'B'], ['A', 'B']])
+        expect(validateMontage(duplicate).errors[0]).toMatch(/used twice/)
+        expect(validateMontage(bipolarMontage('M', [['A', 'X']]), ['A', 'B']).errors).toEqual([
+            'Derivation 1: unknown channel "X"'
+        ])
+    })
+
+    it('rejects non-finite weights', () => {
+        const montage = { name: 'M', derivations: [{ label: 'x', terms: [{ channel: 'A', weight: NaN }] }] }
+        expect(validateMontage(montage).ok).toBe(false)
+    })
+})
+
+describe('serializeMontages / parseMontages', () => {
+    it('round-trips definitions', () => {
+        const montages = [bipolarMontage('Banana', [['A', 'B']]), laplacianMontage('LAP', { A: ['B', 'C'] })]
+        const text = serializeMontages(montages)
+        expect(JSON.parse(text).format).toBe(MONTAGE_FILE_FORMAT)
+        expect(parseMontages(text)).toEqual({ montages, errors: [] })
+    })
+
+    it('keeps the good entries of a partly broken file', () => {
+        const text = JSON.stringify([bipolarMontage('Good', [['A', 'B']]), { name: 'Bad', derivations: [] }])
+        const { montages, errors } = parseMontages(text)
+        expect(montages.map((montage) => montage.name)).toEqual(['Good'])
+        expect(errors[0]).toMatch(/^Montage Bad:/)
+    })
+
+    it('rejects other JSON and newer file versions', () => {
+        expect(parseMontages('{').errors[0]).toMatch(/^Not a JSON file/)
+        expect(parseMontages('{"format":"other"}').errors).toEqual(['Not a montage file'])
+        const newer = JSON.stringify({ format: MONTAGE_FILE_FORMAT, version: 99, montages: [] })
+        expect(parseMontages(newer).errors[0]).toMatch(/newer/)
+    })
+})
+
+describe('loadSavedMontages / persistMontages', () => {
+    it('reads back what it saved', () => {
+        const storage = memoryStorage()
+        const montages = [weightedMontage('W', [{ label: 'x', terms: [{ channel: 'A', weight: 2 }] }])]
+        persistMontages(montages, storage)
+        expect(loadSavedMontages(storage)).toEqual(montages)
+    })
+
+    it('returns nothing for empty or unreadable storage', () => {
+        expect(loadSavedMontages(memoryStorage())).toEqual([])
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const broken = { getItem: () => { throw new Error('denied') } }
+        expect(loadSavedMontages(broken)).toEqual([])
+        expect(warn).toHaveBeenCalled()
+        warn.mockRestore()
+    })
+})
@@ -0,0 +1,123 @@
+// utils/playback.js
+//
+// Playback clock and stop conditions. Playback is measured from an anchor: the window start
+// and wall-clock time when play began, or when the user last moved the viewer. Deriving each
+// position from the anchor rather than adding a step per frame keeps long playback from
+// drifting when frames are late.
+
+/** Speeds the toolbar offers, as multiples of real time. */
+export const PLAYBACK_SPEEDS = Object.freeze([0.5, 1, 2, 5, 10, 20])
+
+/** Slowest and fastest speeds accepted, as multiples of real time. */
+export const MIN_PLAYBACK_SPEED = 0.5
+export const MAX_PLAYBACK_SPEED = 20
+
+/**
+ * 'continuous' slides the traces smoothly; 'page' holds each page and flips to the next
+ * once the played time has covered it.
+ */
+export const PLAYBACK_MODES = Object.freeze(['continuous', 'page'])
+
+/**
+ * Playback settings a viewer starts with.
+ *
+ * @returns {{speed: number, mode: 'continuous'|'page', stopAtGaps: boolean, stopAtAnnotations: boolean}}
+ */
+export function defaultPlaybackSettings() {
+    return { speed: 1, mode: 'continuous', stopAtGaps: false, stopAtAnnotations: false }
+}
+
+/**
+ * Throws if `settings` names a speed or mode the viewer cannot play at.
+ *
+ * @param {{speed?: number, mode?: string}} settings
+ */
+export function validatePlaybackSettings({ speed, mode }) {
+    if (speed !== undefined && !(speed >= MIN_PLAYBACK_SPEED && speed <= MAX_PLAYBACK_SPEED)) {
+        throw new Error(`Playback speed must be between ${MIN_PLAYBACK_SPEED}x and ${MAX_PLAYBACK_SPEED}x`)
+    }
+    if (mode !== undefined && !PLAYBACK_MODES.includes(mode)) {
+        throw new Error(`Unknown playback mode: ${mode}`)
+    }
+}
+
+/**
+ * Window start after `elapsedMs` of playback from `anchorUs`.
+ *
+ * @param {number} anchorUs Window start when the anchor was taken.
+ * @param {number} elapsedMs Wall-clock time since the anchor.
+ * @param {{speed: number, mode: 'continuous'|'page'}} settings
+ * @param {number} durationUs Window length; page mode advances by whole windows.
+ * @returns {number}
+ */
+export function playbackStart(anchorUs, elapsedMs, { speed, mode }, durationUs) {
+    const playedUs = elapsedMs * 1000 * speed
+    if (mode === 'page') {
+        return anchorUs + Math.floor(playedUs / durationUs) * durationUs
+    }
+    return anchorUs + playedUs
+}
+
+/**
+ * Spans where at least one channel has data, merged and sorted, from the channels'
+ * `dataSegments` (flat `[start, end, start, end, ...]` lists in microseconds).
+ *
+ * @param {Array<{dataSegments?: number[]}>} channels
+ * @returns {Array<[number, number]>}
+ */
+export function mergeDataSpans(channels) {
+    const spans = []
+    for (const channel of channels) {
+        const segments = channel.dataSegments || []
+        for (let i = 0; i + 1 < segments.length; i += 2) {
+            spans.push([segments[i], segments[i + 1]])
+        }
+    }
+    spans.sort((a, b) => a[0] - b[0])
+
+    const merged = []
+    for (const [start, end] of spans) {
+        const last = merged[merged.length - 1]
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end)
+        } else {
+            merged.push([start, end])
+        }
+    }
+    return merged
+}
+
+/**
+ * First place playback should stop in `(fromUs, toUs]`: the end of a data span, where a gap
+ * begins, or the start of an annotation on a visible layer. The interval is open at `fromUs`
+ * so that playing again from a stop moves on.
+ *
+ * @param {number} fromUs
+ * @param {number} toUs
+ * @param {{spans?: Array<[number, number]>, layers?: Array<object>, stopAtGaps?: boolean, stopAtAnnotations?: boolean}} options
+ * @returns {?{timeUs: number, reason: 'gap'|'annotation', annotation?: object}}
+ */
+export function findPlaybackStop(fromUs, toUs, { spans = [], layers = [], stopAtGaps = false, stopAtAnnotations = false }) {
+    const inRange = (time) => time > fromUs && time <= toUs
+    let stop = null
+
+    if (stopAtGaps) {
+        const span = spans.find(([, end]) => inRange(end))
+        if (span) {
+            stop = { timeUs: span[1], reason: 'gap' }
+        }
+    }
+
+    if (stopAtAnnotations) {
+        for (const layer of layers) {
+            if (layer.visible === false) continue
+            for (const annotation of layer.annotations || []) {
+                if (inRange(annotation.start) && (!stop || annotation.start < stop.timeUs)) {
+                    stop = { timeUs: annotation.start, reason: 'annotation', annotation }
+                }
+            }
+        }
+    }
+
+    return stop
+}
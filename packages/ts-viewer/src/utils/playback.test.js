@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+    PLAYBACK_SPEEDS,
+    defaultPlaybackSettings,
+    findPlaybackStop,
+    mergeDataSpans,
+    playbackStart,
+    validatePlaybackSettings
+} from '@/utils/playback'
+
+const SECOND = 1_000_000
+
+describe('validatePlaybackSettings', () => {
+    it('accepts the offered speeds and modes', () => {
+        for (const speed of PLAYBACK_SPEEDS) {
+            expect(() => validatePlaybackSettings({ speed })).not.toThrow()
+        }
+        expect(() => validatePlaybackSettings({ mode: 'page' })).not.toThrow()
+        expect(() => validatePlaybackSettings(defaultPlaybackSettings())).not.toThrow()
+    })
+
+    it('rejects speeds outside 0.5x to 20x and unknown modes', () => {
+        expect(() => validatePlaybackSettings({ speed: 0.25 })).toThrow(/between 0.5x and 20x/)
+        expect(() => validatePlaybackSettings({ speed: 40 })).toThrow(/between 0.5x and 20x/)
+        expect(() => validatePlaybackSettings({ speed: NaN })).toThrow()
+        expect(() => validatePlaybackSettings({ mode: 'rewind' })).toThrow(/Unknown playback mode/)
+    })
+})
+
+describe('playbackStart', () => {
+    it('advances continuously at the chosen speed', () => {
+        expect(playbackStart(100 * SECOND, 500, { speed: 1, mode: 'continuous' }, 10 * SECOND)).toBe(100.5 * SECOND)
+        expect(playbackStart(100 * SECOND, 500, { speed: 20, mode: 'continuous' }, 10 * SECOND)).toBe(110 * SECOND)
+    })
+
+    it('flips whole pages once the played time covers one', () => {
+        const page = { speed: 2, mode: 'page' }
+        expect(playbackStart(0, 4_999, page, 10 * SECOND)).toBe(0)
+        expect(playbackStart(0, 5_000, page, 10 * SECOND)).toBe(10 * SECOND)
+        expect(playbackStart(0, 12_000, page, 10 * SECOND)).toBe(20 * SECOND)
+    })
+})
+
+describe('mergeDataSpans', () => {
+    it('unions the channels\' spans', () => {
+        expect(mergeDataSpans([
+            { dataSegments: [0, 10, 30, 40] },
+            { dataSegments: [5, 20] },
+            { dataSegments: [] },
+            {}
+        ])).toEqual([[0, 20], [30, 40]])
+    })
+})
+
+describe('findPlaybackStop', () => {
+    const spans = [[0, 20 * SECOND], [30 * SECOND, 40 * SECOND]]
+    const layers = [
+        { visible: true, annotations: [{ id: 'a', start: 15 * SECOND }, { id: 'b', start: 25 * SECOND }] },
+        { visible: false, annotations: [{ id: 'hidden', start: 12 * SECOND }] }
+    ]
+
+    it('stops where a gap begins', () => {
+        expect(findPlaybackStop(10 * SECOND, 25 * SECOND, { spans, stopAtGaps: true }))
+            .toEqual({ timeUs: 20 * SECOND, reason: 'gap' })
+    })
+
+    it('stops at the first annotation on a visible layer', () => {
+        const stop = findPlaybackStop(10 * SECOND, 30 * SECOND, { layers, stopAtAnnotations: true })
+        expect(stop.reason).toBe('annotation')
+        expect(stop.annotation.id).toBe('a')
+    })
+
+    it('takes whichever stop comes first, and nothing it was not asked for', () => {
+        const both = { spans, layers, stopAtGaps: true, stopAtAnnotations: true }
+        expect(findPlaybackStop(16 * SECOND, 30 * SECOND, both).reason).toBe('gap')
+        expect(findPlaybackStop(10 * SECOND, 30 * SECOND, both).reason).toBe('annotation')
+        expect(findPlaybackStop(10 * SECOND, 30 * SECOND, { spans, layers })).toBeNull()
+    })
+
+    it('moves on from a stop it is started at', () => {
+        expect(findPlaybackStop(15 * SECOND, 16 * SECOND, { layers, stopAtAnnotations: true })).toBeNull()
+    })
+})
@@ -0,0 +1,183 @@
+// utils/sleepScoring.js
+//
+// Epoch scoring: the recording divided into fixed epochs from its start, each given a stage
+// by a single key. A score is an annotation over its epoch, on every channel, in the scoring
+// layer, labelled with the stage; the viewer store keeps an index of them by epoch:
+//
+//   EpochScores = { [epochIndex]: { label, annotationId } }
+//
+// Stages carry the hypnogram row they are drawn on, 0 at the top.
+
+import { comboFromEvent, isEditableTarget, normalizeCombo } from './keyboardShortcuts'
+
+export const DEFAULT_EPOCH_SECONDS = 30
+
+/** Name of the layer scores go to unless another is given. */
+export const SCORING_LAYER_NAME = 'Sleep stages'
+
+/**
+ * AASM stages, in hypnogram order. The digit keys take precedence over the duration presets
+ * while scoring, which fixes the window at one epoch anyway.
+ */
+export const DEFAULT_SCORING_STAGES = Object.freeze([
+    Object.freeze({ label: 'W', name: 'Wake', key: 'w', level: 0, color: '#E94B4B' }),
+    Object.freeze({ label: 'REM', name: 'REM sleep', key: 'r', level: 1, color: '#FF4FFF' }),
+    Object.freeze({ label: 'N1', name: 'Stage N1', key: '1', level: 2, color: '#FFBC27' }),
+    Object.freeze({ label: 'N2', name: 'Stage N2', key: '2', level: 3, color: '#389BAD' }),
+    Object.freeze({ label: 'N3', name: 'Stage N3', key: '3', level: 4, color: '#0D4EFF' })
+])
+
+/** Keys that clear the current epoch's score. */
+export const CLEAR_SCORE_KEYS = Object.freeze(['backspace', 'delete'])
+
+/**
+ * @param {Array<{label: string, key: string, level: number, color?: string}>} stages
+ * @throws {Error} when the list is empty, or labels or keys repeat or cannot be read
+ */
+export function validateScoringStages(stages) {
+    if (!Array.isArray(stages) || stages.length === 0) {
+        throw new Error('Scoring needs at least one stage')
+    }
+    const labels = new Set()
+    const keys = new Set()
+    for (const stage of stages) {
+        if (typeof stage?.label !== 'string' || stage.label.trim() === '') {
+            throw new Error('Every scoring stage needs a label')
+        }
+        if (labels.has(stage.label)) {
+            throw new Error(`Scoring stage ${stage.label} is listed twice`)
+        }
+        labels.add(stage.label)
+        const key = normalizeCombo(stage.key)
+        if (key === null || CLEAR_SCORE_KEYS.includes(key)) {
+            throw new Error(`Scoring stage ${stage.label} needs a key other than ${CLEAR_SCORE_KEYS.join(' and ')}`)
+        }
+        if (keys.has(key)) {
+            throw new Error(`Key ${stage.key} is given to two scoring stages`)
+        }
+        keys.add(key)
+        if (!Number.isInteger(stage.level) || stage.level < 0) {
+            throw new Error(`Scoring stage ${stage.label} needs a hypnogram level, a whole number from 0`)
+        }
+    }
+}
+
+/**
+ * Index of the epoch containing `timeUs`. A time a hair before an epoch start, as window
+ * arithmetic can leave it, counts as that epoch.
+ *
+ * @param {number} timeUs
+ * @param {number} originUs Start of epoch 0, the recording start.
+ * @param {number} epochUs
+ * @returns {number}
+ */
+export function epochIndexAt(timeUs, originUs, epochUs) {
+    return Math.max(0, Math.floor((timeUs - originUs) / epochUs + 1e-6))
+}
+
+/**
+ * @param {number} originUs
+ * @param {number} endUs Recording end.
+ * @param {number} epochUs
+ * @returns {number} Epochs in the recording, the last possibly short.
+ */
+export function epochCount(originUs, endUs, epochUs) {
+    return Math.max(0, Math.ceil((endUs - originUs) / epochUs - 1e-6))
+}
+
+/**
+ * @param {number} index
+ * @param {{originUs: number, endUs: number, epochUs: number}} grid
+ * @returns {{startUs: number, endUs: number}}
+ */
+export function epochSpan(index, { originUs, endUs, epochUs }) {
+    const startUs = originUs + index * epochUs
+    return { startUs, endUs: Math.min(endUs, startUs + epochUs) }
+}
+
+/**
+ * Index of scores from the scoring layer's annotations. Annotations that do not start on an
+ * epoch boundary or are not labelled with a stage are not scores and are left out; of two on
+ * one epoch, the later listed wins.
+ *
+ * @param {Array<{id: string, label: string, start: number}>} annotations
+ * @param {{originUs: number, epochUs: number, stages: Array<{label: string}>}} options
+ * @returns {Object<number, {label: string, annotationId: string}>} EpochScores
+ */
+export function indexEpochScores(annotations, { originUs, epochUs, stages }) {
+    const labels = new Set(stages.map((stage) => stage.label))
+    const scores = {}
+    for (const annotation of annotations) {
+        const offset = (annotation.start - originUs) / epochUs
+        const index = Math.round(offset)
+        if (index < 0 || Math.abs(offset - index) > 1e-3 || !labels.has(annotation.label)) {
+            continue
+        }
+        scores[index] = { label: annotation.label, annotationId: annotation.id }
+    }
+    return scores
+}
+
+/**
+ * What a key press does while scoring: give the epoch a stage, clear its score, or nothing.
+ *
+ * @param {KeyboardEvent} event
+ * @param {Array<{label: string, key: string}>} stages
+ * @returns {?({type: 'stage', label: string} | {type: 'clear'})}
+ */
+export function scoringKeyAction(event, stages) {
+    if (isEditableTarget(event?.target)) {
+        return null
+    }
+    const combo = comboFromEvent(event)
+    if (combo === null) {
+        return null
+    }
+    if (CLEAR_SCORE_KEYS.includes(combo)) {
+        return { type: 'clear' }
+    }
+    const stage = stages.find((candidate) => normalizeCombo(candidate.key) === combo)
+    return stage ? { type: 'stage', label: stage.label } : null
+}
+
+/**
+ * One row per epoch of the recording, scored or not.
+ *
+ * @param {Object<number, {label: string}>} scores EpochScores
+ * @param {{originUs: number, endUs: number, epochUs: number}} grid
+ * @returns {Array<{epoch: number, startUs: number, durationUs: number, stage: ?string}>}
+ *   `epoch` counts from 1; `stage` is null for an unscored epoch.
+ */
+export function stageTable(scores, grid) {
+    const rows = []
+    const count = epochCount(grid.originUs, grid.endUs, grid.epochUs)
+    for (let index = 0; index < count; index++) {
+        const { startUs, endUs } = epochSpan(index, grid)
+        rows.push({ epoch: index + 1, startUs, durationUs: endUs - startUs, stage: scores[index]?.label ?? null })
+    }
+    return rows
+}
+
+const clockTime = (us) => new Date(us / 1000).toISOString().slice(11, 19)
+
+/**
+ * A stage table as tab-separated text: onset in seconds from the recording start, the UTC
+ * clock time, and `n/a` for unscored epochs, as BIDS writes a missing value.
+ *
+ * @param {Array<object>} rows From {@link stageTable}.
+ * @param {number} originUs Recording start.
+ * @returns {string}
+ */
+export function serializeStageTable(rows, originUs) {
+    const lines = ['epoch\tonset\tduration\tclock_time\tstage']
+    for (const row of rows) {
+        lines.push([
+            row.epoch,
+            ((row.startUs - originUs) / 1e6).toFixed(3),
+            (row.durationUs / 1e6).toFixed(3),
+            clockTime(row.startUs),
+            row.stage ?? 'n/a'
+        ].join('\t'))
+    }
+    return `${lines.join('\n')}\n`
+}
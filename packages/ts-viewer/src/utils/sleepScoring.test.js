@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import {
+    DEFAULT_SCORING_STAGES,
+    epochCount,
+    epochIndexAt,
+    epochSpan,
+    indexEpochScores,
+    scoringKeyAction,
+    serializeStageTable,
+    stageTable,
+    validateScoringStages
+} from '@/utils/sleepScoring'
+
+// 2024-01-01T00:00:00Z
+const ORIGIN = 1704067200000000
+const EPOCH = 30e6
+const grid = { originUs: ORIGIN, endUs: ORIGIN + 75e6, epochUs: EPOCH }
+
+const key = (k, extra = {}) => ({ key: k, target: null, ...extra })
+
+describe('stages', () => {
+    it('accepts the defaults', () => {
+        expect(() => validateScoringStages(DEFAULT_SCORING_STAGES)).not.toThrow()
+    })
+
+    it('rejects repeated labels and keys, and the clear keys', () => {
+        expect(() => validateScoringStages([])).toThrow('at least one stage')
+        expect(() => validateScoringStages([
+            { label: 'A', key: 'a', level: 0 },
+            { label: 'A', key: 'b', level: 1 }
+        ])).toThrow('listed twice')
+        expect(() => validateScoringStages([
+            { label: 'A', key: 'a', level: 0 },
+            { label: 'B', key: 'A', level: 1 }
+        ])).toThrow('two scoring stages')
+        expect(() => validateScoringStages([{ label: 'A', key: 'Backspace', level: 0 }])).toThrow('a key other than')
+        expect(() => validateScoringStages([{ label: 'A', key: 'a', level: -1 }])).toThrow('hypnogram level')
+    })
+})
+
+describe('epoch grid', () => {
+    it('finds the epoch around a time, forgiving a hair before a boundary', () => {
+        expect(epochIndexAt(ORIGIN, ORIGIN, EPOCH)).toBe(0)
+        expect(epochIndexAt(ORIGIN + 59e6, ORIGIN, EPOCH)).toBe(1)
+        expect(epochIndexAt(ORIGIN + 60e6 - 0.5, ORIGIN, EPOCH)).toBe(2)
+        expect(epochIndexAt(ORIGIN - 5, ORIGIN, EPOCH)).toBe(0)
+    })
+
+    it('counts a short last epoch and clips it to the recording', () => {
+        expect(epochCount(grid.originUs, grid.endUs, EPOCH)).toBe(3)
+        expect(epochSpan(2, grid)).toEqual({ startUs: ORIGIN + 60e6, endUs: ORIGIN + 75e6 })
+    })
+})
+
+describe('indexEpochScores', () => {
+    it('keeps stage-labelled annotations that start on an epoch', () => {
+        const annotations = [
+            { id: 'a', label: 'N2', start: ORIGIN },
+            { id: 'b', label: 'Spindle', start: ORIGIN + 30e6 },
+            { id: 'c', label: 'W', start: ORIGIN + 31e6 },
+            { id: 'd', label: 'REM', start: ORIGIN + 60e6 },
+            { id: 'e', label: 'W', start: ORIGIN + 60e6 }
+        ]
+        expect(indexEpochScores(annotations, { originUs: ORIGIN, epochUs: EPOCH, stages: DEFAULT_SCORING_STAGES })).toEqual({
+            0: { label: 'N2', annotationId: 'a' },
+            2: { label: 'W', annotationId: 'e' }
+        })
+    })
+})
+
+describe('scoringKeyAction', () => {
+    it('maps stage keys and the clear keys', () => {
+        expect(scoringKeyAction(key('2'), DEFAULT_SCORING_STAGES)).toEqual({ type: 'stage', label: 'N2' })
+        expect(scoringKeyAction(key('W', { shiftKey: true }), DEFAULT_SCORING_STAGES)).toBeNull()
+        expect(scoringKeyAction(key('w'), DEFAULT_SCORING_STAGES)).toEqual({ type: 'stage', label: 'W' })
+        expect(scoringKeyAction(key('Delete'), DEFAULT_SCORING_STAGES)).toEqual({ type: 'clear' })
+        expect(scoringKeyAction(key('x'), DEFAULT_SCORING_STAGES)).toBeNull()
+    })
+
+    it('leaves text fields alone', () => {
+        expect(scoringKeyAction(key('2', { target: { tagName: 'input' } }), DEFAULT_SCORING_STAGES)).toBeNull()
+    })
+})
+
+describe('stage table', () => {
+    it('lists every epoch, unscored ones as n/a', () => {
+        const rows = stageTable({ 0: { label: 'W' }, 2: { label: 'N1' } }, grid)
+        expect(rows.map((row) => [row.epoch, row.stage, row.durationUs])).toEqual([[1, 'W', 30e6], [2, null, 30e6], [3, 'N1', 15e6]])
+        expect(serializeStageTable(rows, ORIGIN)).toBe([
+            'epoch\tonset\tduration\tclock_time\tstage',
+            '1\t0.000\t30.000\t00:00:00\tW',
+            '2\t30.000\t30.000\t00:00:30\tn/a',
+            '3\t60.000\t15.000\t00:01:00\tN1',
+            ''
+        ].join('\n'))
+    })
+})
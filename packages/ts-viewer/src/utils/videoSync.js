@@ -0,0 +1,68 @@
+// utils/videoSync.js
+//
+// Clock mapping between a video and the recording it was filmed with. Video time zero sits at
+// the recording start plus a configurable offset, so a camera that started 12 s after the
+// amplifier has offsetUs = 12e6, and one that started earlier a negative offset.
+
+/** Where the cursor lands, as a fraction of the window, when the video pages the viewer. */
+export const VIDEO_CURSOR_LEAD = 0.1
+
+/** Past this fraction of the window, a paging viewer turns the page. */
+const PAGE_EDGE = 0.95
+
+/**
+ * Recording time, in microseconds, shown at a video time.
+ *
+ * @param {number} videoSeconds The video element's currentTime.
+ * @param {{recordingStart: ?number, offsetUs?: number}} sync
+ * @returns {number}
+ */
+export function videoToRecordingTime(videoSeconds, { recordingStart, offsetUs = 0 }) {
+    return (recordingStart ?? 0) + offsetUs + videoSeconds * 1e6
+}
+
+/**
+ * Video time, in seconds, that shows a recording time. Negative or past the end of the video
+ * when the recording runs longer than the camera did.
+ *
+ * @param {number} timeUs
+ * @param {{recordingStart: ?number, offsetUs?: number}} sync
+ * @returns {number}
+ */
+export function recordingToVideoTime(timeUs, { recordingStart, offsetUs = 0 }) {
+    return (timeUs - (recordingStart ?? 0) - offsetUs) / 1e6
+}
+
+/**
+ * Recording time under the viewer's cursor.
+ *
+ * @param {{start: number, duration: number, cursorLoc: number}} viewport
+ * @returns {number}
+ */
+export function cursorTime(viewport) {
+    return viewport.start + viewport.cursorLoc * viewport.duration
+}
+
+/**
+ * How the viewer should move to put its cursor on `timeUs`. 'page' moves the cursor across a
+ * still page and turns the page when the time leaves it, which keeps redraws rare; 'scroll'
+ * keeps the cursor still and slides the traces under it.
+ *
+ * @param {{start: number, duration: number, cursorLoc: number}} viewport
+ * @param {number} timeUs
+ * @param {'page'|'scroll'} mode
+ * @returns {{start?: number, cursorLoc?: number}}
+ */
+export function followVideo(viewport, timeUs, mode = 'page') {
+    if (mode === 'scroll') {
+        return { start: timeUs - viewport.cursorLoc * viewport.duration }
+    }
+    if (mode !== 'page') {
+        throw new Error(`Unknown video follow mode: ${mode}`)
+    }
+    const fraction = (timeUs - viewport.start) / viewport.duration
+    if (fraction >= 0 && fraction <= PAGE_EDGE) {
+        return { cursorLoc: fraction }
+    }
+    return { start: timeUs - VIDEO_CURSOR_LEAD * viewport.duration, cursorLoc: VIDEO_CURSOR_LEAD }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+    VIDEO_CURSOR_LEAD,
+    cursorTime,
+    followVideo,
+    recordingToVideoTime,
+    videoToRecordingTime
+} from '@/utils/videoSync'
+
+const sync = { recordingStart: 1_000_000_000, offsetUs: 12_000_000 }
+const viewport = { start: 1_020_000_000, duration: 10_000_000, cursorLoc: 0.1 }
+
+describe('video clock mapping', () => {
+    it('puts video time zero at the recording start plus the offset', () => {
+        expect(videoToRecordingTime(0, sync)).toBe(1_012_000_000)
+        expect(videoToRecordingTime(2.5, sync)).toBe(1_014_500_000)
+        expect(videoToRecordingTime(1, { recordingStart: null })).toBe(1_000_000)
+    })
+
+    it('inverts', () => {
+        expect(recordingToVideoTime(videoToRecordingTime(33.25, sync), sync)).toBeCloseTo(33.25, 9)
+        expect(recordingToVideoTime(1_000_000_000, sync)).toBe(-12)
+    })
+})
+
+describe('cursorTime', () => {
+    it('reads the time under the cursor', () => {
+        expect(cursorTime(viewport)).toBe(1_021_000_000)
+    })
+})
+
+describe('followVideo', () => {
+    it('moves the cursor while the time is on the page', () => {
+        expect(followVideo(viewport, 1_025_000_000)).toEqual({ cursorLoc: 0.5 })
+    })
+
+    it('turns the page when the time leaves it', () => {
+        expect(followVideo(viewport, 1_029_800_000)).toEqual({
+            start: 1_029_800_000 - VIDEO_CURSOR_LEAD * 10_000_000,
+            cursorLoc: VIDEO_CURSOR_LEAD
+        })
+        expect(followVideo(viewport, 1_019_000_000).start).toBe(1_018_000_000)
+    })
+
+    it('slides the traces under a still cursor in scroll mode', () => {
+        expect(followVideo(viewport, 1_025_000_000, 'scroll')).toEqual({ start: 1_024_000_000 })
+        expect(() => followVideo(viewport, 0, 'jump')).toThrow(/Unknown video follow mode/)
+    })
+})
@@ -0,0 +1,79 @@
+// utils/viewerLinks.js
+//
+// Time mapping between linked viewers. Each viewer's position is carried across as "link
+// time": its start minus an anchor. With 'absolute' alignment the anchor is zero, so linked
+// viewers show the same wall-clock time; with 'recording' alignment it is the recording's
+// start, so they show the same offset into their recordings. A member's own offsetUs is
+// added to the anchor, to line up, say, two seizure onsets by hand.
+
+/** Ways linked viewers line their recordings up. */
+export const LINK_ALIGNMENTS = Object.freeze(['absolute', 'recording'])
+
+/** Position changes smaller than this, in microseconds, are rounding and not passed on. */
+const TOLERANCE_US = 1
+
+/**
+ * The time a viewer's link time is measured from.
+ *
+ * @param {{recordingStart: ?number}} viewport
+ * @param {{offsetUs?: number}} member
+ * @param {'absolute'|'recording'} alignment
+ * @returns {number}
+ */
+export function linkAnchor(viewport, member, alignment) {
+    const base = alignment === 'recording' ? (viewport.recordingStart ?? 0) : 0
+    return base + (member.offsetUs || 0)
+}
+
+/**
+ * Where the target viewer should be to match the source viewer.
+ *
+ * @param {{start: number, duration: number, cursorLoc: number, recordingStart: ?number}} source Source viewport.
+ * @param {{offsetUs?: number}} sourceMember
+ * @param {{recordingStart: ?number}} target Target viewport, for its recording start.
+ * @param {{offsetUs?: number}} targetMember
+ * @param {'absolute'|'recording'} alignment
+ * @returns {{start: number, duration: number, cursorLoc: number}}
+ */
+export function mapViewport(source, sourceMember, target, targetMember, alignment) {
+    if (!LINK_ALIGNMENTS.includes(alignment)) {
+        throw new Error(`Unknown link alignment: ${alignment}`)
+    }
+    const linkTime = source.start - linkAnchor(source, sourceMember, alignment)
+    return {
+        start: linkTime + linkAnchor(target, targetMember, alignment),
+        duration: source.duration,
+        cursorLoc: source.cursorLoc
+    }
+}
+
+/**
+ * Whether moving `current` to `next` would change what the viewer shows.
+ *
+ * @param {{start: number, duration: number, cursorLoc: number}} current
+ * @param {{start: number, duration: number, cursorLoc: number}} next
+ * @returns {boolean}
+ */
+export function viewportDiffers(current, next) {
+    return Math.abs(current.start - next.start) >= TOLERANCE_US ||
+        Math.abs(current.duration - next.duration) >= TOLERANCE_US ||
+        current.cursorLoc !== next.cursorLoc
+}
+
+/**
+ * The annotation in `layers` that corresponds to one selected in a linked viewer: the same
+ * annotation when both viewers show one recording, otherwise one with the same label that
+ * starts at the same link time.
+ *
+ * @param {{id: string, label: string, start: number}} annotation
+ * @param {Array<{annotations?: Array<object>}>} layers The target store's `viewerAnnotations`.
+ * @param {number} shiftUs Target time minus source time for the same link time.
+ * @returns {?object}
+ */
+export function matchAnnotation(annotation, layers, shiftUs) {
+    const candidates = layers.flatMap((layer) => layer.annotations || [])
+    return candidates.find((candidate) => candidate.id === annotation.id) ??
+        candidates.find((candidate) => candidate.label === annotation.label &&
+            Math.abs(candidate.start - (annotation.start + shiftUs)) < TOLERANCE_US) ??
+        null
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { linkAnchor, mapViewport, matchAnnotation, viewportDiffers } from '@/utils/viewerLinks'
+
+const preOp = { start: 5_000_000, duration: 10_000_000, cursorLoc: 0.1, recordingStart: 1_000_000 }
+const postOp = { start: 0, duration: 15_000_000, cursorLoc: 0.1, recordingStart: 90_000_000 }
+
+describe('linkAnchor', () => {
+    it('is zero for absolute alignment and the recording start otherwise, plus the member offset', () => {
+        expect(linkAnchor(preOp, {}, 'absolute')).toBe(0)
+        expect(linkAnchor(preOp, {}, 'recording')).toBe(1_000_000)
+        expect(linkAnchor(preOp, { offsetUs: 250 }, 'recording')).toBe(1_000_250)
+        expect(linkAnchor({ recordingStart: null }, {}, 'recording')).toBe(0)
+    })
+})
+
+describe('mapViewport', () => {
+    it('copies wall-clock time under absolute alignment', () => {
+        expect(mapViewport(preOp, {}, postOp, {}, 'absolute')).toEqual({
+            start: 5_000_000, duration: 10_000_000, cursorLoc: 0.1
+        })
+    })
+
+    it('keeps the offset into each recording under recording alignment', () => {
+        expect(mapViewport(preOp, {}, postOp, {}, 'recording').start).toBe(94_000_000)
+        expect(mapViewport(preOp, {}, postOp, { offsetUs: 2_000_000 }, 'recording').start).toBe(96_000_000)
+        expect(mapViewport(preOp, { offsetUs: 2_000_000 }, postOp, {}, 'recording').start).toBe(92_000_000)
+    })
+
+    it('round-trips between two viewers', () => {
+        const there = mapViewport(preOp, { offsetUs: 7 }, postOp, { offsetUs: 3 }, 'recording')
+        const back = mapViewport({ ...postOp, ...there }, { offsetUs: 3 }, preOp, { offsetUs: 7 }, 'recording')
+        expect(viewportDiffers(preOp, back)).toBe(false)
+    })
+
+    it('rejects unknown alignments', () => {
+        expect(() => mapViewport(preOp, {}, postOp, {}, 'nearest')).toThrow(/Unknown link alignment/)
+    })
+})
+
+describe('viewportDiffers', () => {
+    it('ignores sub-microsecond rounding', () => {
+        expect(viewportDiffers(preOp, { ...preOp, start: preOp.start + 0.4 })).toBe(false)
+        expect(viewportDiffers(preOp, { ...preOp, start: preOp.start + 1 })).toBe(true)
+        expect(viewportDiffers(preOp, { ...preOp, cursorLoc: 0.5 })).toBe(true)
+    })
+})
+
+describe('matchAnnotation', () => {
+    const layers = [{ annotations: [
+        { id: 'x1', label: 'Onset', start: 94_000_000 },
+        { id: 'x2', label: 'Spike', start: 95_000_000 }
+    ] }, {}]
+
+    it('prefers the same annotation, then the same label at the same link time', () => {
+        expect(matchAnnotation({ id: 'x2', label: 'Other', start: 0 }, layers, 0).id).toBe('x2')
+        expect(matchAnnotation({ id: 'a1', label: 'Onset', start: 4_000_000 }, layers, 90_000_000).id).toBe('x1')
+        expect(matchAnnotation({ id: 'a1', label: 'Onset', start: 4_000_000 }, layers, 0)).toBeNull()
+    })
+})
@@ -0,0 +1,251 @@
+// utils/viewerSession.js
+//
+// Viewer sessions: what a viewer shows, as plain data that can be saved, sent as a link and
+// restored. A session names its package and records the window, the vertical scale, the
+// montage, the channels' visibility, selection, display and filters, the active annotation
+// layer and the tool:
+//
+//   Session = { version, packageId, start, duration, cursorLoc, verticalScale, montage,
+//               channels: { hidden, selected, display, filters }, activeLayer, tool }
+//
+// Times are in microseconds and the vertical scale in uV/mm. Channels are listed by viewer
+// id, which depends on the montage, so a session's channels are applied after its montage.
+// Only channels that differ from the defaults are listed, which keeps a link short.
+
+import { MAX_CHANNEL_GAIN, MIN_CHANNEL_GAIN, defaultChannelDisplay } from '@/utils/channelDisplay'
+
+/** Version of the session layout. Sessions from a newer version are refused. */
+export const SESSION_VERSION = 1
+
+/** Query parameter a session link carries its session in. */
+export const SESSION_URL_PARAM = 'tsviewer'
+
+/** Tools a session can leave active. */
+const SESSION_TOOLS = ['pointer', 'pan', 'annotate', 'spectrum', 'measure']
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+const validDisplay = (display) => isPlainObject(display) &&
+    (display.gain === undefined || (display.gain >= MIN_CHANNEL_GAIN && display.gain <= MAX_CHANNEL_GAIN)) &&
+    (display.inverted === undefined || typeof display.inverted === 'boolean') &&
+    (display.removeDc === undefined || typeof display.removeDc === 'boolean')
+
+const sameDisplay = (a, b) => a.gain === b.gain && a.inverted === b.inverted && a.removeDc === b.removeDc
+
+/**
+ * Builds a session from the viewer's state.
+ *
+ * @param {object} state
+ * @param {?string} state.packageId
+ * @param {{start: number, duration: number, cursorLoc: number}} state.viewport
+ * @param {?number} state.verticalScale uV/mm.
+ * @param {string} state.montage Montage scheme name, 'NOT_MONTAGED' without one.
+ * @param {Array<{id: string, visible: boolean, selected: boolean, display: object, filter: ?object}>} state.channels
+ *   Viewer channels with their display settings (utils/channelDisplay) and filter.
+ * @param {?(string|number)} state.activeLayer
+ * @param {string} state.tool
+ * @returns {object} Session
+ */
+export function buildSession({ packageId, viewport, verticalScale, montage, channels, activeLayer, tool }) {
+    const defaults = defaultChannelDisplay()
+    const display = {}
+    const filters = []
+    for (const channel of channels) {
+        if (!sameDisplay(channel.display, defaults)) {
+            display[channel.id] = { ...channel.display }
+        }
+        if (channel.filter?.type) {
+            const same = filters.find((entry) => JSON.stringify(entry.filter) === JSON.stringify(channel.filter))
+            if (same) {
+                same.channelIds.push(channel.id)
+            } else {
+                filters.push({ filter: channel.filter, channelIds: [channel.id] })
+            }
+        }
+    }
+    return {
+        version: SESSION_VERSION,
+        packageId: packageId ?? null,
+        start: viewport.start,
+        duration: viewport.duration,
+        cursorLoc: viewport.cursorLoc,
+        verticalScale: verticalScale ?? null,
+        montage: montage || 'NOT_MONTAGED',
+        channels: {
+            hidden: channels.filter((channel) => !channel.visible).map((channel) => channel.id),
+            selected: channels.filter((channel) => channel.selected).map((channel) => channel.id),
+            display,
+            filters
+        },
+        activeLayer: activeLayer ?? null,
+        tool: tool || 'pointer'
+    }
+}
+
+/**
+ * Checks a session and fills in what an older or hand-written one leaves out. Channel
+ * display settings out of range and unknown tools are left out rather than refusing the
+ * whole session, and described in `dropped`.
+ *
+ * @param {*} value
+ * @param {string[]} [dropped] Collects a description of each value left out.
+ * @returns {object} Session
+ */
+export function validateSession(value, dropped = []) {
+    if (!isPlainObject(value)) {
+        throw new Error('A viewer session must be an object')
+    }
+    if (!Number.isInteger(value.version) || value.version < 1) {
+        throw new Error('A viewer session needs a version')
+    }
+    if (value.version > SESSION_VERSION) {
+        throw new Error(`Viewer session version ${value.version} is newer than this viewer reads (${SESSION_VERSION})`)
+    }
+    if (!Number.isFinite(value.start) || !(value.duration > 0)) {
+        throw new Error('A viewer session needs a start and a duration above 0')
+    }
+    if (value.verticalScale !== null && value.verticalScale !== undefined && !(value.verticalScale > 0)) {
+        throw new Error('A viewer session\'s vertical scale must be above 0')
+    }
+    const channels = isPlainObject(value.channels) ? value.channels : {}
+    const idList = (list) => (Array.isArray(list) ? list.filter((id) => typeof id === 'string') : [])
+    const display = {}
+    for (const [id, settings] of Object.entries(isPlainObject(channels.display) ? channels.display : {})) {
+        if (validDisplay(settings)) {
+            display[id] = settings
+        } else {
+            dropped.push(`Display settings of channel ${id} are not valid`)
+        }
+    }
+    let tool = typeof value.tool === 'string' && value.tool ? value.tool : 'pointer'
+    if (!SESSION_TOOLS.includes(tool)) {
+        dropped.push(`Tool "${tool}" is not known here`)
+        tool = 'pointer'
+    }
+    return {
+        version: value.version,
+        packageId: value.packageId ?? null,
+        start: value.start,
+        duration: value.duration,
+        cursorLoc: Number.isFinite(value.cursorLoc) ? Math.min(Math.max(value.cursorLoc, 0), 1) : 0.1,
+        verticalScale: value.verticalScale ?? null,
+        montage: typeof value.montage === 'string' && value.montage ? value.montage : 'NOT_MONTAGED',
+        channels: {
+            hidden: idList(channels.hidden),
+            selected: idList(channels.selected),
+            display,
+            filters: Array.isArray(channels.filters)
+                ? channels.filters.filter((entry) => isPlainObject(entry?.filter) && Array.isArray(entry.channelIds))
+                : []
+        },
+        activeLayer: value.activeLayer ?? null,
+        tool
+    }
+}
+
+/**
+ * What restoring a session does to the viewer's channels: each channel's visibility,
+ * selection and display, which take their defaults unless the session lists them, and the
+ * channels of each filter. Channels the session lists that the viewer does not have are
+ * reported, not applied.
+ *
+ * @param {object} session
+ * @param {Array<{id: string}>} channels The viewer's channels.
+ * @returns {{states: Array<{id: string, visible: boolean, selected: boolean, display: object}>, filters: Array<{filter: ?object, channelIds: string[]}>, missing: string[]}}
+ */
+export function channelPlan(session, channels) {
+    const ids = new Set(channels.map((channel) => channel.id))
+    const { hidden, selected, display, filters } = session.channels
+    const listed = new Set([...hidden, ...selected, ...Object.keys(display), ...filters.flatMap((entry) => entry.channelIds)])
+
+    const states = channels.map(({ id }) => ({
+        id,
+        visible: !hidden.includes(id),
+        selected: selected.includes(id),
+        display: { ...defaultChannelDisplay(), ...(display[id] ?? {}) }
+    }))
+
+    // Channels the session leaves unfiltered are cleared, in one go
+    const filtered = new Set()
+    const planned = []
+    for (const entry of filters) {
+        const channelIds = entry.channelIds.filter((id) => ids.has(id) && !filtered.has(id))
+        channelIds.forEach((id) => filtered.add(id))
+        if (channelIds.length > 0) {
+            planned.push({ filter: entry.filter, channelIds })
+        }
+    }
+    const unfiltered = channels.map(({ id }) => id).filter((id) => !filtered.has(id))
+    if (unfiltered.length > 0) {
+        planned.push({ filter: null, channelIds: unfiltered })
+    }
+
+    return { states, filters: planned, missing: [...listed].filter((id) => !ids.has(id)) }
+}
+
+const toBase64Url = (bytes) => {
+    let binary = ''
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte)
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text) => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * A session as URL-safe text: its JSON in base64url, without padding.
+ *
+ * @param {object} session
+ * @returns {string}
+ */
+export function encodeSession(session) {
+    return toBase64Url(new TextEncoder().encode(JSON.stringify(validateSession(session))))
+}
+
+/**
+ * Reads a session written by {@link encodeSession}.
+ *
+ * @param {string} text
+ * @param {string[]} [dropped] As for {@link validateSession}.
+ * @returns {object} Session
+ */
+export function decodeSession(text, dropped = []) {
+    let value
+    try {
+        value = JSON.parse(new TextDecoder().decode(fromBase64Url(String(text).trim())))
+    } catch {
+        throw new Error('This is not a viewer session link')
+    }
+    return validateSession(value, dropped)
+}
+
+/**
+ * A link to a page with the session in its query.
+ *
+ * @param {string} url The page, e.g. `window.location.href`.
+ * @param {object} session
+ * @param {string} [param]
+ * @returns {string}
+ */
+export function sessionUrl(url, session, param = SESSION_URL_PARAM) {
+    const link = new URL(url)
+    link.searchParams.set(param, encodeSession(session))
+    return link.toString()
+}
+
+/**
+ * The session a link carries, or null when it carries none.
+ *
+ * @param {string} url
+ * @param {string} [param]
+ * @returns {?object} Session
+ */
+export function sessionFromUrl(url, param = SESSION_URL_PARAM) {
+    const text = new URL(url).searchParams.get(param)
+    return text ? decodeSession(text) : null
+}
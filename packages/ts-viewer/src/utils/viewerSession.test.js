@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+    SESSION_VERSION,
+    buildSession,
+    channelPlan,
+    decodeSession,
+    encodeSession,
+    sessionFromUrl,
+    sessionUrl,
+    validateSession
+} from '@/utils/viewerSession'
+
+// 2024-01-01T00:00:00Z
+const START = 1704067200000000
+
+const LOWPASS = { type: 'chain', stages: [{ type: 'lowpass', order: 4, cutoffHz: 70 }] }
+
+const channel = (id, overrides = {}) => ({
+    id,
+    visible: true,
+    selected: false,
+    display: { gain: 1, inverted: false, removeDc: true },
+    filter: {},
+    ...overrides
+})
+
+const state = () => ({
+    packageId: 'N:package:1',
+    viewport: { start: START + 30e6, duration: 10e6, cursorLoc: 0.25 },
+    verticalScale: 50,
+    montage: 'Double Banana',
+    channels: [
+        channel('fp1', { selected: true, filter: LOWPASS }),
+        channel('fp2', { filter: LOWPASS }),
+        channel('ekg', { visible: false, display: { gain: 0.1, inverted: true, removeDc: true } })
+    ],
+    activeLayer: 7,
+    tool: 'annotate'
+})
+
+describe('buildSession', () => {
+    it('lists only the channels that differ from the defaults', () => {
+        const session = buildSession(state())
+        expect(session).toMatchObject({
+            version: SESSION_VERSION,
+            packageId: 'N:package:1',
+            start: START + 30e6,
+            verticalScale: 50,
+            montage: 'Double Banana',
+            activeLayer: 7,
+            tool: 'annotate'
+        })
+        expect(session.channels).toEqual({
+            hidden: ['ekg'],
+            selected: ['fp1'],
+            display: { ekg: { gain: 0.1, inverted: true, removeDc: true } },
+            filters: [{ filter: LOWPASS, channelIds: ['fp1', 'fp2'] }]
+        })
+    })
+})
+
+describe('validateSession', () => {
+    it('fills in what a hand-written session leaves out', () => {
+        const session = validateSession({ version: 1, start: START, duration: 5e6 })
+        expect(session).toMatchObject({ montage: 'NOT_MONTAGED', tool: 'pointer', cursorLoc: 0.1, verticalScale: null })
+        expect(session.channels).toEqual({ hidden: [], selected: [], display: {}, filters: [] })
+    })
+
+    it('refuses malformed and newer sessions', () => {
+        expect(() => validateSession(null)).toThrow('must be an object')
+        expect(() => validateSession({ start: 0, duration: 1 })).toThrow('needs a version')
+        expect(() => validateSession({ version: SESSION_VERSION + 1, start: 0, duration: 1 })).toThrow('newer than')
+        expect(() => validateSession({ version: 1, start: 0, duration: 0 })).toThrow('duration above 0')
+        expect(() => validateSession({ version: 1, start: 0, duration: 1, verticalScale: -1 })).toThrow('vertical scale')
+    })
+
+    it('leaves out display settings out of range and unknown tools, and says so', () => {
+        const dropped = []
+        const session = validateSession({
+            version: 1,
+            start: START,
+            duration: 5e6,
+            channels: {
+                display: {
+                    fp1: { gain: 2, inverted: true },
+                    fp2: { gain: 1000 },
+                    o1: { removeDc: 'yes' },
+                    o2: 3
+                }
+            },
+            tool: 'lasso'
+        }, dropped)
+        expect(session.channels.display).toEqual({ fp1: { gain: 2, inverted: true } })
+        expect(session.tool).toBe('pointer')
+        expect(dropped).toEqual([
+            'Display settings of channel fp2 are not valid',
+            'Display settings of channel o1 are not valid',
+            'Display settings of channel o2 are not valid',
+            'Tool "lasso" is not known here'
+        ])
+    })
+})
+
+describe('channelPlan', () => {
+    it('returns listed channels to the session and the rest to their defaults', () => {
+        const session = buildSession(state())
+        const plan = channelPlan(session, [{ id: 'fp1' }, { id: 'ekg' }, { id: 'o1' }])
+        expect(plan.states).toEqual([
+            { id: 'fp1', visible: true, selected: true, display: { gain: 1, inverted: false, removeDc: true } },
+            { id: 'ekg', visible: false, selected: false, display: { gain: 0.1, inverted: true, removeDc: true } },
+            { id: 'o1', visible: true, selected: false, display: { gain: 1, inverted: false, removeDc: true } }
+        ])
+        expect(plan.filters).toEqual([
+            { filter: LOWPASS, channelIds: ['fp1'] },
+            { filter: null, channelIds: ['ekg', 'o1'] }
+        ])
+        expect(plan.missing).toEqual(['fp2'])
+    })
+})
+
+describe('encoding', () => {
+    it('round-trips through URL-safe text and links', () => {
+        const session = buildSession({ ...state(), montage: 'Bipolar ±' })
+        const text = encodeSession(session)
+        expect(text).toMatch(/^[\w-]+$/)
+        expect(decodeSession(text)).toEqual(session)
+
+        const link = sessionUrl('https://example.org/viewer?dataset=3#top', session)
+        expect(new URL(link).searchParams.get('dataset')).toBe('3')
+        expect(sessionFromUrl(link)).toEqual(session)
+        expect(sessionFromUrl('https://example.org/viewer')).toBeNull()
+    })
+
+    it('says when text is not a session', () => {
+        expect(() => decodeSession('not a session')).toThrow('not a viewer session link')
+        expect(() => decodeSession(btoa('{"version":1}'))).toThrow('needs a start')
+    })
+})
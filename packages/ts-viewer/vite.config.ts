@@ -34,6 +34,11 @@ export default defineConfig({
       "@": resolve(__dirname, "src"),
     },
   },
+  // The page decoder's worker loads the Zarr reader with a dynamic import, which the default
+  // iife worker format cannot code-split.
+  worker: {
+    format: "es",
+  },
   build: {
     lib: {
       entry: resolve(__dirname, "src/index.js"),